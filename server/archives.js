@@ -0,0 +1,487 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { promisify } from 'util';
+
+// Read-only access to files inside .zip archives and Unity packages, so asset packs
+// can be browsed like folders without extracting them. Files inside an archive get
+// virtual paths below the archive file: /packs/props.zip/Models/crate.glb
+
+const inflateRaw = promisify(zlib.inflateRaw);
+
+export const ARCHIVE_EXTENSIONS = ['.zip', '.unitypackage'];
+
+// Unity packages have to be decompressed as a whole to be listed; contents of packages
+// up to this size are kept in memory so opening files doesn't decompress them again
+const UNITY_PACKAGE_MEMORY_LIMIT = 64 * 1024 * 1024;
+
+// How many opened archives are kept around
+const MAX_OPEN_ARCHIVES = 2;
+
+// Largest file read out of a zip, whatever size the archive claims for it
+const MAX_ZIP_ENTRY_SIZE = 256 * 1024 * 1024;
+
+// Unity package `pathname` and `preview.png` files and tar long name headers are
+// always kept in memory, larger ones are broken or not what they claim to be
+const UNITY_PATHNAME_SIZE_LIMIT = 4096;
+const UNITY_PREVIEW_SIZE_LIMIT = 1024 * 1024;
+const TAR_HEADER_SIZE_LIMIT = 64 * 1024;
+
+export const isArchiveName = (name) => ARCHIVE_EXTENSIONS.includes(path.extname(name).toLowerCase());
+
+// Clean up a path stored in an archive, returns null for paths that would escape it
+const normalizeInnerPath = (name) => {
+  const parts = name.replace(/\\/g, '/').split('/').filter(part => part && part !== '.');
+  if (parts.some(part => part === '..')) return null;
+  return parts.join('/');
+};
+
+// Split `/packs/props.zip/Models/crate.glb` into the archive file and the path inside it.
+// Returns null when no part of the path is an archive file.
+export const splitArchivePath = async (requestedPath) => {
+  const parts = path.resolve(requestedPath).split(path.sep);
+
+  for (let i = 1; i < parts.length; i++) {
+    if (!isArchiveName(parts[i])) continue;
+
+    const archivePath = parts.slice(0, i + 1).join(path.sep);
+    const stats = await fs.promises.stat(archivePath).catch(() => null);
+    if (!stats) return null;
+    if (stats.isFile()) {
+      return { archivePath, innerPath: parts.slice(i + 1).join('/') };
+    }
+  }
+  return null;
+};
+
+// Directory tree over the files of an archive. Folders that only exist implicitly
+// (as part of a file path) are created on the way.
+class Archive {
+  constructor(filePath, stats) {
+    this.filePath = filePath;
+    this.modified = stats.mtime;
+    this.root = { name: path.basename(filePath), path: '', isDirectory: true, size: 0, modified: stats.mtime, children: new Map() };
+    this.entries = new Map([['', this.root]]);
+  }
+
+  addEntry(innerPath, { isDirectory = false, size = 0, modified = this.modified, ...extra } = {}) {
+    const normalized = normalizeInnerPath(innerPath);
+    if (!normalized) return null;
+
+    const parent = this.ensureDirectory(path.posix.dirname(normalized));
+    const existing = this.entries.get(normalized);
+    if (existing) {
+      // A folder listed after files inside it, keep the one we have
+      if (existing.isDirectory && isDirectory) return existing;
+    }
+
+    const entry = {
+      name: path.posix.basename(normalized),
+      path: normalized,
+      isDirectory,
+      size,
+      modified,
+      ...(isDirectory ? { children: new Map() } : {}),
+      ...extra
+    };
+    this.entries.set(normalized, entry);
+    parent.children.set(entry.name, entry);
+    return entry;
+  }
+
+  ensureDirectory(innerPath) {
+    if (innerPath === '.' || innerPath === '') return this.root;
+
+    const existing = this.entries.get(innerPath);
+    if (existing?.isDirectory) return existing;
+    return this.addEntry(innerPath, { isDirectory: true });
+  }
+
+  getEntry(innerPath) {
+    const normalized = normalizeInnerPath(innerPath);
+    return normalized === null ? null : this.entries.get(normalized) || null;
+  }
+
+  list(entry) {
+    return entry.isDirectory ? Array.from(entry.children.values()) : [];
+  }
+
+  // Every entry below a folder, closest ones first
+  *walk(entry) {
+    const queue = [entry];
+    while (queue.length > 0) {
+      const current = queue.shift();
+      for (const child of current.children.values()) {
+        yield child;
+        if (child.isDirectory) queue.push(child);
+      }
+    }
+  }
+
+  // Path clients use for an entry
+  virtualPath(entry) {
+    return entry.path ? path.join(this.filePath, ...entry.path.split('/')) : this.filePath;
+  }
+
+  // Thumbnail stored alongside the file by the tool that made the archive, if any
+  getPreview() {
+    return null;
+  }
+}
+
+// Zip archives: only the central directory is read up front, files are read on demand
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP_CENTRAL_FILE_HEADER = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATED = 8;
+
+const readAt = async (handle, position, length) => {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+};
+
+const dosDateTime = (date, time) => new Date(
+  ((date >> 9) & 0x7f) + 1980, ((date >> 5) & 0x0f) - 1, date & 0x1f,
+  (time >> 11) & 0x1f, (time >> 5) & 0x3f, (time & 0x1f) * 2
+);
+
+class ZipArchive extends Archive {
+  static async open(filePath, stats) {
+    const archive = new ZipArchive(filePath, stats);
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      await archive.readCentralDirectory(handle, stats.size);
+    } finally {
+      await handle.close();
+    }
+    return archive;
+  }
+
+  async readCentralDirectory(handle, fileSize) {
+    // The end record sits at the very end, after a comment of up to 64 KB
+    const tailLength = Math.min(fileSize, 22 + 0xffff);
+    const tailStart = fileSize - tailLength;
+    const tail = await readAt(handle, tailStart, tailLength);
+
+    let end = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+        end = i;
+        break;
+      }
+    }
+    if (end === -1) throw new Error('Not a zip file');
+
+    let entryCount = tail.readUInt16LE(end + 10);
+    let directorySize = tail.readUInt32LE(end + 12);
+    let directoryOffset = tail.readUInt32LE(end + 16);
+
+    if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+      if (end < 20 || tail.readUInt32LE(end - 20) !== ZIP64_END_LOCATOR) throw new Error('Broken zip64 archive');
+      const zip64End = await readAt(handle, Number(tail.readBigUInt64LE(end - 20 + 8)), 56);
+      if (zip64End.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY) throw new Error('Broken zip64 archive');
+      entryCount = Number(zip64End.readBigUInt64LE(32));
+      directorySize = Number(zip64End.readBigUInt64LE(40));
+      directoryOffset = Number(zip64End.readBigUInt64LE(48));
+    }
+
+    if (directoryOffset + directorySize > fileSize) throw new Error('Broken zip central directory');
+    this.fileSize = fileSize;
+    const directory = await readAt(handle, directoryOffset, directorySize);
+    let offset = 0;
+
+    for (let i = 0; i < entryCount && offset + 46 <= directory.length; i++) {
+      if (directory.readUInt32LE(offset) !== ZIP_CENTRAL_FILE_HEADER) throw new Error('Broken zip central directory');
+
+      const flags = directory.readUInt16LE(offset + 8);
+      const method = directory.readUInt16LE(offset + 10);
+      const modified = dosDateTime(directory.readUInt16LE(offset + 14), directory.readUInt16LE(offset + 12));
+      let compressedSize = directory.readUInt32LE(offset + 20);
+      let size = directory.readUInt32LE(offset + 24);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      let localHeaderOffset = directory.readUInt32LE(offset + 42);
+
+      const nameStart = offset + 46;
+      // Bit 11 marks UTF-8 names, older tools use the DOS code page (close enough to latin1)
+      const name = directory.toString(flags & 0x800 ? 'utf8' : 'latin1', nameStart, nameStart + nameLength);
+
+      // Sizes and offsets that don't fit 32 bits are in the zip64 extra field, in this order
+      const extraStart = nameStart + nameLength;
+      for (let p = extraStart; p + 4 <= extraStart + extraLength;) {
+        const id = directory.readUInt16LE(p);
+        const length = directory.readUInt16LE(p + 2);
+        if (id === 0x0001) {
+          let field = p + 4;
+          if (size === 0xffffffff) { size = Number(directory.readBigUInt64LE(field)); field += 8; }
+          if (compressedSize === 0xffffffff) { compressedSize = Number(directory.readBigUInt64LE(field)); field += 8; }
+          if (localHeaderOffset === 0xffffffff) { localHeaderOffset = Number(directory.readBigUInt64LE(field)); }
+        }
+        p += 4 + length;
+      }
+
+      offset = extraStart + extraLength + commentLength;
+
+      // Resource forks macOS adds to zips it creates
+      if (name.startsWith('__MACOSX/')) continue;
+
+      // Data that can't be in the file, reading it would allocate whatever the entry claims
+      if (compressedSize > MAX_ZIP_ENTRY_SIZE || localHeaderOffset + compressedSize > fileSize) continue;
+
+      if (name.endsWith('/')) {
+        this.addEntry(name, { isDirectory: true, modified });
+      } else {
+        this.addEntry(name, {
+          size,
+          modified,
+          zip: { method, compressedSize, localHeaderOffset, encrypted: (flags & 0x1) !== 0 }
+        });
+      }
+    }
+  }
+
+  async read(entry) {
+    const { method, compressedSize, localHeaderOffset, encrypted } = entry.zip;
+    if (encrypted) throw new Error('Encrypted zip entries are not supported');
+    if (entry.size > MAX_ZIP_ENTRY_SIZE) throw new Error('Zip entry is too large to open');
+
+    const handle = await fs.promises.open(this.filePath, 'r');
+    try {
+      // The local header repeats the name and may have a different extra field
+      const header = await readAt(handle, localHeaderOffset, 30);
+      if (header.length < 30 || header.readUInt32LE(0) !== ZIP_LOCAL_FILE_HEADER) throw new Error('Broken zip entry');
+      const dataStart = localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+      if (dataStart + compressedSize > this.fileSize) throw new Error('Broken zip entry');
+      const data = await readAt(handle, dataStart, compressedSize);
+
+      let content;
+      if (method === ZIP_METHOD_STORED) {
+        content = data;
+      } else if (method === ZIP_METHOD_DEFLATED) {
+        // Never inflate past the declared size, a forged size can't make it unpack a bomb
+        content = await inflateRaw(data, { maxOutputLength: Math.max(entry.size, 1) }).catch((error) => {
+          if (error.code === 'ERR_BUFFER_TOO_LARGE') throw new Error('Zip entry is larger than the archive says');
+          throw error;
+        });
+      } else {
+        throw new Error(`Unsupported zip compression method ${method}`);
+      }
+      if (content.length !== entry.size) throw new Error('Zip entry size doesn\'t match the archive');
+      return content;
+    } finally {
+      await handle.close();
+    }
+  }
+}
+
+// Stream a .tar.gz and call `onEntry(name, size, data)` for every file. `data` is only
+// collected for entries `keep(name, size)` returns true for; `onEntry` returning true stops early.
+const scanTarGz = (filePath, { keep, onEntry }) => new Promise((resolve, reject) => {
+  const input = fs.createReadStream(filePath);
+  const gunzip = zlib.createGunzip();
+  let pending = Buffer.alloc(0);
+  let current = null; // Entry whose data is being read
+  let padding = 0; // Bytes to skip up to the next 512 byte block
+  let longName = null;
+  let done = false;
+
+  const finish = (error) => {
+    if (done) return;
+    done = true;
+    input.destroy();
+    gunzip.destroy();
+    if (error) reject(error);
+    else resolve();
+  };
+
+  const handleEntry = (entry, data) => {
+    if ((entry.type === 'L' || entry.type === 'x') && !data) {
+      // Header too large to keep, the next entry keeps its short name
+    } else if (entry.type === 'L') {
+      // GNU long name for the next entry
+      longName = data.toString('utf8').replace(/\0.*$/s, '');
+    } else if (entry.type === 'x') {
+      // pax header, only the path matters here
+      const match = data.toString('utf8').match(/^\d+ path=(.*)$/m);
+      if (match) longName = match[1];
+    } else if (entry.type === '0' || entry.type === '') {
+      return onEntry(entry.name, entry.size, data);
+    }
+    return false;
+  };
+
+  gunzip.on('data', (chunk) => {
+    if (done) return;
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+    let offset = 0;
+
+    while (!done) {
+      if (padding > 0) {
+        const skipped = Math.min(padding, pending.length - offset);
+        padding -= skipped;
+        offset += skipped;
+        if (padding > 0) break;
+      }
+
+      if (current) {
+        const take = Math.min(current.remaining, pending.length - offset);
+        if (current.chunks) current.chunks.push(pending.subarray(offset, offset + take));
+        current.remaining -= take;
+        offset += take;
+        if (current.remaining > 0) break;
+
+        const entry = current;
+        current = null;
+        padding = (512 - (entry.size % 512)) % 512;
+        if (handleEntry(entry, entry.chunks ? Buffer.concat(entry.chunks) : null)) return finish();
+        continue;
+      }
+
+      if (pending.length - offset < 512) break;
+      const header = pending.subarray(offset, offset + 512);
+      offset += 512;
+
+      // Two zero blocks end the archive
+      if (header.every(byte => byte === 0)) return finish();
+
+      const readString = (start, length) => header.toString('utf8', start, start + length).replace(/\0.*$/s, '');
+      const size = parseInt(readString(124, 12).trim(), 8) || 0;
+      const type = readString(156, 1);
+      const prefix = readString(345, 155);
+      let name = prefix ? `${prefix}/${readString(0, 100)}` : readString(0, 100);
+      if (longName && type !== 'L' && type !== 'x') {
+        name = longName;
+        longName = null;
+      }
+
+      const wanted = type === 'L' || type === 'x' ? size <= TAR_HEADER_SIZE_LIMIT : keep(name, size);
+      current = { name, size, type, remaining: size, chunks: wanted ? [] : null };
+    }
+
+    pending = pending.subarray(offset);
+  });
+
+  gunzip.on('end', () => finish());
+  gunzip.on('error', finish);
+  input.on('error', finish);
+  input.pipe(gunzip);
+});
+
+// Unity packages are gzipped tarballs with one folder per asset GUID holding
+// `pathname` (the path in the project), `asset` (the file itself) and `preview.png`
+class UnityPackage extends Archive {
+  static async open(filePath, stats) {
+    const archive = new UnityPackage(filePath, stats);
+    const assets = new Map();
+    let keptBytes = 0;
+
+    const assetFor = (name) => {
+      const [guid, file] = normalizeInnerPath(name)?.split('/') || [];
+      if (!guid || !file) return {};
+      if (!assets.has(guid)) assets.set(guid, { guid });
+      return { asset: assets.get(guid), file };
+    };
+
+    await scanTarGz(filePath, {
+      keep: (name, size) => {
+        const { file } = assetFor(name);
+        if (file === 'pathname') return size <= UNITY_PATHNAME_SIZE_LIMIT;
+        if (file === 'preview.png') return size <= UNITY_PREVIEW_SIZE_LIMIT;
+        if (file === 'asset' && keptBytes + size <= UNITY_PACKAGE_MEMORY_LIMIT) {
+          keptBytes += size;
+          return true;
+        }
+        return false;
+      },
+      onEntry: (name, size, data) => {
+        const { asset, file } = assetFor(name);
+        if (!asset) return;
+        if (file === 'pathname' && data) asset.pathname = data.toString('utf8').split(/\r?\n/)[0].trim();
+        if (file === 'preview.png' && data) asset.preview = data;
+        if (file === 'asset') {
+          asset.hasFile = true;
+          asset.size = size;
+          asset.data = data;
+        }
+      }
+    });
+
+    for (const asset of assets.values()) {
+      if (!asset.pathname) continue;
+      if (asset.hasFile) {
+        archive.addEntry(asset.pathname, { size: asset.size, unity: asset });
+      } else {
+        archive.ensureDirectory(normalizeInnerPath(asset.pathname) || '');
+      }
+    }
+
+    console.log(`📦 Opened Unity package ${filePath} (${assets.size} assets${keptBytes > 0 ? `, ${(keptBytes / 1024 / 1024).toFixed(1)} MB in memory` : ''})`);
+    return archive;
+  }
+
+  async read(entry) {
+    const asset = entry.unity;
+    if (asset.data) return asset.data;
+
+    // Too big to keep in memory, decompress again up to this asset
+    let data = null;
+    const target = `${asset.guid}/asset`;
+    await scanTarGz(this.filePath, {
+      keep: (name) => normalizeInnerPath(name) === target,
+      onEntry: (name, size, entryData) => {
+        if (normalizeInnerPath(name) !== target) return false;
+        data = entryData;
+        return true;
+      }
+    });
+    if (!data) throw new Error('Asset is missing from the package');
+    return data;
+  }
+
+  getPreview(entry) {
+    return entry.unity?.preview || null;
+  }
+}
+
+const ARCHIVE_TYPES = {
+  '.zip': ZipArchive,
+  '.unitypackage': UnityPackage
+};
+
+// Keeps recently opened archives, reopened when the file changes on disk
+export class ArchiveCache {
+  constructor({ maxArchives = MAX_OPEN_ARCHIVES } = {}) {
+    this.maxArchives = maxArchives;
+    this.archives = new Map();
+  }
+
+  async open(filePath) {
+    const stats = await fs.promises.stat(filePath);
+    const cached = this.archives.get(filePath);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      // Move to the end, the first entry is the least recently used
+      this.archives.delete(filePath);
+      this.archives.set(filePath, cached);
+      return cached.archive;
+    }
+
+    const ArchiveType = ARCHIVE_TYPES[path.extname(filePath).toLowerCase()];
+    if (!ArchiveType) throw new Error('Not an archive');
+
+    // Opening is shared by concurrent requests for the same archive
+    const archive = ArchiveType.open(filePath, stats);
+    this.archives.set(filePath, { archive, mtimeMs: stats.mtimeMs, size: stats.size });
+    archive.catch(() => this.archives.delete(filePath));
+
+    while (this.archives.size > this.maxArchives) {
+      this.archives.delete(this.archives.keys().next().value);
+    }
+    return archive;
+  }
+}
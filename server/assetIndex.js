@@ -0,0 +1,250 @@
+import fs from 'fs';
+import path from 'path';
+
+// How often the favorite roots are re-crawled in the background
+const RECRAWL_INTERVAL = 15 * 60 * 1000;
+
+// Yield to the event loop every N entries so requests keep flowing while crawling
+const YIELD_EVERY = 250;
+
+const yieldToEventLoop = () => new Promise(resolve => setImmediate(resolve));
+
+const isInsideRoot = (filePath, root) => {
+  const relative = path.relative(root, filePath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+};
+
+// Persistent index of every asset below the favorite folders
+export class AssetIndex {
+  constructor({ indexFile, getFileType, isExcluded }) {
+    this.indexFile = indexFile;
+    this.getFileType = getFileType;
+    this.isExcluded = isExcluded;
+    this.roots = [];
+    this.entries = new Map();
+    this.updatedAt = null;
+    this.indexing = false;
+    this.pendingCrawl = false;
+    this.recrawlTimer = null;
+  }
+
+  // Load the index from disk and start crawling in the background
+  start() {
+    this.load();
+    this.crawl();
+    this.recrawlTimer = setInterval(() => this.crawl(), RECRAWL_INTERVAL);
+  }
+
+  load() {
+    try {
+      if (!fs.existsSync(this.indexFile)) return;
+
+      const data = JSON.parse(fs.readFileSync(this.indexFile, 'utf8'));
+      this.roots = Array.isArray(data.roots) ? data.roots : [];
+      this.updatedAt = data.updatedAt || null;
+      this.entries = new Map((data.entries || []).map(entry => [entry.path, entry]));
+      console.log(`📇 Loaded asset index with ${this.entries.size} entries from ${this.indexFile}`);
+    } catch (e) {
+      console.error('Failed to load asset index, starting from scratch:', e.message);
+      this.entries = new Map();
+    }
+  }
+
+  async save() {
+    const data = {
+      version: 1,
+      roots: this.roots,
+      updatedAt: this.updatedAt,
+      entries: Array.from(this.entries.values())
+    };
+
+    await fs.promises.mkdir(path.dirname(this.indexFile), { recursive: true });
+    // Write to a temp file first so a crash never leaves a half-written index
+    const tempFile = `${this.indexFile}.tmp`;
+    await fs.promises.writeFile(tempFile, JSON.stringify(data));
+    await fs.promises.rename(tempFile, this.indexFile);
+  }
+
+  setRoots(roots) {
+    const normalized = [...new Set(
+      roots.filter(root => typeof root === 'string' && root.trim()).map(root => path.resolve(root.trim()))
+    )];
+
+    const changed = normalized.length !== this.roots.length ||
+      normalized.some(root => !this.roots.includes(root));
+    if (!changed) return false;
+
+    this.roots = normalized;
+
+    // Drop entries that no longer belong to any root
+    for (const entryPath of this.entries.keys()) {
+      if (!this.roots.some(root => isInsideRoot(entryPath, root))) {
+        this.entries.delete(entryPath);
+      }
+    }
+
+    this.crawl();
+    return true;
+  }
+
+  async crawl() {
+    if (this.indexing) {
+      // Another crawl is running, run once more when it finishes
+      this.pendingCrawl = true;
+      return;
+    }
+
+    this.indexing = true;
+    const startTime = Date.now();
+
+    try {
+      do {
+        this.pendingCrawl = false;
+        const crawled = new Map();
+
+        for (const root of this.roots) {
+          await this.crawlRoot(root, crawled);
+        }
+
+        this.entries = crawled;
+        this.updatedAt = new Date().toISOString();
+        await this.save();
+      } while (this.pendingCrawl);
+
+      console.log(`📇 Indexed ${this.entries.size} entries in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+    } catch (e) {
+      console.error('Error crawling asset folders:', e);
+    } finally {
+      this.indexing = false;
+    }
+  }
+
+  async crawlRoot(root, crawled) {
+    const stack = [root];
+    let visited = 0;
+
+    while (stack.length > 0) {
+      const dirPath = stack.pop();
+
+      let dirents;
+      try {
+        dirents = await fs.promises.readdir(dirPath, { withFileTypes: true });
+      } catch (e) {
+        // Permission denied or the folder disappeared mid-crawl
+        continue;
+      }
+
+      for (const dirent of dirents) {
+        if (this.isExcluded(dirent.name)) continue;
+        // Don't follow symlinks to avoid crawling the same tree twice (or forever)
+        if (dirent.isSymbolicLink()) continue;
+
+        const itemPath = path.join(dirPath, dirent.name);
+        try {
+          const stats = await fs.promises.stat(itemPath);
+          const isDirectory = stats.isDirectory();
+
+          crawled.set(itemPath, {
+            name: dirent.name,
+            path: itemPath,
+            parentPath: dirPath,
+            isDirectory,
+            fileType: isDirectory ? 'folder' : this.getFileType(itemPath),
+            size: stats.size,
+            mtime: stats.mtimeMs
+          });
+
+          if (isDirectory) stack.push(itemPath);
+        } catch (e) {
+          continue;
+        }
+
+        if (++visited % YIELD_EVERY === 0) {
+          await yieldToEventLoop();
+        }
+      }
+    }
+  }
+
+  // Keep the index in sync with live filesystem events without waiting for a re-crawl
+  applyChange({ type, path: itemPath, item }) {
+    if (!this.roots.some(root => isInsideRoot(itemPath, root))) return;
+
+    if (type === 'delete') {
+      for (const entryPath of this.entries.keys()) {
+        if (isInsideRoot(entryPath, itemPath)) this.entries.delete(entryPath);
+      }
+      return;
+    }
+
+    if (item) {
+      this.entries.set(itemPath, {
+        name: item.name,
+        path: itemPath,
+        parentPath: path.dirname(itemPath),
+        isDirectory: item.isDirectory,
+        fileType: item.fileType,
+        size: item.size,
+        mtime: new Date(item.modified).getTime()
+      });
+    }
+  }
+
+  // Search entry names; every whitespace separated term has to match. With a `filter`
+  // (e.g. by tags) the query may be empty.
+  search(query, { type, limit = 500, filter = null } = {}) {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0 && !filter) return { results: [], total: 0 };
+
+    const fullQuery = terms.join(' ');
+    const matches = [];
+
+    for (const entry of this.entries.values()) {
+      if (type && entry.fileType !== type) continue;
+      if (filter && !filter(entry)) continue;
+
+      const name = entry.name.toLowerCase();
+      if (!terms.every(term => name.includes(term))) continue;
+
+      // Score exact and prefix matches above plain substring matches
+      const baseName = path.basename(name, path.extname(name));
+      let score = 0;
+      if (baseName === fullQuery) score += 100;
+      if (terms.length > 0 && name.startsWith(terms[0])) score += 50;
+      if (!entry.isDirectory && entry.fileType !== 'unknown') score += 10;
+
+      matches.push({ entry, score });
+    }
+
+    matches.sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name));
+
+    return {
+      results: matches.slice(0, limit).map(({ entry }) => this.toFileItem(entry)),
+      total: matches.length
+    };
+  }
+
+  toFileItem(entry) {
+    return {
+      name: entry.name,
+      path: entry.path,
+      parentPath: entry.parentPath,
+      isDirectory: entry.isDirectory,
+      fileType: entry.fileType,
+      hasAssets: false,
+      firstAsset: null,
+      size: entry.size,
+      modified: new Date(entry.mtime).toISOString(),
+      extension: entry.isDirectory ? null : path.extname(entry.name).toLowerCase()
+    };
+  }
+
+  getStatus() {
+    return {
+      roots: this.roots,
+      indexing: this.indexing,
+      entryCount: this.entries.size,
+      updatedAt: this.updatedAt
+    };
+  }
+}
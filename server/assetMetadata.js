@@ -0,0 +1,770 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import sharp from 'sharp';
+import { getModelStats } from './modelParsers.js';
+import { getMusicFormat } from './audioFormats.js';
+import { WAV_CODECS, findMpegFrame, id3Size, readWavLayout } from './audioFormats.js';
+
+// Per-type details for the inspector and the grid. Only headers are read (except for
+// models and fonts), every reader returns a plain object or null when the format isn't
+// understood:
+//   image: { width, height, hasAlpha, channels, bitDepth, bitsPerPixel, colorSpace, palette, frames }
+//   audio: { codec, duration, sampleRate, channels, bitDepth, bitrate }
+//   video: { codec, duration, width, height, frameRate, audioCodec }
+//   model: { meshes, vertices, triangles, materials, animations, bones }
+//   font:  { family, style, fullName, weight, glyphs }
+// Every value may be missing when the file doesn't store it.
+
+// Fonts and the moov box of MP4 files are read whole, but not beyond this
+const MAX_READ_BYTES = 64 * 1024 * 1024;
+
+// Files are read through this so archive entries (already in memory) work the same way
+const openSource = async (source) => {
+  if (Buffer.isBuffer(source)) {
+    return {
+      size: source.length,
+      read: async (offset, length) => source.subarray(offset, Math.min(offset + length, source.length)),
+      close: async () => {}
+    };
+  }
+
+  const handle = await fs.promises.open(source, 'r');
+  const { size } = await handle.stat();
+  return {
+    size,
+    read: async (offset, length) => {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+      return buffer.subarray(0, bytesRead);
+    },
+    close: () => handle.close()
+  };
+};
+
+// Drop missing values so the cache and the responses stay small
+const compact = (object) => Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined && value !== null && !Number.isNaN(value)));
+
+// ---------------------------------------------------------------------------
+// Images
+
+const SHARP_DEPTHS = { uchar: 8, char: 8, ushort: 16, short: 16, uint: 32, int: 32, float: 32, double: 64 };
+
+const readBmp = async (file) => {
+  const header = await file.read(0, 30);
+  if (header.length < 30 || header.toString('latin1', 0, 2) !== 'BM') return null;
+
+  const bitsPerPixel = header.readUInt16LE(28);
+  return {
+    width: header.readInt32LE(18),
+    height: Math.abs(header.readInt32LE(22)),
+    hasAlpha: bitsPerPixel === 32,
+    bitsPerPixel,
+    palette: bitsPerPixel <= 8
+  };
+};
+
+const readImage = async (source, file) => {
+  let metadata;
+  try {
+    metadata = await sharp(source).metadata();
+  } catch (e) {
+    // BMP isn't one of sharp's formats
+    return readBmp(file);
+  }
+
+  const bitDepth = SHARP_DEPTHS[metadata.depth];
+  const palette = metadata.paletteBitDepth !== undefined;
+  return {
+    width: metadata.width,
+    height: metadata.pageHeight ?? metadata.height,
+    hasAlpha: metadata.hasAlpha,
+    channels: metadata.channels,
+    bitDepth: palette ? undefined : bitDepth,
+    bitsPerPixel: palette ? metadata.paletteBitDepth : bitDepth && bitDepth * metadata.channels,
+    colorSpace: metadata.space,
+    palette,
+    frames: metadata.pages > 1 ? metadata.pages : undefined
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Audio
+
+const readWav = async (file) => {
+  const layout = await readWavLayout(file);
+  if (!layout) return null;
+  if (!layout.format) return {};
+
+  const { tag, channels, sampleRate, byteRate, bitsPerSample } = layout.format;
+  return {
+    codec: WAV_CODECS[tag] || `Format ${tag}`,
+    channels,
+    sampleRate,
+    bitDepth: bitsPerSample || undefined,
+    bitrate: byteRate * 8,
+    duration: layout.dataOffset !== null && byteRate > 0 ? layout.dataSize / byteRate : undefined
+  };
+};
+
+const readFlac = async (file, start) => {
+  const header = await file.read(start, 42);
+  if (header.toString('latin1', 0, 4) !== 'fLaC') return null;
+
+  // STREAMINFO is always the first metadata block
+  const info = header.subarray(8);
+  const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+  const totalSamples = (info[13] & 0x0f) * 2 ** 32 + info.readUInt32BE(14);
+  return {
+    codec: 'FLAC',
+    sampleRate,
+    channels: ((info[12] >> 1) & 0x07) + 1,
+    bitDepth: (((info[12] & 0x01) << 4) | (info[13] >> 4)) + 1,
+    duration: totalSamples && sampleRate ? totalSamples / sampleRate : undefined
+  };
+};
+
+const readMp3 = async (file, start) => {
+  const buffer = await file.read(start, 64 * 1024);
+
+  const found = findMpegFrame(buffer);
+  if (!found) return null;
+  const { offset, frame } = found;
+
+  const result = {
+    codec: `MPEG-${frame.isMpeg1 ? 1 : 2} Layer ${'I'.repeat(frame.layer)}`,
+    sampleRate: frame.sampleRate,
+    channels: frame.mono ? 1 : 2,
+    bitrate: frame.bitrate
+  };
+
+  // VBR files count their frames in a Xing/Info or VBRI header inside the first frame
+  const sideInfo = frame.isMpeg1 ? (frame.mono ? 17 : 32) : (frame.mono ? 9 : 17);
+  const xing = offset + 4 + sideInfo;
+  const vbri = offset + 36;
+  let frameCount = null;
+  if (['Xing', 'Info'].includes(buffer.toString('latin1', xing, xing + 4)) && buffer.readUInt32BE(xing + 4) & 0x01) {
+    frameCount = buffer.readUInt32BE(xing + 8);
+  } else if (buffer.toString('latin1', vbri, vbri + 4) === 'VBRI') {
+    frameCount = buffer.readUInt32BE(vbri + 14);
+  }
+
+  if (frameCount) {
+    result.duration = frameCount * frame.samplesPerFrame / frame.sampleRate;
+    result.bitrate = Math.round((file.size - start - offset) * 8 / result.duration);
+  } else {
+    const tail = await file.read(Math.max(file.size - 128, 0), 3);
+    const audioBytes = file.size - start - offset - (tail.toString('latin1') === 'TAG' ? 128 : 0);
+    result.duration = audioBytes * 8 / frame.bitrate;
+  }
+  return result;
+};
+
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+const readAdts = async (file, start) => {
+  const buffer = await file.read(start, 1024 * 1024);
+  if (buffer.length < 7 || buffer[0] !== 0xff || (buffer[1] & 0xf6) !== 0xf0) return null;
+
+  const sampleRate = ADTS_SAMPLE_RATES[(buffer[2] >> 2) & 0x0f];
+  const channels = ((buffer[2] & 0x01) << 2) | (buffer[3] >> 6);
+
+  // Walk the frames in the first megabyte and extrapolate to the whole file
+  let offset = 0;
+  let frames = 0;
+  while (offset + 7 <= buffer.length && buffer[offset] === 0xff && (buffer[offset + 1] & 0xf6) === 0xf0) {
+    const frameLength = ((buffer[offset + 3] & 0x03) << 11) | (buffer[offset + 4] << 3) | (buffer[offset + 5] >> 5);
+    if (frameLength < 7) break;
+    offset += frameLength;
+    frames++;
+  }
+
+  const duration = frames > 0 && sampleRate ? (file.size - start) / (offset / frames) * 1024 / sampleRate : undefined;
+  return {
+    codec: 'AAC',
+    sampleRate,
+    channels: channels || undefined,
+    duration,
+    bitrate: duration ? Math.round((file.size - start) * 8 / duration) : undefined
+  };
+};
+
+const readOgg = async (file) => {
+  const first = await file.read(0, 27 + 255 + 64);
+  if (first.toString('latin1', 0, 4) !== 'OggS') return null;
+
+  const serial = first.readUInt32LE(14);
+  const packet = first.subarray(27 + first[26]);
+  let result;
+  let preSkip = 0;
+  if (packet[0] === 0x01 && packet.toString('latin1', 1, 7) === 'vorbis') {
+    result = {
+      codec: 'Vorbis',
+      channels: packet[11],
+      sampleRate: packet.readUInt32LE(12),
+      bitrate: packet.readInt32LE(20) > 0 ? packet.readInt32LE(20) : undefined
+    };
+  } else if (packet.toString('latin1', 0, 8) === 'OpusHead') {
+    // Opus always runs at 48 kHz, the input rate is only informative
+    preSkip = packet.readUInt16LE(10);
+    result = { codec: 'Opus', channels: packet[9], sampleRate: 48000 };
+  } else {
+    return { codec: packet.subarray(1, 7).toString('latin1').replace(/[^\w]/g, '') || undefined };
+  }
+
+  // The granule position of the last page is the total number of samples
+  const tail = await file.read(Math.max(file.size - 64 * 1024, 0), 64 * 1024);
+  for (let offset = tail.lastIndexOf('OggS'); offset >= 0; offset = offset > 0 ? tail.lastIndexOf('OggS', offset - 1) : -1) {
+    if (offset + 27 > tail.length || tail.readUInt32LE(offset + 14) !== serial) continue;
+    const granule = Number(tail.readBigUInt64LE(offset + 6));
+    if (granule > 0) result.duration = (granule - preSkip) / result.sampleRate;
+    break;
+  }
+  if (result.duration && !result.bitrate) result.bitrate = Math.round(file.size * 8 / result.duration);
+  return result;
+};
+
+// ---------------------------------------------------------------------------
+// MP4 / M4A / MOV
+
+const MP4_CODECS = {
+  avc1: 'H.264', avc3: 'H.264', hvc1: 'H.265 (HEVC)', hev1: 'H.265 (HEVC)', av01: 'AV1', vp08: 'VP8', vp09: 'VP9',
+  mp4v: 'MPEG-4 Part 2', 'jpeg': 'Motion JPEG', apch: 'ProRes 422 HQ', apcn: 'ProRes 422', apcs: 'ProRes 422 LT',
+  apco: 'ProRes 422 Proxy', ap4h: 'ProRes 4444', mp4a: 'AAC', 'ac-3': 'AC-3', 'ec-3': 'E-AC-3', alac: 'ALAC',
+  Opus: 'Opus', fLaC: 'FLAC', twos: 'PCM', sowt: 'PCM', lpcm: 'PCM', in24: 'PCM', fl32: 'PCM (float)', '.mp3': 'MP3'
+};
+// Codecs whose sample size is the real bit depth (it's a nominal 16 for lossy ones)
+const LOSSLESS_MP4_CODECS = new Set(['alac', 'fLaC', 'twos', 'sowt', 'lpcm', 'in24', 'fl32']);
+const MP4_CONTAINERS = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl']);
+
+// Child boxes of `buffer` as { type, data }
+const mp4Boxes = (buffer) => {
+  const boxes = [];
+  let offset = 0;
+  while (offset + 8 <= buffer.length) {
+    let size = buffer.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = buffer.length - offset;
+    }
+    if (size < headerSize) break;
+    boxes.push({ type: buffer.toString('latin1', offset + 4, offset + 8), data: buffer.subarray(offset + headerSize, offset + size) });
+    offset += size;
+  }
+  return boxes;
+};
+
+const mp4Child = (buffer, ...types) => {
+  let current = buffer;
+  for (const type of types) {
+    current = mp4Boxes(current).find(box => box.type === type)?.data;
+    if (!current) return null;
+  }
+  return current;
+};
+
+// Timescale and duration of an mvhd or mdhd box
+const mp4Duration = (box) => box[0] === 1
+  ? { timescale: box.readUInt32BE(20), duration: Number(box.readBigUInt64BE(24)) }
+  : { timescale: box.readUInt32BE(12), duration: box.readUInt32BE(16) };
+
+const readMp4Track = (trak) => {
+  const handler = mp4Child(trak, 'mdia', 'hdlr')?.toString('latin1', 8, 12);
+  const stsd = mp4Child(trak, 'mdia', 'minf', 'stbl', 'stsd');
+  if (!handler || !stsd || stsd.length < 16) return null;
+
+  // First sample entry, after version, flags and the entry count
+  const entry = stsd.subarray(8);
+  const format = entry.toString('latin1', 4, 8);
+  const codec = MP4_CODECS[format] || format.trim();
+
+  if (handler === 'vide') {
+    const mdhd = mp4Child(trak, 'mdia', 'mdhd');
+    const stts = mp4Child(trak, 'mdia', 'minf', 'stbl', 'stts');
+    let frameRate;
+    if (mdhd && stts) {
+      const { timescale, duration } = mp4Duration(mdhd);
+      let samples = 0;
+      for (let i = 0; i < stts.readUInt32BE(4); i++) samples += stts.readUInt32BE(8 + i * 8);
+      if (duration > 0) frameRate = Math.round(samples * timescale / duration * 100) / 100;
+    }
+    return { type: 'video', codec, width: entry.readUInt16BE(32), height: entry.readUInt16BE(34), frameRate };
+  }
+
+  if (handler === 'soun') {
+    return {
+      type: 'audio',
+      codec,
+      channels: entry.readUInt16BE(24),
+      bitDepth: LOSSLESS_MP4_CODECS.has(format) ? entry.readUInt16BE(26) : undefined,
+      sampleRate: entry.readUInt32BE(32) >>> 16
+    };
+  }
+  return null;
+};
+
+const readMp4 = async (file) => {
+  // Find the moov box, it may come before or after the media data
+  let offset = 0;
+  let moov = null;
+  while (offset + 8 <= file.size) {
+    const header = await file.read(offset, 16);
+    let size = header.readUInt32BE(0);
+    const type = header.toString('latin1', 4, 8);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) return null;
+
+    if (type === 'moov') {
+      if (size > MAX_READ_BYTES) return null;
+      moov = await file.read(offset + headerSize, size - headerSize);
+      break;
+    }
+    offset += size;
+  }
+  if (!moov) return null;
+
+  const mvhd = mp4Child(moov, 'mvhd');
+  const { timescale, duration } = mvhd ? mp4Duration(mvhd) : {};
+  const tracks = mp4Boxes(moov).filter(box => box.type === 'trak').map(box => readMp4Track(box.data)).filter(Boolean);
+  const video = tracks.find(track => track.type === 'video');
+  const audio = tracks.find(track => track.type === 'audio');
+  const seconds = timescale ? duration / timescale : undefined;
+
+  if (video) {
+    return { codec: video.codec, duration: seconds, width: video.width, height: video.height, frameRate: video.frameRate, audioCodec: audio?.codec };
+  }
+  return {
+    codec: audio?.codec,
+    duration: seconds,
+    sampleRate: audio?.sampleRate,
+    channels: audio?.channels,
+    bitDepth: audio?.bitDepth,
+    bitrate: seconds ? Math.round(file.size * 8 / seconds) : undefined
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Matroska / WebM
+
+const EBML = {
+  SEGMENT: 0x18538067, INFO: 0x1549a966, TIMECODE_SCALE: 0x2ad7b1, DURATION: 0x4489, TRACKS: 0x1654ae6b,
+  TRACK_ENTRY: 0xae, TRACK_TYPE: 0x83, CODEC_ID: 0x86, DEFAULT_DURATION: 0x23e383, VIDEO: 0xe0, PIXEL_WIDTH: 0xb0,
+  PIXEL_HEIGHT: 0xba, AUDIO: 0xe1, SAMPLING_FREQUENCY: 0xb5, CHANNELS: 0x9f, BIT_DEPTH: 0x6264, CLUSTER: 0x1f43b675
+};
+
+const MATROSKA_CODECS = {
+  V_VP8: 'VP8', V_VP9: 'VP9', V_AV1: 'AV1', 'V_MPEG4/ISO/AVC': 'H.264', 'V_MPEGH/ISO/HEVC': 'H.265 (HEVC)',
+  'V_MPEG4/ISO/ASP': 'MPEG-4 Part 2', V_THEORA: 'Theora', A_VORBIS: 'Vorbis', A_OPUS: 'Opus', A_AAC: 'AAC',
+  A_FLAC: 'FLAC', 'A_MPEG/L3': 'MP3', A_AC3: 'AC-3', A_EAC3: 'E-AC-3', 'A_PCM/INT/LIT': 'PCM', 'A_PCM/FLOAT/IEEE': 'PCM (float)'
+};
+
+// Variable-length integer at `offset`; ids keep their length marker, sizes don't
+const readVint = (buffer, offset, keepMarker) => {
+  const first = buffer[offset];
+  if (first === undefined || first === 0) return null;
+  const length = Math.clz32(first) - 23;
+  if (offset + length > buffer.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let unknown = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    if (buffer[offset + i] !== 0xff) unknown = false;
+  }
+  return { value, length, unknown: !keepMarker && unknown };
+};
+
+// Elements of `buffer` as { id, data }; an element of unknown size runs to the end
+const ebmlElements = (buffer) => {
+  const elements = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    const id = readVint(buffer, offset, true);
+    if (!id) break;
+    const size = readVint(buffer, offset + id.length, false);
+    if (!size) break;
+
+    const start = offset + id.length + size.length;
+    const end = size.unknown ? buffer.length : Math.min(start + size.value, buffer.length);
+    elements.push({ id: id.value, data: buffer.subarray(start, end) });
+    offset = end;
+  }
+  return elements;
+};
+
+const ebmlUint = (data) => data.reduce((value, byte) => value * 256 + byte, 0);
+const ebmlFloat = (data) => data.length === 4 ? data.readFloatBE(0) : data.length === 8 ? data.readDoubleBE(0) : undefined;
+const ebmlChild = (elements, id) => elements.find(element => element.id === id)?.data;
+
+const readMatroska = async (file) => {
+  // Info and Tracks come before the first cluster in practically every file
+  const buffer = await file.read(0, 1024 * 1024);
+  if (buffer.length < 4 || buffer.readUInt32BE(0) !== 0x1a45dfa3) return null;
+
+  const segment = ebmlChild(ebmlElements(buffer), EBML.SEGMENT);
+  if (!segment) return null;
+  const children = [];
+  for (const element of ebmlElements(segment)) {
+    if (element.id === EBML.CLUSTER) break;
+    children.push(element);
+  }
+
+  const info = ebmlElements(ebmlChild(children, EBML.INFO) || Buffer.alloc(0));
+  const timecodeScale = ebmlChild(info, EBML.TIMECODE_SCALE);
+  const duration = ebmlChild(info, EBML.DURATION);
+  const seconds = duration ? ebmlFloat(duration) * (timecodeScale ? ebmlUint(timecodeScale) : 1e6) / 1e9 : undefined;
+
+  const tracks = ebmlElements(ebmlChild(children, EBML.TRACKS) || Buffer.alloc(0))
+    .filter(element => element.id === EBML.TRACK_ENTRY)
+    .map(element => ebmlElements(element.data));
+  const findTrack = (type) => tracks.find(track => {
+    const trackType = ebmlChild(track, EBML.TRACK_TYPE);
+    return trackType && ebmlUint(trackType) === type;
+  });
+  const codecOf = (track) => {
+    const codecId = ebmlChild(track, EBML.CODEC_ID)?.toString('latin1').replace(/\0+$/, '');
+    return codecId && (MATROSKA_CODECS[codecId] || MATROSKA_CODECS[codecId.split('/')[0]] || codecId);
+  };
+
+  const video = findTrack(1);
+  const audio = findTrack(2);
+  if (video) {
+    const settings = ebmlElements(ebmlChild(video, EBML.VIDEO) || Buffer.alloc(0));
+    const width = ebmlChild(settings, EBML.PIXEL_WIDTH);
+    const height = ebmlChild(settings, EBML.PIXEL_HEIGHT);
+    const frameDuration = ebmlChild(video, EBML.DEFAULT_DURATION);
+    return {
+      codec: codecOf(video),
+      duration: seconds,
+      width: width && ebmlUint(width),
+      height: height && ebmlUint(height),
+      frameRate: frameDuration ? Math.round(1e9 / ebmlUint(frameDuration) * 100) / 100 : undefined,
+      audioCodec: audio && codecOf(audio)
+    };
+  }
+
+  const settings = ebmlElements(ebmlChild(audio || [], EBML.AUDIO) || Buffer.alloc(0));
+  const sampleRate = ebmlChild(settings, EBML.SAMPLING_FREQUENCY);
+  const channels = ebmlChild(settings, EBML.CHANNELS);
+  const bitDepth = ebmlChild(settings, EBML.BIT_DEPTH);
+  return {
+    codec: audio && codecOf(audio),
+    duration: seconds,
+    sampleRate: sampleRate && ebmlFloat(sampleRate),
+    channels: channels ? ebmlUint(channels) : undefined,
+    bitDepth: bitDepth ? ebmlUint(bitDepth) : undefined
+  };
+};
+
+// ---------------------------------------------------------------------------
+// AVI
+
+const readAvi = async (file) => {
+  const buffer = await file.read(0, 256 * 1024);
+  if (buffer.toString('latin1', 0, 4) !== 'RIFF' || buffer.toString('latin1', 8, 12) !== 'AVI ') return null;
+
+  const result = {};
+  let streamType = null;
+  // Walk the header lists (hdrl, strl), stop at the movie data
+  const walk = (start, end) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      const id = buffer.toString('latin1', offset, offset + 4);
+      const size = buffer.readUInt32LE(offset + 4);
+      const data = buffer.subarray(offset + 8, Math.min(offset + 8 + size, end));
+
+      if (id === 'LIST') {
+        if (data.toString('latin1', 0, 4) === 'movi') return;
+        walk(offset + 12, Math.min(offset + 8 + size, end));
+      } else if (id === 'avih' && data.length >= 40) {
+        const microSecondsPerFrame = data.readUInt32LE(0);
+        result.width = data.readUInt32LE(32);
+        result.height = data.readUInt32LE(36);
+        if (microSecondsPerFrame > 0) {
+          result.frameRate = Math.round(1e6 / microSecondsPerFrame * 100) / 100;
+          result.duration = data.readUInt32LE(16) * microSecondsPerFrame / 1e6;
+        }
+      } else if (id === 'strh' && data.length >= 8) {
+        streamType = data.toString('latin1', 0, 4);
+      } else if (id === 'strf' && streamType === 'vids' && data.length >= 20 && !result.codec) {
+        result.codec = data.toString('latin1', 16, 20).replace(/\0/g, '').trim().toUpperCase() || 'Uncompressed';
+      } else if (id === 'strf' && streamType === 'auds' && data.length >= 2 && !result.audioCodec) {
+        const format = data.readUInt16LE(0);
+        result.audioCodec = { 1: 'PCM', 0x55: 'MP3', 0xff: 'AAC', 0x2000: 'AC-3' }[format] || `Format ${format}`;
+      }
+      offset += 8 + size + (size % 2);
+    }
+  };
+  walk(12, buffer.length);
+  return result;
+};
+
+const readMedia = async (file) => {
+  const header = await file.read(0, 12);
+  const start = id3Size(await file.read(0, 10));
+  const afterId3 = start > 0 ? await file.read(start, 4) : header;
+
+  // MIDI and tracker music only get their format; their length is only known by playing them
+  const music = getMusicFormat(await file.read(0, 1084));
+  if (music) return { codec: music };
+
+  if (header.toString('latin1', 0, 4) === 'RIFF') {
+    return header.toString('latin1', 8, 12) === 'AVI ' ? readAvi(file) : readWav(file);
+  }
+  if (afterId3.toString('latin1', 0, 4) === 'fLaC') return readFlac(file, start);
+  if (header.toString('latin1', 0, 4) === 'OggS') return readOgg(file);
+  if (header.length >= 4 && header.readUInt32BE(0) === 0x1a45dfa3) return readMatroska(file);
+  if (header.toString('latin1', 4, 8) === 'ftyp' || ['moov', 'mdat', 'wide', 'free'].includes(header.toString('latin1', 4, 8))) {
+    return readMp4(file);
+  }
+  if (afterId3[0] === 0xff && (afterId3[1] & 0xf6) === 0xf0) return readAdts(file, start);
+  return readMp3(file, start);
+};
+
+// ---------------------------------------------------------------------------
+// Fonts
+
+// Table tags by index, for the WOFF2 table directory
+const WOFF2_TAGS = [
+  'cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm', 'glyf', 'loca', 'prep', 'CFF ',
+  'VORG', 'EBDT', 'EBLC', 'gasp', 'hdmx', 'kern', 'LTSH', 'PCLT', 'VDMX', 'vhea', 'vmtx', 'BASE', 'GDEF', 'GPOS',
+  'GSUB', 'EBSC', 'JSTF', 'MATH', 'CBDT', 'CBLC', 'COLR', 'CPAL', 'SVG ', 'sbix', 'acnt', 'avar', 'bdat', 'bloc',
+  'bsln', 'cvar', 'fdsc', 'feat', 'fmtx', 'fvar', 'gvar', 'hsty', 'just', 'lcar', 'mort', 'morx', 'opbd', 'prop',
+  'trak', 'Zapf', 'Silf', 'Glat', 'Gloc', 'Feat', 'Sill'
+];
+
+const WEIGHT_NAMES = { 100: 'Thin', 200: 'ExtraLight', 300: 'Light', 400: 'Regular', 500: 'Medium', 600: 'SemiBold', 700: 'Bold', 800: 'ExtraBold', 900: 'Black' };
+
+// Tables of a TrueType/OpenType font (the first one of a collection) by tag
+const sfntTables = (buffer) => {
+  let start = 0;
+  if (buffer.toString('latin1', 0, 4) === 'ttcf') start = buffer.readUInt32BE(12);
+
+  const tables = {};
+  const numTables = buffer.readUInt16BE(start + 4);
+  for (let i = 0; i < numTables; i++) {
+    const record = start + 12 + i * 16;
+    const offset = buffer.readUInt32BE(record + 8);
+    tables[buffer.toString('latin1', record, record + 4)] = buffer.subarray(offset, offset + buffer.readUInt32BE(record + 12));
+  }
+  return tables;
+};
+
+const woffTables = (buffer) => {
+  const tables = {};
+  const numTables = buffer.readUInt16BE(12);
+  for (let i = 0; i < numTables; i++) {
+    const record = 44 + i * 20;
+    const offset = buffer.readUInt32BE(record + 4);
+    const compressedLength = buffer.readUInt32BE(record + 8);
+    const data = buffer.subarray(offset, offset + compressedLength);
+    tables[buffer.toString('latin1', record, record + 4)] = compressedLength < buffer.readUInt32BE(record + 12) ? zlib.inflateSync(data) : data;
+  }
+  return tables;
+};
+
+const woff2Tables = (buffer) => {
+  if (buffer.toString('latin1', 4, 8) === 'ttcf') return {};
+
+  const readBase128 = (state) => {
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+      const byte = buffer[state.offset++];
+      value = value * 128 + (byte & 0x7f);
+      if (!(byte & 0x80)) return value;
+    }
+    throw new Error('Invalid WOFF2 table directory');
+  };
+
+  const state = { offset: 48 };
+  const entries = [];
+  for (let i = 0; i < buffer.readUInt16BE(12); i++) {
+    const flags = buffer[state.offset++];
+    let tag = WOFF2_TAGS[flags & 0x3f];
+    if ((flags & 0x3f) === 0x3f) {
+      tag = buffer.toString('latin1', state.offset, state.offset + 4);
+      state.offset += 4;
+    }
+    const transform = flags >> 6;
+    let length = readBase128(state);
+    // glyf and loca are transformed unless the version is 3, other tables only when it isn't 0
+    const transformed = tag === 'glyf' || tag === 'loca' ? transform !== 3 : transform !== 0;
+    if (transformed) length = readBase128(state);
+    entries.push({ tag, length });
+  }
+
+  const data = zlib.brotliDecompressSync(buffer.subarray(state.offset, state.offset + buffer.readUInt32BE(20)));
+  const tables = {};
+  let offset = 0;
+  for (const { tag, length } of entries) {
+    tables[tag] = data.subarray(offset, offset + length);
+    offset += length;
+  }
+  return tables;
+};
+
+// A name from the name table, preferring Windows English, then any Unicode or Mac entry
+const fontName = (name, ...ids) => {
+  if (!name || name.length < 6) return undefined;
+
+  const count = name.readUInt16BE(2);
+  const stringOffset = name.readUInt16BE(4);
+  const records = [];
+  for (let i = 0; i < count; i++) {
+    const record = 6 + i * 12;
+    records.push({
+      platform: name.readUInt16BE(record),
+      language: name.readUInt16BE(record + 4),
+      id: name.readUInt16BE(record + 6),
+      data: name.subarray(stringOffset + name.readUInt16BE(record + 10), stringOffset + name.readUInt16BE(record + 10) + name.readUInt16BE(record + 8))
+    });
+  }
+
+  for (const id of ids) {
+    const candidates = records.filter(record => record.id === id);
+    const record = candidates.find(candidate => candidate.platform === 3 && candidate.language === 0x409) ||
+      candidates.find(candidate => candidate.platform === 3 || candidate.platform === 0) ||
+      candidates[0];
+    if (!record) continue;
+    if (record.platform === 1) return record.data.toString('latin1');
+    // UTF-16 big endian
+    return Buffer.from(record.data.subarray(0, record.data.length & ~1)).swap16().toString('utf16le');
+  }
+  return undefined;
+};
+
+// AngelCode BMFont descriptors in their text format
+const readBmFont = (buffer) => {
+  const text = buffer.toString('utf8', 0, Math.min(buffer.length, 64 * 1024));
+  if (!text.startsWith('info ')) return null;
+
+  const attribute = (line, key) => line.match(new RegExp(`\\b${key}=("([^"]*)"|\\S+)`))?.slice(1).find(Boolean)?.replace(/^"|"$/g, '');
+  const info = text.split(/\r?\n/)[0];
+  const chars = text.split(/\r?\n/).find(line => line.startsWith('chars '));
+  const bold = attribute(info, 'bold') === '1';
+  const italic = attribute(info, 'italic') === '1';
+  return {
+    family: attribute(info, 'face'),
+    style: [bold && 'Bold', italic && 'Italic'].filter(Boolean).join(' ') || 'Regular',
+    glyphs: chars ? Number(attribute(chars, 'count')) : undefined
+  };
+};
+
+const readFont = async (file) => {
+  if (file.size > MAX_READ_BYTES) return null;
+  const buffer = await file.read(0, file.size);
+  const signature = buffer.toString('latin1', 0, 4);
+
+  let tables;
+  if (signature === 'wOFF') tables = woffTables(buffer);
+  else if (signature === 'wOF2') tables = woff2Tables(buffer);
+  else if (['\0\x01\0\0', 'OTTO', 'true', 'ttcf'].includes(signature)) tables = sfntTables(buffer);
+  else return readBmFont(buffer);
+
+  const weight = tables['OS/2']?.length >= 6 ? tables['OS/2'].readUInt16BE(4) : undefined;
+  return {
+    family: fontName(tables.name, 16, 1),
+    style: fontName(tables.name, 17, 2),
+    fullName: fontName(tables.name, 4),
+    weight: weight && (WEIGHT_NAMES[weight] ? `${weight} (${WEIGHT_NAMES[weight]})` : String(weight)),
+    glyphs: tables.maxp?.length >= 6 ? tables.maxp.readUInt16BE(4) : undefined
+  };
+};
+
+// ---------------------------------------------------------------------------
+
+// Details of a file (or of an archive entry's contents when `source` is a Buffer),
+// depending on how its category is previewed. Null when there's nothing to tell.
+// Models reference other files next to them, so only models on disk are read
+export const canReadMetadata = (previewKind, { fromBuffer = false } = {}) =>
+  previewKind === 'model' ? !fromBuffer : ['image', 'audio', 'video', 'font'].includes(previewKind);
+
+export const readAssetMetadata = async (source, previewKind) => {
+  if (!canReadMetadata(previewKind, { fromBuffer: Buffer.isBuffer(source) })) return null;
+  if (previewKind === 'model') {
+    const stats = getModelStats(source);
+    return stats && { kind: 'model', ...compact(stats) };
+  }
+
+  const file = await openSource(source);
+  try {
+    let details;
+    if (previewKind === 'image') details = await readImage(source, file);
+    else if (previewKind === 'font') details = await readFont(file);
+    else details = await readMedia(file);
+    return details && { kind: previewKind, ...compact(details) };
+  } finally {
+    await file.close();
+  }
+};
+
+// Metadata of listed files, remembered by path and checked against size, mtime and the
+// preview kind (which follows the file type settings), so the grid can show it without
+// reading every file again
+export class MetadataCache {
+  constructor({ cacheFile }) {
+    this.cacheFile = cacheFile;
+    this.entries = null;
+    this.saveTimer = null;
+  }
+
+  load() {
+    if (this.entries) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8'));
+      this.entries = new Map(Object.entries(data.files || {}));
+    } catch (e) {
+      if (e.code !== 'ENOENT') console.error('Failed to load the metadata cache, starting from scratch:', e.message);
+      this.entries = new Map();
+    }
+  }
+
+  // Saving is delayed so a grid full of new files is written once
+  scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(async () => {
+      this.saveTimer = null;
+      try {
+        await fs.promises.mkdir(path.dirname(this.cacheFile), { recursive: true });
+        const tempFile = `${this.cacheFile}.tmp`;
+        await fs.promises.writeFile(tempFile, JSON.stringify({ version: 1, files: Object.fromEntries(this.entries) }));
+        await fs.promises.rename(tempFile, this.cacheFile);
+      } catch (e) {
+        console.error('Failed to save the metadata cache:', e.message);
+      }
+    }, 2000);
+  }
+
+  // Cached metadata that is still current, undefined when it has to be read
+  getCached(itemPath, { size, mtime, kind }) {
+    this.load();
+    const entry = this.entries.get(itemPath);
+    return entry && entry.size === size && entry.mtime === mtime && entry.kind === kind ? entry.metadata : undefined;
+  }
+
+  // `read` is only called on a cache miss; files that can't be read are cached as null
+  async get(itemPath, { size, mtime, kind }, read) {
+    const cached = this.getCached(itemPath, { size, mtime, kind });
+    if (cached !== undefined) return cached;
+
+    let metadata = null;
+    try {
+      metadata = await read();
+    } catch (e) {
+      console.log(`Failed to read metadata of ${itemPath}: ${e.message}`);
+    }
+    this.entries.set(itemPath, { size, mtime, kind, metadata });
+    this.scheduleSave();
+    return metadata;
+  }
+}
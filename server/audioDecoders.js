@@ -0,0 +1,344 @@
+import { MPEGDecoder } from 'mpg123-decoder';
+import { OggVorbisDecoder } from '@wasm-audio-decoders/ogg-vorbis';
+import { FLACDecoder } from '@wasm-audio-decoders/flac';
+import { WAV_CODECS, WAV_FORMATS, findMpegFrame, getMusicFormat, id3Size, readWavLayout } from './audioFormats.js';
+
+// Audio decoding for waveforms and edits of files the browser plays on its own. WAV is
+// read here, MP3, Vorbis and FLAC go through the WebAssembly builds of mpg123, libvorbis
+// and libFLAC. `openAudio` resolves with:
+//   { codec, sampleRate, channels, blocks() }
+// where blocks() is an async generator of arrays holding one Float32Array of samples (-1..1)
+// per channel, so long files never have to be decoded into memory at once. Formats that
+// can't be decoded throw an AudioError.
+
+export class AudioError extends Error {}
+
+const yieldToEventLoop = () => new Promise(resolve => setImmediate(resolve));
+
+// Frames per block yielded by the WAV decoder
+const BLOCK_FRAMES = 4096;
+
+// Bytes of the file handed to the other decoders at a time
+const DECODE_CHUNK_SIZE = 64 * 1024;
+
+// ---------------------------------------------------------------------------
+// WAV
+
+const IMA_INDEX_TABLE = [-1, -1, -1, -1, 2, 4, 6, 8];
+const IMA_STEP_TABLE = [
+  7, 8, 9, 10, 11, 12, 13, 14, 16, 17, 19, 21, 23, 25, 28, 31, 34, 37, 41, 45, 50, 55, 60, 66, 73, 80, 88, 97,
+  107, 118, 130, 143, 157, 173, 190, 209, 230, 253, 279, 307, 337, 371, 408, 449, 494, 544, 598, 658, 724, 796,
+  876, 963, 1060, 1166, 1282, 1411, 1552, 1707, 1878, 2066, 2272, 2499, 2749, 3024, 3327, 3660, 4026, 4428, 4871,
+  5358, 5894, 6484, 7132, 7845, 8630, 9493, 10442, 11487, 12635, 13899, 15289, 16818, 18500, 20350, 22385, 24623,
+  27086, 29794, 32767
+];
+
+const MS_ADPCM_ADAPTATION = [230, 230, 230, 230, 307, 409, 512, 614, 768, 614, 512, 409, 307, 230, 230, 230];
+const MS_ADPCM_COEFFICIENTS = [[256, 0], [512, -256], [0, 0], [192, 64], [240, 0], [460, -208], [392, -232]];
+
+const clamp16 = (value) => Math.max(-32768, Math.min(32767, value));
+
+const decodeMulaw = (byte) => {
+  const value = ~byte & 0xff;
+  const magnitude = ((((value & 0x0f) << 3) + 0x84) << ((value >> 4) & 0x07)) - 0x84;
+  return (value & 0x80 ? -magnitude : magnitude) / 32768;
+};
+
+const decodeAlaw = (byte) => {
+  const value = byte ^ 0x55;
+  const exponent = (value >> 4) & 0x07;
+  const mantissa = value & 0x0f;
+  const magnitude = exponent === 0 ? (mantissa << 4) + 8 : ((mantissa << 4) + 0x108) << (exponent - 1);
+  return (value & 0x80 ? magnitude : -magnitude) / 32768;
+};
+
+// Reads one sample at a byte offset, for the formats stored one sample after the other
+const wavSampleReader = (data, format, bytesPerSample) => {
+  if (format === WAV_FORMATS.FLOAT) {
+    if (bytesPerSample === 4) return offset => data.readFloatLE(offset);
+    if (bytesPerSample === 8) return offset => data.readDoubleLE(offset);
+  } else if (format === WAV_FORMATS.PCM) {
+    // Samples with fewer bits are left-aligned in their bytes, so the container size is enough
+    if (bytesPerSample === 1) return offset => (data[offset] - 128) / 128;
+    if (bytesPerSample === 2) return offset => data.readInt16LE(offset) / 32768;
+    if (bytesPerSample === 3) return offset => data.readIntLE(offset, 3) / 8388608;
+    if (bytesPerSample === 4) return offset => data.readInt32LE(offset) / 2147483648;
+  } else if (format === WAV_FORMATS.ALAW && bytesPerSample === 1) {
+    return offset => decodeAlaw(data[offset]);
+  } else if (format === WAV_FORMATS.MULAW && bytesPerSample === 1) {
+    return offset => decodeMulaw(data[offset]);
+  }
+  return null;
+};
+
+function* readWavSamples(data, { channels, blockAlign }, readSample) {
+  const bytesPerSample = blockAlign / channels;
+  const totalFrames = Math.floor(data.length / blockAlign);
+  for (let start = 0; start < totalFrames; start += BLOCK_FRAMES) {
+    const frames = Math.min(BLOCK_FRAMES, totalFrames - start);
+    const block = Array.from({ length: channels }, () => new Float32Array(frames));
+    for (let frame = 0; frame < frames; frame++) {
+      const offset = (start + frame) * blockAlign;
+      for (let channel = 0; channel < channels; channel++) {
+        block[channel][frame] = readSample(offset + channel * bytesPerSample);
+      }
+    }
+    yield block;
+  }
+}
+
+// IMA ADPCM: every block starts with a sample and a step index per channel, followed by
+// 4 byte groups of 8 samples for each channel in turn
+function* readImaAdpcm(data, { channels, blockAlign }) {
+  const samplesPerBlock = ((blockAlign - 4 * channels) * 8) / (4 * channels) + 1;
+  for (let offset = 0; offset + blockAlign <= data.length; offset += blockAlign) {
+    const block = Array.from({ length: channels }, () => new Float32Array(samplesPerBlock));
+    for (let channel = 0; channel < channels; channel++) {
+      let predictor = data.readInt16LE(offset + channel * 4);
+      let index = Math.min(88, data[offset + channel * 4 + 2]);
+      const samples = block[channel];
+      samples[0] = predictor / 32768;
+
+      let position = 1;
+      for (let group = offset + 4 * channels + channel * 4; group < offset + blockAlign; group += 4 * channels) {
+        for (let i = 0; i < 8; i++) {
+          const nibble = (data[group + (i >> 1)] >> ((i & 1) * 4)) & 0x0f;
+          const step = IMA_STEP_TABLE[index];
+          let difference = step >> 3;
+          if (nibble & 4) difference += step;
+          if (nibble & 2) difference += step >> 1;
+          if (nibble & 1) difference += step >> 2;
+          predictor = clamp16(nibble & 8 ? predictor - difference : predictor + difference);
+          index = Math.max(0, Math.min(88, index + IMA_INDEX_TABLE[nibble & 7]));
+          samples[position++] = predictor / 32768;
+        }
+      }
+    }
+    yield block;
+  }
+}
+
+// Microsoft ADPCM: a predictor, a step and two samples per channel, then one nibble per
+// sample (channels alternating in stereo)
+function* readMsAdpcm(data, { channels, blockAlign, extra }) {
+  const samplesPerBlock = ((blockAlign - 7 * channels) * 2) / channels + 2;
+  let coefficients = MS_ADPCM_COEFFICIENTS;
+  if (extra.length >= 4 && extra.readUInt16LE(2) > 0 && extra.length >= 4 + extra.readUInt16LE(2) * 4) {
+    coefficients = Array.from({ length: extra.readUInt16LE(2) }, (_, i) => [extra.readInt16LE(4 + i * 4), extra.readInt16LE(6 + i * 4)]);
+  }
+
+  for (let offset = 0; offset + blockAlign <= data.length; offset += blockAlign) {
+    const block = Array.from({ length: channels }, () => new Float32Array(samplesPerBlock));
+    const state = Array.from({ length: channels }, (_, channel) => ({
+      coefficient: coefficients[data[offset + channel]] || coefficients[0],
+      delta: data.readInt16LE(offset + channels + channel * 2),
+      sample1: data.readInt16LE(offset + channels * 3 + channel * 2),
+      sample2: data.readInt16LE(offset + channels * 5 + channel * 2)
+    }));
+    state.forEach(({ sample1, sample2 }, channel) => {
+      block[channel][0] = sample2 / 32768;
+      block[channel][1] = sample1 / 32768;
+    });
+
+    const expand = (channelState, nibble) => {
+      const signed = nibble & 8 ? nibble - 16 : nibble;
+      const [c1, c2] = channelState.coefficient;
+      const predicted = ((channelState.sample1 * c1 + channelState.sample2 * c2) >> 8) + signed * channelState.delta;
+      channelState.sample2 = channelState.sample1;
+      channelState.sample1 = clamp16(predicted);
+      channelState.delta = Math.max(16, (MS_ADPCM_ADAPTATION[nibble] * channelState.delta) >> 8);
+      return channelState.sample1 / 32768;
+    };
+
+    let position = 2;
+    let channel = 0;
+    for (let i = offset + 7 * channels; i < offset + blockAlign && position < samplesPerBlock; i++) {
+      for (const nibble of [data[i] >> 4, data[i] & 0x0f]) {
+        block[channel][position] = expand(state[channel], nibble);
+        if (++channel === channels) {
+          channel = 0;
+          position++;
+        }
+      }
+    }
+    yield block;
+  }
+}
+
+const decodeWav = async (buffer) => {
+  const { format, dataOffset, dataSize } = await readWavLayout({
+    size: buffer.length,
+    read: async (offset, length) => buffer.subarray(offset, Math.min(offset + length, buffer.length))
+  });
+  if (!format || dataOffset === null) throw new AudioError('The WAV file has no audio data');
+  const { tag, channels, sampleRate, blockAlign } = format;
+  if (!channels || !sampleRate || !blockAlign) throw new AudioError('The WAV file has an invalid format header');
+
+  const data = buffer.subarray(dataOffset, dataOffset + dataSize);
+  const codec = WAV_CODECS[tag] || `Format ${tag}`;
+  const adpcmReaders = { [WAV_FORMATS.IMA_ADPCM]: readImaAdpcm, [WAV_FORMATS.MS_ADPCM]: readMsAdpcm };
+  if (adpcmReaders[tag]) return { codec, sampleRate, channels, blocks: () => adpcmReaders[tag](data, format) };
+
+  const readSample = wavSampleReader(data, tag, blockAlign / channels);
+  if (!readSample || blockAlign % channels !== 0) {
+    throw new AudioError(`WAV format ${tag} with ${format.bitsPerSample} bit samples can't be decoded`);
+  }
+  return { codec, sampleRate, channels, blocks: () => readWavSamples(data, format, readSample) };
+};
+
+// ---------------------------------------------------------------------------
+// MP3, Vorbis and FLAC
+
+// Feeds `data` to a wasm-audio-decoders decoder a chunk at a time. The sample rate and
+// channels are only known once something was decoded, so decoding starts right away
+const openPackagedDecoder = async (codec, Decoder, data) => {
+  const decoder = new Decoder();
+  await decoder.ready;
+
+  let position = 0;
+  let flushed = !decoder.flush;
+  // The next decoded chunk, or null at the end of the data
+  const decodeNext = async () => {
+    if (position < data.length) {
+      const chunk = data.subarray(position, position + DECODE_CHUNK_SIZE);
+      position += DECODE_CHUNK_SIZE;
+      return decoder.decode(chunk);
+    }
+    if (flushed) return null;
+    flushed = true;
+    return decoder.flush();
+  };
+
+  let first;
+  try {
+    do {
+      first = await decodeNext();
+    } while (first && first.samplesDecoded === 0);
+  } catch (e) {
+    decoder.free();
+    throw new AudioError(`Can't decode the ${codec} audio: ${e.message}`);
+  }
+  if (!first) {
+    decoder.free();
+    throw new AudioError(`No ${codec} audio could be decoded from the file`);
+  }
+
+  return {
+    codec,
+    sampleRate: first.sampleRate,
+    channels: first.channelData.length,
+    async *blocks() {
+      try {
+        for (let decoded = first; decoded; decoded = await decodeNext()) {
+          if (decoded.samplesDecoded > 0) yield decoded.channelData.map(samples => samples.subarray(0, decoded.samplesDecoded));
+        }
+      } finally {
+        decoder.free();
+      }
+    }
+  };
+};
+
+// ---------------------------------------------------------------------------
+
+// Errors inside a decoder mean the file is damaged (or uses a feature that isn't handled)
+const reportDecodeErrors = (decoder) => ({
+  ...decoder,
+  async *blocks() {
+    try {
+      yield* decoder.blocks();
+    } catch (e) {
+      throw e instanceof AudioError ? e : new AudioError(`Can't decode the ${decoder.codec} audio: ${e.message}`);
+    }
+  }
+});
+
+// Decoder for the contents of an audio file, picked by its header and not its extension
+export const openAudio = async (buffer) => {
+  const music = getMusicFormat(buffer);
+  if (music) throw new AudioError(`${music} music has no waveform`);
+
+  if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WAVE') {
+    return reportDecodeErrors(await decodeWav(buffer));
+  }
+
+  if (buffer.toString('latin1', 0, 4) === 'OggS') {
+    const packet = buffer.subarray(27 + buffer[26]);
+    if (packet[0] === 0x01 && packet.toString('latin1', 1, 7) === 'vorbis') {
+      return reportDecodeErrors(await openPackagedDecoder('Vorbis', OggVorbisDecoder, buffer));
+    }
+    if (packet.toString('latin1', 0, 8) === 'OpusHead') throw new AudioError('Opus audio can\'t be decoded');
+    throw new AudioError('Only Vorbis audio can be decoded from Ogg files');
+  }
+
+  if (buffer.toString('latin1', 4, 8) === 'ftyp') throw new AudioError('AAC (MP4) audio can\'t be decoded');
+
+  const start = id3Size(buffer);
+  const data = buffer.subarray(start);
+  if (data.toString('latin1', 0, 4) === 'fLaC') return reportDecodeErrors(await openPackagedDecoder('FLAC', FLACDecoder, data));
+  if (data[0] === 0xff && (data[1] & 0xf6) === 0xf0) throw new AudioError('AAC audio can\'t be decoded');
+
+  if (!findMpegFrame(data.subarray(0, 256 * 1024))) throw new AudioError('Unknown audio format');
+  return reportDecodeErrors(await openPackagedDecoder('MP3', MPEGDecoder, data));
+};
+
+// Samples between `start` and `end` (in seconds) as one Float32Array per channel. Decoding
+// pauses every few blocks so other requests aren't held up
+export const readAudioRange = async (buffer, start, end) => {
+  const audio = await openAudio(buffer);
+  const first = Math.max(0, Math.round(start * audio.sampleRate));
+  const last = Math.round(end * audio.sampleRate);
+  const parts = [];
+  let position = 0;
+  let blocks = 0;
+
+  for await (const block of audio.blocks()) {
+    const length = block[0].length;
+    if (position + length > first) {
+      parts.push(block.map(samples => samples.slice(Math.max(0, first - position), Math.min(length, last - position))));
+    }
+    position += length;
+    if (position >= last) break;
+    if (++blocks % 8 === 0) await yieldToEventLoop();
+  }
+  if (!parts.length) throw new AudioError('The region is past the end of the audio');
+
+  const channels = Array.from({ length: audio.channels }, (_, channel) => {
+    const samples = new Float32Array(parts.reduce((total, part) => total + part[channel].length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      samples.set(part[channel], offset);
+      offset += part[channel].length;
+    }
+    return samples;
+  });
+  return { sampleRate: audio.sampleRate, channels };
+};
+
+// 16-bit PCM WAV file of one Float32Array per channel
+export const encodeWav = (channels, sampleRate) => {
+  const frames = channels[0].length;
+  const blockAlign = channels.length * 2;
+  const buffer = Buffer.alloc(44 + frames * blockAlign);
+  buffer.write('RIFF', 0, 'latin1');
+  buffer.writeUInt32LE(36 + frames * blockAlign, 4);
+  buffer.write('WAVEfmt ', 8, 'latin1');
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(channels.length, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * blockAlign, 28);
+  buffer.writeUInt16LE(blockAlign, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36, 'latin1');
+  buffer.writeUInt32LE(frames * blockAlign, 40);
+
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (const samples of channels) {
+      buffer.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(samples[i] * 32768))), offset);
+      offset += 2;
+    }
+  }
+  return buffer;
+};
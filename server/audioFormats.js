@@ -0,0 +1,125 @@
+// Audio container parsing shared by the metadata inspector (assetMetadata.js) and the
+// decoders (audioDecoders.js). Files are read through `{ size, read(offset, length) }`,
+// the shape assetMetadata.js opens files and buffers with
+
+// Size of an ID3v2 tag at the start of `header` (MP3 and some FLAC files), 0 when there's none
+export const id3Size = (header) => {
+  if (header.length < 10 || header.toString('latin1', 0, 3) !== 'ID3') return 0;
+  const size = ((header[6] & 0x7f) << 21) | ((header[7] & 0x7f) << 14) | ((header[8] & 0x7f) << 7) | (header[9] & 0x7f);
+  return 10 + size + (header[5] & 0x10 ? 10 : 0);
+};
+
+const MOD_SIGNATURES = /^(M\.K\.|M!K!|M&K!|FLT[48]|\dCHN|\d\dC[HN]|CD81|OKTA|OCTA)$/;
+
+// MIDI and tracker music (from its first 1084 bytes), which is rendered in the browser
+// rather than decoded. Null for anything else
+export const getMusicFormat = (buffer) => {
+  const text = (start, length) => buffer.toString('latin1', start, start + length);
+  if (text(0, 4) === 'MThd' || (text(0, 4) === 'RIFF' && text(8, 4) === 'RMID')) return 'MIDI';
+  if (text(0, 17) === 'Extended Module: ') return 'FastTracker 2 XM';
+  if (text(0, 4) === 'IMPM') return 'Impulse Tracker IT';
+  if (text(44, 4) === 'SCRM') return 'Scream Tracker 3 S3M';
+  if (MOD_SIGNATURES.test(text(1080, 4))) return 'ProTracker MOD';
+  return null;
+};
+
+// ---------------------------------------------------------------------------
+// WAV
+
+export const WAV_FORMATS = { PCM: 1, MS_ADPCM: 2, FLOAT: 3, ALAW: 6, MULAW: 7, IMA_ADPCM: 0x11, MP3: 0x55, EXTENSIBLE: 0xfffe };
+
+export const WAV_CODECS = {
+  [WAV_FORMATS.PCM]: 'PCM',
+  [WAV_FORMATS.MS_ADPCM]: 'ADPCM',
+  [WAV_FORMATS.FLOAT]: 'PCM (float)',
+  [WAV_FORMATS.ALAW]: 'A-law',
+  [WAV_FORMATS.MULAW]: 'μ-law',
+  [WAV_FORMATS.IMA_ADPCM]: 'IMA ADPCM',
+  [WAV_FORMATS.MP3]: 'MP3'
+};
+
+// Longest `fmt ` chunk read, MS ADPCM keeps its coefficient table in there
+const WAV_FORMAT_MAX_SIZE = 1024;
+
+// The `fmt ` chunk and where the `data` chunk is, or null when the file isn't a WAV:
+//   { format: { tag, channels, sampleRate, byteRate, blockAlign, bitsPerSample, extra } | null,
+//     dataOffset, dataSize }
+// `dataOffset` is null when there's no data chunk
+export const readWavLayout = async (file) => {
+  const header = await file.read(0, 12);
+  if (header.toString('latin1', 0, 4) !== 'RIFF' || header.toString('latin1', 8, 12) !== 'WAVE') return null;
+
+  const layout = { format: null, dataOffset: null, dataSize: 0 };
+  let offset = 12;
+  while (offset + 8 <= file.size) {
+    const chunk = await file.read(offset, 8);
+    const id = chunk.toString('latin1', 0, 4);
+    const size = chunk.readUInt32LE(4);
+
+    if (id === 'fmt ' && size >= 16) {
+      const body = await file.read(offset + 8, Math.min(size, WAV_FORMAT_MAX_SIZE));
+      layout.format = {
+        tag: body.readUInt16LE(0),
+        channels: body.readUInt16LE(2),
+        sampleRate: body.readUInt32LE(4),
+        byteRate: body.readUInt32LE(8),
+        blockAlign: body.readUInt16LE(12),
+        bitsPerSample: body.length >= 16 ? body.readUInt16LE(14) : 0,
+        extra: body.subarray(18)
+      };
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in its sub-format GUID
+      if (layout.format.tag === WAV_FORMATS.EXTENSIBLE && body.length >= 26) layout.format.tag = body.readUInt16LE(24);
+    } else if (id === 'data') {
+      layout.dataOffset = offset + 8;
+      // Streams that were never finished may claim more data than the file has
+      layout.dataSize = Math.min(size, file.size - offset - 8);
+      break;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return layout;
+};
+
+// ---------------------------------------------------------------------------
+// MPEG audio
+
+const MP3_BITRATES = {
+  '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+const MP3_SAMPLE_RATES = { 3: [44100, 48000, 32000], 2: [22050, 24000, 16000], 0: [11025, 12000, 8000] };
+
+// MPEG audio frame header at `offset`, or null
+export const parseMpegFrame = (buffer, offset) => {
+  if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (buffer[offset + 1] >> 3) & 0x03;
+  const layer = 4 - ((buffer[offset + 1] >> 1) & 0x03);
+  const bitrateIndex = buffer[offset + 2] >> 4;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+  if (versionBits === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const isMpeg1 = versionBits === 3;
+  const mono = buffer[offset + 3] >> 6 === 3;
+  return {
+    isMpeg1,
+    layer,
+    mono,
+    bitrate: MP3_BITRATES[`${isMpeg1 ? 1 : 2}-${layer}`][bitrateIndex] * 1000,
+    sampleRate: MP3_SAMPLE_RATES[versionBits][sampleRateIndex],
+    samplesPerFrame: layer === 1 ? 384 : layer === 3 && !isMpeg1 ? 576 : 1152
+  };
+};
+
+// The first frame header in `buffer` as { offset, frame }, or null
+export const findMpegFrame = (buffer) => {
+  for (let offset = buffer.indexOf(0xff); offset >= 0 && offset + 4 <= buffer.length; offset = buffer.indexOf(0xff, offset + 1)) {
+    const frame = parseMpegFrame(buffer, offset);
+    if (frame) return { offset, frame };
+  }
+  return null;
+};
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+
+// Wait for a burst of filesystem events to settle before rescanning
+const RESCAN_DELAY = 300;
+
+// Keep-alive comment so proxies don't close idle event streams
+const HEARTBEAT_INTERVAL = 30000;
+
+// Watches the directories clients are looking at and pushes add/change/delete
+// events to them over Server-Sent Events. One fs watcher is shared by every
+// client looking at the same directory.
+export class DirectoryWatcher {
+  constructor({ describeItem, isExcluded, onChange }) {
+    this.describeItem = describeItem;
+    this.isExcluded = isExcluded;
+    this.onChange = onChange;
+    this.watched = new Map();
+  }
+
+  // Take a cheap snapshot (name -> size/mtime) used to diff against after events
+  async snapshot(dirPath) {
+    const snapshot = new Map();
+    for (const name of await fs.promises.readdir(dirPath)) {
+      if (this.isExcluded(name)) continue;
+      try {
+        const stats = await fs.promises.stat(path.join(dirPath, name));
+        snapshot.set(name, { size: stats.size, mtime: stats.mtimeMs });
+      } catch (e) {
+        continue;
+      }
+    }
+    return snapshot;
+  }
+
+  subscribe(dirPath, res) {
+    let entry = this.watched.get(dirPath);
+
+    if (!entry) {
+      const watcher = fs.watch(dirPath, () => this.scheduleRescan(dirPath));
+      watcher.on('error', (error) => {
+        console.error(`Watcher error for ${dirPath}:`, error.message);
+        this.broadcast(dirPath, { type: 'error', error: 'Directory is no longer watchable' });
+        this.close(dirPath);
+      });
+
+      entry = {
+        watcher,
+        clients: new Set(),
+        snapshot: null,
+        rescanTimer: null,
+        rescanning: false
+      };
+      this.watched.set(dirPath, entry);
+      this.rescan(dirPath);
+      console.log(`👀 Watching directory: ${dirPath}`);
+    }
+
+    entry.clients.add(res);
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      this.unsubscribe(dirPath, res);
+    });
+  }
+
+  unsubscribe(dirPath, res) {
+    const entry = this.watched.get(dirPath);
+    if (!entry) return;
+
+    entry.clients.delete(res);
+    if (entry.clients.size === 0) {
+      this.close(dirPath);
+    }
+  }
+
+  close(dirPath) {
+    const entry = this.watched.get(dirPath);
+    if (!entry) return;
+
+    clearTimeout(entry.rescanTimer);
+    entry.watcher.close();
+    this.watched.delete(dirPath);
+    console.log(`🙈 Stopped watching directory: ${dirPath}`);
+  }
+
+  scheduleRescan(dirPath) {
+    const entry = this.watched.get(dirPath);
+    if (!entry) return;
+
+    clearTimeout(entry.rescanTimer);
+    entry.rescanTimer = setTimeout(() => this.rescan(dirPath), RESCAN_DELAY);
+  }
+
+  // The first scan only records the snapshot, later ones diff against it
+  async rescan(dirPath) {
+    const entry = this.watched.get(dirPath);
+    if (!entry) return;
+
+    // Don't diff against a snapshot that is still being replaced, scan again afterwards
+    if (entry.rescanning) {
+      this.scheduleRescan(dirPath);
+      return;
+    }
+    entry.rescanning = true;
+
+    try {
+      let current;
+      try {
+        current = await this.snapshot(dirPath);
+      } catch (e) {
+        // The watched directory itself is gone
+        this.broadcast(dirPath, { type: 'error', error: 'Directory no longer exists' });
+        this.close(dirPath);
+        return;
+      }
+
+      const previous = entry.snapshot;
+      entry.snapshot = current;
+      if (!previous) return;
+
+      for (const [name, info] of current) {
+        const before = previous.get(name);
+        if (before && before.size === info.size && before.mtime === info.mtime) continue;
+
+        const item = await this.describeItem(dirPath, name);
+        const itemPath = path.join(dirPath, name);
+
+        if (item) {
+          this.emit(dirPath, { type: before ? 'change' : 'add', path: itemPath, item });
+        } else if (before) {
+          // The entry became unlistable (e.g. a folder was emptied)
+          this.emit(dirPath, { type: 'delete', path: itemPath });
+        }
+      }
+
+      for (const name of previous.keys()) {
+        if (!current.has(name)) {
+          this.emit(dirPath, { type: 'delete', path: path.join(dirPath, name) });
+        }
+      }
+    } finally {
+      entry.rescanning = false;
+    }
+  }
+
+  emit(dirPath, event) {
+    this.broadcast(dirPath, event);
+    if (this.onChange) this.onChange(event);
+  }
+
+  broadcast(dirPath, event) {
+    const entry = this.watched.get(dirPath);
+    if (!entry) return;
+
+    const message = `data: ${JSON.stringify(event)}\n\n`;
+    for (const client of entry.clients) {
+      client.write(message);
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+// Yield to the event loop every N entries so requests keep flowing while scanning
+const YIELD_EVERY = 250;
+
+const yieldToEventLoop = () => new Promise(resolve => setImmediate(resolve));
+
+const isInsideRoot = (filePath, root) => {
+  const relative = path.relative(root, filePath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+};
+
+export const hashFile = (filePath) => new Promise((resolve, reject) => {
+  const hash = crypto.createHash('sha1');
+  fs.createReadStream(filePath)
+    .on('error', reject)
+    .on('data', chunk => hash.update(chunk))
+    .on('end', () => resolve(hash.digest('hex')));
+});
+
+// Finds files with identical contents below a folder. Only files that share their size
+// with another file get hashed, and hashes are remembered (by size and mtime) between
+// scans so re-scanning a big library mostly skips the reading.
+export class DuplicateFinder {
+  constructor({ hashCacheFile, getFileType, isExcluded }) {
+    this.hashCacheFile = hashCacheFile;
+    this.getFileType = getFileType;
+    this.isExcluded = isExcluded;
+    this.hashes = null;
+    this.job = null;
+    this.groups = [];
+  }
+
+  loadHashes() {
+    if (this.hashes) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.hashCacheFile, 'utf8'));
+      this.hashes = new Map(Object.entries(data.files || {}));
+    } catch (e) {
+      if (e.code !== 'ENOENT') console.error('Failed to load file hashes, starting from scratch:', e.message);
+      this.hashes = new Map();
+    }
+  }
+
+  async saveHashes() {
+    await fs.promises.mkdir(path.dirname(this.hashCacheFile), { recursive: true });
+    const tempFile = `${this.hashCacheFile}.tmp`;
+    await fs.promises.writeFile(tempFile, JSON.stringify({ version: 1, files: Object.fromEntries(this.hashes) }));
+    await fs.promises.rename(tempFile, this.hashCacheFile);
+  }
+
+  // Start scanning `root`, replacing any scan that is still running
+  start(root) {
+    this.cancel();
+
+    const job = {
+      root,
+      phase: 'scanning',
+      running: true,
+      cancelled: false,
+      filesScanned: 0,
+      filesToHash: 0,
+      filesHashed: 0,
+      bytesToHash: 0,
+      bytesHashed: 0,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      error: null
+    };
+    this.job = job;
+    this.groups = [];
+    this.run(job);
+  }
+
+  cancel() {
+    if (this.job?.running) this.job.cancelled = true;
+  }
+
+  async run(job) {
+    const startTime = Date.now();
+
+    try {
+      this.loadHashes();
+      const bySize = await this.scan(job);
+
+      // Only files with the same size can have the same contents (empty files are skipped)
+      const candidates = [...bySize.values()].filter(files => files.length > 1).flat();
+      job.phase = 'hashing';
+      job.filesToHash = candidates.length;
+      job.bytesToHash = candidates.reduce((total, file) => total + file.size, 0);
+
+      const byHash = new Map();
+      for (const file of candidates) {
+        if (job.cancelled) return;
+
+        let hash;
+        try {
+          hash = await this.getHash(file);
+        } catch (e) {
+          // Unreadable or deleted since the scan
+          continue;
+        } finally {
+          job.filesHashed++;
+          job.bytesHashed += file.size;
+        }
+
+        if (!byHash.has(hash)) byHash.set(hash, []);
+        byHash.get(hash).push(file);
+      }
+
+      // A cancelled scan saw only part of the files, and its groups would replace those of
+      // the scan started after it
+      if (job.cancelled || this.job !== job) return;
+
+      // Forget files below the root that are gone
+      const scanned = new Set([...bySize.values()].flat().map(file => file.path));
+      for (const filePath of this.hashes.keys()) {
+        if (isInsideRoot(filePath, job.root) && !scanned.has(filePath)) this.hashes.delete(filePath);
+      }
+      await this.saveHashes();
+      if (job.cancelled || this.job !== job) return;
+
+      this.groups = [...byHash.entries()]
+        .filter(([, files]) => files.length > 1)
+        .map(([hash, files]) => this.toGroup(hash, files))
+        .sort((a, b) => b.wastedBytes - a.wastedBytes || a.files[0].path.localeCompare(b.files[0].path));
+
+      console.log(`🧬 Found ${this.groups.length} duplicate groups in ${job.root} in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+    } catch (e) {
+      console.error('Error finding duplicates:', e);
+      job.error = e.message;
+    } finally {
+      job.running = false;
+      job.phase = job.cancelled ? 'cancelled' : job.error ? 'error' : 'done';
+      job.finishedAt = new Date().toISOString();
+    }
+  }
+
+  // Collect every file below the job's root, grouped by size
+  async scan(job) {
+    const bySize = new Map();
+    const stack = [job.root];
+    let visited = 0;
+
+    while (stack.length > 0) {
+      if (job.cancelled) break;
+      const dirPath = stack.pop();
+
+      let dirents;
+      try {
+        dirents = await fs.promises.readdir(dirPath, { withFileTypes: true });
+      } catch (e) {
+        continue;
+      }
+
+      for (const dirent of dirents) {
+        if (this.isExcluded(dirent.name)) continue;
+        // Symlinked copies aren't wasting any space
+        if (dirent.isSymbolicLink()) continue;
+
+        const itemPath = path.join(dirPath, dirent.name);
+        if (dirent.isDirectory()) {
+          stack.push(itemPath);
+          continue;
+        }
+        if (!dirent.isFile()) continue;
+
+        try {
+          const stats = await fs.promises.stat(itemPath);
+          if (stats.size === 0) continue;
+
+          if (!bySize.has(stats.size)) bySize.set(stats.size, []);
+          bySize.get(stats.size).push({ path: itemPath, name: dirent.name, size: stats.size, mtime: stats.mtimeMs });
+          job.filesScanned++;
+        } catch (e) {
+          continue;
+        }
+
+        if (++visited % YIELD_EVERY === 0) {
+          await yieldToEventLoop();
+        }
+      }
+    }
+
+    return bySize;
+  }
+
+  async getHash(file) {
+    const cached = this.hashes.get(file.path);
+    if (cached && cached.size === file.size && cached.mtime === file.mtime) {
+      return cached.hash;
+    }
+
+    const hash = await hashFile(file.path);
+    this.hashes.set(file.path, { size: file.size, mtime: file.mtime, hash });
+    return hash;
+  }
+
+  toGroup(hash, files) {
+    const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+    return {
+      hash,
+      size: sorted[0].size,
+      wastedBytes: sorted[0].size * (sorted.length - 1),
+      files: sorted.map(file => ({
+        name: file.name,
+        path: file.path,
+        parentPath: path.dirname(file.path),
+        fileType: this.getFileType(file.path),
+        size: file.size,
+        modified: new Date(file.mtime).toISOString()
+      }))
+    };
+  }
+
+  // The group and scanned file for a path, if it was found as a duplicate
+  findFile(filePath) {
+    for (const group of this.groups) {
+      const file = group.files.find(candidate => candidate.path === filePath);
+      if (file) return { group, file };
+    }
+    return null;
+  }
+
+  // Drop a deleted file from the results; groups with a single copy left are done
+  removeFile(filePath) {
+    this.hashes?.delete(filePath);
+    this.groups = this.groups
+      .map(group => {
+        if (!group.files.some(file => file.path === filePath)) return group;
+        const files = group.files.filter(file => file.path !== filePath);
+        return { ...group, files, wastedBytes: group.size * (files.length - 1) };
+      })
+      .filter(group => group.files.length > 1);
+  }
+
+  getStatus() {
+    return {
+      ...(this.job || { phase: 'idle', running: false }),
+      groupCount: this.groups.length,
+      wastedBytes: this.groups.reduce((total, group) => total + group.wastedBytes, 0)
+    };
+  }
+}
@@ -0,0 +1,303 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+// How many operations can be undone
+const UNDO_LIMIT = 20;
+
+// `status` is the HTTP status to answer with
+export class FileOperationError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'FileOperationError';
+    this.status = status;
+  }
+}
+
+const isInside = (filePath, folder) => {
+  const relative = path.relative(folder, filePath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+};
+
+const exists = (filePath) => fs.promises.lstat(filePath).then(() => true, () => false);
+
+// Whether moving `from` to `target` would replace another file. A target that is `from`
+// itself (only the letter case differs, on a case-insensitive drive) doesn't count
+const isTaken = async (target, from) => {
+  const targetStats = await fs.promises.lstat(target).catch(() => null);
+  if (!targetStats) return false;
+  const fromStats = await fs.promises.lstat(from).catch(() => null);
+  return !fromStats || fromStats.dev !== targetStats.dev || fromStats.ino !== targetStats.ino;
+};
+
+export const validateName = (name) => {
+  if (typeof name !== 'string' || !name.trim()) throw new FileOperationError('The name can\'t be empty');
+  const trimmed = name.trim();
+  if (trimmed === '.' || trimmed === '..' || /[/\\]/.test(trimmed) || trimmed.includes('\0')) {
+    throw new FileOperationError(`"${trimmed}" is not a valid file name`);
+  }
+  return trimmed;
+};
+
+// Rename, or copy and delete when the target is on another drive. Never replaces
+// an existing file, fs.rename would overwrite it
+const movePath = async (from, to) => {
+  if (await isTaken(to, from)) throw new FileOperationError(`"${path.basename(to)}" already exists`, 409);
+  try {
+    await fs.promises.rename(from, to);
+  } catch (e) {
+    if (e.code !== 'EXDEV') throw e;
+    await fs.promises.cp(from, to, { recursive: true, errorOnExist: true, force: false, preserveTimestamps: true });
+    await fs.promises.rm(from, { recursive: true, force: true });
+  }
+};
+
+// "name (2).ext", "name (3).ext"... for copies that would replace an existing file
+const getFreePath = async (targetPath) => {
+  if (!(await exists(targetPath))) return targetPath;
+
+  const ext = path.extname(targetPath);
+  const base = targetPath.slice(0, targetPath.length - ext.length);
+  for (let i = 2; ; i++) {
+    const candidate = `${base} (${i})${ext}`;
+    if (!(await exists(candidate))) return candidate;
+  }
+};
+
+const describePaths = (paths) => paths.length === 1 ? `"${path.basename(paths[0])}"` : `${paths.length} items`;
+
+// Rename, move, copy and trash files and folders, with an undo stack of the last
+// operations. Trashed items are moved into `trashDir` and can be restored until the
+// trash is emptied. Every method returns what changed on disk:
+//   { operation, moved: [{ from, to }], created: [paths] }
+// so the caller can update its caches (moves into the trash are listed as moves too).
+export class FileOperations {
+  constructor({ trashDir }) {
+    this.trashDir = trashDir;
+    this.trashIndexFile = path.join(trashDir, 'trash.json');
+    this.trash = [];
+    this.undoStack = [];
+  }
+
+  load() {
+    try {
+      if (!fs.existsSync(this.trashIndexFile)) return;
+      this.trash = JSON.parse(fs.readFileSync(this.trashIndexFile, 'utf8')).items || [];
+      console.log(`🗑️ ${this.trash.length} items in the trash`);
+    } catch (e) {
+      console.error('Failed to load the trash index:', e.message);
+    }
+  }
+
+  async saveTrash() {
+    await fs.promises.mkdir(this.trashDir, { recursive: true });
+    const tempFile = `${this.trashIndexFile}.tmp`;
+    await fs.promises.writeFile(tempFile, JSON.stringify({ version: 1, items: this.trash }));
+    await fs.promises.rename(tempFile, this.trashIndexFile);
+  }
+
+  record(type, description, entries) {
+    const operation = { id: crypto.randomUUID(), type, description, at: new Date().toISOString(), entries };
+    this.undoStack.push(operation);
+    if (this.undoStack.length > UNDO_LIMIT) this.undoStack.shift();
+    return operation;
+  }
+
+  async rename(filePath, newName) {
+    const name = validateName(newName);
+    const target = path.join(path.dirname(filePath), name);
+    if (target === filePath) throw new FileOperationError('The name didn\'t change');
+    // Changing only the case on a case-insensitive drive finds the file itself
+    if (await isTaken(target, filePath)) {
+      throw new FileOperationError(`"${name}" already exists`, 409);
+    }
+
+    await movePath(filePath, target);
+    const operation = this.record('rename', `Rename "${path.basename(filePath)}" to "${name}"`, [{ from: filePath, to: target }]);
+    return { operation, moved: [{ from: filePath, to: target }], created: [] };
+  }
+
+  checkDestination(paths, destination) {
+    for (const filePath of paths) {
+      if (isInside(destination, filePath)) {
+        throw new FileOperationError(`Can't put "${path.basename(filePath)}" inside itself`);
+      }
+    }
+  }
+
+  async move(paths, destination) {
+    this.checkDestination(paths, destination);
+
+    const moves = paths
+      .map(filePath => ({ from: filePath, to: path.join(destination, path.basename(filePath)) }))
+      .filter(({ from, to }) => from !== to);
+    if (moves.length === 0) throw new FileOperationError('Already in that folder');
+    for (const { from, to } of moves) {
+      if (await isTaken(to, from)) throw new FileOperationError(`"${path.basename(to)}" already exists in the destination`, 409);
+    }
+
+    const moved = [];
+    let operation = null;
+    try {
+      for (const move of moves) {
+        await movePath(move.from, move.to);
+        moved.push(move);
+      }
+    } finally {
+      // Whatever was moved before an error can still be undone
+      if (moved.length > 0) operation = this.record('move', `Move ${describePaths(paths)} to "${path.basename(destination)}"`, moved);
+    }
+
+    return { operation, moved, created: [] };
+  }
+
+  async copy(paths, destination) {
+    this.checkDestination(paths, destination);
+
+    const copies = [];
+    for (const filePath of paths) {
+      const target = await getFreePath(path.join(destination, path.basename(filePath)));
+      await fs.promises.cp(filePath, target, { recursive: true, errorOnExist: true, force: false, preserveTimestamps: true });
+      copies.push({ from: filePath, to: target });
+    }
+
+    const operation = this.record('copy', `Copy ${describePaths(paths)} to "${path.basename(destination)}"`, copies);
+    return { operation, moved: [], created: copies.map(copy => copy.to) };
+  }
+
+  // Put an uploaded file (received into a temporary file) into its folder, next to any
+  // file of the same name instead of replacing it
+  async addUpload(tempPath, destination, name) {
+    const target = await getFreePath(path.join(destination, validateName(name)));
+    await movePath(tempPath, target);
+
+    const operation = this.record('upload', `Upload "${path.basename(target)}"`, [{ from: tempPath, to: target }]);
+    return { operation, moved: [], created: [target] };
+  }
+
+  // Same for files made from another one (like a trimmed copy of a sound), which go next to it
+  async addExport(tempPath, sourcePath, name) {
+    const target = await getFreePath(path.join(path.dirname(sourcePath), validateName(name)));
+    await movePath(tempPath, target);
+
+    const operation = this.record('export', `Save "${path.basename(target)}" from "${path.basename(sourcePath)}"`, [{ from: tempPath, to: target }]);
+    return { operation, moved: [], created: [target] };
+  }
+
+  async moveToTrash(paths) {
+    const moved = [];
+    try {
+      for (const filePath of paths) {
+        const stats = await fs.promises.stat(filePath);
+        const id = crypto.randomUUID();
+        const trashPath = path.join(this.trashDir, id, path.basename(filePath));
+
+        await fs.promises.mkdir(path.dirname(trashPath), { recursive: true });
+        await movePath(filePath, trashPath);
+        this.trash.push({
+          id,
+          name: path.basename(filePath),
+          originalPath: filePath,
+          trashPath,
+          isDirectory: stats.isDirectory(),
+          size: stats.size,
+          trashedAt: new Date().toISOString()
+        });
+        moved.push({ from: filePath, to: trashPath, trashId: id });
+      }
+    } finally {
+      await this.saveTrash();
+    }
+    return moved;
+  }
+
+  async trashPaths(paths) {
+    const moved = await this.moveToTrash(paths);
+    const operation = this.record('trash', `Delete ${describePaths(paths)}`, moved);
+    return { operation, moved, created: [] };
+  }
+
+  // Put trashed items back where they were deleted from
+  async restore(ids) {
+    const items = ids.map(id => this.trash.find(item => item.id === id));
+    if (items.some(item => !item)) throw new FileOperationError('Item is no longer in the trash', 404);
+
+    for (const item of items) {
+      if (await exists(item.originalPath)) {
+        throw new FileOperationError(`"${item.name}" can't be restored, ${item.originalPath} exists again`, 409);
+      }
+    }
+
+    const moved = [];
+    for (const item of items) {
+      await fs.promises.mkdir(path.dirname(item.originalPath), { recursive: true });
+      await movePath(item.trashPath, item.originalPath);
+      await fs.promises.rm(path.dirname(item.trashPath), { recursive: true, force: true });
+      this.trash = this.trash.filter(candidate => candidate.id !== item.id);
+      moved.push({ from: item.trashPath, to: item.originalPath });
+    }
+    await this.saveTrash();
+
+    // Deletes whose items were all restored from the trash panel can't be undone anymore
+    this.undoStack = this.undoStack.filter(operation =>
+      operation.type !== 'trash' || operation.entries.some(entry => this.trash.some(item => item.id === entry.trashId)));
+    return moved;
+  }
+
+  // Undo the last operation; the changes are returned like for any other operation
+  async undo() {
+    const operation = this.undoStack[this.undoStack.length - 1];
+    if (!operation) throw new FileOperationError('Nothing to undo', 404);
+
+    let result;
+    switch (operation.type) {
+      case 'rename':
+      case 'move': {
+        const moves = operation.entries.map(({ from, to }) => ({ from: to, to: from }));
+        for (const { from, to } of moves) {
+          if (await isTaken(to, from)) throw new FileOperationError(`Can't undo, ${to} exists again`, 409);
+        }
+        for (const move of moves) await movePath(move.from, move.to);
+        result = { moved: moves, created: [] };
+        break;
+      }
+      case 'copy':
+      case 'upload':
+      case 'export': {
+        // The copies go to the trash, in case they were changed since
+        const existing = [];
+        for (const { to } of operation.entries) {
+          if (await exists(to)) existing.push(to);
+        }
+        result = { moved: await this.moveToTrash(existing), created: [] };
+        break;
+      }
+      case 'trash': {
+        // Items restored from the trash panel in the meantime are skipped
+        const ids = operation.entries.map(entry => entry.trashId).filter(id => this.trash.some(item => item.id === id));
+        result = { moved: await this.restore(ids), created: [] };
+        break;
+      }
+    }
+
+    // Restoring a delete already took it off the stack
+    this.undoStack = this.undoStack.filter(candidate => candidate !== operation);
+    return { operation, ...result };
+  }
+
+  async emptyTrash() {
+    const count = this.trash.length;
+    for (const item of this.trash) {
+      await fs.promises.rm(path.dirname(item.trashPath), { recursive: true, force: true });
+    }
+    this.trash = [];
+    // Trashed items can't be restored anymore
+    this.undoStack = this.undoStack.filter(operation => operation.type !== 'trash');
+    await this.saveTrash();
+    return count;
+  }
+
+  getUndoStack() {
+    return this.undoStack.map(({ id, type, description, at }) => ({ id, type, description, at })).reverse();
+  }
+}
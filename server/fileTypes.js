@@ -0,0 +1,216 @@
+import path from 'path';
+import crypto from 'crypto';
+
+// How the client previews files of a category (and how the server thumbnails them)
+export const PREVIEW_KINDS = ['image', 'model', 'audio', 'video', 'text', 'font', 'map', 'none'];
+
+// Palette names the client maps to its own classes, hex values are for server-drawn tiles
+export const CATEGORY_COLORS = {
+  blue: '#3b82f6',
+  purple: '#a855f7',
+  green: '#10b981',
+  red: '#ef4444',
+  yellow: '#f59e0b',
+  orange: '#f97316',
+  pink: '#ec4899',
+  cyan: '#06b6d4',
+  indigo: '#6366f1',
+  gray: '#6b7280'
+};
+
+export const CATEGORY_ICONS = ['image', 'box', 'music', 'video', 'file-text', 'type', 'file', 'archive', 'map', 'palette', 'code', 'grid'];
+
+export const DEFAULT_FILE_TYPES = {
+  categories: [
+    { id: 'images', label: 'Images', extensions: ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg'], preview: 'image', color: 'blue', icon: 'image' },
+    { id: 'models', label: '3D Models', extensions: ['.glb', '.gltf', '.fbx', '.obj', '.dae', '.3ds'], preview: 'model', color: 'purple', icon: 'box' },
+    { id: 'audio', label: 'Audio', extensions: ['.mp3', '.wav', '.ogg', '.m4a', '.flac', '.aac', '.mid', '.midi', '.rmi', '.mod', '.xm', '.it', '.s3m'], preview: 'audio', color: 'green', icon: 'music' },
+    { id: 'video', label: 'Video', extensions: ['.mp4', '.webm', '.mov', '.avi', '.mkv'], preview: 'video', color: 'red', icon: 'video' },
+    { id: 'documents', label: 'Documents', extensions: ['.txt', '.json', '.xml', '.md', '.url'], preview: 'text', color: 'yellow', icon: 'file-text' },
+    { id: 'fonts', label: 'Fonts', extensions: ['.ttf', '.otf', '.woff', '.woff2', '.eot', '.fnt', '.fon'], preview: 'font', color: 'orange', icon: 'type' },
+    { id: 'maps', label: 'Maps', extensions: ['.tmx', '.tsx', '.tmj', '.tsj', '.ldtk'], preview: 'map', color: 'cyan', icon: 'map' }
+  ],
+  hiddenNames: ['.DS_Store', 'Thumbs.db', 'desktop.ini', '.itch'],
+  hiddenExtensions: ['.tmp', '.mtl', '.bin', '.html', '.swf', '.ts', '.js']
+};
+
+// Bumped whenever the defaults gain categories or extensions, see FILE_TYPE_MIGRATIONS
+export const FILE_TYPES_VERSION = 3;
+
+// What each version of the defaults added. The settings panel saves the whole config, so
+// configs saved before that get it on load; what the user changed stays as it is
+const FILE_TYPE_MIGRATIONS = {
+  2: { addCategories: ['maps'], unhideExtensions: ['.tmx', '.tsx'] },
+  3: { addExtensions: { audio: ['.mid', '.midi', '.rmi', '.mod', '.xm', '.it', '.s3m'] } }
+};
+
+// Ids the client uses for things that aren't a category
+const RESERVED_IDS = ['folder', 'unknown'];
+
+// Thrown for an invalid config, the message is shown to the user as is
+export class FileTypesError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'FileTypesError';
+  }
+}
+
+const normalizeExtension = (extension) => {
+  if (typeof extension !== 'string' || !extension.trim()) {
+    throw new FileTypesError('Extensions must be non-empty strings');
+  }
+  const trimmed = extension.trim().toLowerCase();
+  const normalized = trimmed.startsWith('.') ? trimmed : `.${trimmed}`;
+  if (!/^\.[a-z0-9_+-]+(\.[a-z0-9_+-]+)*$/.test(normalized)) {
+    throw new FileTypesError(`"${extension}" is not a valid extension`);
+  }
+  return normalized;
+};
+
+const normalizeList = (value, name, normalizeItem) => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new FileTypesError(`"${name}" must be a list`);
+  return [...new Set(value.map(normalizeItem))];
+};
+
+// Validate a config and clean it up (lowercase extensions with a leading dot, no duplicates).
+// Throws a FileTypesError explaining the first problem found.
+export const normalizeFileTypes = (config) => {
+  if (typeof config !== 'object' || config === null || !Array.isArray(config.categories)) {
+    throw new FileTypesError('The file type config needs a "categories" list');
+  }
+
+  const extensionOwners = new Map();
+  const ids = new Set();
+
+  const categories = config.categories.map((category) => {
+    if (typeof category !== 'object' || category === null) {
+      throw new FileTypesError('Every category must be an object');
+    }
+
+    const id = typeof category.id === 'string' ? category.id.trim().toLowerCase() : '';
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(id)) {
+      throw new FileTypesError(`"${category.id}" is not a valid category id (use letters, digits, - and _)`);
+    }
+    if (RESERVED_IDS.includes(id)) throw new FileTypesError(`"${id}" can't be used as a category id`);
+    if (ids.has(id)) throw new FileTypesError(`There are two categories with the id "${id}"`);
+    ids.add(id);
+
+    const label = typeof category.label === 'string' && category.label.trim() ? category.label.trim() : id;
+
+    const preview = category.preview || 'none';
+    if (!PREVIEW_KINDS.includes(preview)) {
+      throw new FileTypesError(`Unknown preview "${preview}" for ${label}, expected one of ${PREVIEW_KINDS.join(', ')}`);
+    }
+
+    const extensions = normalizeList(category.extensions, `${label} extensions`, normalizeExtension);
+    for (const extension of extensions) {
+      if (extensionOwners.has(extension)) {
+        throw new FileTypesError(`${extension} is in both ${extensionOwners.get(extension)} and ${label}`);
+      }
+      extensionOwners.set(extension, label);
+    }
+
+    return {
+      id,
+      label,
+      extensions,
+      preview,
+      color: Object.hasOwn(CATEGORY_COLORS, category.color) ? category.color : 'gray',
+      icon: CATEGORY_ICONS.includes(category.icon) ? category.icon : 'file'
+    };
+  });
+
+  return {
+    // Whatever the panel saves is what it showed, which includes the current defaults
+    version: FILE_TYPES_VERSION,
+    categories,
+    hiddenNames: normalizeList(config.hiddenNames, 'hiddenNames', (name) => {
+      if (typeof name !== 'string' || !name.trim()) throw new FileTypesError('Hidden names must be non-empty strings');
+      return name.trim();
+    }),
+    hiddenExtensions: normalizeList(config.hiddenExtensions, 'hiddenExtensions', normalizeExtension)
+  };
+};
+
+// Add what the defaults gained since `config` was saved. Extensions that are already in
+// another category or hidden by the user aren't added. Invalid configs are returned as they
+// are, FileTypes reports what's wrong with them
+export const migrateFileTypes = (config) => {
+  if (typeof config !== 'object' || config === null || !Array.isArray(config.categories)) return config;
+  const savedVersion = Number.isInteger(config.version) ? config.version : 1;
+  if (savedVersion >= FILE_TYPES_VERSION) return config;
+
+  const categories = config.categories.map(category => ({ ...category, extensions: [...(category.extensions || [])] }));
+  let hiddenExtensions = [...(config.hiddenExtensions || [])];
+  const matches = (extension) => (other) =>
+    typeof other === 'string' && other.trim().toLowerCase().replace(/^\.?/, '.') === extension;
+  const isUsed = (extension) => categories.some(category => category.extensions.some(matches(extension)));
+
+  for (let version = savedVersion + 1; version <= FILE_TYPES_VERSION; version++) {
+    const { addCategories = [], unhideExtensions = [], addExtensions = {} } = FILE_TYPE_MIGRATIONS[version] || {};
+
+    hiddenExtensions = hiddenExtensions.filter(hidden => !unhideExtensions.some(extension => matches(extension)(hidden)));
+
+    for (const id of addCategories) {
+      if (categories.some(category => category.id === id)) continue;
+      const category = DEFAULT_FILE_TYPES.categories.find(candidate => candidate.id === id);
+      categories.push({ ...category, extensions: category.extensions.filter(extension => !isUsed(extension)) });
+    }
+
+    for (const [id, extensions] of Object.entries(addExtensions)) {
+      const category = categories.find(candidate => candidate.id === id);
+      if (!category) continue;
+      category.extensions.push(...extensions.filter(extension =>
+        !isUsed(extension) && !hiddenExtensions.some(matches(extension))));
+    }
+  }
+
+  return { ...config, version: FILE_TYPES_VERSION, categories, hiddenExtensions };
+};
+
+// Maps extensions to categories and decides which entries are hidden from the browser
+export class FileTypes {
+  constructor(config = DEFAULT_FILE_TYPES) {
+    this.update(config);
+  }
+
+  // Replace the config, throws a FileTypesError (and keeps the old one) if it's invalid
+  update(config) {
+    const normalized = normalizeFileTypes(config);
+
+    this.config = normalized;
+    this.categories = new Map(normalized.categories.map(category => [category.id, category]));
+    this.byExtension = new Map();
+    for (const category of normalized.categories) {
+      for (const extension of category.extensions) this.byExtension.set(extension, category.id);
+    }
+    this.hiddenNames = new Set(normalized.hiddenNames.map(name => name.toLowerCase()));
+    this.hiddenExtensions = new Set(normalized.hiddenExtensions);
+
+    // Changes whenever the config does, for cache keys that depend on it
+    this.revision = crypto.createHash('sha1').update(JSON.stringify(normalized)).digest('hex').slice(0, 8);
+    return normalized;
+  }
+
+  getFileType(filePath) {
+    return this.byExtension.get(path.extname(filePath).toLowerCase()) || 'unknown';
+  }
+
+  getPreviewKind(fileType) {
+    return this.categories.get(fileType)?.preview || 'none';
+  }
+
+  getColor(fileType) {
+    return CATEGORY_COLORS[this.categories.get(fileType)?.color] || CATEGORY_COLORS.gray;
+  }
+
+  isExcluded(name) {
+    return this.hiddenNames.has(name.toLowerCase()) ||
+      this.hiddenExtensions.has(path.extname(name).toLowerCase());
+  }
+
+  toJSON() {
+    return this.config;
+  }
+}
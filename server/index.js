@@ -6,7 +6,25 @@ import { fileURLToPath } from 'url';
 import mime from 'mime-types';
 import sharp from 'sharp';
 import os from 'os';
-import { exec } from 'child_process';
+import crypto from 'crypto';
+import { spawn } from 'child_process';
+import multer from 'multer';
+import { AssetIndex } from './assetIndex.js';
+import { DirectoryWatcher } from './directoryWatcher.js';
+import { ThumbnailCache } from './thumbnailCache.js';
+import { MODEL_PARSERS, findModelDependencies } from './modelParsers.js';
+import { ModelRenderQueue } from './modelRenderQueue.js';
+import { PathSandbox, PathAccessError } from './pathSandbox.js';
+import { ArchiveCache, isArchiveName, splitArchivePath } from './archives.js';
+import { DuplicateFinder } from './duplicateFinder.js';
+import { TagStore, TagError, normalizeTags } from './tagStore.js';
+import { FileOperations, FileOperationError } from './fileOperations.js';
+import { MetadataCache, canReadMetadata, readAssetMetadata } from './assetMetadata.js';
+import { MapError, loadMap } from './mapParsers.js';
+import { renderMapThumbnail } from './mapRenderer.js';
+import { AudioError, encodeWav, readAudioRange } from './audioDecoders.js';
+import { computeWaveform, renderWaveform, resizeWaveform, WAVEFORM_PEAKS } from './waveforms.js';
+import { FileTypes, FileTypesError, DEFAULT_FILE_TYPES, PREVIEW_KINDS, CATEGORY_COLORS, CATEGORY_ICONS, migrateFileTypes } from './fileTypes.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -14,30 +32,183 @@ const __dirname = path.dirname(__filename);
 const app = express();
 const PORT = 3001;
 
-app.use(cors());
+// Where the server keeps persistent data (asset index, caches...)
+const DATA_DIR = process.env.TAB_DATA_DIR || path.join(os.homedir(), '.total-asset-browser');
+
+// Optional server config: { "allowedRoots": ["/path/to/assets", ...], "projects": [...], "fileTypes": {...} }.
+// allowedRoots and projects are only ever edited by hand, fileTypes is also written by the settings panel.
+const CONFIG_FILE = path.join(DATA_DIR, 'config.json');
+
+const readServerConfig = () => {
+  try {
+    return JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf8'));
+  } catch (e) {
+    if (e.code !== 'ENOENT') console.error(`Failed to read ${CONFIG_FILE}, using defaults:`, e.message);
+    return {};
+  }
+};
+
+// Merge `changes` into the config file, re-reading it first so hand edits aren't lost
+const writeServerConfig = async (changes) => {
+  const config = { ...readServerConfig(), ...changes };
+
+  await fs.promises.mkdir(DATA_DIR, { recursive: true });
+  const tempFile = `${CONFIG_FILE}.tmp`;
+  await fs.promises.writeFile(tempFile, JSON.stringify(config, null, 2));
+  await fs.promises.rename(tempFile, CONFIG_FILE);
+};
+
+const serverConfig = readServerConfig();
+
+// Only files below these folders are ever served (defaults to the home directory)
+const pathSandbox = new PathSandbox({
+  roots: process.env.TAB_ALLOWED_ROOTS
+    ? process.env.TAB_ALLOWED_ROOTS.split(path.delimiter).filter(Boolean)
+    : Array.isArray(serverConfig.allowedRoots) ? serverConfig.allowedRoots : [os.homedir()],
+  configFile: CONFIG_FILE
+});
+
+// Game projects assets can be sent to: [{ "name": "My Godot game", "path": "/path/to/project" }].
+// The server writes into these folders, so like allowedRoots they can't be set from the browser.
+const projects = (Array.isArray(serverConfig.projects) ? serverConfig.projects : [])
+  .filter(project => typeof project?.name === 'string' && typeof project?.path === 'string')
+  .map(project => ({ name: project.name, path: path.resolve(project.path) }));
+
+// Answer a PathAccessError with its status, returns false for any other error
+const sendPathError = (res, error) => {
+  if (!(error instanceof PathAccessError)) return false;
+
+  res.status(error.status).json({
+    error: error.message,
+    code: error.code,
+    ...(error.status === 403 ? pathSandbox.describe() : {})
+  });
+  return true;
+};
+
+// Only the client may read responses or send anything but GETs (the Vite dev server and `vite preview`)
+const CLIENT_ORIGINS = process.env.TAB_CLIENT_ORIGINS
+  ? process.env.TAB_CLIENT_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+  : ['http://localhost:5173', 'http://127.0.0.1:5173', 'http://localhost:4173', 'http://127.0.0.1:4173'];
+
+// Every request that isn't a GET must carry this header. Browsers only send a custom header
+// after a CORS preflight, which other sites fail, so their pages can't change files (form
+// posts and uploads from them don't preflight at all and lack the header)
+const CLIENT_HEADER = 'x-asset-browser';
+
+app.use(cors({ origin: CLIENT_ORIGINS }));
+app.use((req, res, next) => {
+  if (['GET', 'HEAD', 'OPTIONS'].includes(req.method) || req.get(CLIENT_HEADER)) return next();
+  res.status(403).json({ error: 'Requests that change anything must come from the asset browser' });
+});
 app.use(express.json());
 
-// Cache for thumbnails
-const thumbnailCache = new Map();
+// Disk cache for thumbnails, survives restarts (size budget in MB, LRU eviction)
+const thumbnailCache = new ThumbnailCache({
+  cacheDir: process.env.TAB_CACHE_DIR || path.join(DATA_DIR, 'thumbnails'),
+  maxBytes: (parseInt(process.env.TAB_CACHE_MAX_MB) || 512) * 1024 * 1024
+});
+
+// .zip and .unitypackage files are browsed like folders, see archives.js
+const archiveCache = new ArchiveCache();
+
+// Resolve a path that may point inside an archive. Real files and folders come back as
+// { filePath }, archive contents as { filePath, archive, entry } with the virtual path.
+// With `openArchive` an archive file itself is returned as the archive's root folder.
+const resolveAssetPath = async (requestedPath, { notFoundMessage, openArchive = false } = {}) => {
+  let filePath;
+  try {
+    filePath = await pathSandbox.resolve(requestedPath, { notFoundMessage });
+  } catch (error) {
+    if (error.code !== 'PATH_NOT_FOUND') throw error;
+
+    const location = await splitArchivePath(requestedPath);
+    if (!location) throw error;
+    const archive = await archiveCache.open(await pathSandbox.resolve(location.archivePath));
+    const entry = archive.getEntry(location.innerPath);
+    if (!entry) throw error;
+    return { filePath: archive.virtualPath(entry), archive, entry };
+  }
 
-// Supported file types
-const SUPPORTED_EXTENSIONS = {
-  images: ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg'],
-  models: ['.glb', '.gltf', '.fbx', '.obj', '.dae', '.3ds'],
-  audio: ['.mp3', '.wav', '.ogg', '.m4a', '.flac', '.aac'],
-  video: ['.mp4', '.webm', '.mov', '.avi', '.mkv'],
-  documents: ['.txt', '.json', '.xml', '.md', '.url'],
-  fonts: ['.ttf', '.otf', '.woff', '.woff2', '.eot', '.fnt', '.fon']
+  if (openArchive && isArchiveName(filePath) && (await fs.promises.stat(filePath)).isFile()) {
+    const archive = await archiveCache.open(filePath);
+    return { filePath, archive, entry: archive.root };
+  }
+  return { filePath, archive: null, entry: null };
 };
 
-const getFileType = (filePath) => {
-  const ext = path.extname(filePath).toLowerCase();
-  for (const [type, extensions] of Object.entries(SUPPORTED_EXTENSIONS)) {
-    if (extensions.includes(ext)) return type;
+// Which extensions belong to which category, and which files are hidden. Settings saved
+// by an older version get the categories and extensions added since
+const fileTypes = (() => {
+  try {
+    return new FileTypes(serverConfig.fileTypes ? migrateFileTypes(serverConfig.fileTypes) : DEFAULT_FILE_TYPES);
+  } catch (e) {
+    console.error(`Invalid "fileTypes" in ${CONFIG_FILE}, using defaults:`, e.message);
+    return new FileTypes();
   }
-  return 'unknown';
+})();
+
+const getFileType = (filePath) => fileTypes.getFileType(filePath);
+const getPreviewKind = (fileType) => fileTypes.getPreviewKind(fileType);
+const isExcludedName = (name) => fileTypes.isExcluded(name);
+
+// Background index of everything inside the favorite folders
+const assetIndex = new AssetIndex({
+  indexFile: path.join(DATA_DIR, 'asset-index.json'),
+  getFileType,
+  isExcluded: isExcludedName
+});
+
+// User tags of files and folders, see tagStore.js
+const tagStore = new TagStore({ tagsFile: path.join(DATA_DIR, 'tags.json') });
+
+// Dimensions, durations, mesh counts... of files, see assetMetadata.js
+const metadataCache = new MetadataCache({ cacheFile: path.join(DATA_DIR, 'metadata-cache.json') });
+
+// For listings: null when there is nothing to read, undefined when it wasn't read yet
+const getCachedMetadata = (itemPath, { size, mtime, fileType, inArchive = false }) => {
+  const kind = getPreviewKind(fileType);
+  if (!canReadMetadata(kind, { fromBuffer: inArchive })) return null;
+  return metadataCache.getCached(itemPath, { size, mtime, kind });
 };
 
+// Rename, move, copy and delete with undo; deleted files go to a trash folder we manage
+const fileOperations = new FileOperations({ trashDir: path.join(DATA_DIR, 'trash') });
+
+// Multer reads multipart file names as latin1, browsers send UTF-8
+const getUploadName = (file) => Buffer.from(file.originalname, 'latin1').toString('utf8');
+
+// Uploads are received into this folder, then moved into the folder they were dropped on
+const uploadMiddleware = multer({
+  dest: path.join(DATA_DIR, 'uploads'),
+  limits: { files: 1 },
+  // Only files the browser would show can be uploaded
+  fileFilter: (req, file, cb) => {
+    const name = getUploadName(file);
+    if (isExcludedName(name)) {
+      return cb(new FileOperationError(`"${name}" is hidden by the file type settings`));
+    }
+    if (getFileType(name) === 'unknown' && !isArchiveName(name)) {
+      return cb(new FileOperationError(`"${path.extname(name) || name}" files aren't one of the configured file types`));
+    }
+    cb(null, true);
+  }
+}).single('file');
+
+const receiveUpload = (req, res) => new Promise((resolve, reject) => {
+  uploadMiddleware(req, res, error => {
+    if (error) return reject(error instanceof multer.MulterError ? new FileOperationError(error.message) : error);
+    resolve(req.file);
+  });
+});
+
+// Content-hash based duplicate detection, one scan at a time
+const duplicateFinder = new DuplicateFinder({
+  hashCacheFile: path.join(DATA_DIR, 'file-hashes.json'),
+  getFileType,
+  isExcluded: isExcludedName
+});
+
 // ENHANCED colormap finder with MUCH better FBX/OBJ support
 const findColormap = (modelPath) => {
   try {
@@ -220,14 +391,41 @@ const findColormap = (modelPath) => {
   }
 };
 
-// Generate 3D model thumbnail - IMPROVED VERSION
+// For files a map or model points to, which may be anywhere on disk (symlinks included)
+const isInsideLibrary = (filePath) => pathSandbox.canRead(filePath);
+
+// Models are parsed and rasterized in a worker thread, one at a time. The worker checks
+// the files a model points to against the same roots
+const modelRenderQueue = new ModelRenderQueue({ roots: pathSandbox.roots });
+
+// Rasterize the model on the CPU with the same framing and lights as the grid thumbnails
+const renderModelPreview = async (modelPath, size, colormapPath) => {
+  if (!MODEL_PARSERS[path.extname(modelPath).toLowerCase()]) return null;
+
+  try {
+    const { buffer, meshCount } = await modelRenderQueue.render(modelPath, size, colormapPath);
+    console.log(`✓ Rendered 3D thumbnail (${meshCount} meshes)`);
+    return buffer;
+  } catch (e) {
+    console.log(`Failed to render model, falling back to texture/icon thumbnail: ${e.message}`);
+    return null;
+  }
+};
+
+// Generate 3D model thumbnail, returns { buffer, contentType }
 const generate3DModelThumbnail = async (modelPath, size) => {
   try {
     console.log(`\n=== Generating 3D thumbnail for: ${modelPath} ===`);
 
-    // First, try to find and use the colormap texture as thumbnail
     const colormapPath = findColormap(modelPath);
 
+    // First, try to render the actual model
+    const rendered = await renderModelPreview(modelPath, size, colormapPath);
+    if (rendered) {
+      return { buffer: rendered, contentType: 'image/png' };
+    }
+
+    // Otherwise use the colormap texture as thumbnail
     if (colormapPath) {
       console.log(`✓ Using colormap texture as thumbnail: ${colormapPath}`);
       try {
@@ -280,7 +478,7 @@ const generate3DModelThumbnail = async (modelPath, size) => {
           .toBuffer();
 
         console.log('✓ Successfully generated texture-based 3D thumbnail');
-        return overlayBuffer;
+        return { buffer: overlayBuffer, contentType: 'image/jpeg' };
 
       } catch (e) {
         console.log('Failed to process colormap texture, falling back to icon');
@@ -289,14 +487,32 @@ const generate3DModelThumbnail = async (modelPath, size) => {
 
     // If no texture found or texture processing failed, generate enhanced 3D icon
     console.log('Generating enhanced 3D model icon');
-    return await generateEnhanced3DIcon(modelPath, size);
+    return { buffer: await generateEnhanced3DIcon(modelPath, size), contentType: 'image/jpeg' };
 
   } catch (error) {
     console.error('Error generating 3D thumbnail:', error);
-    return await generateEnhanced3DIcon(modelPath, size);
+    return { buffer: await generateEnhanced3DIcon(modelPath, size), contentType: 'image/jpeg' };
   }
 };
 
+// The model parsers read files from disk, so models inside archives use the preview
+// Unity stores with each asset, or the generic model icon. Returns { buffer, contentType }
+const generateArchiveModelThumbnail = async (archive, entry, size) => {
+  const preview = archive.getPreview(entry);
+  if (preview) {
+    try {
+      const buffer = await sharp(preview)
+        .resize(size, size, { fit: 'contain', background: { r: 42, g: 42, b: 42, alpha: 1 } })
+        .png()
+        .toBuffer();
+      return { buffer, contentType: 'image/png' };
+    } catch (e) {
+      console.log(`Failed to read the package preview of ${entry.path}, falling back to icon`);
+    }
+  }
+  return { buffer: await generateEnhanced3DIcon(entry.name, size), contentType: 'image/jpeg' };
+};
+
 // Generate enhanced 3D model icon with better visual appeal
 const generateEnhanced3DIcon = async (modelPath, size) => {
   const modelTypeColors = {
@@ -400,337 +616,1210 @@ const generateEnhanced3DIcon = async (modelPath, size) => {
 };
 
 // Find first asset in a directory - PRIORITIZE 3D MODELS FOR FOLDER PREVIEWS
-const findFirstAsset = (dirPath) => {
+const findFirstAsset = async (dirPath) => {
   try {
-    const items = fs.readdirSync(dirPath);
+    const items = await fs.promises.readdir(dirPath);
+    const files = [];
+    const subfolders = [];
 
-    // FIRST PRIORITY: Look for 3D models (they make the best folder previews!)
     for (const item of items) {
       const itemPath = path.join(dirPath, item);
       try {
-        const stats = fs.statSync(itemPath);
-        if (!stats.isDirectory()) {
-          const fileType = getFileType(itemPath);
-          if (fileType === 'models') {
-            console.log(`✓ Found 3D model for folder preview: ${itemPath}`);
-            return { path: itemPath, type: fileType };
-          }
+        const stats = await fs.promises.stat(itemPath);
+        if (stats.isDirectory()) {
+          subfolders.push(itemPath);
+        } else {
+          files.push({ path: itemPath, type: getFileType(itemPath), modified: stats.mtime.toISOString() });
         }
       } catch (e) {
         continue;
       }
     }
 
+    // FIRST PRIORITY: Look for 3D models (they make the best folder previews!)
+    const model = files.find(file => getPreviewKind(file.type) === 'model');
+    if (model) {
+      console.log(`✓ Found 3D model for folder preview: ${model.path}`);
+      return model;
+    }
+
     // SECOND PRIORITY: Look for images (good for previews)
-    for (const item of items) {
-      const itemPath = path.join(dirPath, item);
-      try {
-        const stats = fs.statSync(itemPath);
-        if (!stats.isDirectory()) {
-          const fileType = getFileType(itemPath);
-          if (fileType === 'images') {
-            return { path: itemPath, type: fileType };
+    const image = files.find(file => getPreviewKind(file.type) === 'image');
+    if (image) return image;
+
+    // If no images or models, look for any other supported asset
+    const asset = files.find(file => file.type !== 'unknown');
+    if (asset) return asset;
+
+    // Recursively check subdirectories (but only one level deep to avoid performance issues)
+    for (const subfolder of subfolders) {
+      const subAsset = await findFirstAsset(subfolder);
+      if (subAsset) {
+        return subAsset;
+      }
+    }
+
+    return null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Same priorities as findFirstAsset (models, then images, then anything known),
+// over everything below a folder inside an archive
+const findFirstArchiveAsset = (archive, folderEntry) => {
+  let image = null;
+  let other = null;
+
+  for (const entry of archive.walk(folderEntry)) {
+    if (entry.isDirectory || isExcludedName(entry.name)) continue;
+
+    const type = getFileType(entry.name);
+    const asset = { path: archive.virtualPath(entry), type, modified: entry.modified.toISOString() };
+    const previewKind = getPreviewKind(type);
+    if (previewKind === 'model') return asset;
+    if (previewKind === 'image') image = image || asset;
+    else if (type !== 'unknown') other = other || asset;
+  }
+
+  return image || other;
+};
+
+// Folder preview metadata for a folder inside an archive (or the archive's root)
+const describeArchiveFolder = (archive, entry) => {
+  if (!archive.list(entry).some(child => !isExcludedName(child.name))) {
+    return { isEmpty: true, hasAssets: false, firstAsset: null };
+  }
+  const firstAsset = findFirstArchiveAsset(archive, entry);
+  return { isEmpty: false, hasAssets: Boolean(firstAsset), firstAsset };
+};
+
+// Zip listings are cheap to read, but Unity packages have to be decompressed completely,
+// so those aren't opened just for a folder preview
+const describeArchiveFile = async (filePath) => {
+  if (path.extname(filePath).toLowerCase() !== '.zip') {
+    return { isEmpty: false, hasAssets: true, firstAsset: null };
+  }
+  try {
+    const archive = await archiveCache.open(filePath);
+    return describeArchiveFolder(archive, archive.root);
+  } catch (e) {
+    console.warn(`⚠️ Can't read archive ${filePath}: ${e.message}`);
+    return { isEmpty: false, hasAssets: false, firstAsset: null };
+  }
+};
+
+// Read a file that may be inside an archive
+const readAsset = async (assetPath) => {
+  const { filePath, archive, entry } = await resolveAssetPath(assetPath);
+  return archive ? archive.read(entry) : fs.promises.readFile(filePath);
+};
+
+// Folder preview metadata, this is the slow part of listing folders so it's sent separately
+const describeFolder = async (folderPath) => {
+  let hasAssets = false;
+  let firstAsset = null;
+
+  if (isArchiveName(folderPath)) {
+    return describeArchiveFile(folderPath);
+  }
+
+  try {
+    const folderContents = await fs.promises.readdir(folderPath);
+    if (folderContents.length === 0) {
+      return { isEmpty: true, hasAssets, firstAsset };
+    }
+    hasAssets = folderContents.some(file => {
+      const fileType = getFileType(path.join(folderPath, file));
+      return fileType !== 'unknown';
+    });
+    if (hasAssets) {
+      firstAsset = await findFirstAsset(folderPath);
+    } else {
+      // directory without any assets in it, check for images in subfolders
+      for (const subfolder of folderContents) {
+        const subfolderPath = path.join(folderPath, subfolder);
+        const subfolderStats = await fs.promises.stat(subfolderPath);
+        if (subfolderStats.isDirectory()) {
+          const subfolderAsset = await findFirstAsset(subfolderPath);
+          if (subfolderAsset) {
+            firstAsset = subfolderAsset;
+            hasAssets = true;
+            break;
           }
         }
-      } catch (e) {
-        continue;
       }
     }
+  } catch (e) {
+    // Permission denied or other error
+  }
 
-    // If no images or models, look for any other supported asset
-    for (const item of items) {
-      const itemPath = path.join(dirPath, item);
-      try {
-        const stats = fs.statSync(itemPath);
-        if (!stats.isDirectory()) {
-          const fileType = getFileType(itemPath);
-          if (fileType !== 'unknown') {
-            return { path: itemPath, type: fileType };
-          }
+  return { isEmpty: false, hasAssets, firstAsset };
+};
+
+// Describe a directory entry for the client, returns null for entries that shouldn't be listed.
+// Without `withPreview` folders are listed without looking inside them.
+const describeItem = async (dirPath, item, { withPreview = true } = {}) => {
+  const itemPath = path.join(dirPath, item);
+  try {
+    const itemStats = await fs.promises.stat(itemPath);
+    // Archives are listed as folders that can be opened
+    const isArchive = itemStats.isFile() && isArchiveName(item);
+    const isDirectory = itemStats.isDirectory() || isArchive;
+
+    let fileType = 'folder';
+    let hasAssets = false;
+    let firstAsset = null;
+
+    if (!isDirectory) {
+      fileType = getFileType(itemPath);
+    } else if (withPreview) {
+      const folder = await describeFolder(itemPath);
+      // don't show empty folders
+      if (folder.isEmpty) return null;
+      ({ hasAssets, firstAsset } = folder);
+    }
+
+    return {
+      name: item,
+      path: itemPath,
+      isDirectory,
+      isArchive,
+      fileType,
+      hasAssets,
+      firstAsset,
+      size: itemStats.size,
+      modified: itemStats.mtime.toISOString(),
+      extension: isDirectory ? null : path.extname(item).toLowerCase(),
+      tags: await tagStore.getTagsFor(itemPath, { isDirectory, size: itemStats.size, mtime: itemStats.mtimeMs }),
+      // Only what is cached already, the client asks for the rest through /api/metadata
+      metadata: isDirectory ? undefined : getCachedMetadata(itemPath, { size: itemStats.size, mtime: itemStats.mtimeMs, fileType })
+    };
+  } catch (error) {
+    // Skip files we can't access
+    return null;
+  }
+};
+
+// Describe a file or folder inside an archive, like describeItem
+const describeArchiveEntry = (archive, entry) => ({
+  name: entry.name,
+  path: archive.virtualPath(entry),
+  isDirectory: entry.isDirectory,
+  isArchive: false,
+  fileType: entry.isDirectory ? 'folder' : getFileType(entry.name),
+  hasAssets: false,
+  firstAsset: null,
+  size: entry.size,
+  modified: entry.modified.toISOString(),
+  extension: entry.isDirectory ? null : path.extname(entry.name).toLowerCase(),
+  tags: tagStore.getTags(archive.virtualPath(entry)),
+  metadata: entry.isDirectory ? undefined : getCachedMetadata(archive.virtualPath(entry), {
+    size: entry.size,
+    mtime: entry.modified.getTime(),
+    fileType: getFileType(entry.name),
+    inArchive: true
+  })
+});
+
+// Directory listings are sent in pages of this many entries
+const BROWSE_PAGE_SIZE = 200;
+const BROWSE_MAX_PAGE_SIZE = 1000;
+
+// Listing order: directories first, then by name (plain comparison breaks locale ties)
+const compareBrowseEntries = (a, b) => {
+  if (a.isDirectory !== b.isDirectory) return a.isDirectory ? -1 : 1;
+  return a.name.localeCompare(b.name) || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+};
+
+// The cursor is the last entry of the previous page, so files added or removed between
+// page requests don't shift the next page (`d:` or `f:` tells directories from files)
+const encodeBrowseCursor = (entry) => `${entry.isDirectory ? 'd' : 'f'}:${entry.name}`;
+
+const decodeBrowseCursor = (cursor) => {
+  if (typeof cursor !== 'string' || !/^[df]:./s.test(cursor)) return null;
+  return { isDirectory: cursor[0] === 'd', name: cursor.slice(2) };
+};
+
+// Get directory contents, one page at a time. Folders are listed without preview
+// metadata, the client asks for it separately through /api/folder-previews.
+app.get('/api/browse', async (req, res) => {
+  try {
+    // If no path provided, start with user's home directory (or the first allowed root)
+    const requestedPath = req.query.path ||
+      (pathSandbox.isAllowed(os.homedir()) ? os.homedir() : pathSandbox.roots[0]);
+    const { filePath: dirPath, archive, entry: archiveEntry } = await resolveAssetPath(requestedPath, {
+      notFoundMessage: 'Directory not found',
+      openArchive: true
+    });
+
+    const after = decodeBrowseCursor(req.query.cursor);
+    const limit = Math.min(Math.max(1, parseInt(req.query.limit) || BROWSE_PAGE_SIZE), BROWSE_MAX_PAGE_SIZE);
+
+    console.log('Browsing directory:', dirPath, after ? `(after ${after.name})` : '');
+
+    let entries = [];
+    let describe;
+
+    if (archive) {
+      if (!archiveEntry.isDirectory) {
+        return res.status(400).json({ error: 'Path is not a directory' });
+      }
+      entries = archive.list(archiveEntry).filter(entry => !isExcludedName(entry.name));
+      describe = (entry) => describeArchiveEntry(archive, entry);
+    } else {
+      const stats = await fs.promises.stat(dirPath);
+      if (!stats.isDirectory()) {
+        return res.status(400).json({ error: 'Path is not a directory' });
+      }
+
+      const dirents = await fs.promises.readdir(dirPath, { withFileTypes: true });
+
+      for (const dirent of dirents) {
+        // Skip system files and unwanted file types
+        if (isExcludedName(dirent.name)) continue;
+
+        let isDirectory = dirent.isDirectory();
+        if (dirent.isSymbolicLink()) {
+          isDirectory = await fs.promises.stat(path.join(dirPath, dirent.name))
+            .then(target => target.isDirectory())
+            .catch(() => false);
         }
+        // Archives open like folders, so they're sorted with them
+        entries.push({ name: dirent.name, isDirectory: isDirectory || isArchiveName(dirent.name) });
+      }
+      describe = (entry) => describeItem(dirPath, entry.name, { withPreview: false });
+    }
+
+    entries.sort(compareBrowseEntries);
+
+    let start = after ? entries.findIndex(entry => compareBrowseEntries(entry, after) > 0) : 0;
+    if (start === -1) start = entries.length;
+    const page = entries.slice(start, start + limit);
+    const items = await Promise.all(page.map(describe));
+    const hasMore = start + page.length < entries.length;
+
+    res.json({
+      currentPath: dirPath,
+      parentPath: path.dirname(dirPath),
+      // Set while browsing inside a .zip or .unitypackage
+      archivePath: archive ? archive.filePath : null,
+      items: items.filter(Boolean),
+      total: entries.length,
+      nextCursor: hasMore ? encodeBrowseCursor(page[page.length - 1]) : null
+    });
+  } catch (error) {
+    if (sendPathError(res, error)) return;
+    console.error('Error browsing directory:', error);
+    res.status(500).json({ error: 'Failed to browse directory: ' + error.message });
+  }
+});
+
+// Preview metadata (first asset, empty or not) for folders listed by /api/browse
+app.post('/api/folder-previews', async (req, res) => {
+  try {
+    const { paths } = req.body;
+
+    if (!Array.isArray(paths)) {
+      return res.status(400).json({ error: 'paths must be an array' });
+    }
+    // Each folder may be searched deeply, the client asks for one listing page at a time
+    if (paths.length > BROWSE_MAX_PAGE_SIZE) {
+      return res.status(400).json({ error: `At most ${BROWSE_MAX_PAGE_SIZE} paths at a time` });
+    }
+
+    const folders = {};
+    for (const folderPath of paths) {
+      try {
+        const { filePath, archive, entry } = await resolveAssetPath(folderPath);
+        folders[folderPath] = archive ? describeArchiveFolder(archive, entry) : await describeFolder(filePath);
       } catch (e) {
+        // Not allowed or gone, the client keeps the plain folder icon
         continue;
       }
     }
 
-    // Recursively check subdirectories (but only one level deep to avoid performance issues)
-    for (const item of items) {
-      const itemPath = path.join(dirPath, item);
+    res.json({ folders });
+  } catch (error) {
+    console.error('Error describing folders:', error);
+    res.status(500).json({ error: 'Failed to describe folders: ' + error.message });
+  }
+});
+
+// Metadata of a file or archive entry (null for folders and unknown formats), read once
+// and then served from the cache until the file changes
+const getAssetMetadata = async (requestedPath) => {
+  const { filePath, archive, entry } = await resolveAssetPath(requestedPath, { notFoundMessage: 'File not found' });
+  const kind = getPreviewKind(getFileType(filePath));
+
+  if (archive) {
+    if (entry.isDirectory || !canReadMetadata(kind, { fromBuffer: true })) return null;
+    return metadataCache.get(filePath, { size: entry.size, mtime: entry.modified.getTime(), kind },
+      async () => readAssetMetadata(await archive.read(entry), kind));
+  }
+
+  const stats = await fs.promises.stat(filePath);
+  if (stats.isDirectory()) return null;
+  return metadataCache.get(filePath, { size: stats.size, mtime: stats.mtimeMs, kind },
+    () => readAssetMetadata(filePath, kind));
+};
+
+// How many files the grid may ask about at once
+const METADATA_BATCH_LIMIT = 200;
+
+app.get('/api/metadata', async (req, res) => {
+  try {
+    res.json({ path: req.query.path, metadata: await getAssetMetadata(req.query.path) });
+  } catch (error) {
+    if (sendPathError(res, error)) return;
+    console.error('Error reading metadata:', error);
+    res.status(500).json({ error: 'Failed to read metadata: ' + error.message });
+  }
+});
+
+// Metadata of several listed files, for the grid
+app.post('/api/metadata', async (req, res) => {
+  try {
+    const { paths } = req.body || {};
+    if (!Array.isArray(paths)) {
+      return res.status(400).json({ error: 'paths must be an array' });
+    }
+    if (paths.length > METADATA_BATCH_LIMIT) {
+      return res.status(400).json({ error: `At most ${METADATA_BATCH_LIMIT} paths at a time` });
+    }
+
+    const items = {};
+    for (const filePath of paths) {
       try {
-        const stats = fs.statSync(itemPath);
-        if (stats.isDirectory()) {
-          const subAsset = findFirstAsset(itemPath);
-          if (subAsset) {
-            return subAsset;
-          }
-        }
+        items[filePath] = await getAssetMetadata(filePath);
       } catch (e) {
+        // Not allowed or gone, the grid just shows no details
         continue;
       }
     }
+    res.json({ items });
+  } catch (error) {
+    console.error('Error reading metadata:', error);
+    res.status(500).json({ error: 'Failed to read metadata: ' + error.message });
+  }
+});
 
-    return null;
+
+// Tiled and LDtk maps in the shape described in mapParsers.js. Tilesets are looked up next
+// to the map, so maps inside archives can't be shown
+app.get('/api/map', async (req, res) => {
+  try {
+    const { filePath, archive } = await resolveAssetPath(req.query.path, { notFoundMessage: 'Map not found' });
+    if (archive) {
+      return res.status(400).json({ error: 'Maps inside archives can\'t be previewed, extract the archive first' });
+    }
+
+    // Files outside the library folders are neither read here nor loadable by the client
+    res.json(await loadMap(filePath, { canRead: isInsideLibrary }));
+  } catch (error) {
+    if (sendPathError(res, error)) return;
+    if (error instanceof MapError) {
+      return res.status(422).json({ error: error.message });
+    }
+    console.error('Error reading map:', error);
+    res.status(500).json({ error: 'Failed to read map: ' + error.message });
+  }
+});
+
+// Longer audio files aren't decoded on the server (for waveforms and exported regions)
+const MAX_DECODED_AUDIO_SIZE = 200 * 1024 * 1024;
+
+// Files that failed to decode, so tiles don't decode them again on every visit
+const waveformFailures = new Map();
+const waveformsInProgress = new Map();
+
+// Waveform of an audio file (see waveforms.js), decoded once and cached with the thumbnails
+const getWaveform = async ({ filePath, archive, entry }) => {
+  const modified = archive ? entry.modified : (await fs.promises.stat(filePath)).mtime;
+  const cacheKey = `waveform-${filePath}-${modified.getTime()}`;
+  if (waveformFailures.has(cacheKey)) throw new AudioError(waveformFailures.get(cacheKey));
+  if (waveformsInProgress.has(cacheKey)) return waveformsInProgress.get(cacheKey);
+
+  const cached = await thumbnailCache.get(cacheKey);
+  if (cached) return JSON.parse(cached.buffer.toString('utf8'));
+
+  const decode = async () => {
+    const size = archive ? entry.size : (await fs.promises.stat(filePath)).size;
+    if (size > MAX_DECODED_AUDIO_SIZE) {
+      throw new AudioError(`Files over ${MAX_DECODED_AUDIO_SIZE / 1024 / 1024} MB don't get a waveform`);
+    }
+    console.log(`🎵 Decoding ${filePath} for its waveform`);
+    const waveform = await computeWaveform(archive ? await archive.read(entry) : await fs.promises.readFile(filePath));
+    await thumbnailCache.set(cacheKey, Buffer.from(JSON.stringify(waveform)), { contentType: 'application/json', sourcePath: filePath });
+    return waveform;
+  };
+
+  const pending = decode();
+  waveformsInProgress.set(cacheKey, pending);
+  try {
+    return await pending;
   } catch (e) {
-    return null;
+    if (e instanceof AudioError) waveformFailures.set(cacheKey, e.message);
+    throw e;
+  } finally {
+    waveformsInProgress.delete(cacheKey);
   }
 };
 
-// Get directory contents
-app.get('/api/browse', async (req, res) => {
+// Peaks of an audio file as JSON (`peaks` pairs at most), or drawn as a transparent PNG
+// (`width`, `height`, `color`) when format=png
+app.get('/api/waveform', async (req, res) => {
   try {
-    let dirPath = req.query.path;
+    const asset = await resolveAssetPath(req.query.path, { notFoundMessage: 'File not found' });
+    if (getPreviewKind(getFileType(asset.filePath)) !== 'audio') {
+      return res.status(400).json({ error: 'Not an audio file' });
+    }
+    // Only changes with the file (and the query, which picks the size and format)
+    const modified = asset.archive ? asset.entry.modified : (await fs.promises.stat(asset.filePath)).mtime;
+    const etag = `"${crypto.createHash('sha1').update(`${req.originalUrl}-${modified.getTime()}`).digest('hex')}"`;
+    if (isNotModified(req, res, { etag, lastModified: modified })) {
+      return res.status(304).end();
+    }
+    const waveform = await getWaveform(asset);
+
+    if (req.query.format === 'png') {
+      const width = Math.min(2048, Math.max(1, parseInt(req.query.width) || 400));
+      const height = Math.min(1024, Math.max(1, parseInt(req.query.height) || 100));
+      const color = /^#[0-9a-f]{3,8}$/i.test(req.query.color || '') ? req.query.color : '#ffffff';
+      res.set('Content-Type', 'image/png');
+      return res.send(await renderWaveform(waveform, { width, height, color }));
+    }
 
-    // If no path provided, start with user's home directory
-    if (!dirPath) {
-      dirPath = os.homedir();
+    const peaks = Math.min(WAVEFORM_PEAKS, Math.max(1, parseInt(req.query.peaks) || WAVEFORM_PEAKS));
+    res.json(resizeWaveform(waveform, peaks));
+  } catch (error) {
+    if (sendPathError(res, error)) return;
+    if (error instanceof AudioError) {
+      return res.status(422).json({ error: error.message });
     }
+    console.error('Error computing waveform:', error);
+    res.status(500).json({ error: 'Failed to compute waveform: ' + error.message });
+  }
+});
 
-    console.log('Browsing directory:', dirPath);
+// Pushes live add/change/delete events for the directory a client has open
+const directoryWatcher = new DirectoryWatcher({
+  describeItem,
+  isExcluded: isExcludedName,
+  onChange: (event) => {
+    assetIndex.applyChange(event);
+    if (event.type === 'delete') thumbnailCache.purge(event.path);
+  }
+});
 
-    if (!fs.existsSync(dirPath)) {
-      return res.status(404).json({ error: 'Directory not found' });
-    }
+// Watch a directory for changes (Server-Sent Events)
+app.get('/api/watch', async (req, res) => {
+  try {
+    const dirPath = await pathSandbox.resolve(req.query.path, { notFoundMessage: 'Directory not found' });
 
-    const stats = fs.statSync(dirPath);
-    if (!stats.isDirectory()) {
+    if (!(await fs.promises.stat(dirPath)).isDirectory()) {
       return res.status(400).json({ error: 'Path is not a directory' });
     }
 
-    const items = fs.readdirSync(dirPath);
-    const results = [];
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.flushHeaders();
+    res.write(`data: ${JSON.stringify({ type: 'ready', path: dirPath })}\n\n`);
 
-    // Files and folders to exclude
-    const EXCLUDED_NAMES = ['.DS_Store', 'Thumbs.db', 'desktop.ini', '.itch'];
-    const EXCLUDED_EXTENSIONS = ['.tmp', '.mtl', '.bin', '.html', '.xml', '.swf', '.url', '.tmx', '.tsx', '.ts', '.js', '.json', '.md', '.txt'];
+    directoryWatcher.subscribe(dirPath, res);
+  } catch (error) {
+    if (sendPathError(res, error)) return;
+    console.error('Error watching directory:', error);
+    res.status(500).json({ error: 'Failed to watch directory: ' + error.message });
+  }
+});
 
-    for (const item of items) {
-      // Skip system files and unwanted file types
-      const extension = path.extname(item).toLowerCase();
-      const isExcluded = EXCLUDED_NAMES.some(name =>
-        item.toLowerCase() === name.toLowerCase()
-      ) || EXCLUDED_EXTENSIONS.some(ext =>
-        extension === ext
-      );
+// Search the asset index across all favorite folders, optionally only items with all
+// of the comma separated `tags`
+app.get('/api/search', (req, res) => {
+  try {
+    const query = (req.query.q || '').toString();
+    const type = req.query.type ? req.query.type.toString() : undefined;
+    const limit = Math.min(parseInt(req.query.limit) || 500, 5000);
+    const tags = normalizeTags((req.query.tags || '').toString().split(','));
+
+    const { results, total } = assetIndex.search(query, {
+      type,
+      limit,
+      filter: tags.length > 0 ? entry => tagStore.hasTags(entry.path, tags) : null
+    });
 
-      if (isExcluded) continue;
+    res.json({
+      query,
+      results: results.map(item => ({ ...item, tags: tagStore.getTags(item.path) })),
+      total,
+      index: assetIndex.getStatus()
+    });
+  } catch (error) {
+    console.error('Error searching assets:', error);
+    res.status(500).json({ error: 'Failed to search assets: ' + error.message });
+  }
+});
 
-      const itemPath = path.join(dirPath, item);
+// Index status
+app.get('/api/index/status', (req, res) => {
+  res.json(assetIndex.getStatus());
+});
+
+// Replace the folders that get indexed (the client sends its favorite paths)
+app.put('/api/index/roots', async (req, res) => {
+  try {
+    const { roots } = req.body;
+
+    if (!Array.isArray(roots)) {
+      return res.status(400).json({ error: 'roots must be an array of paths' });
+    }
+
+    // Only index favorites the sandbox allows
+    const allowedRoots = [];
+    for (const root of roots) {
       try {
-        const itemStats = fs.statSync(itemPath);
-        const isDirectory = itemStats.isDirectory();
+        allowedRoots.push(await pathSandbox.resolve(root));
+      } catch (e) {
+        console.warn(`Not indexing ${root}: ${e.message}`);
+      }
+    }
 
-        let fileType = 'folder';
-        let hasAssets = false;
-        let firstAsset = null;
+    assetIndex.setRoots(allowedRoots);
+    res.json(assetIndex.getStatus());
+  } catch (error) {
+    console.error('Error updating index roots:', error);
+    res.status(500).json({ error: 'Failed to update index roots: ' + error.message });
+  }
+});
 
-        if (!isDirectory) {
-          fileType = getFileType(itemPath);
-        } else {
-          // Check if folder contains assets and find the first one
-          try {
-            const folderContents = fs.readdirSync(itemPath);
-            if (folderContents.length === 0) {
-              // don't show empty folders
-              continue;
-            }
-            hasAssets = folderContents.some(file => {
-              const fileType = getFileType(path.join(itemPath, file));
-              return fileType !== 'unknown';
-            });
-            if (hasAssets) {
-              firstAsset = findFirstAsset(itemPath);
-            } else {
-              // directory without any assets in it, check for images in subfolders
-              const subfolders = fs.readdirSync(itemPath);
-              for (const subfolder of subfolders) {
-                const subfolderPath = path.join(itemPath, subfolder);
-                const subfolderStats = fs.statSync(subfolderPath);
-                if (subfolderStats.isDirectory()) {
-                  const subfolderAsset = findFirstAsset(subfolderPath);
-                  if (subfolderAsset) {
-                    firstAsset = subfolderAsset;
-                    hasAssets = true;
-                    break;
-                  }
-                }
-              }
-            }
-          } catch (e) {
-            // Permission denied or other error
-          }
-        }
+// Force a full re-crawl of the favorite folders
+app.post('/api/index/rebuild', (req, res) => {
+  assetIndex.crawl();
+  res.json(assetIndex.getStatus());
+});
 
-        results.push({
-          name: item,
-          path: itemPath,
-          isDirectory,
-          fileType,
-          hasAssets,
-          firstAsset,
-          size: itemStats.size,
-          modified: itemStats.mtime.toISOString(),
-          extension: isDirectory ? null : path.extname(item).toLowerCase()
-        });
-      } catch (error) {
-        // Skip files we can't access
-        continue;
+// Every tag in use, with how many files and folders have it
+app.get('/api/tags', (req, res) => {
+  res.json({ tags: tagStore.getAllTags() });
+});
+
+// Change the tags of one or more files and folders: `tags` replaces them, `add` and
+// `remove` edit them (used for multi-selections). Answers with the new tags per path.
+app.put('/api/tags', async (req, res) => {
+  try {
+    const { paths, tags, add = [], remove = [] } = req.body || {};
+    if (!Array.isArray(paths) || paths.length === 0 || paths.some(itemPath => typeof itemPath !== 'string')) {
+      return res.status(400).json({ error: 'paths must be a non-empty array of paths' });
+    }
+
+    const change = {
+      tags: tags === undefined ? undefined : normalizeTags(tags),
+      add: normalizeTags(add),
+      remove: normalizeTags(remove)
+    };
+
+    const items = {};
+    for (const requestedPath of paths) {
+      const { filePath, archive, entry } = await resolveAssetPath(requestedPath, { notFoundMessage: 'File not found' });
+
+      // Files inside archives can't be hashed cheaply, they keep their tags by path only
+      let info = null;
+      if (!archive) {
+        const stats = await fs.promises.stat(filePath);
+        info = { isDirectory: stats.isDirectory(), size: stats.size, mtime: stats.mtimeMs };
+      } else if (entry.isDirectory) {
+        info = { isDirectory: true };
       }
+
+      items[requestedPath] = await tagStore.update(filePath, change, info);
+    }
+    await tagStore.save();
+
+    console.log(`🏷️ Updated tags of ${paths.length} items`);
+    res.json({ items, tags: tagStore.getAllTags() });
+  } catch (error) {
+    if (error instanceof TagError) {
+      return res.status(400).json({ error: error.message });
     }
+    if (sendPathError(res, error)) return;
+    console.error('Error updating tags:', error);
+    res.status(500).json({ error: 'Failed to update tags: ' + error.message });
+  }
+});
+
+// Keep caches, the index and tags in sync after files were moved, copied or trashed.
+// Returns the listing changes for the client, like the /api/watch events plus `parentPath`.
+const applyFileChanges = async ({ moved, created }) => {
+  const changes = [];
+
+  for (const { from, to } of moved) {
+    thumbnailCache.purge(from);
+    tagStore.move(from, to);
+    duplicateFinder.removeFile(from);
+    assetIndex.applyChange({ type: 'delete', path: from });
+    changes.push({ type: 'delete', path: from, parentPath: path.dirname(from) });
+  }
+  if (moved.length > 0) await tagStore.save();
+
+  for (const itemPath of [...moved.map(({ to }) => to), ...created]) {
+    // Files moved into the trash aren't part of any listing
+    if (!pathSandbox.isAllowed(itemPath)) continue;
+
+    const item = await describeItem(path.dirname(itemPath), path.basename(itemPath));
+    if (!item) continue;
+    assetIndex.applyChange({ type: 'add', path: itemPath, item });
+    changes.push({ type: 'add', path: itemPath, parentPath: path.dirname(itemPath), item });
+  }
+
+  return changes;
+};
+
+// A file or folder that may be changed: inside the roots, but not a root itself
+const resolveEditablePath = async (requestedPath) => {
+  const filePath = await pathSandbox.resolve(requestedPath, { notFoundMessage: 'File not found' });
+  if (pathSandbox.roots.includes(filePath)) {
+    throw new FileOperationError('Library folders themselves can\'t be changed, only what\'s inside them');
+  }
+  return filePath;
+};
+
+const resolveEditablePaths = async (paths) => {
+  if (!Array.isArray(paths) || paths.length === 0 || paths.some(filePath => typeof filePath !== 'string')) {
+    throw new FileOperationError('paths must be a non-empty array of paths');
+  }
+  return Promise.all(paths.map(resolveEditablePath));
+};
+
+const resolveDestination = async (destination) => {
+  const folderPath = await pathSandbox.resolve(destination, { notFoundMessage: 'Destination folder not found' });
+  if (!(await fs.promises.stat(folderPath)).isDirectory()) {
+    throw new FileOperationError('The destination is not a folder');
+  }
+  return folderPath;
+};
+
+// Run a file operation and answer with its listing changes and the new undo stack
+const runFileOperation = async (res, action, perform) => {
+  try {
+    const { operation, ...result } = await perform();
+    const changes = await applyFileChanges(result);
+    if (operation) console.log(`📝 ${operation.description}`);
 
-    // Sort: directories first, then by name
-    results.sort((a, b) => {
-      if (a.isDirectory && !b.isDirectory) return -1;
-      if (!a.isDirectory && b.isDirectory) return 1;
-      return a.name.localeCompare(b.name);
+    res.json({
+      operation: operation && { id: operation.id, type: operation.type, description: operation.description },
+      changes,
+      undo: fileOperations.getUndoStack()
     });
+  } catch (error) {
+    if (error instanceof FileOperationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (sendPathError(res, error)) return;
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({ error: `Failed to ${action}: ` + error.message });
+  }
+};
+
+app.post('/api/files/rename', (req, res) => runFileOperation(res, 'rename', async () => {
+  const { path: filePath, name } = req.body || {};
+  return fileOperations.rename(await resolveEditablePath(filePath), name);
+}));
+
+app.post('/api/files/move', (req, res) => runFileOperation(res, 'move files', async () => {
+  const { paths, destination } = req.body || {};
+  return fileOperations.move(await resolveEditablePaths(paths), await resolveDestination(destination));
+}));
+
+app.post('/api/files/copy', (req, res) => runFileOperation(res, 'copy files', async () => {
+  const { paths, destination } = req.body || {};
+  return fileOperations.copy(await resolveEditablePaths(paths), await resolveDestination(destination));
+}));
+
+// Deleting moves to the trash, see /api/trash
+app.post('/api/files/trash', (req, res) => runFileOperation(res, 'delete files', async () => {
+  return fileOperations.trashPaths(await resolveEditablePaths((req.body || {}).paths));
+}));
+
+// Upload one file (multipart field `file`) into the folder `path`. Name collisions
+// get a free name like "name (2).png", the upload can be undone like a copy. Like every
+// non-GET route it needs the client header, or any page could post files here unnoticed.
+app.post('/api/upload', (req, res) => runFileOperation(res, 'upload file', async () => {
+  const folderPath = await resolveDestination(req.query.path);
+  const file = await receiveUpload(req, res);
+  if (!file) throw new FileOperationError('No file was uploaded');
+
+  try {
+    return await fileOperations.addUpload(file.path, folderPath, getUploadName(file));
+  } catch (error) {
+    await fs.promises.rm(file.path, { force: true });
+    throw error;
+  }
+}));
+
+// A region of an audio file (`start` and `end` in seconds) saved as a 16-bit WAV next to it
+app.post('/api/audio/export', (req, res) => runFileOperation(res, 'export audio', async () => {
+  const { path: sourcePath, start, end } = req.body || {};
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start) {
+    throw new FileOperationError('start and end must be seconds, with start before end');
+  }
+  const filePath = await resolveEditablePath(sourcePath);
+  if (getPreviewKind(getFileType(filePath)) !== 'audio') {
+    throw new FileOperationError('Not an audio file');
+  }
+  if ((await fs.promises.stat(filePath)).size > MAX_DECODED_AUDIO_SIZE) {
+    throw new FileOperationError(`Files over ${MAX_DECODED_AUDIO_SIZE / 1024 / 1024} MB can't be exported from`, 422);
+  }
+
+  let region;
+  try {
+    region = await readAudioRange(await fs.promises.readFile(filePath), start, end);
+  } catch (error) {
+    if (error instanceof AudioError) throw new FileOperationError(error.message, 422);
+    throw error;
+  }
+
+  const tempPath = path.join(DATA_DIR, 'uploads', `${crypto.randomUUID()}.wav`);
+  await fs.promises.mkdir(path.dirname(tempPath), { recursive: true });
+  await fs.promises.writeFile(tempPath, encodeWav(region.channels, region.sampleRate));
+  try {
+    return await fileOperations.addExport(tempPath, filePath, `${path.basename(filePath, path.extname(filePath))} (trim).wav`);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}));
+
+// The operations that can be undone, most recent first
+app.get('/api/files/undo', (req, res) => {
+  res.json({ undo: fileOperations.getUndoStack() });
+});
+
+app.post('/api/files/undo', (req, res) => runFileOperation(res, 'undo', () => fileOperations.undo()));
+
+app.get('/api/trash', (req, res) => {
+  res.json({ items: fileOperations.trash, trashDir: fileOperations.trashDir });
+});
+
+app.post('/api/trash/restore', (req, res) => runFileOperation(res, 'restore files', async () => {
+  const { ids } = req.body || {};
+  if (!Array.isArray(ids)) throw new FileOperationError('ids must be an array');
+  return { operation: null, moved: await fileOperations.restore(ids), created: [] };
+}));
+
+// Permanently delete everything in the trash
+app.post('/api/trash/empty', async (req, res) => {
+  try {
+    const trashPaths = fileOperations.trash.map(item => item.trashPath);
+    const count = await fileOperations.emptyTrash();
+    trashPaths.forEach(trashPath => tagStore.remove(trashPath));
+    await tagStore.save();
+
+    console.log(`🗑️ Emptied the trash (${count} items)`);
+    res.json({ deleted: count, undo: fileOperations.getUndoStack() });
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    res.status(500).json({ error: 'Failed to empty trash: ' + error.message });
+  }
+});
+
+// Duplicate finder status and the groups of identical files found by the last scan
+app.get('/api/duplicates', (req, res) => {
+  res.json({ ...duplicateFinder.getStatus(), groups: duplicateFinder.groups });
+});
+
+// Start hashing the files below a folder (replaces a running scan)
+app.post('/api/duplicates/scan', async (req, res) => {
+  try {
+    if (!req.body || typeof req.body.root !== 'string') {
+      return res.status(400).json({ error: 'Missing "root" in request body' });
+    }
+
+    const root = await pathSandbox.resolve(req.body.root, { notFoundMessage: 'Folder not found' });
+    if (!(await fs.promises.stat(root)).isDirectory()) {
+      return res.status(400).json({ error: 'Path is not a folder' });
+    }
+
+    console.log(`🧬 Looking for duplicates in ${root}`);
+    duplicateFinder.start(root);
+    res.json({ ...duplicateFinder.getStatus(), groups: [] });
+  } catch (error) {
+    if (sendPathError(res, error)) return;
+    console.error('Error starting duplicate scan:', error);
+    res.status(500).json({ error: 'Failed to start duplicate scan: ' + error.message });
+  }
+});
+
+app.post('/api/duplicates/cancel', (req, res) => {
+  duplicateFinder.cancel();
+  res.json(duplicateFinder.getStatus());
+});
+
+// Move extra copies to the trash, as one operation that can be undone. Every file must
+// still match the scan, and at least one copy of each group has to be kept.
+app.post('/api/duplicates/delete', async (req, res) => {
+  try {
+    const { paths } = req.body || {};
+    if (!Array.isArray(paths) || paths.some(filePath => typeof filePath !== 'string')) {
+      return res.status(400).json({ error: 'paths must be an array of file paths' });
+    }
+
+    const verified = [];
+    const errors = [];
+    const deleting = new Set(paths);
+
+    for (const requestedPath of paths) {
+      try {
+        const filePath = await pathSandbox.resolve(requestedPath, { notFoundMessage: 'File not found' });
+        const found = duplicateFinder.findFile(filePath);
+        if (!found) {
+          throw new Error('Not a known duplicate, scan again');
+        }
+        if (found.group.files.every(file => deleting.has(file.path))) {
+          throw new Error('Refusing to delete every copy');
+        }
+
+        const stats = await fs.promises.stat(filePath);
+        if (stats.size !== found.file.size || stats.mtime.toISOString() !== found.file.modified) {
+          throw new Error('File changed since the scan, scan again');
+        }
+        verified.push(filePath);
+      } catch (e) {
+        errors.push({ path: requestedPath, error: e.message });
+      }
+    }
+
+    // Tags, thumbnails, the index and the duplicate groups are updated like for any other delete
+    let operation = null;
+    let changes = [];
+    if (verified.length > 0) {
+      const { operation: trashed, ...result } = await fileOperations.trashPaths(verified);
+      changes = await applyFileChanges(result);
+      operation = { id: trashed.id, type: trashed.type, description: trashed.description };
+      console.log(`🗑️ Moved ${verified.length} duplicate files to the trash`);
+    }
 
     res.json({
-      currentPath: dirPath,
-      parentPath: path.dirname(dirPath),
-      items: results
+      deleted: verified,
+      errors,
+      operation,
+      changes,
+      undo: fileOperations.getUndoStack(),
+      ...duplicateFinder.getStatus(),
+      groups: duplicateFinder.groups
     });
   } catch (error) {
-    console.error('Error browsing directory:', error);
-    res.status(500).json({ error: 'Failed to browse directory: ' + error.message });
+    if (error instanceof FileOperationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error deleting duplicates:', error);
+    res.status(500).json({ error: 'Failed to delete duplicates: ' + error.message });
   }
 });
 
+// File type settings plus the choices the settings panel offers
+const describeConfig = () => ({
+  fileTypes,
+  defaults: DEFAULT_FILE_TYPES,
+  options: {
+    previewKinds: PREVIEW_KINDS,
+    colors: Object.keys(CATEGORY_COLORS),
+    icons: CATEGORY_ICONS
+  },
+  configFile: CONFIG_FILE
+});
+
+app.get('/api/config', (req, res) => {
+  res.json(describeConfig());
+});
+
+// Save new file type settings; allowedRoots can only be changed by editing the file
+app.put('/api/config', async (req, res) => {
+  try {
+    if (!req.body || !req.body.fileTypes) {
+      return res.status(400).json({ error: 'Missing "fileTypes" in request body' });
+    }
+
+    const updated = new FileTypes(req.body.fileTypes);
+    await writeServerConfig({ fileTypes: updated.toJSON() });
+    fileTypes.update(updated.toJSON());
+    console.log(`⚙️ File type settings updated (${updated.config.categories.length} categories)`);
+
+    // Indexed entries keep the category they were crawled with
+    assetIndex.crawl();
+
+    res.json(describeConfig());
+  } catch (error) {
+    if (error instanceof FileTypesError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error saving config:', error);
+    res.status(500).json({ error: 'Failed to save config: ' + error.message });
+  }
+});
+
+// Set cache validators and check them against If-None-Match / If-Modified-Since.
+// `no-cache` makes the browser revalidate every time, which is cheap when it gets a 304.
+const isNotModified = (req, res, { etag, lastModified }) => {
+  res.set('Cache-Control', 'no-cache');
+  res.set('ETag', etag);
+  if (lastModified) res.set('Last-Modified', lastModified.toUTCString());
+  return req.fresh;
+};
+
+// Thumbnails are square, and the bigger ones are rendered at this size at most (models are
+// rasterized at twice the size, so an unchecked size could take all the memory)
+const MAX_THUMBNAIL_SIZE = 512;
+
+const parseThumbnailSize = (value) => Math.min(MAX_THUMBNAIL_SIZE, Math.max(16, parseInt(value) || 200));
+
+// Gray tile with the category name, for files without a real thumbnail
+const generateTypeTile = (fileType, size) => {
+  const canvas = Buffer.from(`
+    <svg width="${size}" height="${size}" xmlns="http://www.w3.org/2000/svg">
+      <rect width="100%" height="100%" fill="#374151"/>
+      <text x="50%" y="50%" text-anchor="middle" dy="0.3em" 
+            fill="white" font-size="${size / 8}" font-family="Arial">
+        ${fileType.toUpperCase()}
+      </text>
+    </svg>
+  `);
+
+  return sharp(canvas)
+    .resize(size, size)
+    .jpeg({ quality: 80 })
+    .toBuffer();
+};
+
+// Video frames can't be decoded here, so the browser captures a poster frame and uploads it.
+// It's kept at this size in the thumbnail cache and scaled down for each thumbnail size.
+const POSTER_SIZE = 512;
+
+const getPosterKey = (filePath, mtime) => `video-poster-${filePath}-${mtime.getTime()}`;
+
+// The poster of a video (or video inside an archive), null until one was uploaded
+const getVideoPoster = async (requestedPath) => {
+  const { filePath, archive } = await resolveAssetPath(requestedPath, { notFoundMessage: 'File not found' });
+  const stats = fs.statSync(archive ? archive.filePath : filePath);
+  return thumbnailCache.get(getPosterKey(filePath, stats.mtime));
+};
+
 // Generate thumbnail with improved caching
 app.get('/api/thumbnail', async (req, res) => {
   try {
-    const filePath = req.query.path;
-    const size = parseInt(req.query.size) || 200;
+    const { filePath, archive, entry } = await resolveAssetPath(req.query.path, { notFoundMessage: 'File not found' });
+    const size = parseThumbnailSize(req.query.size);
 
-    if (!filePath || !fs.existsSync(filePath)) {
-      return res.status(404).json({ error: 'File not found' });
+    // Create a more specific cache key that includes file modification time (and the
+    // category, which decides how the thumbnail is drawn and can be changed in the settings).
+    // Files inside an archive change with the archive.
+    const stats = fs.statSync(archive ? archive.filePath : filePath);
+    const fileType = getFileType(filePath);
+    // Videos also change with their poster frame, which can be picked again
+    const poster = getPreviewKind(fileType) === 'video' ? thumbnailCache.peek(getPosterKey(filePath, stats.mtime)) : null;
+    const cacheKey = `${filePath}-${size}-${stats.mtime.getTime()}-${fileType}${poster ? `-${poster.created}` : ''}`;
+
+    // The thumbnail only changes with the file, so revalidations are answered before generating anything
+    const etag = `"${crypto.createHash('sha1').update(cacheKey).digest('hex')}"`;
+    if (isNotModified(req, res, { etag, lastModified: stats.mtime })) {
+      return res.status(304).end();
     }
 
-    // Create a more specific cache key that includes file modification time
-    const stats = fs.statSync(filePath);
-    const cacheKey = `${filePath}-${size}-${stats.mtime.getTime()}`;
+    // The grid captures a poster frame when it gets this, the 404 mustn't be revalidated into a 304
+    if (getPreviewKind(fileType) === 'video' && !poster) {
+      res.removeHeader('ETag');
+      return res.status(404).json({ error: 'No poster frame yet' });
+    }
 
-    if (thumbnailCache.has(cacheKey)) {
-      const cachedBuffer = thumbnailCache.get(cacheKey);
-      res.set('Content-Type', 'image/jpeg');
-      return res.send(cachedBuffer);
+    const cached = await thumbnailCache.get(cacheKey);
+    if (cached) {
+      res.set('Content-Type', cached.contentType);
+      return res.send(cached.buffer);
     }
 
-    const fileType = getFileType(filePath);
     let thumbnailBuffer;
+    let contentType = 'image/jpeg';
 
-    switch (fileType) {
-      case 'images':
+    switch (getPreviewKind(fileType)) {
+      case 'image':
         if (path.extname(filePath).toLowerCase() === '.svg') {
           // For SVG, just serve the file directly
-          const svgContent = fs.readFileSync(filePath);
+          const svgContent = archive ? await archive.read(entry) : fs.readFileSync(filePath);
           res.set('Content-Type', 'image/svg+xml');
           return res.send(svgContent);
-        } else {
-          thumbnailBuffer = await sharp(filePath)
+        }
+        try {
+          thumbnailBuffer = await sharp(archive ? await archive.read(entry) : filePath)
             .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
             .jpeg({ quality: 90 })
             .toBuffer();
+        } catch (e) {
+          // Formats sharp can't decode (e.g. .tga added in the settings) get the generic tile
+          console.warn(`⚠️ Can't decode ${filePath} as an image: ${e.message}`);
         }
         break;
 
-      case 'models':
-        // Generate texture-based 3D model thumbnail
+      case 'model':
+        // Render the model (falls back to the texture or an icon)
         console.log(`Generating 3D model thumbnail for: ${filePath}`);
-        thumbnailBuffer = await generate3DModelThumbnail(filePath, size);
+        ({ buffer: thumbnailBuffer, contentType } = archive
+          ? await generateArchiveModelThumbnail(archive, entry, size)
+          : await generate3DModelThumbnail(filePath, size));
         break;
 
-      default:
-        // Generate a colored square with file type icon
-        const canvas = Buffer.from(`
-          <svg width="${size}" height="${size}" xmlns="http://www.w3.org/2000/svg">
-            <rect width="100%" height="100%" fill="#374151"/>
-            <text x="50%" y="50%" text-anchor="middle" dy="0.3em" 
-                  fill="white" font-size="${size / 8}" font-family="Arial">
-              ${fileType.toUpperCase()}
-            </text>
-          </svg>
-        `);
-
-        thumbnailBuffer = await sharp(canvas)
-          .resize(size, size)
-          .jpeg({ quality: 80 })
-          .toBuffer();
+      case 'video': {
+        const posterFrame = await thumbnailCache.get(getPosterKey(filePath, stats.mtime));
+        if (posterFrame) {
+          thumbnailBuffer = await sharp(posterFrame.buffer)
+            .resize(size, size, { fit: 'cover' })
+            .jpeg({ quality: 90 })
+            .toBuffer();
+        }
         break;
-    }
+      }
 
-    // Cache the thumbnail with the new cache key
-    thumbnailCache.set(cacheKey, thumbnailBuffer);
+      case 'map':
+        // Only redrawn when the map changes, not when one of its tilesets does
+        if (archive) break;
+        try {
+          thumbnailBuffer = await renderMapThumbnail(filePath, size, { canRead: isInsideLibrary });
+          if (thumbnailBuffer) contentType = 'image/png';
+        } catch (e) {
+          console.warn(`⚠️ Can't render map ${filePath}: ${e.message}`);
+        }
+        break;
+    }
 
-    // Clean up old cache entries (keep only last 100)
-    if (thumbnailCache.size > 100) {
-      const keys = Array.from(thumbnailCache.keys());
-      for (let i = 0; i < keys.length - 100; i++) {
-        thumbnailCache.delete(keys[i]);
-      }
+    if (!thumbnailBuffer) {
+      // Generate a colored square with the file type name
+      thumbnailBuffer = await generateTypeTile(fileType, size);
     }
 
-    res.set('Content-Type', 'image/jpeg');
+    // Cache the thumbnail with the new cache key
+    await thumbnailCache.set(cacheKey, thumbnailBuffer, { contentType, sourcePath: filePath });
+
+    res.set('Content-Type', contentType);
     res.send(thumbnailBuffer);
   } catch (error) {
+    if (sendPathError(res, error)) return;
     console.error('Error generating thumbnail:', error);
     res.status(500).json({ error: 'Failed to generate thumbnail: ' + error.message });
   }
 });
 
+// Store a poster frame captured in the browser (the request body is the image) as the video's thumbnail.
+// Like every write it needs the client header; the client sends JPEGs of at most 512px, far below the limit
+app.put('/api/thumbnail', express.raw({ type: 'image/*', limit: '2mb' }), async (req, res) => {
+  try {
+    const { filePath, archive } = await resolveAssetPath(req.query.path, { notFoundMessage: 'File not found' });
+    if (getPreviewKind(getFileType(filePath)) !== 'video') {
+      return res.status(400).json({ error: 'Poster frames are only kept for videos' });
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'The poster frame must be sent as an image' });
+    }
+
+    let poster;
+    try {
+      poster = await sharp(req.body)
+        .resize(POSTER_SIZE, POSTER_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 90 })
+        .toBuffer({ resolveWithObject: true });
+    } catch (e) {
+      return res.status(400).json({ error: 'The poster frame isn\'t a readable image: ' + e.message });
+    }
+
+    // Folder previews drawn from the video without a poster are redrawn with it
+    const source = archive ? archive.filePath : filePath;
+    thumbnailCache.removeWhere(entry => entry.key.startsWith('folder-preview-') &&
+      (entry.dependencies || []).some(dependency => dependency.path === source));
+
+    const stats = fs.statSync(source);
+    await thumbnailCache.set(getPosterKey(filePath, stats.mtime), poster.data, { sourcePath: filePath, dependencies: [source] });
+    console.log(`🎞️ Saved poster frame for ${filePath} (${poster.info.width}x${poster.info.height})`);
+
+    res.json({ path: req.query.path, width: poster.info.width, height: poster.info.height });
+  } catch (error) {
+    if (sendPathError(res, error)) return;
+    console.error('Error saving poster frame:', error);
+    res.status(500).json({ error: 'Failed to save poster frame: ' + error.message });
+  }
+});
+
 // Generate folder preview thumbnail - NOW WITH 3D MODEL SUPPORT!
 app.get('/api/folder-preview', async (req, res) => {
   try {
-    const folderPath = req.query.path;
-    const size = parseInt(req.query.size) || 200;
+    const { filePath: folderPath, archive, entry } = await resolveAssetPath(req.query.path, {
+      notFoundMessage: 'Folder not found',
+      openArchive: true
+    });
+    const size = parseThumbnailSize(req.query.size);
 
-    if (!folderPath || !fs.existsSync(folderPath)) {
-      return res.status(404).json({ error: 'Folder not found' });
-    }
+    // Which asset is picked depends on the file type settings
+    const cacheKey = `folder-preview-${folderPath}-${size}-${fileTypes.revision}`;
 
-    const cacheKey = `folder-preview-${folderPath}-${size}`;
+    // Which asset the preview comes from isn't known up front, so this relies on the
+    // content ETag Express adds in res.send (it answers If-None-Match with a 304)
+    res.set('Cache-Control', 'no-cache');
 
-    if (thumbnailCache.has(cacheKey)) {
-      const cachedBuffer = thumbnailCache.get(cacheKey);
-      res.set('Content-Type', 'image/jpeg');
-      return res.send(cachedBuffer);
+    // Cached until the folder (or the asset it was generated from) changes
+    const cached = await thumbnailCache.get(cacheKey);
+    if (cached) {
+      res.set('Content-Type', cached.contentType);
+      return res.send(cached.buffer);
     }
 
     // Find the first asset in the folder (prioritizes 3D models now!)
-    const firstAsset = findFirstAsset(folderPath);
+    const firstAsset = archive ? findFirstArchiveAsset(archive, entry) : await findFirstAsset(folderPath);
 
     if (!firstAsset) {
       return res.status(404).json({ error: 'No assets found in folder' });
     }
 
     let thumbnailBuffer;
+    let contentType = 'image/jpeg';
 
-    if (firstAsset.type === 'images') {
+    const previewKind = getPreviewKind(firstAsset.type);
+
+    if (previewKind === 'image') {
       if (path.extname(firstAsset.path).toLowerCase() === '.svg') {
         // For SVG, create a thumbnail using sharp
-        const svgContent = fs.readFileSync(firstAsset.path);
+        const svgContent = await readAsset(firstAsset.path);
         thumbnailBuffer = await sharp(Buffer.from(svgContent))
           .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
           .jpeg({ quality: 90 })
           .toBuffer();
       } else {
-        thumbnailBuffer = await sharp(firstAsset.path)
+        thumbnailBuffer = await sharp(archive ? await readAsset(firstAsset.path) : firstAsset.path)
           .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
           .jpeg({ quality: 90 })
           .toBuffer();
       }
-    } else if (firstAsset.type === 'models') {
+    } else if (previewKind === 'model') {
       // 🎉 FOR 3D MODELS IN FOLDER PREVIEWS - USE THE SAME AWESOME THUMBNAIL GENERATION!
       console.log(`🎯 Generating 3D model thumbnail for folder preview: ${firstAsset.path}`);
-      thumbnailBuffer = await generate3DModelThumbnail(firstAsset.path, size);
+      if (archive) {
+        const model = await resolveAssetPath(firstAsset.path);
+        ({ buffer: thumbnailBuffer, contentType } = await generateArchiveModelThumbnail(model.archive, model.entry, size));
+      } else {
+        ({ buffer: thumbnailBuffer, contentType } = await generate3DModelThumbnail(firstAsset.path, size));
+      }
+    } else if (previewKind === 'video') {
+      // Like video cards, the grid captures the poster frame when it gets this
+      const poster = await getVideoPoster(firstAsset.path);
+      if (!poster) {
+        return res.status(404).json({ error: 'No poster frame yet' });
+      }
+      thumbnailBuffer = await sharp(poster.buffer)
+        .resize(size, size, { fit: 'cover' })
+        .jpeg({ quality: 90 })
+        .toBuffer();
     } else {
       // For non-image, non-model assets, create a colored thumbnail with type indicator
-      const typeColors = {
-        audio: '#10b981',
-        video: '#ef4444',
-        documents: '#f59e0b'
-      };
-
-      const color = typeColors[firstAsset.type] || '#6b7280';
+      const color = fileTypes.getColor(firstAsset.type);
 
       const canvas = Buffer.from(`
         <svg width="${size}" height="${size}" xmlns="http://www.w3.org/2000/svg">
@@ -758,52 +1847,89 @@ app.get('/api/folder-preview', async (req, res) => {
         .toBuffer();
     }
 
-    // Cache the thumbnail
-    thumbnailCache.set(cacheKey, thumbnailBuffer);
+    // Cache the thumbnail; adding/removing files in the folder, or in the subfolder
+    // holding the preview asset, changes their mtime and invalidates the entry.
+    // Archive contents only change along with the archive file.
+    const dependencies = archive
+      ? [archive.filePath]
+      : [...new Set([folderPath, path.dirname(firstAsset.path), firstAsset.path])];
+    await thumbnailCache.set(cacheKey, thumbnailBuffer, { contentType, sourcePath: folderPath, dependencies });
 
-    res.set('Content-Type', 'image/jpeg');
+    res.set('Content-Type', contentType);
     res.send(thumbnailBuffer);
   } catch (error) {
+    if (sendPathError(res, error)) return;
     console.error('Error generating folder preview:', error);
     res.status(500).json({ error: 'Failed to generate folder preview: ' + error.message });
   }
 });
 
-// Serve files
-app.get('/api/file', (req, res) => {
-  try {
-    const filePath = req.query.path;
+// Serve a file from inside an archive, with the same validators and Range support sendFile has
+const sendArchiveEntry = async (req, res, archive, entry, mimeType) => {
+  const etag = `"${crypto.createHash('sha1').update(`${archive.virtualPath(entry)}-${archive.modified.getTime()}`).digest('hex')}"`;
+  if (isNotModified(req, res, { etag, lastModified: archive.modified })) {
+    return res.status(304).end();
+  }
 
-    if (!filePath || !fs.existsSync(filePath)) {
-      return res.status(404).json({ error: 'File not found' });
-    }
+  const data = await archive.read(entry);
+  res.set({ 'Content-Type': mimeType, 'Accept-Ranges': 'bytes' });
+
+  const ranges = req.range(data.length);
+  if (ranges === -1) {
+    res.set('Content-Range', `bytes */${data.length}`);
+    return res.status(416).end();
+  }
+  if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+    const { start, end } = ranges[0];
+    res.set('Content-Range', `bytes ${start}-${end}/${data.length}`);
+    return res.status(206).send(data.subarray(start, end + 1));
+  }
+  res.send(data);
+};
+
+// Serve files. sendFile handles Range requests (206) for seeking in audio/video,
+// and ETag / Last-Modified so the browser can revalidate instead of downloading again.
+app.get('/api/file', async (req, res) => {
+  try {
+    const { filePath, archive, entry } = await resolveAssetPath(req.query.path, { notFoundMessage: 'File not found' });
 
     const mimeType = mime.lookup(filePath) || 'application/octet-stream';
-    res.set('Content-Type', mimeType);
 
-    const fileStream = fs.createReadStream(filePath);
-    fileStream.pipe(res);
+    if (archive) {
+      if (entry.isDirectory) {
+        return res.status(400).json({ error: 'Path is a folder' });
+      }
+      await sendArchiveEntry(req, res, archive, entry, mimeType);
+      return;
+    }
+
+    res.sendFile(filePath, {
+      dotfiles: 'allow', // Asset folders can live below hidden directories
+      headers: { 'Content-Type': mimeType }
+    }, (error) => {
+      // The browser aborting a request (e.g. when seeking) is not an error
+      if (error && !res.headersSent) {
+        console.error('Error serving file:', error);
+        res.status(error.status || 500).json({ error: 'Failed to serve file: ' + error.message });
+      }
+    });
   } catch (error) {
+    if (sendPathError(res, error)) return;
     console.error('Error serving file:', error);
     res.status(500).json({ error: 'Failed to serve file: ' + error.message });
   }
 });
 
 // Get text file content
-app.get('/api/text-content', (req, res) => {
+app.get('/api/text-content', async (req, res) => {
   try {
-    const filePath = req.query.path;
-
-    if (!filePath || !fs.existsSync(filePath)) {
-      return res.status(404).json({ error: 'File not found' });
-    }
+    const { filePath, archive, entry } = await resolveAssetPath(req.query.path, { notFoundMessage: 'File not found' });
 
-    const fileType = getFileType(filePath);
-    if (fileType !== 'documents') {
+    if (getPreviewKind(getFileType(filePath)) !== 'text') {
       return res.status(400).json({ error: 'Not a text file' });
     }
 
-    const content = fs.readFileSync(filePath, 'utf8');
+    const content = archive ? (await archive.read(entry)).toString('utf8') : fs.readFileSync(filePath, 'utf8');
     const extension = path.extname(filePath).toLowerCase();
 
     res.json({
@@ -812,24 +1938,21 @@ app.get('/api/text-content', (req, res) => {
       encoding: 'utf8'
     });
   } catch (error) {
+    if (sendPathError(res, error)) return;
     console.error('Error reading text file:', error);
     res.status(500).json({ error: 'Failed to read text file: ' + error.message });
   }
 });
 
 // Get colormap texture for 3D model - ENHANCED VERSION
-app.get('/api/model-texture', (req, res) => {
+app.get('/api/model-texture', async (req, res) => {
   try {
-    const modelPath = req.query.path;
+    console.log(`\n🎨 Model texture request for: ${req.query.path}`);
 
-    console.log(`\n🎨 Model texture request for: ${modelPath}`);
+    const modelPath = await pathSandbox.resolve(req.query.path, { notFoundMessage: 'Model file not found' });
 
-    if (!modelPath || !fs.existsSync(modelPath)) {
-      console.log(`❌ Model file not found: ${modelPath}`);
-      return res.status(404).json({ error: 'Model file not found' });
-    }
-
-    const colormapPath = findColormap(modelPath);
+    // The colormap search can look in parent folders, it has to stay inside the roots too
+    const colormapPath = await pathSandbox.resolve(findColormap(modelPath)).catch(() => null);
 
     if (!colormapPath) {
       console.log(`❌ No colormap texture found for: ${modelPath}`);
@@ -844,63 +1967,187 @@ app.get('/api/model-texture', (req, res) => {
     const fileStream = fs.createReadStream(colormapPath);
     fileStream.pipe(res);
   } catch (error) {
+    if (sendPathError(res, error)) return;
     console.error('💥 Error serving model texture:', error);
     res.status(500).json({ error: 'Failed to serve model texture: ' + error.message });
   }
 });
 
-// Show file in system explorer
-app.post('/api/show-in-folder', (req, res) => {
+// An asset plus the files it needs: model buffers, materials and textures, and the
+// colormap the previews use. Files outside the library roots are left out. `baseDir` is
+// the deepest folder containing all of them, copies keep their layout relative to it.
+const collectAssetFiles = async (assetPath) => {
+  const candidates = [];
+  if (MODEL_PARSERS[path.extname(assetPath).toLowerCase()]) {
+    try {
+      candidates.push(...findModelDependencies(assetPath, { canRead: isInsideLibrary }));
+    } catch (e) {
+      console.warn(`Could not read dependencies of ${assetPath}: ${e.message}`);
+    }
+    candidates.push(findColormap(assetPath));
+  }
+
+  const files = [assetPath];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const filePath = await pathSandbox.resolve(candidate).catch(() => null);
+    if (filePath && !files.includes(filePath) && (await fs.promises.stat(filePath)).isFile()) {
+      files.push(filePath);
+    }
+  }
+
+  let baseDir = path.dirname(assetPath);
+  while (files.some(filePath => path.relative(baseDir, filePath).startsWith('..')) && path.dirname(baseDir) !== baseDir) {
+    baseDir = path.dirname(baseDir);
+  }
+
+  return {
+    baseDir,
+    files: files.map(filePath => ({ source: filePath, relativePath: path.relative(baseDir, filePath) }))
+  };
+};
+
+// Configured projects and what sending an asset would copy
+app.get('/api/send-to-project', async (req, res) => {
   try {
-    const { filePath } = req.body;
+    const { filePath, archive } = await resolveAssetPath(req.query.path, { notFoundMessage: 'File not found' });
+    if (archive) {
+      return res.status(400).json({ error: 'Files inside archives can\'t be sent to a project' });
+    }
+
+    const { files } = await collectAssetFiles(filePath);
+    res.json({ projects, configFile: CONFIG_FILE, files });
+  } catch (error) {
+    if (sendPathError(res, error)) return;
+    console.error('Error listing asset dependencies:', error);
+    res.status(500).json({ error: 'Failed to list asset dependencies: ' + error.message });
+  }
+});
 
-    if (!filePath || !fs.existsSync(filePath)) {
-      return res.status(404).json({ error: 'File not found' });
+// Copy an asset and its dependencies into a project folder. Existing files are only
+// replaced with `overwrite`, otherwise the answer is a 409 listing them.
+app.post('/api/send-to-project', async (req, res) => {
+  try {
+    const { path: assetPath, project: projectName, subfolder = '', overwrite = false } = req.body || {};
+
+    const project = projects.find(candidate => candidate.name === projectName);
+    if (!project) {
+      return res.status(400).json({ error: `Unknown project "${projectName}"` });
     }
 
-    const platform = os.platform();
-    let command;
+    const targetDir = path.resolve(project.path, typeof subfolder === 'string' ? subfolder : '');
+    const relativeTarget = path.relative(project.path, targetDir);
+    if (relativeTarget.startsWith('..') || path.isAbsolute(relativeTarget)) {
+      return res.status(400).json({ error: 'The folder has to be inside the project' });
+    }
 
-    switch (platform) {
-      case 'win32':
-        // Windows - use explorer with /select to highlight the file
-        command = `explorer /select,"${filePath.replace(/\//g, '\\')}"`;
-        break;
-      case 'darwin':
-        // macOS - use open with -R to reveal in Finder
-        command = `open -R "${filePath}"`;
-        break;
-      case 'linux':
-        // Linux - try different file managers
-        const fileManager = process.env.XDG_CURRENT_DESKTOP?.toLowerCase();
-        if (fileManager?.includes('gnome')) {
-          command = `nautilus --select "${filePath}"`;
-        } else if (fileManager?.includes('kde')) {
-          command = `dolphin --select "${filePath}"`;
-        } else {
-          // Fallback - open the containing directory
-          const dirPath = path.dirname(filePath);
-          command = `xdg-open "${dirPath}"`;
-        }
-        break;
-      default:
-        return res.status(400).json({ error: 'Unsupported operating system' });
+    const { filePath, archive } = await resolveAssetPath(assetPath, { notFoundMessage: 'File not found' });
+    if (archive) {
+      return res.status(400).json({ error: 'Files inside archives can\'t be sent to a project' });
+    }
+
+    const { files } = await collectAssetFiles(filePath);
+    const copies = files.map(file => ({ ...file, target: path.join(targetDir, file.relativePath) }));
+
+    const conflicts = [];
+    for (const copy of copies) {
+      if (fs.existsSync(copy.target)) conflicts.push(copy.target);
     }
+    if (conflicts.length > 0 && !overwrite) {
+      return res.status(409).json({ error: 'Some files already exist in the project', conflicts });
+    }
+
+    for (const copy of copies) {
+      await fs.promises.mkdir(path.dirname(copy.target), { recursive: true });
+      await fs.promises.copyFile(copy.source, copy.target);
+    }
+
+    console.log(`📤 Sent ${path.basename(filePath)} with ${copies.length - 1} dependencies to ${project.name} (${targetDir})`);
+    res.json({ project: project.name, targetDir, copied: copies, overwritten: conflicts });
+  } catch (error) {
+    if (sendPathError(res, error)) return;
+    console.error('Error sending asset to project:', error);
+    res.status(500).json({ error: 'Failed to send asset to project: ' + error.message });
+  }
+});
 
-    exec(command, (error, stdout, stderr) => {
-      if (error) {
-        console.error('Error opening file in explorer:', error);
-        return res.status(500).json({ error: 'Failed to open file in explorer' });
+// Command and arguments that reveal a file in the system file manager.
+// Arguments are passed as an array (no shell), so paths can't inject commands.
+const getRevealCommand = (filePath) => {
+  switch (os.platform()) {
+    case 'win32':
+      // Windows - use explorer with /select to highlight the file. Explorer has its own
+      // argument parsing, so quote the path ourselves (paths can't contain quotes on Windows)
+      return { command: 'explorer', args: ['/select,', `"${filePath.replace(/\//g, '\\')}"`], windowsVerbatimArguments: true };
+    case 'darwin':
+      // macOS - use open with -R to reveal in Finder
+      return { command: 'open', args: ['-R', filePath] };
+    case 'linux': {
+      // Linux - try different file managers
+      const fileManager = process.env.XDG_CURRENT_DESKTOP?.toLowerCase();
+      if (fileManager?.includes('gnome')) {
+        return { command: 'nautilus', args: ['--select', filePath] };
+      } else if (fileManager?.includes('kde')) {
+        return { command: 'dolphin', args: ['--select', filePath] };
       }
-      res.json({ success: true, message: 'File revealed in explorer' });
+      // Fallback - open the containing directory
+      return { command: 'xdg-open', args: [path.dirname(filePath)] };
+    }
+    default:
+      return null;
+  }
+};
+
+// Show file in system explorer
+app.post('/api/show-in-folder', async (req, res) => {
+  try {
+    const { filePath, archive } = await resolveAssetPath(req.body.filePath, { notFoundMessage: 'File not found' });
+
+    // For files inside an archive, show the archive
+    const reveal = getRevealCommand(archive ? archive.filePath : filePath);
+    if (!reveal) {
+      return res.status(400).json({ error: 'Unsupported operating system' });
+    }
+
+    // Don't wait for the file manager to exit (explorer even exits with 1 on success)
+    const child = spawn(reveal.command, reveal.args, {
+      detached: true,
+      stdio: 'ignore',
+      windowsVerbatimArguments: reveal.windowsVerbatimArguments
     });
 
+    child.once('error', (error) => {
+      console.error('Error opening file in explorer:', error);
+      if (!res.headersSent) res.status(500).json({ error: 'Failed to open file in explorer' });
+    });
+    child.once('spawn', () => {
+      child.unref();
+      res.json({ success: true, message: 'File revealed in explorer' });
+    });
   } catch (error) {
+    if (sendPathError(res, error)) return;
     console.error('Error showing file in folder:', error);
     res.status(500).json({ error: 'Failed to show file in folder: ' + error.message });
   }
 });
 
+// Thumbnail cache statistics
+app.get('/api/cache/stats', (req, res) => {
+  res.json(thumbnailCache.getStats());
+});
+
+// Purge the thumbnail cache, or only the entries for a file/folder
+app.post('/api/cache/purge', (req, res) => {
+  try {
+    const { path: targetPath } = req.body || {};
+    const purged = thumbnailCache.purge(targetPath || null);
+    res.json({ purged, ...thumbnailCache.getStats() });
+  } catch (error) {
+    console.error('Error purging thumbnail cache:', error);
+    res.status(500).json({ error: 'Failed to purge thumbnail cache: ' + error.message });
+  }
+});
+
 // Health check
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', message: 'Server is running' });
@@ -909,4 +2156,7 @@ app.get('/api/health', (req, res) => {
 app.listen(PORT, () => {
   console.log(`🚀 Total Asset Browser API running on http://localhost:${PORT}`);
   console.log(`📁 Starting directory: ${os.homedir()}`);
+  assetIndex.start();
+  tagStore.load();
+  fileOperations.load();
 });
\ No newline at end of file
@@ -0,0 +1,612 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import sharp from 'sharp';
+
+// Tiled (.tmx, .tsx, .tmj, .tsj) and LDtk (.ldtk) level files, read into one shape the
+// client and the thumbnail renderer can draw without knowing the format:
+//   { format, orientation, width, height, backgroundColor,
+//     images: [{ path, width, height, missing }],
+//     regions: [{ x, y, width, height, color }],
+//     layers: [{ name, visible, opacity, tiles: [dx, dy, image, sx, sy, w, h, flags, ...] }],
+//     warnings: [string] }
+// Every tile is 8 numbers: where it's drawn, which image, the source rectangle and
+// flags (1 = flip x, 2 = flip y, 4 = flip diagonally, applied diagonal first).
+// Image paths are absolute, resolved relative to the file that references them.
+// Tilesets, levels and images a map points to are only opened when `canRead(path)` allows
+// it; the others are marked missing (images) or skipped with a warning.
+
+export class MapError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'MapError';
+  }
+}
+
+// Why a referenced file couldn't be read. JSON.parse quotes the start of the text, which
+// mustn't end up in warnings
+const describeReadError = (e) => (e instanceof SyntaxError ? 'it is not valid JSON' : e.message);
+
+// Tiles past this are dropped (with a warning) so huge maps stay drawable
+const MAX_TILES = 250000;
+
+const FLIP_X = 1;
+const FLIP_Y = 2;
+const FLIP_DIAGONAL = 4;
+
+// ---------------------------------------------------------------------------
+// Just enough XML for Tiled files: elements, attributes and text
+
+const XML_ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+const decodeEntities = (text) => text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity) => {
+  if (entity[0] === '#') {
+    return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  }
+  return XML_ENTITIES[entity] ?? match;
+});
+
+const parseXml = (text) => {
+  const root = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  const tokens = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+  for (const [, cdata, closing, name, attributeText, selfClosing, content] of text.matchAll(tokens)) {
+    const current = stack[stack.length - 1];
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (content !== undefined) {
+      current.text += decodeEntities(content);
+    } else if (name && closing) {
+      if (stack.length > 1) stack.pop();
+    } else if (name) {
+      const attributes = {};
+      for (const [, key, doubleQuoted, singleQuoted] of attributeText.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[key] = decodeEntities(doubleQuoted ?? singleQuoted);
+      }
+      const element = { name, attributes, children: [], text: '' };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+  return root;
+};
+
+const child = (element, name) => element.children.find(node => node.name === name);
+const children = (element, name) => element.children.filter(node => node.name === name);
+const numberAttribute = (element, name, fallback = 0) => {
+  const value = Number(element?.attributes[name]);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+
+// Images are listed once and referenced by index, sizes come from the file when the
+// map doesn't store them (or stores them wrong)
+const createImageList = (canRead, warnings) => {
+  const images = [];
+  const byPath = new Map();
+  return {
+    images,
+    add: async (imagePath) => {
+      if (byPath.has(imagePath)) return byPath.get(imagePath);
+      const image = { path: imagePath, width: 0, height: 0, missing: false };
+      if (canRead(imagePath)) {
+        try {
+          const { width, height } = await sharp(imagePath).metadata();
+          image.width = width;
+          image.height = height;
+        } catch (e) {
+          image.missing = true;
+        }
+      } else {
+        image.missing = true;
+        warnings.push(`${path.basename(imagePath)} is outside the allowed library folders`);
+      }
+      images.push(image);
+      byPath.set(imagePath, images.length - 1);
+      return images.length - 1;
+    }
+  };
+};
+
+// #RRGGBB from Tiled's #AARRGGBB / #RRGGBB and LDtk's #RRGGBB
+const normalizeColor = (color) => {
+  if (typeof color !== 'string') return null;
+  const hex = color.replace(/^#/, '');
+  if (/^[0-9a-f]{8}$/i.test(hex)) return `#${hex.slice(2)}`;
+  return /^[0-9a-f]{6}$/i.test(hex) ? `#${hex}` : null;
+};
+
+// Shift everything so the map starts at 0,0 (infinite and isometric maps can reach
+// into negative coordinates) and grow the size to what is actually drawn
+const fitBounds = (map, nominal) => {
+  let minX = nominal.x;
+  let minY = nominal.y;
+  let maxX = nominal.x + nominal.width;
+  let maxY = nominal.y + nominal.height;
+  for (const { tiles } of map.layers) {
+    for (let i = 0; i < tiles.length; i += 8) {
+      minX = Math.min(minX, tiles[i]);
+      minY = Math.min(minY, tiles[i + 1]);
+      maxX = Math.max(maxX, tiles[i] + tiles[i + 5]);
+      maxY = Math.max(maxY, tiles[i + 1] + tiles[i + 6]);
+    }
+  }
+  for (const region of map.regions) {
+    minX = Math.min(minX, region.x);
+    minY = Math.min(minY, region.y);
+    maxX = Math.max(maxX, region.x + region.width);
+    maxY = Math.max(maxY, region.y + region.height);
+  }
+
+  if (minX !== 0 || minY !== 0) {
+    for (const layer of map.layers) {
+      for (let i = 0; i < layer.tiles.length; i += 8) {
+        layer.tiles[i] -= minX;
+        layer.tiles[i + 1] -= minY;
+      }
+    }
+    for (const region of map.regions) {
+      region.x -= minX;
+      region.y -= minY;
+    }
+  }
+  map.width = Math.max(1, Math.ceil(maxX - minX));
+  map.height = Math.max(1, Math.ceil(maxY - minY));
+  return map;
+};
+
+// Counts tiles across layers and warns once when the limit is reached
+const createTileBudget = (warnings) => {
+  let remaining = MAX_TILES;
+  return () => {
+    if (remaining === 0) return false;
+    if (--remaining === 0) warnings.push(`Only the first ${MAX_TILES.toLocaleString()} tiles are shown`);
+    return true;
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Tiled
+
+const GID_FLIP_X = 0x80000000;
+const GID_FLIP_Y = 0x40000000;
+const GID_FLIP_DIAGONAL = 0x20000000;
+const GID_MASK = 0x0fffffff;
+
+// Tilesets as plain objects, from XML (.tsx / embedded) or JSON (.tsj / embedded)
+const readTiledTilesetXml = (element) => ({
+  name: element.attributes.name || '',
+  tileWidth: numberAttribute(element, 'tilewidth'),
+  tileHeight: numberAttribute(element, 'tileheight'),
+  spacing: numberAttribute(element, 'spacing'),
+  margin: numberAttribute(element, 'margin'),
+  columns: numberAttribute(element, 'columns'),
+  offsetX: numberAttribute(child(element, 'tileoffset'), 'x'),
+  offsetY: numberAttribute(child(element, 'tileoffset'), 'y'),
+  image: child(element, 'image')?.attributes.source,
+  tiles: children(element, 'tile')
+    .filter(tile => child(tile, 'image'))
+    .map(tile => ({ id: numberAttribute(tile, 'id'), image: child(tile, 'image').attributes.source }))
+});
+
+const readTiledTilesetJson = (json) => ({
+  name: json.name || '',
+  tileWidth: json.tilewidth || 0,
+  tileHeight: json.tileheight || 0,
+  spacing: json.spacing || 0,
+  margin: json.margin || 0,
+  columns: json.columns || 0,
+  offsetX: json.tileoffset?.x || 0,
+  offsetY: json.tileoffset?.y || 0,
+  image: json.image,
+  tiles: (json.tiles || []).filter(tile => tile.image).map(tile => ({ id: tile.id, image: tile.image }))
+});
+
+const readTiledTilesetFile = async (filePath) => {
+  const text = await fs.promises.readFile(filePath, 'utf8');
+  if (/^\s*[{[]/.test(text)) return readTiledTilesetJson(JSON.parse(text));
+  const element = child(parseXml(text), 'tileset');
+  if (!element) throw new MapError(`${path.basename(filePath)} is not a Tiled tileset`);
+  return readTiledTilesetXml(element);
+};
+
+// Image indexes and source rectangles for every tile id of a tileset
+const resolveTiledTileset = async (tileset, baseDir, imageList) => {
+  const resolved = { ...tileset, tileImages: new Map() };
+  if (tileset.image) {
+    resolved.imageIndex = await imageList.add(path.resolve(baseDir, tileset.image));
+    const image = imageList.images[resolved.imageIndex];
+    if (!resolved.columns && tileset.tileWidth > 0) {
+      resolved.columns = Math.max(1, Math.floor((image.width - 2 * tileset.margin + tileset.spacing) / (tileset.tileWidth + tileset.spacing)));
+    }
+  }
+  for (const tile of tileset.tiles) {
+    resolved.tileImages.set(tile.id, await imageList.add(path.resolve(baseDir, tile.image)));
+  }
+  return resolved;
+};
+
+const tileSource = (tileset, localId, imageList) => {
+  if (tileset.tileImages.has(localId)) {
+    const index = tileset.tileImages.get(localId);
+    const image = imageList.images[index];
+    return { image: index, sx: 0, sy: 0, w: image.width, h: image.height };
+  }
+  if (tileset.imageIndex === undefined || !tileset.columns) return null;
+  return {
+    image: tileset.imageIndex,
+    sx: tileset.margin + (localId % tileset.columns) * (tileset.tileWidth + tileset.spacing),
+    sy: tileset.margin + Math.floor(localId / tileset.columns) * (tileset.tileHeight + tileset.spacing),
+    w: tileset.tileWidth,
+    h: tileset.tileHeight
+  };
+};
+
+// Global tile ids of a layer's (or chunk's) data, whatever the encoding
+const decodeTiledData = (data, encoding, compression) => {
+  if (Array.isArray(data)) return data;
+  if (encoding === 'csv') return data.split(',').map(value => Number(value.trim()) || 0);
+  if (encoding !== 'base64') throw new MapError(`Unsupported tile data encoding "${encoding}"`);
+
+  let bytes = Buffer.from(data.trim(), 'base64');
+  if (compression === 'zlib') bytes = zlib.inflateSync(bytes);
+  else if (compression === 'gzip') bytes = zlib.gunzipSync(bytes);
+  else if (compression) throw new MapError(`Unsupported tile data compression "${compression}"`);
+
+  const gids = [];
+  for (let offset = 0; offset + 4 <= bytes.length; offset += 4) gids.push(bytes.readUInt32LE(offset));
+  return gids;
+};
+
+// A Tiled map as { orientation, width, height (in tiles), tileWidth, tileHeight,
+// backgroundColor, tilesets: [{ firstGid, ...tileset }], layers } whatever the format
+const readTiledMapXml = (text, baseDir) => {
+  const element = child(parseXml(text), 'map');
+  if (!element) throw new MapError('Not a Tiled map');
+
+  const readLayers = (parent) => parent.children.flatMap(node => {
+    const common = {
+      name: node.attributes.name || '',
+      visible: node.attributes.visible !== '0',
+      opacity: numberAttribute(node, 'opacity', 1),
+      offsetX: numberAttribute(node, 'offsetx'),
+      offsetY: numberAttribute(node, 'offsety')
+    };
+    if (node.name === 'layer') {
+      const data = child(node, 'data');
+      const { encoding, compression } = data?.attributes ?? {};
+      const readGids = (source) => encoding
+        ? decodeTiledData(source.text, encoding, compression)
+        : children(source, 'tile').map(tile => numberAttribute(tile, 'gid'));
+      const chunks = data ? children(data, 'chunk') : [];
+      return [{
+        ...common,
+        type: 'tiles',
+        chunks: chunks.length > 0
+          ? chunks.map(chunk => ({
+            x: numberAttribute(chunk, 'x'),
+            y: numberAttribute(chunk, 'y'),
+            width: numberAttribute(chunk, 'width'),
+            gids: readGids(chunk)
+          }))
+          : [{ x: 0, y: 0, width: numberAttribute(node, 'width'), gids: data ? readGids(data) : [] }]
+      }];
+    }
+    if (node.name === 'imagelayer') {
+      return [{ ...common, type: 'image', image: child(node, 'image')?.attributes.source }];
+    }
+    if (node.name === 'group') {
+      return [{ ...common, type: 'group', layers: readLayers(node) }];
+    }
+    return [];
+  });
+
+  const tilesets = [];
+  for (const tileset of children(element, 'tileset')) {
+    const firstGid = numberAttribute(tileset, 'firstgid', 1);
+    const source = tileset.attributes.source;
+    tilesets.push(source
+      ? { firstGid, source: path.resolve(baseDir, source) }
+      : { firstGid, ...readTiledTilesetXml(tileset) });
+  }
+
+  return {
+    orientation: element.attributes.orientation || 'orthogonal',
+    width: numberAttribute(element, 'width'),
+    height: numberAttribute(element, 'height'),
+    tileWidth: numberAttribute(element, 'tilewidth'),
+    tileHeight: numberAttribute(element, 'tileheight'),
+    infinite: element.attributes.infinite === '1',
+    backgroundColor: element.attributes.backgroundcolor,
+    tilesets,
+    layers: readLayers(element)
+  };
+};
+
+const readTiledMapJson = (json, baseDir) => {
+  const readLayers = (layers) => (layers || []).flatMap(layer => {
+    const common = {
+      name: layer.name || '',
+      visible: layer.visible !== false,
+      opacity: layer.opacity ?? 1,
+      offsetX: layer.offsetx || 0,
+      offsetY: layer.offsety || 0
+    };
+    if (layer.type === 'tilelayer') {
+      const decode = (data) => decodeTiledData(data, layer.encoding || 'csv', layer.compression);
+      return [{
+        ...common,
+        type: 'tiles',
+        chunks: layer.chunks
+          ? layer.chunks.map(chunk => ({ x: chunk.x, y: chunk.y, width: chunk.width, gids: decode(chunk.data) }))
+          : [{ x: 0, y: 0, width: layer.width, gids: decode(layer.data || []) }]
+      }];
+    }
+    if (layer.type === 'imagelayer') return [{ ...common, type: 'image', image: layer.image }];
+    if (layer.type === 'group') return [{ ...common, type: 'group', layers: readLayers(layer.layers) }];
+    return [];
+  });
+
+  if (json.type !== 'map' && !Array.isArray(json.layers)) throw new MapError('Not a Tiled map');
+  return {
+    orientation: json.orientation || 'orthogonal',
+    width: json.width || 0,
+    height: json.height || 0,
+    tileWidth: json.tilewidth || 0,
+    tileHeight: json.tileheight || 0,
+    infinite: Boolean(json.infinite),
+    backgroundColor: json.backgroundcolor,
+    tilesets: (json.tilesets || []).map(tileset => tileset.source
+      ? { firstGid: tileset.firstgid, source: path.resolve(baseDir, tileset.source) }
+      : { firstGid: tileset.firstgid, ...readTiledTilesetJson(tileset) }),
+    layers: readLayers(json.layers)
+  };
+};
+
+const loadTiledMap = async (filePath, text, canRead) => {
+  const baseDir = path.dirname(filePath);
+  const tiled = /^\s*{/.test(text) ? readTiledMapJson(JSON.parse(text), baseDir) : readTiledMapXml(text, baseDir);
+  if (!['orthogonal', 'isometric'].includes(tiled.orientation)) {
+    throw new MapError(`${tiled.orientation[0].toUpperCase()}${tiled.orientation.slice(1)} maps can't be previewed yet, only orthogonal and isometric ones`);
+  }
+
+  const warnings = [];
+  const imageList = createImageList(canRead, warnings);
+
+  // External tilesets are relative to their own file
+  const tilesets = [];
+  for (const { firstGid, source, ...embedded } of tiled.tilesets) {
+    if (source && !canRead(source)) {
+      warnings.push(`Tileset ${path.basename(source)} is outside the allowed library folders`);
+      continue;
+    }
+    try {
+      const tileset = source ? await readTiledTilesetFile(source) : embedded;
+      tilesets.push({ firstGid, ...await resolveTiledTileset(tileset, source ? path.dirname(source) : baseDir, imageList) });
+    } catch (e) {
+      warnings.push(`Tileset ${source ? path.basename(source) : embedded.name} could not be read: ${describeReadError(e)}`);
+    }
+  }
+  tilesets.sort((a, b) => b.firstGid - a.firstGid);
+
+  const { tileWidth, tileHeight } = tiled;
+  const isometric = tiled.orientation === 'isometric';
+  // Top left of the tile's grid cell (the top corner of the diamond for isometric maps);
+  // tiles are drawn from the bottom of the cell, so taller tiles grow upwards
+  const cellPosition = (x, y) => isometric
+    ? { x: (x - y) * tileWidth / 2, y: (x + y) * tileHeight / 2 }
+    : { x: x * tileWidth, y: y * tileHeight };
+
+  const takeTile = createTileBudget(warnings);
+  const map = {
+    format: 'tiled',
+    orientation: tiled.orientation,
+    width: 0,
+    height: 0,
+    backgroundColor: normalizeColor(tiled.backgroundColor),
+    images: imageList.images,
+    regions: [],
+    layers: [],
+    warnings
+  };
+
+  // Groups are flattened into "Group/Layer" names with their visibility, opacity and offset
+  const addLayers = async (layers, parent) => {
+    for (const layer of layers) {
+      const name = parent.name ? `${parent.name}/${layer.name}` : layer.name;
+      const visible = parent.visible && layer.visible;
+      const opacity = parent.opacity * layer.opacity;
+      const offsetX = parent.offsetX + layer.offsetX;
+      const offsetY = parent.offsetY + layer.offsetY;
+
+      if (layer.type === 'group') {
+        await addLayers(layer.layers, { name, visible, opacity, offsetX, offsetY });
+        continue;
+      }
+
+      const tiles = [];
+      if (layer.type === 'image' && layer.image) {
+        const index = await imageList.add(path.resolve(baseDir, layer.image));
+        const image = imageList.images[index];
+        tiles.push(offsetX, offsetY, index, 0, 0, image.width, image.height, 0);
+      }
+
+      if (layer.type === 'tiles') {
+        for (const chunk of layer.chunks) {
+          chunk.gids.forEach((rawGid, i) => {
+            const gid = rawGid & GID_MASK;
+            if (!gid) return;
+            const tileset = tilesets.find(candidate => candidate.firstGid <= gid);
+            const source = tileset && tileSource(tileset, gid - tileset.firstGid, imageList);
+            if (!source || !takeTile()) return;
+
+            const cell = cellPosition(chunk.x + (i % chunk.width), chunk.y + Math.floor(i / chunk.width));
+            const flags = (rawGid & GID_FLIP_X ? FLIP_X : 0) | (rawGid & GID_FLIP_Y ? FLIP_Y : 0) | (rawGid & GID_FLIP_DIAGONAL ? FLIP_DIAGONAL : 0);
+            tiles.push(
+              cell.x + offsetX + tileset.offsetX - (isometric ? source.w / 2 : 0),
+              cell.y + offsetY + tileset.offsetY + tileHeight - source.h,
+              source.image, source.sx, source.sy, source.w, source.h, flags
+            );
+          });
+        }
+      }
+
+      map.layers.push({ name, visible, opacity, tiles });
+    }
+  };
+  await addLayers(tiled.layers, { name: '', visible: true, opacity: 1, offsetX: 0, offsetY: 0 });
+
+  const nominal = isometric
+    ? { x: -tiled.height * tileWidth / 2, y: 0, width: (tiled.width + tiled.height) * tileWidth / 2, height: (tiled.width + tiled.height) * tileHeight / 2 }
+    : { x: 0, y: 0, width: tiled.width * tileWidth, height: tiled.height * tileHeight };
+  return fitBounds(map, tiled.infinite ? { x: 0, y: 0, width: 0, height: 0 } : nominal);
+};
+
+// A tileset on its own is shown as its image (or its images, side by side)
+const loadTiledTileset = async (filePath, canRead) => {
+  const tileset = await readTiledTilesetFile(filePath);
+  const warnings = [];
+  const imageList = createImageList(canRead, warnings);
+  const resolved = await resolveTiledTileset(tileset, path.dirname(filePath), imageList);
+  const tiles = [];
+  let x = 0;
+  const sources = resolved.imageIndex !== undefined ? [resolved.imageIndex] : [...resolved.tileImages.values()];
+  for (const index of sources) {
+    const image = imageList.images[index];
+    tiles.push(x, 0, index, 0, 0, image.width, image.height, 0);
+    x += image.width;
+  }
+  return fitBounds({
+    format: 'tiled',
+    orientation: 'orthogonal',
+    width: 0,
+    height: 0,
+    backgroundColor: null,
+    images: imageList.images,
+    regions: [],
+    layers: [{ name: tileset.name || path.basename(filePath), visible: true, opacity: 1, tiles }],
+    warnings
+  }, { x: 0, y: 0, width: 0, height: 0 });
+};
+
+// ---------------------------------------------------------------------------
+// LDtk
+
+const loadLdtkProject = async (filePath, text, canRead) => {
+  const project = JSON.parse(text);
+  if (!Array.isArray(project.levels) || !project.defs) throw new MapError('Not an LDtk project');
+
+  const baseDir = path.dirname(filePath);
+  const warnings = [];
+  const imageList = createImageList(canRead, warnings);
+  const takeTile = createTileBudget(warnings);
+  const tilesetImages = new Map();
+  for (const tileset of project.defs.tilesets || []) {
+    if (tileset.relPath) tilesetImages.set(tileset.uid, await imageList.add(path.resolve(baseDir, tileset.relPath)));
+  }
+
+  // Levels saved separately only have a stub in the project
+  const levels = [];
+  for (const level of project.levels) {
+    if (!level.externalRelPath || level.layerInstances) {
+      levels.push(level);
+      continue;
+    }
+    const levelPath = path.resolve(baseDir, level.externalRelPath);
+    if (!canRead(levelPath)) {
+      warnings.push(`Level ${level.identifier} is outside the allowed library folders`);
+      continue;
+    }
+    try {
+      levels.push({ ...level, ...JSON.parse(await fs.promises.readFile(levelPath, 'utf8')) });
+    } catch (e) {
+      warnings.push(`Level ${level.identifier} could not be read: ${describeReadError(e)}`);
+    }
+  }
+
+  // Linear layouts don't store world positions, the levels follow each other
+  let linearOffset = 0;
+  const layersByName = new Map();
+  const map = {
+    format: 'ldtk',
+    orientation: 'orthogonal',
+    width: 0,
+    height: 0,
+    backgroundColor: normalizeColor(project.bgColor),
+    images: imageList.images,
+    regions: [],
+    layers: [],
+    warnings
+  };
+
+  for (const level of levels) {
+    let worldX = level.worldX;
+    let worldY = level.worldY;
+    if (project.worldLayout === 'LinearHorizontal') {
+      worldX = linearOffset;
+      worldY = 0;
+      linearOffset += level.pxWid;
+    } else if (project.worldLayout === 'LinearVertical') {
+      worldX = 0;
+      worldY = linearOffset;
+      linearOffset += level.pxHei;
+    }
+
+    map.regions.push({ x: worldX, y: worldY, width: level.pxWid, height: level.pxHei, color: normalizeColor(level.__bgColor) || map.backgroundColor || '#000000' });
+
+    // Layer instances are listed from the top one down
+    for (const instance of [...(level.layerInstances || [])].reverse()) {
+      const tiles = instance.__type === 'Tiles' ? instance.gridTiles : instance.autoLayerTiles;
+      if (!tiles || tiles.length === 0) continue;
+
+      const name = instance.__identifier;
+      if (!layersByName.has(name)) {
+        const layer = { name, visible: instance.visible !== false, opacity: instance.__opacity ?? 1, tiles: [] };
+        layersByName.set(name, layer);
+        map.layers.push(layer);
+      }
+      const layer = layersByName.get(name);
+
+      const tilesetUid = instance.overrideTilesetUid ?? instance.__tilesetDefUid;
+      let image = tilesetImages.get(tilesetUid);
+      if (image === undefined && instance.__tilesetRelPath) {
+        image = await imageList.add(path.resolve(baseDir, instance.__tilesetRelPath));
+      }
+      if (image === undefined) continue;
+
+      const size = instance.__gridSize;
+      for (const tile of tiles) {
+        if (!takeTile()) break;
+        layer.tiles.push(
+          worldX + instance.__pxTotalOffsetX + tile.px[0],
+          worldY + instance.__pxTotalOffsetY + tile.px[1],
+          image, tile.src[0], tile.src[1], size, size, tile.f & (FLIP_X | FLIP_Y)
+        );
+      }
+    }
+  }
+
+  return fitBounds(map, { x: 0, y: 0, width: 0, height: 0 });
+};
+
+// ---------------------------------------------------------------------------
+
+// Read a map (or a tileset) file, throws a MapError when it can't be shown
+export const loadMap = async (filePath, { canRead }) => {
+  // There's no default, a forgotten check must not open everything
+  if (typeof canRead !== 'function') throw new Error('loadMap needs a canRead check');
+  const extension = path.extname(filePath).toLowerCase();
+  try {
+    if (extension === '.tsx' || extension === '.tsj') return await loadTiledTileset(filePath, canRead);
+
+    const text = await fs.promises.readFile(filePath, 'utf8');
+    if (extension === '.ldtk') return await loadLdtkProject(filePath, text, canRead);
+    return await loadTiledMap(filePath, text, canRead);
+  } catch (e) {
+    if (e instanceof SyntaxError) throw new MapError(`${path.basename(filePath)} is not valid: ${e.message}`);
+    throw e;
+  }
+};
@@ -0,0 +1,88 @@
+import sharp from 'sharp';
+import { decodeTexture } from './modelParsers.js';
+import { loadMap } from './mapParsers.js';
+
+const parseHexColor = (color) => color
+  ? [parseInt(color.slice(1, 3), 16), parseInt(color.slice(3, 5), 16), parseInt(color.slice(5, 7), 16)]
+  : null;
+
+// Draw the visible layers of a map (see mapParsers.js) scaled down to fit `size`, sampling
+// the tileset pixels directly so big maps don't need a full size image in memory.
+// Files for which `canRead(path)` is false are left out
+export const renderMapThumbnail = async (filePath, size, { canRead }) => {
+  const map = await loadMap(filePath, { canRead });
+  const scale = Math.min(1, size / Math.max(map.width, map.height));
+  const width = Math.max(1, Math.round(map.width * scale));
+  const height = Math.max(1, Math.round(map.height * scale));
+  const pixels = new Uint8ClampedArray(width * height * 4);
+
+  const fillRect = (x, y, w, h, [r, g, b]) => {
+    const x0 = Math.max(0, Math.round(x * scale));
+    const y0 = Math.max(0, Math.round(y * scale));
+    const x1 = Math.min(width, Math.round((x + w) * scale));
+    const y1 = Math.min(height, Math.round((y + h) * scale));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) {
+        const i = (py * width + px) * 4;
+        pixels[i] = r;
+        pixels[i + 1] = g;
+        pixels[i + 2] = b;
+        pixels[i + 3] = 255;
+      }
+    }
+  };
+
+  const background = parseHexColor(map.backgroundColor);
+  if (background) fillRect(0, 0, map.width, map.height, background);
+  for (const region of map.regions) fillRect(region.x, region.y, region.width, region.height, parseHexColor(region.color));
+
+  const textures = await Promise.all(map.images.map(image =>
+    image.missing ? null : decodeTexture(image.path).catch(() => null)));
+  let drawn = 0;
+
+  for (const layer of map.layers) {
+    if (!layer.visible) continue;
+    const { tiles } = layer;
+    for (let t = 0; t < tiles.length; t += 8) {
+      const [dx, dy, image, sx, sy, w, h, flags] = [tiles[t], tiles[t + 1], tiles[t + 2], tiles[t + 3], tiles[t + 4], tiles[t + 5], tiles[t + 6], tiles[t + 7]];
+      const texture = textures[image];
+      if (!texture) continue;
+
+      // Every output pixel whose center falls inside the tile takes the nearest source pixel
+      const x0 = Math.max(0, Math.ceil(dx * scale - 0.5));
+      const y0 = Math.max(0, Math.ceil(dy * scale - 0.5));
+      const x1 = Math.min(width, Math.ceil((dx + w) * scale - 0.5));
+      const y1 = Math.min(height, Math.ceil((dy + h) * scale - 0.5));
+      for (let py = y0; py < y1; py++) {
+        for (let px = x0; px < x1; px++) {
+          let u = Math.min(w - 1, Math.max(0, Math.floor((px + 0.5) / scale - dx)));
+          let v = Math.min(h - 1, Math.max(0, Math.floor((py + 0.5) / scale - dy)));
+          if (flags & 1) u = w - 1 - u;
+          if (flags & 2) v = h - 1 - v;
+          if (flags & 4) [u, v] = [v, u];
+
+          const s = ((sy + v) * texture.width + sx + u) * 4;
+          if (s < 0 || s >= texture.data.length) continue;
+          const alpha = (texture.data[s + 3] / 255) * layer.opacity;
+          if (alpha <= 0) continue;
+
+          const i = (py * width + px) * 4;
+          const keep = 1 - alpha;
+          pixels[i] = texture.data[s] * alpha + pixels[i] * keep;
+          pixels[i + 1] = texture.data[s + 1] * alpha + pixels[i + 1] * keep;
+          pixels[i + 2] = texture.data[s + 2] * alpha + pixels[i + 2] * keep;
+          pixels[i + 3] = 255 * (alpha + (pixels[i + 3] / 255) * keep);
+        }
+      }
+      drawn++;
+    }
+  }
+
+  // Nothing to show (only object layers, or every tileset missing): use the type tile
+  if (drawn === 0 && map.regions.length === 0) return null;
+
+  return sharp(Buffer.from(pixels.buffer), { raw: { width, height, channels: 4 } })
+    .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 }, kernel: 'nearest' })
+    .png()
+    .toBuffer();
+};
@@ -0,0 +1,853 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import sharp from 'sharp';
+
+// Model parsers used for server-side thumbnails. Every parser returns a list of
+// triangle meshes already transformed to world space:
+//   { positions: Float32Array, normals: Float32Array | null, uvs: Float32Array | null,
+//     indices: Uint32Array, color: [r, g, b] (linear), texture: Texture | null, flipY: boolean }
+// where Texture is { width, height, data: Uint8Array (RGBA) }.
+
+// ---------------------------------------------------------------------------
+// Small column-major 4x4 matrix helpers (same layout as glTF and three.js)
+
+const identity = () => [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+const multiply = (a, b) => {
+  const out = new Array(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + row] * b[col * 4 + k];
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+};
+
+const translation = ([x, y, z]) => [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, x, y, z, 1];
+
+const scaling = ([x, y, z]) => [x, 0, 0, 0, 0, y, 0, 0, 0, 0, z, 0, 0, 0, 0, 1];
+
+const fromQuaternion = ([x, y, z, w]) => [
+  1 - 2 * (y * y + z * z), 2 * (x * y + z * w), 2 * (x * z - y * w), 0,
+  2 * (x * y - z * w), 1 - 2 * (x * x + z * z), 2 * (y * z + x * w), 0,
+  2 * (x * z + y * w), 2 * (y * z - x * w), 1 - 2 * (x * x + y * y), 0,
+  0, 0, 0, 1
+];
+
+const axisRotation = (axis, radians) => {
+  const c = Math.cos(radians);
+  const s = Math.sin(radians);
+  switch (axis) {
+    case 'X': return [1, 0, 0, 0, 0, c, s, 0, 0, -s, c, 0, 0, 0, 0, 1];
+    case 'Y': return [c, 0, -s, 0, 0, 1, 0, 0, s, 0, c, 0, 0, 0, 0, 1];
+    default: return [c, s, 0, 0, -s, c, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+  }
+};
+
+// Euler angles in degrees, `order` uses three.js semantics ('XYZ' -> Rx * Ry * Rz)
+const fromEulerDegrees = (degrees, order = 'ZYX') => {
+  const angles = { X: degrees[0], Y: degrees[1], Z: degrees[2] };
+  return order.split('').reduce(
+    (matrix, axis) => multiply(matrix, axisRotation(axis, angles[axis] * Math.PI / 180)),
+    identity()
+  );
+};
+
+// Inverse transpose of the upper 3x3, for transforming normals
+const normalMatrix = (m) => {
+  const [a, b, c, , d, e, f, , g, h, i] = m;
+  const det = a * (e * i - f * h) - d * (b * i - c * h) + g * (b * f - c * e);
+  if (Math.abs(det) < 1e-12) return [a, b, c, d, e, f, g, h, i];
+  const inv = 1 / det;
+  return [
+    (e * i - f * h) * inv, (g * f - d * i) * inv, (d * h - g * e) * inv,
+    (h * c - b * i) * inv, (a * i - g * c) * inv, (g * b - a * h) * inv,
+    (b * f - e * c) * inv, (d * c - a * f) * inv, (a * e - d * b) * inv
+  ];
+};
+
+const transformPositions = (positions, m) => {
+  const out = new Float32Array(positions.length);
+  for (let i = 0; i < positions.length; i += 3) {
+    const x = positions[i], y = positions[i + 1], z = positions[i + 2];
+    out[i] = m[0] * x + m[4] * y + m[8] * z + m[12];
+    out[i + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+    out[i + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+  }
+  return out;
+};
+
+const transformNormals = (normals, m) => {
+  const n = normalMatrix(m);
+  const out = new Float32Array(normals.length);
+  for (let i = 0; i < normals.length; i += 3) {
+    const x = normals[i], y = normals[i + 1], z = normals[i + 2];
+    const nx = n[0] * x + n[3] * y + n[6] * z;
+    const ny = n[1] * x + n[4] * y + n[7] * z;
+    const nz = n[2] * x + n[5] * y + n[8] * z;
+    const length = Math.hypot(nx, ny, nz) || 1;
+    out[i] = nx / length;
+    out[i + 1] = ny / length;
+    out[i + 2] = nz / length;
+  }
+  return out;
+};
+
+const srgbToLinear = (c) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+
+// Decode any image sharp understands into raw RGBA pixels
+export const decodeTexture = async (input) => {
+  const { data, info } = await sharp(input).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return { width: info.width, height: info.height, data: new Uint8Array(data.buffer, data.byteOffset, data.length) };
+};
+
+// ---------------------------------------------------------------------------
+// glTF 2.0 (.gltf and .glb)
+
+const GLB_MAGIC = 0x46546c67;
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+
+const COMPONENT_COUNTS = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16 };
+
+const COMPONENT_READERS = {
+  5120: { size: 1, read: (view, offset) => view.getInt8(offset), max: 127 },
+  5121: { size: 1, read: (view, offset) => view.getUint8(offset), max: 255 },
+  5122: { size: 2, read: (view, offset) => view.getInt16(offset, true), max: 32767 },
+  5123: { size: 2, read: (view, offset) => view.getUint16(offset, true), max: 65535 },
+  5125: { size: 4, read: (view, offset) => view.getUint32(offset, true), max: 4294967295 },
+  5126: { size: 4, read: (view, offset) => view.getFloat32(offset, true), max: 1 }
+};
+
+const readDataUri = (uri) => Buffer.from(uri.substring(uri.indexOf(',') + 1), 'base64');
+
+const loadGltfBuffers = (gltf, baseDir, glbBinary, canRead) => gltf.buffers?.map((buffer, index) => {
+  if (!buffer.uri) {
+    if (index === 0 && glbBinary) return glbBinary;
+    throw new Error('glTF buffer without data');
+  }
+  if (buffer.uri.startsWith('data:')) return readDataUri(buffer.uri);
+  const bufferPath = path.join(baseDir, decodeURIComponent(buffer.uri));
+  if (!canRead(bufferPath)) throw new Error(`glTF buffer ${buffer.uri} is outside the allowed library folders`);
+  return fs.readFileSync(bufferPath);
+}) || [];
+
+const readAccessor = (gltf, buffers, accessorIndex) => {
+  const accessor = gltf.accessors[accessorIndex];
+  const componentCount = COMPONENT_COUNTS[accessor.type];
+  const reader = COMPONENT_READERS[accessor.componentType];
+  const out = new Float32Array(accessor.count * componentCount);
+
+  if (accessor.bufferView === undefined) {
+    // Sparse-only or compressed accessors aren't supported
+    throw new Error('Accessor without buffer view (compressed mesh?)');
+  }
+
+  const bufferView = gltf.bufferViews[accessor.bufferView];
+  const buffer = buffers[bufferView.buffer];
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const stride = bufferView.byteStride || reader.size * componentCount;
+  const baseOffset = (bufferView.byteOffset || 0) + (accessor.byteOffset || 0);
+
+  for (let i = 0; i < accessor.count; i++) {
+    for (let c = 0; c < componentCount; c++) {
+      let value = reader.read(view, baseOffset + i * stride + c * reader.size);
+      if (accessor.normalized) value = Math.max(value / reader.max, -1);
+      out[i * componentCount + c] = value;
+    }
+  }
+
+  return out;
+};
+
+const loadGltfImage = async (gltf, buffers, baseDir, canRead, imageIndex) => {
+  const image = gltf.images?.[imageIndex];
+  if (!image) return null;
+
+  let source;
+  if (image.bufferView !== undefined) {
+    const bufferView = gltf.bufferViews[image.bufferView];
+    const buffer = buffers[bufferView.buffer];
+    source = buffer.subarray(bufferView.byteOffset || 0, (bufferView.byteOffset || 0) + bufferView.byteLength);
+  } else if (image.uri?.startsWith('data:')) {
+    source = readDataUri(image.uri);
+  } else if (image.uri) {
+    source = path.join(baseDir, decodeURIComponent(image.uri));
+    // Left untextured, like a missing image
+    if (!canRead(source)) return null;
+  }
+
+  return source ? decodeTexture(source) : null;
+};
+
+const primitiveIndices = (primitive, indices, vertexCount) => {
+  const mode = primitive.mode ?? 4;
+  const source = indices || Uint32Array.from({ length: vertexCount }, (_, i) => i);
+
+  if (mode === 4) return Uint32Array.from(source);
+
+  const triangles = [];
+  if (mode === 5) {
+    // Triangle strip
+    for (let i = 0; i + 2 < source.length; i++) {
+      if (i % 2 === 0) triangles.push(source[i], source[i + 1], source[i + 2]);
+      else triangles.push(source[i + 1], source[i], source[i + 2]);
+    }
+  } else if (mode === 6) {
+    // Triangle fan
+    for (let i = 1; i + 1 < source.length; i++) triangles.push(source[0], source[i], source[i + 1]);
+  }
+  // Points and lines have nothing to shade
+  return Uint32Array.from(triangles);
+};
+
+// JSON of a .gltf, or JSON plus binary chunk of a .glb
+const readGltf = (filePath) => {
+  const fileBuffer = fs.readFileSync(filePath);
+
+  let gltf;
+  let glbBinary = null;
+
+  if (fileBuffer.readUInt32LE(0) === GLB_MAGIC) {
+    let offset = 12;
+    while (offset < fileBuffer.length) {
+      const chunkLength = fileBuffer.readUInt32LE(offset);
+      const chunkType = fileBuffer.readUInt32LE(offset + 4);
+      const chunk = fileBuffer.subarray(offset + 8, offset + 8 + chunkLength);
+      if (chunkType === GLB_CHUNK_JSON) gltf = JSON.parse(chunk.toString('utf8'));
+      else if (chunkType === GLB_CHUNK_BIN) glbBinary = chunk;
+      offset += 8 + chunkLength;
+    }
+  } else {
+    gltf = JSON.parse(fileBuffer.toString('utf8'));
+  }
+
+  if (!gltf) throw new Error('Invalid glTF file');
+  return { gltf, glbBinary };
+};
+
+// The parsers read files the model points to only where `canRead(path)` allows it, models
+// can name any path on disk
+export const parseGLTF = async (filePath, { canRead }) => {
+  const baseDir = path.dirname(filePath);
+  const { gltf, glbBinary } = readGltf(filePath);
+  if (gltf.extensionsRequired?.includes('KHR_draco_mesh_compression') ||
+    gltf.extensionsRequired?.includes('EXT_meshopt_compression')) {
+    throw new Error('Compressed glTF meshes are not supported');
+  }
+
+  const buffers = loadGltfBuffers(gltf, baseDir, glbBinary, canRead);
+  const textureCache = new Map();
+  const meshes = [];
+
+  const getTexture = async (textureIndex) => {
+    if (textureIndex === undefined) return null;
+    if (!textureCache.has(textureIndex)) {
+      const texture = gltf.textures?.[textureIndex];
+      textureCache.set(textureIndex, await loadGltfImage(gltf, buffers, baseDir, canRead, texture?.source).catch(() => null));
+    }
+    return textureCache.get(textureIndex);
+  };
+
+  const visitNode = async (nodeIndex, parentMatrix) => {
+    const node = gltf.nodes[nodeIndex];
+    let local = identity();
+    if (node.matrix) {
+      local = node.matrix;
+    } else {
+      if (node.translation) local = multiply(local, translation(node.translation));
+      if (node.rotation) local = multiply(local, fromQuaternion(node.rotation));
+      if (node.scale) local = multiply(local, scaling(node.scale));
+    }
+    const world = multiply(parentMatrix, local);
+
+    if (node.mesh !== undefined) {
+      for (const primitive of gltf.meshes[node.mesh].primitives) {
+        if (primitive.attributes.POSITION === undefined) continue;
+
+        const positions = readAccessor(gltf, buffers, primitive.attributes.POSITION);
+        const normals = primitive.attributes.NORMAL !== undefined ? readAccessor(gltf, buffers, primitive.attributes.NORMAL) : null;
+        const uvs = primitive.attributes.TEXCOORD_0 !== undefined ? readAccessor(gltf, buffers, primitive.attributes.TEXCOORD_0) : null;
+        const indices = primitive.indices !== undefined ? readAccessor(gltf, buffers, primitive.indices) : null;
+
+        const material = gltf.materials?.[primitive.material];
+        const pbr = material?.pbrMetallicRoughness || {};
+        const baseColor = pbr.baseColorFactor || [1, 1, 1, 1];
+
+        meshes.push({
+          positions: transformPositions(positions, world),
+          normals: normals ? transformNormals(normals, world) : null,
+          uvs,
+          indices: primitiveIndices(primitive, indices, positions.length / 3),
+          color: baseColor.slice(0, 3),
+          texture: await getTexture(pbr.baseColorTexture?.index),
+          flipY: false
+        });
+      }
+    }
+
+    for (const child of node.children || []) {
+      await visitNode(child, world);
+    }
+  };
+
+  const scene = gltf.scenes?.[gltf.scene ?? 0];
+  const rootNodes = scene ? scene.nodes : (gltf.nodes || []).map((_, i) => i);
+  for (const nodeIndex of rootNodes || []) {
+    await visitNode(nodeIndex, identity());
+  }
+
+  return meshes;
+};
+
+// ---------------------------------------------------------------------------
+// Wavefront OBJ (+ MTL diffuse colors and textures)
+
+const parseMtl = (mtlPath) => {
+  const materials = new Map();
+  let current = null;
+
+  for (const rawLine of fs.readFileSync(mtlPath, 'utf8').split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const [keyword, ...rest] = line.split(/\s+/);
+    if (keyword === 'newmtl') {
+      current = { color: [1, 1, 1], map: null };
+      materials.set(rest.join(' '), current);
+    } else if (current && keyword === 'Kd') {
+      current.color = rest.slice(0, 3).map(Number).map(srgbToLinear);
+    } else if (current && keyword === 'map_Kd') {
+      // The file name is the last token, options like -s 1 1 1 come first
+      current.map = path.join(path.dirname(mtlPath), rest[rest.length - 1]);
+    }
+  }
+
+  return materials;
+};
+
+export const parseOBJ = async (filePath, { canRead }) => {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const baseDir = path.dirname(filePath);
+
+  const vertices = [];
+  const texcoords = [];
+  const vertexNormals = [];
+  const groups = new Map();
+  let materials = new Map();
+  let currentGroup = null;
+
+  const useMaterial = (name) => {
+    if (!groups.has(name)) groups.set(name, { positions: [], uvs: [], normals: [] });
+    currentGroup = groups.get(name);
+  };
+  useMaterial('');
+
+  const resolveIndex = (value, length) => {
+    const index = parseInt(value);
+    return index < 0 ? length + index : index - 1;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [keyword, ...parts] = line.split(/\s+/);
+
+    switch (keyword) {
+      case 'v':
+        vertices.push(parts.slice(0, 3).map(Number));
+        break;
+      case 'vt':
+        texcoords.push(parts.slice(0, 2).map(Number));
+        break;
+      case 'vn':
+        vertexNormals.push(parts.slice(0, 3).map(Number));
+        break;
+      case 'mtllib': {
+        const mtlPath = path.join(baseDir, parts.join(' '));
+        if (!canRead(mtlPath)) break;
+        try {
+          materials = parseMtl(mtlPath);
+        } catch (e) {
+          // Missing .mtl is common, just render untextured
+        }
+        break;
+      }
+      case 'usemtl':
+        useMaterial(parts.join(' '));
+        break;
+      case 'f': {
+        const corners = parts.map(part => {
+          const [v, vt, vn] = part.split('/');
+          return {
+            v: resolveIndex(v, vertices.length),
+            vt: vt ? resolveIndex(vt, texcoords.length) : -1,
+            vn: vn ? resolveIndex(vn, vertexNormals.length) : -1
+          };
+        });
+        // Triangulate polygons as a fan
+        for (let i = 1; i + 1 < corners.length; i++) {
+          for (const corner of [corners[0], corners[i], corners[i + 1]]) {
+            currentGroup.positions.push(...(vertices[corner.v] || [0, 0, 0]));
+            currentGroup.uvs.push(...(texcoords[corner.vt] || [0, 0]));
+            currentGroup.normals.push(...(vertexNormals[corner.vn] || [0, 0, 0]));
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  const meshes = [];
+  for (const [materialName, group] of groups) {
+    if (group.positions.length === 0) continue;
+
+    const material = materials.get(materialName);
+    let texture = null;
+    if (material?.map && canRead(material.map) && fs.existsSync(material.map)) {
+      texture = await decodeTexture(material.map).catch(() => null);
+    }
+
+    const vertexCount = group.positions.length / 3;
+    meshes.push({
+      positions: Float32Array.from(group.positions),
+      normals: vertexNormals.length > 0 ? Float32Array.from(group.normals) : null,
+      uvs: texcoords.length > 0 ? Float32Array.from(group.uvs) : null,
+      indices: Uint32Array.from({ length: vertexCount }, (_, i) => i),
+      color: material?.color || [1, 1, 1],
+      texture,
+      flipY: true
+    });
+  }
+
+  return meshes;
+};
+
+// ---------------------------------------------------------------------------
+// Binary FBX (geometry, model hierarchy and diffuse colors)
+
+const FBX_MAGIC = 'Kaydara FBX Binary  \0';
+
+const readFbxProperty = (buffer, offset) => {
+  const type = String.fromCharCode(buffer[offset]);
+  offset += 1;
+
+  switch (type) {
+    case 'Y': return { value: buffer.readInt16LE(offset), offset: offset + 2 };
+    case 'C': return { value: buffer[offset] !== 0, offset: offset + 1 };
+    case 'I': return { value: buffer.readInt32LE(offset), offset: offset + 4 };
+    case 'F': return { value: buffer.readFloatLE(offset), offset: offset + 4 };
+    case 'D': return { value: buffer.readDoubleLE(offset), offset: offset + 8 };
+    case 'L': return { value: buffer.readBigInt64LE(offset), offset: offset + 8 };
+    case 'S':
+    case 'R': {
+      const length = buffer.readUInt32LE(offset);
+      const data = buffer.subarray(offset + 4, offset + 4 + length);
+      return { value: type === 'S' ? data.toString('utf8') : data, offset: offset + 4 + length };
+    }
+    case 'f':
+    case 'd':
+    case 'l':
+    case 'i':
+    case 'b': {
+      const arrayLength = buffer.readUInt32LE(offset);
+      const encoding = buffer.readUInt32LE(offset + 4);
+      const compressedLength = buffer.readUInt32LE(offset + 8);
+      let data = buffer.subarray(offset + 12, offset + 12 + compressedLength);
+      if (encoding === 1) data = zlib.inflateSync(data);
+
+      const values = new Array(arrayLength);
+      for (let i = 0; i < arrayLength; i++) {
+        if (type === 'f') values[i] = data.readFloatLE(i * 4);
+        else if (type === 'd') values[i] = data.readDoubleLE(i * 8);
+        else if (type === 'l') values[i] = Number(data.readBigInt64LE(i * 8));
+        else if (type === 'i') values[i] = data.readInt32LE(i * 4);
+        else values[i] = data[i];
+      }
+      return { value: values, offset: offset + 12 + compressedLength };
+    }
+    default:
+      throw new Error(`Unknown FBX property type: ${type}`);
+  }
+};
+
+const readFbxNode = (buffer, offset, is64Bit) => {
+  const endOffset = is64Bit ? Number(buffer.readBigUInt64LE(offset)) : buffer.readUInt32LE(offset);
+  const propertyCount = is64Bit ? Number(buffer.readBigUInt64LE(offset + 8)) : buffer.readUInt32LE(offset + 4);
+  offset += is64Bit ? 24 : 12;
+
+  const nameLength = buffer[offset];
+  const name = buffer.toString('latin1', offset + 1, offset + 1 + nameLength);
+  offset += 1 + nameLength;
+
+  if (endOffset === 0) return null;
+
+  const properties = [];
+  for (let i = 0; i < propertyCount; i++) {
+    const property = readFbxProperty(buffer, offset);
+    properties.push(property.value);
+    offset = property.offset;
+  }
+
+  const children = [];
+  const nullRecordLength = is64Bit ? 25 : 13;
+  while (offset < endOffset - nullRecordLength + 1) {
+    const child = readFbxNode(buffer, offset, is64Bit);
+    if (!child) break;
+    children.push(child.node);
+    offset = child.endOffset;
+  }
+
+  return { node: { name, properties, children }, endOffset };
+};
+
+const fbxChild = (node, name) => node?.children.find(child => child.name === name);
+
+// Read a Properties70 block into { name: [values...] }
+const fbxProperties = (node) => {
+  const properties = {};
+  for (const property of fbxChild(node, 'Properties70')?.children || []) {
+    properties[property.properties[0]] = property.properties.slice(4);
+  }
+  return properties;
+};
+
+const FBX_EULER_ORDERS = ['ZYX', 'YZX', 'XZY', 'ZXY', 'YXZ', 'XYZ'];
+
+const fbxRotationOrder = (properties) => FBX_EULER_ORDERS[properties.RotationOrder?.[0] || 0] || 'ZYX';
+
+// Model transform (pivots and offsets are ignored, they rarely matter for a thumbnail)
+const fbxLocalMatrix = (properties) => {
+  const order = fbxRotationOrder(properties);
+  let matrix = identity();
+  if (properties['Lcl Translation']) matrix = multiply(matrix, translation(properties['Lcl Translation'].map(Number)));
+  if (properties.PreRotation) matrix = multiply(matrix, fromEulerDegrees(properties.PreRotation.map(Number), order));
+  if (properties['Lcl Rotation']) matrix = multiply(matrix, fromEulerDegrees(properties['Lcl Rotation'].map(Number), order));
+  if (properties['Lcl Scaling']) matrix = multiply(matrix, scaling(properties['Lcl Scaling'].map(Number)));
+  return matrix;
+};
+
+// Geometric transform, applied to the geometry only (not inherited by children)
+const fbxGeometricMatrix = (properties) => {
+  let matrix = identity();
+  if (properties.GeometricTranslation) matrix = multiply(matrix, translation(properties.GeometricTranslation.map(Number)));
+  if (properties.GeometricRotation) matrix = multiply(matrix, fromEulerDegrees(properties.GeometricRotation.map(Number), fbxRotationOrder(properties)));
+  if (properties.GeometricScaling) matrix = multiply(matrix, scaling(properties.GeometricScaling.map(Number)));
+  return matrix;
+};
+
+// Expand an FBX layer element (normals, UVs) to one value per polygon vertex
+const fbxLayerValue = (layer, dataName, indexName, itemSize, polygonVertexIndex, vertexIndex) => {
+  const mapping = fbxChild(layer, 'MappingInformationType')?.properties[0];
+  const reference = fbxChild(layer, 'ReferenceInformationType')?.properties[0];
+  const data = fbxChild(layer, dataName)?.properties[0] || [];
+  const indices = fbxChild(layer, indexName)?.properties[0];
+
+  let index = mapping === 'ByVertice' || mapping === 'ByVertex' ? vertexIndex : polygonVertexIndex;
+  if (mapping === 'AllSame') index = 0;
+  if (reference === 'IndexToDirect' && indices) index = indices[index];
+
+  return data.slice(index * itemSize, index * itemSize + itemSize);
+};
+
+const parseFbxGeometry = (geometry) => {
+  const vertices = fbxChild(geometry, 'Vertices')?.properties[0] || [];
+  const polygonIndices = fbxChild(geometry, 'PolygonVertexIndex')?.properties[0] || [];
+  const normalLayer = fbxChild(geometry, 'LayerElementNormal');
+  const uvLayer = fbxChild(geometry, 'LayerElementUV');
+
+  const positions = [];
+  const normals = [];
+  const uvs = [];
+  let polygon = [];
+
+  polygonIndices.forEach((rawIndex, polygonVertexIndex) => {
+    // A negative index marks the last vertex of a polygon (stored as -index - 1)
+    const isLast = rawIndex < 0;
+    const vertexIndex = isLast ? -rawIndex - 1 : rawIndex;
+
+    polygon.push({
+      position: vertices.slice(vertexIndex * 3, vertexIndex * 3 + 3),
+      normal: normalLayer ? fbxLayerValue(normalLayer, 'Normals', 'NormalsIndex', 3, polygonVertexIndex, vertexIndex) : null,
+      uv: uvLayer ? fbxLayerValue(uvLayer, 'UV', 'UVIndex', 2, polygonVertexIndex, vertexIndex) : null
+    });
+
+    if (isLast) {
+      for (let i = 1; i + 1 < polygon.length; i++) {
+        for (const corner of [polygon[0], polygon[i], polygon[i + 1]]) {
+          positions.push(...corner.position);
+          normals.push(...(corner.normal || [0, 0, 0]));
+          uvs.push(...(corner.uv || [0, 0]));
+        }
+      }
+      polygon = [];
+    }
+  });
+
+  return {
+    positions: Float32Array.from(positions),
+    normals: normalLayer ? Float32Array.from(normals) : null,
+    uvs: uvLayer ? Float32Array.from(uvs) : null
+  };
+};
+
+// Top-level nodes of a binary FBX file
+const readFbx = (filePath) => {
+  const buffer = fs.readFileSync(filePath);
+  if (buffer.toString('latin1', 0, FBX_MAGIC.length) !== FBX_MAGIC) {
+    throw new Error('Only binary FBX files are supported');
+  }
+
+  const version = buffer.readUInt32LE(23);
+  const is64Bit = version >= 7500;
+
+  const root = [];
+  let offset = 27;
+  while (offset < buffer.length) {
+    const result = readFbxNode(buffer, offset, is64Bit);
+    if (!result) break;
+    root.push(result.node);
+    offset = result.endOffset;
+  }
+  return root;
+};
+
+export const parseFBX = async (filePath) => {
+  const root = readFbx(filePath);
+  const objects = root.find(node => node.name === 'Objects');
+  const connections = root.find(node => node.name === 'Connections');
+  if (!objects) throw new Error('FBX file has no objects');
+
+  const byId = new Map();
+  for (const object of objects.children) {
+    byId.set(object.properties[0], object);
+  }
+
+  // child id -> parent ids (object to object connections only)
+  const parents = new Map();
+  const childrenOf = new Map();
+  for (const connection of connections?.children || []) {
+    const [type, childId, parentId] = connection.properties;
+    if (type !== 'OO') continue;
+    if (!parents.has(childId)) parents.set(childId, []);
+    parents.get(childId).push(parentId);
+    if (!childrenOf.has(parentId)) childrenOf.set(parentId, []);
+    childrenOf.get(parentId).push(childId);
+  }
+
+  const worldMatrices = new Map();
+  const worldMatrix = (modelId) => {
+    if (worldMatrices.has(modelId)) return worldMatrices.get(modelId);
+    const model = byId.get(modelId);
+    if (!model || model.name !== 'Model') return identity();
+
+    const parentModel = (parents.get(modelId) || []).find(id => byId.get(id)?.name === 'Model');
+    const matrix = multiply(parentModel !== undefined ? worldMatrix(parentModel) : identity(), fbxLocalMatrix(fbxProperties(model)));
+    worldMatrices.set(modelId, matrix);
+    return matrix;
+  };
+
+  const meshes = [];
+  for (const object of objects.children) {
+    if (object.name !== 'Geometry' || object.properties[2] !== 'Mesh') continue;
+
+    const geometryId = object.properties[0];
+    const geometry = parseFbxGeometry(object);
+    if (geometry.positions.length === 0) continue;
+
+    // A geometry can be instanced by several models
+    const models = (parents.get(geometryId) || []).filter(id => byId.get(id)?.name === 'Model');
+    for (const modelId of models.length > 0 ? models : [null]) {
+      const modelProperties = modelId !== null ? fbxProperties(byId.get(modelId)) : {};
+      const matrix = modelId !== null
+        ? multiply(worldMatrix(modelId), fbxGeometricMatrix(modelProperties))
+        : identity();
+
+      const material = (childrenOf.get(modelId) || []).map(id => byId.get(id)).find(node => node?.name === 'Material');
+      const diffuse = material ? fbxProperties(material).DiffuseColor : null;
+
+      meshes.push({
+        positions: transformPositions(geometry.positions, matrix),
+        normals: geometry.normals ? transformNormals(geometry.normals, matrix) : null,
+        uvs: geometry.uvs,
+        indices: Uint32Array.from({ length: geometry.positions.length / 3 }, (_, i) => i),
+        color: diffuse ? diffuse.map(Number) : [1, 1, 1],
+        texture: null,
+        flipY: true
+      });
+    }
+  }
+
+  return meshes;
+};
+
+// ---------------------------------------------------------------------------
+// Files a model needs next to it: glTF buffers and images, OBJ material libraries and
+// the textures they reference. Paths are absolute and may not exist.
+
+const MTL_MAP_KEYWORDS = new Set([
+  'map_ka', 'map_kd', 'map_ks', 'map_ke', 'map_ns', 'map_d', 'map_bump', 'bump', 'disp', 'decal', 'norm',
+  'map_pr', 'map_pm', 'map_ps', 'refl'
+]);
+
+const findMtlTextures = (mtlPath) => {
+  const textures = [];
+  for (const rawLine of fs.readFileSync(mtlPath, 'utf8').split(/\r?\n/)) {
+    const [keyword, ...rest] = rawLine.trim().split(/\s+/);
+    // Like map_Kd above, the file name is the last token
+    if (MTL_MAP_KEYWORDS.has(keyword.toLowerCase()) && rest.length > 0) {
+      textures.push(path.join(path.dirname(mtlPath), rest[rest.length - 1]));
+    }
+  }
+  return textures;
+};
+
+export const findModelDependencies = (filePath, { canRead }) => {
+  const baseDir = path.dirname(filePath);
+
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.gltf':
+    case '.glb': {
+      const { gltf } = readGltf(filePath);
+      return [...(gltf.buffers || []), ...(gltf.images || [])]
+        .filter(resource => resource.uri && !resource.uri.startsWith('data:'))
+        .map(resource => path.join(baseDir, decodeURIComponent(resource.uri)));
+    }
+    case '.obj': {
+      const dependencies = [];
+      for (const rawLine of fs.readFileSync(filePath, 'utf8').split(/\r?\n/)) {
+        const [keyword, ...parts] = rawLine.trim().split(/\s+/);
+        if (keyword !== 'mtllib') continue;
+
+        const mtlPath = path.join(baseDir, parts.join(' '));
+        dependencies.push(mtlPath);
+        if (!canRead(mtlPath)) continue;
+        try {
+          dependencies.push(...findMtlTextures(mtlPath));
+        } catch (e) {
+          // Missing .mtl, nothing more to find
+        }
+      }
+      return dependencies;
+    }
+    default:
+      return [];
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Counts for the metadata inspector, read without building any geometry:
+//   { meshes, vertices, triangles, materials, animations, bones }
+
+// Triangles drawn from `count` indices (or vertices) in a glTF primitive mode
+const gltfTriangleCount = (mode = 4, count) => {
+  if (mode === 4) return Math.floor(count / 3);
+  if (mode === 5 || mode === 6) return Math.max(count - 2, 0);
+  return 0;
+};
+
+const gltfStats = (filePath) => {
+  const { gltf } = readGltf(filePath);
+  let vertices = 0;
+  let triangles = 0;
+  for (const mesh of gltf.meshes || []) {
+    for (const primitive of mesh.primitives) {
+      const positions = gltf.accessors?.[primitive.attributes.POSITION];
+      if (!positions) continue;
+      vertices += positions.count;
+      const indices = primitive.indices !== undefined ? gltf.accessors[primitive.indices] : null;
+      triangles += gltfTriangleCount(primitive.mode, indices ? indices.count : positions.count);
+    }
+  }
+
+  const joints = new Set((gltf.skins || []).flatMap(skin => skin.joints));
+  return {
+    meshes: gltf.meshes?.length || 0,
+    vertices,
+    triangles,
+    materials: gltf.materials?.length || 0,
+    animations: gltf.animations?.length || 0,
+    bones: joints.size
+  };
+};
+
+const objStats = (filePath) => {
+  let vertices = 0;
+  let triangles = 0;
+  let groups = 0;
+  let facesInGroup = false;
+  const materials = new Set();
+
+  for (const rawLine of fs.readFileSync(filePath, 'utf8').split(/\r?\n/)) {
+    const [keyword, ...rest] = rawLine.trim().split(/\s+/);
+    if (keyword === 'v') {
+      vertices++;
+    } else if (keyword === 'f') {
+      triangles += Math.max(rest.length - 2, 0);
+      if (!facesInGroup) groups++;
+      facesInGroup = true;
+    } else if (keyword === 'o' || keyword === 'g') {
+      facesInGroup = false;
+    } else if (keyword === 'usemtl') {
+      materials.add(rest.join(' '));
+    }
+  }
+
+  return { meshes: groups, vertices, triangles, materials: materials.size, animations: 0, bones: 0 };
+};
+
+const fbxStats = (filePath) => {
+  const objects = readFbx(filePath).find(node => node.name === 'Objects')?.children || [];
+  let meshes = 0;
+  let vertices = 0;
+  let triangles = 0;
+
+  for (const object of objects) {
+    if (object.name !== 'Geometry' || object.properties[2] !== 'Mesh') continue;
+    meshes++;
+    vertices += (fbxChild(object, 'Vertices')?.properties[0]?.length || 0) / 3;
+
+    // Same polygon layout as in parseFbxGeometry, each polygon of n corners makes n - 2 triangles
+    let corners = 0;
+    for (const index of fbxChild(object, 'PolygonVertexIndex')?.properties[0] || []) {
+      corners++;
+      if (index < 0) {
+        triangles += Math.max(corners - 2, 0);
+        corners = 0;
+      }
+    }
+  }
+
+  const count = (name, subclass) => objects.filter(object =>
+    object.name === name && (subclass === undefined || object.properties[2] === subclass)).length;
+
+  return {
+    meshes,
+    vertices,
+    triangles,
+    materials: count('Material'),
+    animations: count('AnimationStack'),
+    bones: count('Model', 'LimbNode')
+  };
+};
+
+const MODEL_STATS = {
+  '.glb': gltfStats,
+  '.gltf': gltfStats,
+  '.obj': objStats,
+  '.fbx': fbxStats
+};
+
+// Null for formats that can't be read
+export const getModelStats = (filePath) => {
+  const readStats = MODEL_STATS[path.extname(filePath).toLowerCase()];
+  return readStats ? readStats(filePath) : null;
+};
+
+export const MODEL_PARSERS = {
+  '.glb': parseGLTF,
+  '.gltf': parseGLTF,
+  '.obj': parseOBJ,
+  '.fbx': parseFBX
+};
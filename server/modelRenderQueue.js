@@ -0,0 +1,74 @@
+import { Worker } from 'worker_threads';
+
+const WORKER_URL = new URL('./modelRenderWorker.js', import.meta.url);
+
+// A model that takes longer than this is given up on, and the worker restarted
+const RENDER_TIMEOUT = 60000;
+
+// Model thumbnails are parsed and rendered in a worker thread, one at a time, so a big
+// model doesn't hold up other requests. Renders wait their turn in order.
+export class ModelRenderQueue {
+  // `roots` are the library folders the worker may read files a model points to from
+  constructor({ roots, timeout = RENDER_TIMEOUT }) {
+    this.roots = roots;
+    this.timeout = timeout;
+    this.worker = null;
+    this.jobs = [];
+    this.current = null;
+    this.nextId = 1;
+  }
+
+  // Resolves with { buffer, meshCount }, rejects when the model can't be rendered
+  render(modelPath, size, colormapPath = null) {
+    return new Promise((resolve, reject) => {
+      this.jobs.push({ id: this.nextId++, modelPath, size, colormapPath, resolve, reject });
+      this.runNext();
+    });
+  }
+
+  getWorker() {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(WORKER_URL, { workerData: { roots: this.roots } });
+    worker.on('message', ({ id, buffer, meshCount, error }) => {
+      if (this.current?.id !== id) return;
+      const job = this.finish();
+      if (error) job.reject(new Error(error));
+      else job.resolve({ buffer: Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength), meshCount });
+    });
+    worker.on('error', (error) => this.fail(worker, error));
+    worker.on('exit', (code) => this.fail(worker, new Error(`The render worker stopped (exit code ${code})`)));
+    this.worker = worker;
+    return worker;
+  }
+
+  runNext() {
+    if (this.current || this.jobs.length === 0) return;
+
+    const job = this.jobs.shift();
+    this.current = job;
+    job.timer = setTimeout(() => {
+      job.timedOut = true;
+      if (this.worker) this.fail(this.worker, new Error(`Rendering took longer than ${this.timeout / 1000}s`));
+    }, this.timeout);
+    const { id, modelPath, size, colormapPath } = job;
+    this.getWorker().postMessage({ id, modelPath, size, colormapPath });
+  }
+
+  finish() {
+    const job = this.current;
+    clearTimeout(job.timer);
+    this.current = null;
+    setImmediate(() => this.runNext());
+    return job;
+  }
+
+  // The worker crashed, ran out of memory or timed out: the next render gets a new one
+  fail(worker, error) {
+    if (this.worker !== worker) return;
+    this.worker = null;
+    worker.removeAllListeners();
+    worker.terminate();
+    if (this.current) this.finish().reject(error);
+  }
+}
@@ -0,0 +1,25 @@
+import path from 'path';
+import { parentPort, workerData } from 'worker_threads';
+import { MODEL_PARSERS, decodeTexture } from './modelParsers.js';
+import { isReadableInRoots } from './pathSandbox.js';
+import { renderModelThumbnail } from './softwareRenderer.js';
+
+// Parses and rasterizes one model at a time for ModelRenderQueue, off the server's event loop.
+// Files the model points to are only read inside the library roots it was started with
+
+const canRead = (filePath) => isReadableInRoots(filePath, workerData.roots);
+
+parentPort.on('message', async ({ id, modelPath, size, colormapPath }) => {
+  try {
+    const parser = MODEL_PARSERS[path.extname(modelPath).toLowerCase()];
+    if (!parser) throw new Error(`No parser for ${path.extname(modelPath)} models`);
+
+    const meshes = await parser(modelPath, { canRead });
+    // Like the client, the colormap (if any) replaces the model's own textures
+    const overrideTexture = colormapPath && canRead(colormapPath) ? await decodeTexture(colormapPath).catch(() => null) : null;
+    const buffer = await renderModelThumbnail(meshes, { size, overrideTexture });
+    parentPort.postMessage({ id, buffer, meshCount: meshes.length });
+  } catch (e) {
+    parentPort.postMessage({ id, error: e.message });
+  }
+});
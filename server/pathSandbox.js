@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+
+// Thrown for paths a request isn't allowed to touch, `status` is the HTTP status to answer with
+export class PathAccessError extends Error {
+  constructor(message, status, code) {
+    super(message);
+    this.name = 'PathAccessError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const isInsideRoot = (filePath, root) => {
+  const relative = path.relative(root, filePath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+};
+
+// Whether a file another file points to (a map's tileset, a model's textures) is inside
+// one of the canonical `roots`. Missing files are checked by their path, opening them fails anyway
+export const isReadableInRoots = (filePath, roots) => {
+  let realPath;
+  try {
+    realPath = fs.realpathSync(filePath);
+  } catch (e) {
+    if (e.code !== 'ENOENT') return false;
+    realPath = path.resolve(filePath);
+  }
+  return roots.some(root => isInsideRoot(realPath, root));
+};
+
+// Restricts file access to the configured library roots. Paths are canonicalised
+// (`..` segments and symlinks resolved) before checking, so a symlink inside a
+// root that points outside of it is denied as well.
+export class PathSandbox {
+  constructor({ roots, configFile }) {
+    this.configFile = configFile;
+    this.roots = [];
+
+    for (const root of roots) {
+      try {
+        this.roots.push(fs.realpathSync(path.resolve(root)));
+      } catch (e) {
+        console.warn(`⚠️ Ignoring allowed root that doesn't exist: ${root}`);
+      }
+    }
+
+    console.log(`🔒 Allowed library roots: ${this.roots.length > 0 ? this.roots.join(', ') : '(none)'}`);
+  }
+
+  isAllowed(realPath) {
+    return this.roots.some(root => isInsideRoot(realPath, root));
+  }
+
+  canRead(filePath) {
+    return isReadableInRoots(filePath, this.roots);
+  }
+
+  // Returns the canonical path, or throws a PathAccessError (400, 403 or 404)
+  async resolve(requestedPath, { notFoundMessage = 'Path not found' } = {}) {
+    if (typeof requestedPath !== 'string' || !requestedPath) {
+      throw new PathAccessError('No path given', 400, 'PATH_MISSING');
+    }
+
+    const absolutePath = path.resolve(requestedPath);
+    let realPath;
+    try {
+      realPath = await fs.promises.realpath(absolutePath);
+    } catch (e) {
+      // Don't reveal whether paths outside the roots exist
+      if (!this.isAllowed(absolutePath)) throw this.denied(requestedPath);
+      throw new PathAccessError(notFoundMessage, 404, 'PATH_NOT_FOUND');
+    }
+
+    if (!this.isAllowed(realPath)) throw this.denied(requestedPath);
+    return realPath;
+  }
+
+  denied(requestedPath) {
+    return new PathAccessError(`Access denied: ${requestedPath} is outside the allowed library folders`, 403, 'PATH_NOT_ALLOWED');
+  }
+
+  // Sent along with 403 responses so the client can explain how to allow a folder
+  describe() {
+    return {
+      allowedRoots: this.roots,
+      configFile: this.configFile
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import sharp from 'sharp';
+
+// CPU rasterizer for 3D model thumbnails. It mirrors the thumbnail scene set up in
+// useModelLoader.loadModel (framing, camera, lights, background) so server
+// thumbnails look like the live WebGL ones, without needing a GPU.
+
+const BACKGROUND = [0x2a, 0x2a, 0x2a];
+
+// Render at a higher resolution and downscale for anti-aliasing
+const SUPERSAMPLE = 2;
+
+// The buffers grow with the square of the size, callers are expected to stay well below this
+const MAX_SIZE = 1024;
+
+const FOV = 50;
+const NEAR = 0.1;
+
+// Same light rig as the client thumbnails: ambient + key light + two fill lights
+const AMBIENT_INTENSITY = 0.6;
+const DIRECTIONAL_LIGHTS = [
+  { direction: [3, 3, 3], intensity: 1.2 },
+  { direction: [-3, 0, 2], intensity: 0.4 },
+  { direction: [0, -3, 2], intensity: 0.4 }
+].map(({ direction, intensity }) => {
+  const length = Math.hypot(...direction);
+  return { direction: direction.map(v => v / length), intensity };
+});
+
+const linearToSrgb = (c) => {
+  const clamped = Math.min(Math.max(c, 0), 1);
+  return clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * Math.pow(clamped, 1 / 2.4) - 0.055;
+};
+
+// Lookup table so texture sampling doesn't call Math.pow per pixel
+const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, i) => {
+  const c = i / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+const subtract = (a, b) => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a, b) => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const dot = (a, b) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const normalize = (v) => {
+  const length = Math.hypot(v[0], v[1], v[2]) || 1;
+  return [v[0] / length, v[1] / length, v[2] / length];
+};
+
+// Nearest-neighbour texture lookup with repeat wrapping, returns linear RGB
+const sampleTexture = (texture, u, v, flipY) => {
+  let x = u - Math.floor(u);
+  let y = v - Math.floor(v);
+  if (flipY) y = 1 - y;
+  const px = Math.min(texture.width - 1, Math.floor(x * texture.width));
+  const py = Math.min(texture.height - 1, Math.floor(y * texture.height));
+  const offset = (py * texture.width + px) * 4;
+  return [
+    SRGB_TO_LINEAR[texture.data[offset]],
+    SRGB_TO_LINEAR[texture.data[offset + 1]],
+    SRGB_TO_LINEAR[texture.data[offset + 2]]
+  ];
+};
+
+// Center and scale the model, then place the camera exactly like the client does
+const computeFraming = (meshes) => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+
+  for (const mesh of meshes) {
+    for (let i = 0; i < mesh.positions.length; i += 3) {
+      for (let axis = 0; axis < 3; axis++) {
+        const value = mesh.positions[i + axis];
+        if (value < min[axis]) min[axis] = value;
+        if (value > max[axis]) max[axis] = value;
+      }
+    }
+  }
+
+  const center = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  const maxDim = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]) || 1;
+  const scale = 3.0 / maxDim;
+
+  const boundingSphereRadius = maxDim * scale * Math.sqrt(3) / 2;
+  const cameraDistance = boundingSphereRadius / Math.sin((FOV * Math.PI / 180) / 2);
+  const paddedDistance = cameraDistance * 0.8;
+
+  return {
+    center,
+    scale,
+    eye: [paddedDistance * 0.8, paddedDistance * 0.4, paddedDistance * 0.6]
+  };
+};
+
+// Render meshes (see modelParsers.js) to a PNG buffer of `size` x `size` pixels.
+// `overrideTexture` replaces every mesh texture, like the colormap does on the client.
+export const renderModelThumbnail = async (meshes, { size, overrideTexture = null }) => {
+  if (meshes.length === 0) throw new Error('Model has no renderable geometry');
+  if (!Number.isInteger(size) || size < 1 || size > MAX_SIZE) throw new Error(`Can't render a ${size} pixel thumbnail`);
+
+  const width = size * SUPERSAMPLE;
+  const height = size * SUPERSAMPLE;
+  const { center, scale, eye } = computeFraming(meshes);
+
+  // Camera basis looking at the origin with +Y up
+  const forward = normalize(subtract([0, 0, 0], eye));
+  const right = normalize(cross(forward, [0, 1, 0]));
+  const up = cross(right, forward);
+  const focal = 1 / Math.tan((FOV * Math.PI / 180) / 2);
+
+  // Linear color per pixel, depth stores 1/z (0 = nothing drawn yet)
+  const color = new Float32Array(width * height * 3);
+  const depth = new Float32Array(width * height);
+  const covered = new Uint8Array(width * height);
+
+  for (const mesh of meshes) {
+    const texture = overrideTexture || mesh.texture;
+    const hasUvs = texture && mesh.uvs;
+    const baseColor = mesh.color;
+
+    // Transform vertices: center/scale the model, then into camera space and screen space
+    const vertexCount = mesh.positions.length / 3;
+    const world = new Float32Array(vertexCount * 3);
+    const screen = new Float32Array(vertexCount * 3);
+    for (let i = 0; i < vertexCount; i++) {
+      const wx = (mesh.positions[i * 3] - center[0]) * scale;
+      const wy = (mesh.positions[i * 3 + 1] - center[1]) * scale;
+      const wz = (mesh.positions[i * 3 + 2] - center[2]) * scale;
+      world[i * 3] = wx;
+      world[i * 3 + 1] = wy;
+      world[i * 3 + 2] = wz;
+
+      const rel = [wx - eye[0], wy - eye[1], wz - eye[2]];
+      const viewZ = dot(rel, forward);
+      const ndcX = (dot(rel, right) * focal) / viewZ;
+      const ndcY = (dot(rel, up) * focal) / viewZ;
+      screen[i * 3] = (ndcX * 0.5 + 0.5) * width;
+      screen[i * 3 + 1] = (0.5 - ndcY * 0.5) * height;
+      screen[i * 3 + 2] = viewZ;
+    }
+
+    for (let t = 0; t + 2 < mesh.indices.length; t += 3) {
+      const i0 = mesh.indices[t], i1 = mesh.indices[t + 1], i2 = mesh.indices[t + 2];
+      const z0 = screen[i0 * 3 + 2], z1 = screen[i1 * 3 + 2], z2 = screen[i2 * 3 + 2];
+      // The framing keeps the model in front of the camera, just drop anything behind it
+      if (z0 < NEAR || z1 < NEAR || z2 < NEAR) continue;
+
+      const x0 = screen[i0 * 3], y0 = screen[i0 * 3 + 1];
+      const x1 = screen[i1 * 3], y1 = screen[i1 * 3 + 1];
+      const x2 = screen[i2 * 3], y2 = screen[i2 * 3 + 1];
+
+      const area = (x1 - x0) * (y2 - y0) - (x2 - x0) * (y1 - y0);
+      if (Math.abs(area) < 1e-9) continue;
+
+      const p0 = [world[i0 * 3], world[i0 * 3 + 1], world[i0 * 3 + 2]];
+      const p1 = [world[i1 * 3], world[i1 * 3 + 1], world[i1 * 3 + 2]];
+      const p2 = [world[i2 * 3], world[i2 * 3 + 1], world[i2 * 3 + 2]];
+      const faceNormal = normalize(cross(subtract(p1, p0), subtract(p2, p0)));
+
+      // Materials are double sided: flip normals facing away from the camera
+      const faceCenter = [(p0[0] + p1[0] + p2[0]) / 3, (p0[1] + p1[1] + p2[1]) / 3, (p0[2] + p1[2] + p2[2]) / 3];
+      const backFacing = dot(faceNormal, subtract(eye, faceCenter)) < 0;
+
+      const minX = Math.max(0, Math.floor(Math.min(x0, x1, x2)));
+      const maxX = Math.min(width - 1, Math.ceil(Math.max(x0, x1, x2)));
+      const minY = Math.max(0, Math.floor(Math.min(y0, y1, y2)));
+      const maxY = Math.min(height - 1, Math.ceil(Math.max(y0, y1, y2)));
+
+      const w0 = 1 / z0, w1 = 1 / z1, w2 = 1 / z2;
+
+      for (let py = minY; py <= maxY; py++) {
+        for (let px = minX; px <= maxX; px++) {
+          const sx = px + 0.5, sy = py + 0.5;
+          let b0 = ((x1 - sx) * (y2 - sy) - (x2 - sx) * (y1 - sy)) / area;
+          let b1 = ((x2 - sx) * (y0 - sy) - (x0 - sx) * (y2 - sy)) / area;
+          let b2 = 1 - b0 - b1;
+          if (b0 < 0 || b1 < 0 || b2 < 0) continue;
+
+          // Perspective-correct barycentrics (1/z is linear in screen space)
+          const invZ = b0 * w0 + b1 * w1 + b2 * w2;
+          const pixel = py * width + px;
+          if (invZ <= depth[pixel]) continue;
+          depth[pixel] = invZ;
+
+          b0 = (b0 * w0) / invZ;
+          b1 = (b1 * w1) / invZ;
+          b2 = 1 - b0 - b1;
+
+          let normal = faceNormal;
+          if (mesh.normals) {
+            const n = [
+              b0 * mesh.normals[i0 * 3] + b1 * mesh.normals[i1 * 3] + b2 * mesh.normals[i2 * 3],
+              b0 * mesh.normals[i0 * 3 + 1] + b1 * mesh.normals[i1 * 3 + 1] + b2 * mesh.normals[i2 * 3 + 1],
+              b0 * mesh.normals[i0 * 3 + 2] + b1 * mesh.normals[i1 * 3 + 2] + b2 * mesh.normals[i2 * 3 + 2]
+            ];
+            if (n[0] !== 0 || n[1] !== 0 || n[2] !== 0) normal = normalize(n);
+          }
+          if (backFacing) normal = [-normal[0], -normal[1], -normal[2]];
+
+          let albedo = baseColor;
+          if (hasUvs) {
+            const u = b0 * mesh.uvs[i0 * 2] + b1 * mesh.uvs[i1 * 2] + b2 * mesh.uvs[i2 * 2];
+            const v = b0 * mesh.uvs[i0 * 2 + 1] + b1 * mesh.uvs[i1 * 2 + 1] + b2 * mesh.uvs[i2 * 2 + 1];
+            const texel = sampleTexture(texture, u, v, mesh.flipY);
+            albedo = [texel[0] * baseColor[0], texel[1] * baseColor[1], texel[2] * baseColor[2]];
+          }
+
+          // Lambert shading, three.js style (BRDF = albedo / PI, no legacy light scaling)
+          let irradiance = AMBIENT_INTENSITY;
+          for (const light of DIRECTIONAL_LIGHTS) {
+            irradiance += Math.max(0, dot(normal, light.direction)) * light.intensity;
+          }
+
+          color[pixel * 3] = albedo[0] * irradiance / Math.PI;
+          color[pixel * 3 + 1] = albedo[1] * irradiance / Math.PI;
+          color[pixel * 3 + 2] = albedo[2] * irradiance / Math.PI;
+          covered[pixel] = 1;
+        }
+      }
+    }
+  }
+
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    for (let c = 0; c < 3; c++) {
+      pixels[i * 3 + c] = covered[i]
+        ? Math.round(linearToSrgb(color[i * 3 + c]) * 255)
+        : BACKGROUND[c];
+    }
+  }
+
+  return sharp(pixels, { raw: { width, height, channels: 3 } })
+    .resize(size, size)
+    .png()
+    .toBuffer();
+};
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import path from 'path';
+import { hashFile } from './duplicateFinder.js';
+
+// Tags are short labels like "medieval" or "used-in-game-A"
+const MAX_TAG_LENGTH = 64;
+
+export class TagError extends Error {}
+
+// Trim and collapse whitespace, drop empty tags and case-insensitive repeats
+export const normalizeTags = (tags) => {
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    throw new TagError('Tags must be an array of strings');
+  }
+
+  const seen = new Set();
+  const normalized = [];
+  for (const tag of tags) {
+    const name = tag.trim().replace(/\s+/g, ' ');
+    if (!name || seen.has(name.toLowerCase())) continue;
+    if (name.length > MAX_TAG_LENGTH) {
+      throw new TagError(`Tag "${name.slice(0, 20)}..." is longer than ${MAX_TAG_LENGTH} characters`);
+    }
+    seen.add(name.toLowerCase());
+    normalized.push(name);
+  }
+  return normalized;
+};
+
+const pathExists = (filePath) => fs.promises.access(filePath).then(() => true, () => false);
+
+// Tags of files and folders, stored by path. Tagged files also remember their content
+// hash: when a listed file has no tags but a tagged file of the same size has disappeared,
+// the hashes are compared and the tags follow the file to its new name.
+export class TagStore {
+  constructor({ tagsFile }) {
+    this.tagsFile = tagsFile;
+    this.entries = new Map();
+    // Size -> paths of tagged files with a hash, to find renamed candidates quickly
+    this.bySize = new Map();
+    // Path -> { mtime, hash } of files that were hashed while looking for renames
+    this.hashMemo = new Map();
+    this.writing = Promise.resolve();
+  }
+
+  load() {
+    try {
+      if (!fs.existsSync(this.tagsFile)) return;
+
+      const data = JSON.parse(fs.readFileSync(this.tagsFile, 'utf8'));
+      for (const entry of data.entries || []) {
+        this.entries.set(entry.path, entry);
+        this.index(entry);
+      }
+      console.log(`🏷️ Loaded tags for ${this.entries.size} files and folders`);
+    } catch (e) {
+      console.error('Failed to load tags:', e.message);
+    }
+  }
+
+  // Writes are chained so two quick edits never rename over each other
+  save() {
+    this.writing = this.writing.then(async () => {
+      const data = { version: 1, entries: Array.from(this.entries.values()) };
+      await fs.promises.mkdir(path.dirname(this.tagsFile), { recursive: true });
+      const tempFile = `${this.tagsFile}.tmp`;
+      await fs.promises.writeFile(tempFile, JSON.stringify(data));
+      await fs.promises.rename(tempFile, this.tagsFile);
+    }).catch(e => console.error('Failed to save tags:', e.message));
+    return this.writing;
+  }
+
+  index(entry) {
+    if (!entry.hash) return;
+    if (!this.bySize.has(entry.size)) this.bySize.set(entry.size, new Set());
+    this.bySize.get(entry.size).add(entry.path);
+  }
+
+  unindex(entry) {
+    if (!entry?.hash) return;
+    this.bySize.get(entry.size)?.delete(entry.path);
+  }
+
+  getTags(itemPath) {
+    return this.entries.get(itemPath)?.tags ?? [];
+  }
+
+  async getHash(filePath, mtime) {
+    const memo = this.hashMemo.get(filePath);
+    if (memo && memo.mtime === mtime) return memo.hash;
+
+    const hash = await hashFile(filePath);
+    this.hashMemo.set(filePath, { mtime, hash });
+    return hash;
+  }
+
+  // Tags of a listed file or folder, picking up the tags of a renamed or moved file
+  async getTagsFor(itemPath, { isDirectory, size, mtime }) {
+    const entry = this.entries.get(itemPath);
+    if (entry || isDirectory) return entry?.tags ?? [];
+
+    const candidates = [...(this.bySize.get(size) || [])].filter(candidate => candidate !== itemPath);
+    if (candidates.length === 0) return [];
+
+    const missing = [];
+    for (const candidate of candidates) {
+      if (!(await pathExists(candidate))) missing.push(candidate);
+    }
+    if (missing.length === 0) return [];
+
+    let hash;
+    try {
+      hash = await this.getHash(itemPath, mtime);
+    } catch (e) {
+      return [];
+    }
+
+    const previousPath = missing.find(candidate => this.entries.get(candidate).hash === hash);
+    if (!previousPath) return [];
+
+    this.move(previousPath, itemPath);
+    await this.save();
+    console.log(`🏷️ Tags followed ${previousPath} to ${itemPath}`);
+    return this.getTags(itemPath);
+  }
+
+  // Change the tags of one file or folder; `info` is null for files inside archives,
+  // which are only tagged by path. Call save() after a batch of updates.
+  async update(itemPath, { tags, add = [], remove = [] }, info) {
+    const removing = new Set(remove.map(tag => tag.toLowerCase()));
+    const updated = normalizeTags([...(tags ?? this.getTags(itemPath)), ...add])
+      .filter(tag => !removing.has(tag.toLowerCase()))
+      .map(tag => this.getSpelling(tag));
+
+    this.unindex(this.entries.get(itemPath));
+    if (updated.length === 0) {
+      this.entries.delete(itemPath);
+      return [];
+    }
+
+    const entry = { path: itemPath, tags: updated, isDirectory: info?.isDirectory ?? false };
+    if (info && !info.isDirectory) {
+      entry.size = info.size;
+      entry.hash = await this.getHash(itemPath, info.mtime);
+    }
+    this.entries.set(itemPath, entry);
+    this.index(entry);
+    return updated;
+  }
+
+  // Keep the tags of a file or folder (and everything below it) when it's moved
+  move(fromPath, toPath) {
+    for (const [entryPath, entry] of [...this.entries]) {
+      const relative = path.relative(fromPath, entryPath);
+      if (relative !== '' && (relative.startsWith('..') || path.isAbsolute(relative))) continue;
+
+      const movedPath = relative === '' ? toPath : path.join(toPath, relative);
+      this.unindex(entry);
+      this.entries.delete(entryPath);
+      const moved = { ...entry, path: movedPath };
+      this.entries.set(movedPath, moved);
+      this.index(moved);
+    }
+  }
+
+  // Forget the tags of a deleted file or folder and everything below it
+  remove(itemPath) {
+    for (const [entryPath, entry] of [...this.entries]) {
+      const relative = path.relative(itemPath, entryPath);
+      if (relative !== '' && (relative.startsWith('..') || path.isAbsolute(relative))) continue;
+
+      this.unindex(entry);
+      this.entries.delete(entryPath);
+    }
+  }
+
+  // Reuse the spelling of an existing tag, so "ui" and "UI" stay one tag
+  getSpelling(tag) {
+    const lower = tag.toLowerCase();
+    for (const entry of this.entries.values()) {
+      const existing = entry.tags.find(candidate => candidate.toLowerCase() === lower);
+      if (existing) return existing;
+    }
+    return tag;
+  }
+
+  // Every tag with the number of files and folders using it, most used first
+  getAllTags() {
+    const counts = new Map();
+    for (const entry of this.entries.values()) {
+      for (const tag of entry.tags) counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+    return [...counts.entries()]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  }
+
+  // Whether a path carries every one of the given tags
+  hasTags(itemPath, tags) {
+    const itemTags = this.getTags(itemPath).map(tag => tag.toLowerCase());
+    return tags.every(tag => itemTags.includes(tag.toLowerCase()));
+  }
+}
@@ -0,0 +1,218 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+const MANIFEST_FILE = 'manifest.json';
+
+// Wait a little before rewriting the manifest so bursts of thumbnails only write once
+const SAVE_DELAY = 1000;
+
+// When over budget, evict down to this fraction of it so we don't evict on every write
+const EVICT_TARGET = 0.9;
+
+const hashKey = (key) => crypto.createHash('sha1').update(key).digest('hex');
+
+// Disk-backed thumbnail cache with a size budget and least-recently-used eviction.
+// Entries can list dependencies (paths + mtimes) and are dropped as soon as one
+// of them changes, which is how folder previews get invalidated.
+export class ThumbnailCache {
+  constructor({ cacheDir, maxBytes }) {
+    this.cacheDir = cacheDir;
+    this.maxBytes = maxBytes;
+    this.entries = new Map();
+    this.totalBytes = 0;
+    this.hits = 0;
+    this.misses = 0;
+    this.saveTimer = null;
+
+    this.load();
+  }
+
+  load() {
+    fs.mkdirSync(this.cacheDir, { recursive: true });
+
+    try {
+      const manifestPath = path.join(this.cacheDir, MANIFEST_FILE);
+      if (fs.existsSync(manifestPath)) {
+        const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+        for (const entry of manifest.entries || []) {
+          if (fs.existsSync(path.join(this.cacheDir, entry.file))) {
+            this.entries.set(entry.key, entry);
+            this.totalBytes += entry.bytes;
+          }
+        }
+      }
+    } catch (e) {
+      console.error('Failed to read thumbnail cache manifest, starting empty:', e.message);
+      this.entries.clear();
+      this.totalBytes = 0;
+    }
+
+    // Remove files the manifest doesn't know about (e.g. after a crash)
+    const knownFiles = new Set(Array.from(this.entries.values()).map(entry => entry.file));
+    for (const file of fs.readdirSync(this.cacheDir)) {
+      if (file !== MANIFEST_FILE && !knownFiles.has(file)) {
+        fs.rmSync(path.join(this.cacheDir, file), { force: true });
+      }
+    }
+
+    console.log(`🗄️ Thumbnail cache: ${this.entries.size} entries, ${(this.totalBytes / 1024 / 1024).toFixed(1)} MB in ${this.cacheDir}`);
+  }
+
+  scheduleSave() {
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(async () => {
+      this.saveTimer = null;
+      try {
+        const manifestPath = path.join(this.cacheDir, MANIFEST_FILE);
+        const tempPath = `${manifestPath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify({
+          version: 1,
+          entries: Array.from(this.entries.values())
+        }));
+        await fs.promises.rename(tempPath, manifestPath);
+      } catch (e) {
+        console.error('Failed to save thumbnail cache manifest:', e.message);
+      }
+    }, SAVE_DELAY);
+  }
+
+  // Check that none of the files the entry was generated from have changed
+  isFresh(entry) {
+    for (const dependency of entry.dependencies || []) {
+      try {
+        if (fs.statSync(dependency.path).mtimeMs !== dependency.mtime) return false;
+      } catch (e) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  async get(key) {
+    const entry = this.entries.get(key);
+    if (!entry || !this.isFresh(entry)) {
+      if (entry) this.remove(key);
+      this.misses++;
+      return null;
+    }
+
+    try {
+      const buffer = await fs.promises.readFile(path.join(this.cacheDir, entry.file));
+      entry.lastAccess = Date.now();
+      this.hits++;
+      this.scheduleSave();
+      return { buffer, contentType: entry.contentType };
+    } catch (e) {
+      // File vanished from under us
+      this.remove(key);
+      this.misses++;
+      return null;
+    }
+  }
+
+  // `sourcePath` lets entries be purged per file or folder,
+  // `dependencies` are paths whose mtimes must stay the same for the entry to be valid
+  async set(key, buffer, { contentType = 'image/jpeg', sourcePath = null, dependencies = [] } = {}) {
+    // Every write gets its own file, removing another entry of the key never deletes this one
+    const file = `${hashKey(key)}-${crypto.randomBytes(4).toString('hex')}.bin`;
+    await fs.promises.writeFile(path.join(this.cacheDir, file), buffer);
+
+    const resolvedDependencies = [];
+    for (const dependencyPath of dependencies) {
+      try {
+        resolvedDependencies.push({ path: dependencyPath, mtime: fs.statSync(dependencyPath).mtimeMs });
+      } catch (e) {
+        // A dependency that can't be stat-ed can't be validated, don't cache
+        this.remove(key);
+        await fs.promises.rm(path.join(this.cacheDir, file), { force: true });
+        return;
+      }
+    }
+
+    // Replaces the previous entry, or one a concurrent request stored while this one was writing
+    this.remove(key);
+    this.entries.set(key, {
+      key,
+      file,
+      bytes: buffer.length,
+      contentType,
+      sourcePath,
+      dependencies: resolvedDependencies,
+      created: Date.now(),
+      lastAccess: Date.now()
+    });
+    this.totalBytes += buffer.length;
+
+    this.evict();
+    this.scheduleSave();
+  }
+
+  // Entry details without reading the file or counting a hit (null when missing or stale)
+  peek(key) {
+    const entry = this.entries.get(key);
+    return entry && this.isFresh(entry) ? entry : null;
+  }
+
+  remove(key) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+    fs.rm(path.join(this.cacheDir, entry.file), { force: true }, () => {});
+    this.scheduleSave();
+  }
+
+  evict() {
+    if (this.totalBytes <= this.maxBytes) return;
+
+    const target = this.maxBytes * EVICT_TARGET;
+    const byLastAccess = Array.from(this.entries.values()).sort((a, b) => a.lastAccess - b.lastAccess);
+    let evicted = 0;
+
+    for (const entry of byLastAccess) {
+      if (this.totalBytes <= target) break;
+      this.remove(entry.key);
+      evicted++;
+    }
+
+    console.log(`🧹 Evicted ${evicted} thumbnails to stay within the cache budget`);
+  }
+
+  // Drop the entries `predicate` picks, e.g. everything generated from a file that was replaced
+  removeWhere(predicate) {
+    for (const entry of Array.from(this.entries.values())) {
+      if (predicate(entry)) this.remove(entry.key);
+    }
+  }
+
+  // Purge everything, or only entries generated from a file or folder (and anything below it)
+  purge(targetPath = null) {
+    let purged = 0;
+
+    for (const entry of Array.from(this.entries.values())) {
+      if (targetPath) {
+        if (!entry.sourcePath) continue;
+        const relative = path.relative(targetPath, entry.sourcePath);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) continue;
+      }
+      this.remove(entry.key);
+      purged++;
+    }
+
+    return purged;
+  }
+
+  getStats() {
+    return {
+      cacheDir: this.cacheDir,
+      entries: this.entries.size,
+      totalBytes: this.totalBytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses
+    };
+  }
+}
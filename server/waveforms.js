@@ -0,0 +1,122 @@
+import sharp from 'sharp';
+import { openAudio } from './audioDecoders.js';
+
+// Peaks stored per file; smaller waveforms are merged from these
+export const WAVEFORM_PEAKS = 1024;
+
+// Decoding is CPU bound, so it gives way to other requests every few blocks
+const YIELD_EVERY = 8;
+
+const yieldToEventLoop = () => new Promise(resolve => setImmediate(resolve));
+
+// One file is decoded at a time; a folder of songs would otherwise start them all at once
+let decodeQueue = Promise.resolve();
+const enqueue = (task) => {
+  const run = decodeQueue.then(task);
+  decodeQueue = run.catch(() => {});
+  return run;
+};
+
+// Merges min/max pairs (flattened) into `count` pairs
+const mergePeaks = (peaks, count) => {
+  const pairs = peaks.length / 2;
+  if (pairs <= count) return peaks;
+  const merged = [];
+  for (let i = 0; i < count; i++) {
+    let min = 0;
+    let max = 0;
+    for (let j = Math.floor((i * pairs) / count); j < Math.floor(((i + 1) * pairs) / count); j++) {
+      min = Math.min(min, peaks[j * 2]);
+      max = Math.max(max, peaks[j * 2 + 1]);
+    }
+    merged.push(min, max);
+  }
+  return merged;
+};
+
+// Decodes a whole audio file into the lowest and highest sample (of any channel) in each of
+// WAVEFORM_PEAKS equal slices, as [min0, max0, min1, max1, ...]. The length isn't known
+// before decoding (VBR files), so slices start one sample long and double whenever
+// twice as many as needed have been filled. Throws an AudioError for formats that
+// can't be decoded
+export const computeWaveform = (buffer) => enqueue(async () => {
+  const audio = await openAudio(buffer);
+  const mins = new Float32Array(WAVEFORM_PEAKS * 2);
+  const maxes = new Float32Array(WAVEFORM_PEAKS * 2);
+  let sliceLength = 1;
+  let slice = 0;
+  let inSlice = 0;
+  let samples = 0;
+  let blocks = 0;
+
+  for await (const block of audio.blocks()) {
+    for (let i = 0; i < block[0].length; i++) {
+      let min = block[0][i];
+      let max = min;
+      for (let channel = 1; channel < block.length; channel++) {
+        min = Math.min(min, block[channel][i]);
+        max = Math.max(max, block[channel][i]);
+      }
+      if (inSlice === 0) {
+        mins[slice] = min;
+        maxes[slice] = max;
+      } else {
+        mins[slice] = Math.min(mins[slice], min);
+        maxes[slice] = Math.max(maxes[slice], max);
+      }
+
+      if (++inSlice === sliceLength) {
+        inSlice = 0;
+        if (++slice === mins.length) {
+          for (let j = 0; j < WAVEFORM_PEAKS; j++) {
+            mins[j] = Math.min(mins[j * 2], mins[j * 2 + 1]);
+            maxes[j] = Math.max(maxes[j * 2], maxes[j * 2 + 1]);
+          }
+          slice = WAVEFORM_PEAKS;
+          sliceLength *= 2;
+        }
+      }
+    }
+    samples += block[0].length;
+    if (++blocks % YIELD_EVERY === 0) await yieldToEventLoop();
+  }
+
+  const filled = slice + (inSlice > 0 ? 1 : 0);
+  const peaks = [];
+  for (let i = 0; i < filled; i++) {
+    peaks.push(Math.round(Math.max(-1, mins[i]) * 1000) / 1000, Math.round(Math.min(1, maxes[i]) * 1000) / 1000);
+  }
+  return {
+    codec: audio.codec,
+    sampleRate: audio.sampleRate,
+    channels: audio.channels,
+    duration: samples / audio.sampleRate,
+    peaks: mergePeaks(peaks, WAVEFORM_PEAKS)
+  };
+});
+
+// Fewer peaks for small displays
+export const resizeWaveform = (waveform, count) => ({ ...waveform, peaks: mergePeaks(waveform.peaks, count) });
+
+// One bar per pixel column, mirrored around the middle, on a transparent background
+export const renderWaveform = (waveform, { width, height, color }) => {
+  const peaks = mergePeaks(waveform.peaks, width);
+  const pairs = peaks.length / 2;
+  const middle = height / 2;
+  const bars = [];
+  for (let x = 0; x < width; x++) {
+    const i = Math.min(pairs - 1, Math.floor((x * pairs) / width));
+    if (i < 0) break;
+    // Silence still gets a hairline so the tile doesn't look empty
+    const top = middle - Math.max(0.5, peaks[i * 2 + 1] * middle);
+    const bottom = middle - Math.min(-0.5, peaks[i * 2] * middle);
+    bars.push(`M${x + 0.5} ${top.toFixed(1)}V${bottom.toFixed(1)}`);
+  }
+
+  const svg = Buffer.from(`
+    <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+      <path d="${bars.join('')}" stroke="${color}" stroke-width="1" shape-rendering="crispEdges"/>
+    </svg>
+  `);
+  return sharp(svg).png().toBuffer();
+};
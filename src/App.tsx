@@ -3,21 +3,59 @@ import { useFileSystem } from './hooks/useFileSystem';
 import { Breadcrumb } from './components/Breadcrumb';
 import { FileGrid } from './components/FileGrid';
 import { FavoritePaths } from './components/FavoritePaths';
-import { Loader2, AlertCircle, Folder } from 'lucide-react';
+import { FileTypeSettings } from './components/FileTypeSettings';
+import { DuplicateFinder } from './components/DuplicateFinder';
+import { TrashPanel } from './components/TrashPanel';
+import { useFileOperations } from './hooks/useFileOperations';
+import { Loader2, AlertCircle, Folder, Settings, Copy, Trash2, Undo2 } from 'lucide-react';
 
 function App() {
   const { 
     currentPath, 
+    archivePath,
     items, 
     loading, 
+    loadingMore,
     error, 
     browseDirectory, 
+    applyChanges,
+    searchAssets,
     getThumbnailUrl,
     getFolderPreviewUrl,
+    getWaveformUrl,
     getFileUrl 
   } = useFileSystem();
 
   const [hasInitialized, setHasInitialized] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const { undo, undoLast } = useFileOperations();
+  const [undoError, setUndoError] = useState<string | null>(null);
+
+  const undoLastOperation = async () => {
+    setUndoError(null);
+    try {
+      const { changes } = await undoLast();
+      applyChanges(changes);
+    } catch (err) {
+      setUndoError(err instanceof Error ? err.message : 'Failed to undo');
+    }
+  };
+
+  // Ctrl+Z / Cmd+Z undoes the last file operation, except while typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 'z' && undo.length > 0) {
+        e.preventDefault();
+        undoLastOperation();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
 
   // Wrap browseDirectory to update the URL
   const browseDirectoryAndUpdateUrl = (path: string) => {
@@ -76,6 +114,42 @@ function App() {
               <h1 className="text-2xl font-bold text-white">Total Asset Browser</h1>
               <p className="text-gray-400 text-sm">Browse and preview game assets from your system folders</p>
             </div>
+            <div className="flex items-center space-x-2">
+              {undoError && <span className="text-xs text-red-400 max-w-xs truncate" title={undoError}>{undoError}</span>}
+              <button
+                onClick={undoLastOperation}
+                disabled={undo.length === 0}
+                className="flex items-center space-x-1 px-3 py-1 text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-400 rounded-lg transition-colors text-sm"
+                title={undo.length > 0 ? `Undo: ${undo[0].description} (Ctrl+Z)` : 'Nothing to undo'}
+              >
+                <Undo2 className="w-4 h-4" />
+                <span>Undo</span>
+              </button>
+              <button
+                onClick={() => setShowTrash(true)}
+                className="flex items-center space-x-1 px-3 py-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors text-sm"
+                title="Deleted files"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Trash</span>
+              </button>
+              <button
+                onClick={() => setShowDuplicates(true)}
+                className="flex items-center space-x-1 px-3 py-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors text-sm"
+                title="Find duplicate files"
+              >
+                <Copy className="w-4 h-4" />
+                <span>Duplicates</span>
+              </button>
+              <button
+                onClick={() => setShowSettings(true)}
+                className="flex items-center space-x-1 px-3 py-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors text-sm"
+                title="File type settings"
+              >
+                <Settings className="w-4 h-4" />
+                <span>File Types</span>
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -98,7 +172,7 @@ function App() {
 
         {/* Breadcrumb */}
         {currentPath && (
-          <Breadcrumb currentPath={currentPath} onNavigate={browseDirectoryAndUpdateUrl} />
+          <Breadcrumb currentPath={currentPath} archivePath={archivePath} onNavigate={browseDirectoryAndUpdateUrl} />
         )}
 
         {/* Loading State */}
@@ -114,8 +188,8 @@ function App() {
         {/* Error State */}
         {error && (
           <div className="flex items-center justify-center h-64">
-            <div className="flex items-center space-x-3 text-red-400 bg-red-500/10 px-6 py-4 rounded-lg border border-red-500/20">
-              <AlertCircle className="w-6 h-6" />
+            <div className="flex items-center space-x-3 text-red-400 bg-red-500/10 px-6 py-4 rounded-lg border border-red-500/20 max-w-3xl">
+              <AlertCircle className="w-6 h-6 flex-shrink-0" />
               <span>{error}</span>
             </div>
           </div>
@@ -127,19 +201,50 @@ function App() {
             {/* Stats */}
             <div className="mb-6 text-sm text-gray-400">
               {items.length} items • {items.filter(item => item.isDirectory).length} folders • {items.filter(item => !item.isDirectory).length} files
+              {loadingMore && (
+                <span className="inline-flex items-center ml-3 text-indigo-400">
+                  <Loader2 className="w-3 h-3 animate-spin mr-1" />
+                  Loading more...
+                </span>
+              )}
             </div>
 
             <FileGrid
               items={items}
               onNavigate={browseDirectoryAndUpdateUrl}
+              searchAssets={searchAssets}
               getThumbnailUrl={getThumbnailUrl}
               getFolderPreviewUrl={getFolderPreviewUrl}
+              getWaveformUrl={getWaveformUrl}
               getFileUrl={getFileUrl}
               currentPath={currentPath}
+              onFileChanges={applyChanges}
+              canEditFiles={!archivePath}
             />
           </>
         )}
       </main>
+
+      {showSettings && (
+        <FileTypeSettings
+          onClose={() => setShowSettings(false)}
+          // Categories and hidden files are decided by the server, so list the folder again
+          onSaved={() => currentPath && browseDirectory(currentPath)}
+        />
+      )}
+
+      {showTrash && (
+        <TrashPanel onClose={() => setShowTrash(false)} onFileChanges={applyChanges} />
+      )}
+
+      {showDuplicates && (
+        <DuplicateFinder
+          // Inside an archive, start from the folder that holds it
+          currentPath={archivePath ? archivePath.replace(/[/\\][^/\\]*$/, '') : currentPath}
+          onClose={() => setShowDuplicates(false)}
+          onNavigate={browseDirectoryAndUpdateUrl}
+        />
+      )}
     </div>
   );
 }
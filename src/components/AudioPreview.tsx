@@ -0,0 +1,534 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertCircle, Loader2, Maximize, Pause, Play, Repeat, Save, Square, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { DirectoryChangeEvent } from '../types';
+import { useFileOperations } from '../hooks/useFileOperations';
+
+interface AudioPreviewProps {
+  filePath: string;
+  getFileUrl: (path: string) => string;
+  // Regions can only be saved when this is set (not for files inside archives)
+  onFileChanges?: (changes: DirectoryChangeEvent[]) => void;
+  // For formats the browser can't decode (MIDI and tracker music are rendered instead);
+  // the signal aborts when the file changes
+  decode?: (data: ArrayBuffer, context: AudioContext, signal: AbortSignal) => Promise<AudioBuffer>;
+  // Called with the playback position on every frame while playing
+  onTimeUpdate?: (time: number) => void;
+}
+
+interface Region {
+  start: number;
+  end: number;
+}
+
+interface Peaks {
+  mins: Float32Array;
+  maxes: Float32Array;
+}
+
+// Samples per precomputed peak, used when a pixel covers more samples than this
+const PEAK_BLOCK = 256;
+
+// Bigger files are only played, decoding them would take too much memory
+const MAX_DECODE_SIZE = 150 * 1024 * 1024;
+
+// Drags shorter than this are clicks (seek), and region edges can be grabbed this close
+const DRAG_THRESHOLD = 4;
+
+const TICK_STEPS = [0.001, 0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+// 1:02.250
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(3).padStart(6, '0')}`;
+
+// Lowest and highest sample (of any channel) of every PEAK_BLOCK samples
+const computePeaks = (buffer: AudioBuffer): Peaks => {
+  const count = Math.ceil(buffer.length / PEAK_BLOCK);
+  const mins = new Float32Array(count).fill(1);
+  const maxes = new Float32Array(count).fill(-1);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      const block = Math.floor(i / PEAK_BLOCK);
+      if (data[i] < mins[block]) mins[block] = data[i];
+      if (data[i] > maxes[block]) maxes[block] = data[i];
+    }
+  }
+  return { mins, maxes };
+};
+
+// Waveform with a playhead: click to seek, drag to mark a region (or move its edges),
+// scroll to zoom around the cursor and shift+scroll to pan. Looping plays the region
+// through Web Audio, so there is no gap at the loop point like with <audio loop>
+export const AudioPreview: React.FC<AudioPreviewProps> = ({ filePath, getFileUrl, onFileChanges, decode, onTimeUpdate }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const timeRef = useRef<HTMLSpanElement>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const bufferRef = useRef<AudioBuffer | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // The position is worked out from the context's clock and where playback started
+  const playbackRef = useRef<{ startedAt: number; offset: number; loop: Region | null }>({ startedAt: 0, offset: 0, loop: null });
+  const dragRef = useRef<{ mode: 'new' | 'start' | 'end'; x: number; time: number; moved: boolean } | null>(null);
+  const { exportAudioRegion } = useFileOperations();
+
+  const [audio, setAudio] = useState<{ buffer: AudioBuffer; peaks: Peaks } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState({ start: 0, duration: 1 });
+  const [playing, setPlaying] = useState(false);
+  const [looping, setLooping] = useState(false);
+  const [region, setRegion] = useState<Region | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const duration = audio?.buffer.duration ?? 0;
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
+
+  const getPosition = useCallback(() => {
+    const context = contextRef.current;
+    const { startedAt, offset, loop } = playbackRef.current;
+    if (!sourceRef.current || !context) return offset;
+    let time = offset + context.currentTime - startedAt;
+    if (loop && time >= loop.end) time = loop.start + ((time - loop.start) % (loop.end - loop.start));
+    return Math.min(time, bufferRef.current?.duration ?? 0);
+  }, []);
+
+  const stopSource = useCallback(() => {
+    const source = sourceRef.current;
+    if (!source) return;
+    sourceRef.current = null;
+    source.onended = null;
+    source.stop();
+  }, []);
+
+  const startPlayback = useCallback((at: number, loop: Region | null) => {
+    const buffer = bufferRef.current;
+    if (!buffer) return;
+    const context = contextRef.current ?? (contextRef.current = new AudioContext());
+    stopSource();
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    let offset = at >= buffer.duration ? 0 : at;
+    if (loop) {
+      source.loop = true;
+      source.loopStart = loop.start;
+      source.loopEnd = loop.end;
+      if (offset < loop.start || offset >= loop.end) offset = loop.start;
+    }
+    source.onended = () => {
+      sourceRef.current = null;
+      playbackRef.current = { startedAt: 0, offset: 0, loop: null };
+      setPlaying(false);
+    };
+
+    source.start(0, offset);
+    sourceRef.current = source;
+    playbackRef.current = { startedAt: context.currentTime, offset, loop };
+    setPlaying(true);
+    context.resume().catch(() => {});
+  }, [stopSource]);
+
+  const pause = () => {
+    const at = getPosition();
+    stopSource();
+    playbackRef.current = { startedAt: 0, offset: at, loop: null };
+    setPlaying(false);
+  };
+
+  const stop = () => {
+    stopSource();
+    playbackRef.current = { startedAt: 0, offset: region?.start ?? 0, loop: null };
+    setPlaying(false);
+  };
+
+  const togglePlay = () => {
+    if (playing) pause();
+    else startPlayback(getPosition(), looping ? region : null);
+  };
+
+  const seek = (time: number) => {
+    if (sourceRef.current) startPlayback(time, looping ? region : null);
+    else playbackRef.current = { startedAt: 0, offset: time, loop: null };
+  };
+
+  // Playback restarts from the same spot to pick up a changed loop
+  const restartWithLoop = (loop: Region | null) => {
+    if (sourceRef.current) startPlayback(getPosition(), loop);
+  };
+
+  const toggleLoop = () => {
+    setLooping(!looping);
+    restartWithLoop(!looping ? region : null);
+  };
+
+  const clearRegion = () => {
+    setRegion(null);
+    setSaveMessage(null);
+    if (looping) restartWithLoop(null);
+  };
+
+  // Decode the whole file; the context is only needed for decoding until playback starts
+  useEffect(() => {
+    const controller = new AbortController();
+    setAudio(null);
+    setError(null);
+    setRegion(null);
+    setSaveMessage(null);
+    setPlaying(false);
+    bufferRef.current = null;
+    playbackRef.current = { startedAt: 0, offset: 0, loop: null };
+
+    (async () => {
+      try {
+        const response = await fetch(getFileUrl(filePath), { signal: controller.signal });
+        if (!response.ok) throw new Error('Failed to load the audio file');
+        if (Number(response.headers.get('Content-Length')) > MAX_DECODE_SIZE) {
+          throw new Error('The file is too big for the waveform view');
+        }
+        const data = await response.arrayBuffer();
+        const context = contextRef.current ?? (contextRef.current = new AudioContext());
+        const buffer = decode
+          ? await decode(data, context, controller.signal)
+          : await context.decodeAudioData(data).catch(() => {
+            throw new Error('The browser can\'t decode this file for the waveform view');
+          });
+        if (controller.signal.aborted) return;
+        bufferRef.current = buffer;
+        setAudio({ buffer, peaks: computePeaks(buffer) });
+        setView({ start: 0, duration: buffer.duration });
+        // Auto-plays when opened, if the browser allows it
+        startPlayback(0, null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Failed to load the audio file');
+      }
+    })();
+
+    return () => {
+      controller.abort();
+      stopSource();
+    };
+  }, [filePath, getFileUrl, decode, startPlayback, stopSource]);
+
+  useEffect(() => () => {
+    contextRef.current?.close();
+    contextRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setCanvasSize({ width: Math.floor(entry.contentRect.width), height: Math.floor(entry.contentRect.height) });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Min/max of the samples under each pixel column, from the peaks when zoomed out
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !audio) return;
+    const { width, height } = canvas;
+    const { buffer, peaks } = audio;
+    const middle = height / 2;
+    context.clearRect(0, 0, width, height);
+
+    const samplesPerPixel = (view.duration * buffer.sampleRate) / width;
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+    context.fillStyle = '#34d399';
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor((view.start + (x / width) * view.duration) * buffer.sampleRate);
+      const to = Math.min(buffer.length, Math.max(from + 1, Math.floor(from + samplesPerPixel)));
+      if (from >= buffer.length) break;
+
+      let min = 1;
+      let max = -1;
+      if (samplesPerPixel >= PEAK_BLOCK) {
+        for (let block = Math.floor(from / PEAK_BLOCK); block < Math.ceil(to / PEAK_BLOCK); block++) {
+          min = Math.min(min, peaks.mins[block]);
+          max = Math.max(max, peaks.maxes[block]);
+        }
+      } else {
+        for (const data of channels) {
+          for (let i = from; i < to; i++) {
+            if (data[i] < min) min = data[i];
+            if (data[i] > max) max = data[i];
+          }
+        }
+      }
+      const top = middle - Math.max(max, min) * middle * 0.95;
+      const bottom = middle - Math.min(min, max) * middle * 0.95;
+      context.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+
+    // Time ticks, at least 80px apart
+    const pixelsPerSecond = width / view.duration;
+    const step = TICK_STEPS.find(candidate => candidate * pixelsPerSecond >= 80) ?? 1200;
+    context.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    context.font = '10px monospace';
+    for (let tick = Math.ceil(view.start / step); tick * step < view.start + view.duration; tick++) {
+      const time = tick * step;
+      const x = Math.round((time - view.start) * pixelsPerSecond);
+      context.fillRect(x, 0, 1, 6);
+      context.fillText(step < 1 ? time.toFixed(step < 0.01 ? 3 : 2) : formatTime(time).replace(/\.000$/, ''), x + 3, 10);
+    }
+  }, [audio, view, canvasSize]);
+
+  // The playhead and the time are moved directly, without rendering every frame
+  useEffect(() => {
+    const update = () => {
+      const position = getPosition();
+      const { start, duration: shown } = viewRef.current;
+      if (playheadRef.current) {
+        playheadRef.current.style.left = `${((position - start) / shown) * 100}%`;
+        playheadRef.current.style.display = position < start || position > start + shown ? 'none' : 'block';
+      }
+      if (timeRef.current) timeRef.current.textContent = formatTime(position);
+      onTimeUpdateRef.current?.(position);
+
+      // Zoomed in, the view pages along with the playhead
+      if (sourceRef.current && (position > start + shown || position < start) && shown < duration) {
+        setView({ start: Math.min(duration - shown, Math.max(0, position - shown * 0.1)), duration: shown });
+      }
+    };
+
+    update();
+    if (!playing) return;
+    let frame = requestAnimationFrame(function tick() {
+      update();
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playing, view, getPosition, duration]);
+
+  const timeAt = (clientX: number) => {
+    const bounds = containerRef.current!.getBoundingClientRect();
+    const time = view.start + ((clientX - bounds.left) / bounds.width) * view.duration;
+    return Math.min(duration, Math.max(0, time));
+  };
+
+  const zoomAt = (factor: number, time: number) => {
+    setView(prev => {
+      const minimum = Math.min(duration, canvasSize.width / (audio?.buffer.sampleRate ?? 44100));
+      const shown = Math.min(duration, Math.max(minimum, prev.duration * factor));
+      const start = time - ((time - prev.start) / prev.duration) * shown;
+      return { start: Math.min(duration - shown, Math.max(0, start)), duration: shown };
+    });
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    e.stopPropagation();
+    if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+      const delta = (e.shiftKey ? e.deltaY : e.deltaX) > 0 ? 0.1 : -0.1;
+      setView(prev => ({ ...prev, start: Math.min(duration - prev.duration, Math.max(0, prev.start + prev.duration * delta)) }));
+      return;
+    }
+    zoomAt(e.deltaY > 0 ? 1.25 : 0.8, timeAt(e.clientX));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!audio || e.button !== 0) return;
+    e.preventDefault();
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const edgeX = (time: number) => bounds.left + ((time - view.start) / view.duration) * bounds.width;
+    let mode: 'new' | 'start' | 'end' = 'new';
+    if (region && Math.abs(e.clientX - edgeX(region.start)) <= DRAG_THRESHOLD) mode = 'start';
+    else if (region && Math.abs(e.clientX - edgeX(region.end)) <= DRAG_THRESHOLD) mode = 'end';
+    dragRef.current = { mode, x: e.clientX, time: timeAt(e.clientX), moved: false };
+    let changed: Region | null = region;
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      if (!drag.moved && Math.abs(moveEvent.clientX - drag.x) < DRAG_THRESHOLD) return;
+      drag.moved = true;
+
+      const time = timeAt(moveEvent.clientX);
+      const anchor = drag.mode === 'new' ? drag.time : drag.mode === 'start' ? region!.end : region!.start;
+      changed = { start: Math.min(anchor, time), end: Math.max(anchor, time) };
+      setRegion(changed);
+      setSaveMessage(null);
+    };
+    const handleMouseUp = () => {
+      const drag = dragRef.current;
+      dragRef.current = null;
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      if (!drag) return;
+
+      if (!drag.moved) {
+        seek(drag.time);
+      } else if (changed && changed.end - changed.start < 0.001) {
+        setRegion(null);
+      } else if (looping) {
+        restartWithLoop(changed);
+      }
+    };
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  // Space plays and pauses, L toggles the loop
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === ' ') {
+        e.preventDefault();
+        togglePlay();
+      } else if (e.key === 'l' || e.key === 'L') {
+        e.preventDefault();
+        toggleLoop();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const saveRegion = async () => {
+    if (!region || !onFileChanges) return;
+    setSaving(true);
+    setSaveMessage(null);
+    try {
+      const result = await exportAudioRegion(filePath, region.start, region.end);
+      onFileChanges(result.changes);
+      const saved = result.changes.find(change => change.type === 'add');
+      setSaveMessage({ text: `Saved ${saved?.item?.name ?? 'the region'}`, isError: false });
+    } catch (err) {
+      setSaveMessage({ text: err instanceof Error ? err.message : 'Failed to save the region', isError: true });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const regionStyle = region && {
+    left: `${((region.start - view.start) / view.duration) * 100}%`,
+    width: `${((region.end - region.start) / view.duration) * 100}%`
+  };
+
+  if (error && decode) {
+    return (
+      <div className="bg-gray-900 rounded-lg p-8 flex items-center space-x-2 text-amber-300 text-sm">
+        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+        <span>{error}</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    // The browser may still be able to stream what it can't decode at once
+    return (
+      <div className="bg-gray-900 rounded-lg p-8 space-y-4">
+        <audio controls autoPlay className="w-full" src={getFileUrl(filePath)} />
+        <div className="flex items-center space-x-2 text-amber-300 text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 space-y-3">
+      <div
+        ref={containerRef}
+        className="relative h-48 bg-gray-950 rounded overflow-hidden cursor-text select-none"
+        onWheel={handleWheel}
+        onMouseDown={handleMouseDown}
+      >
+        <canvas ref={canvasRef} width={canvasSize.width} height={canvasSize.height} className="absolute inset-0" />
+        {regionStyle && (
+          <div
+            className={`absolute inset-y-0 border-x-2 pointer-events-none ${looping ? 'bg-amber-400/20 border-amber-400' : 'bg-white/10 border-white/60'}`}
+            style={regionStyle}
+          />
+        )}
+        <div ref={playheadRef} className="absolute inset-y-0 w-px bg-white pointer-events-none" />
+        {!audio && (
+          <div className="absolute inset-0 flex items-center justify-center space-x-3 text-green-400">
+            <Loader2 className="w-6 h-6 animate-spin" />
+            <span>Decoding audio...</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          onClick={togglePlay}
+          disabled={!audio}
+          className="p-2 bg-green-600 hover:bg-green-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+          title={playing ? 'Pause (Space)' : 'Play (Space)'}
+        >
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button
+          onClick={stop}
+          disabled={!audio}
+          className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+          title="Stop"
+        >
+          <Square className="w-4 h-4" />
+        </button>
+        <button
+          onClick={toggleLoop}
+          disabled={!audio}
+          className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${looping ? 'bg-amber-500 hover:bg-amber-400 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-white'}`}
+          title={looping ? 'Stop looping the region (L)' : 'Loop the region (L)'}
+        >
+          <Repeat className="w-4 h-4" />
+        </button>
+
+        <span className="font-mono text-gray-300 px-2">
+          <span ref={timeRef}>0:00.000</span> / {formatTime(duration)}
+        </span>
+
+        <div className="flex items-center space-x-1 ml-auto">
+          <button onClick={() => zoomAt(0.5, view.start + view.duration / 2)} disabled={!audio} className="p-1 text-gray-300 hover:text-white disabled:opacity-50 transition-colors" title="Zoom in">
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button onClick={() => zoomAt(2, view.start + view.duration / 2)} disabled={!audio} className="p-1 text-gray-300 hover:text-white disabled:opacity-50 transition-colors" title="Zoom out">
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <button onClick={() => setView({ start: 0, duration })} disabled={!audio} className="p-1 text-gray-300 hover:text-white disabled:opacity-50 transition-colors" title="Show everything">
+            <Maximize className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {region ? (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="font-mono text-gray-300">
+            Region {formatTime(region.start)} – {formatTime(region.end)} ({(region.end - region.start).toFixed(3)}s)
+          </span>
+          <button onClick={clearRegion} className="p-1 text-gray-400 hover:text-white transition-colors" title="Clear the region">
+            <X className="w-4 h-4" />
+          </button>
+          {onFileChanges && (
+            <button
+              onClick={saveRegion}
+              disabled={saving}
+              className="flex items-center space-x-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded transition-colors"
+              title="Save the region as a WAV file next to this one"
+            >
+              {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+              <span>Save as WAV</span>
+            </button>
+          )}
+          {saveMessage && (
+            <span className={saveMessage.isError ? 'text-red-400' : 'text-green-400'}>{saveMessage.text}</span>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">Drag across the waveform to mark a region to loop{onFileChanges ? ' or save' : ''}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Music, Play, Square } from 'lucide-react';
+import { MIDI_EXTENSIONS } from '../utils/midiFile';
+import { MODULE_EXTENSIONS } from '../utils/trackerModule';
+
+interface AudioThumbnailProps {
+  filePath: string;
+  name: string;
+  waveformUrl: string;
+  getFileUrl: (path: string) => string;
+}
+
+// Passing over a card on the way somewhere else shouldn't make a sound
+const HOVER_DELAY = 250;
+
+// MIDI and tracker songs have to be rendered first, which is too slow for a hover
+const RENDERED_EXTENSIONS = [...MIDI_EXTENSIONS, ...MODULE_EXTENSIONS];
+
+// Only one card plays at a time; starting another stops this one
+let current: { stop: () => void } | null = null;
+
+// Audio card: the server waveform, played on hover or with the play button, with a playhead
+export const AudioThumbnail: React.FC<AudioThumbnailProps> = ({ filePath, name, waveformUrl, getFileUrl }) => {
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [waveformFailed, setWaveformFailed] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const hoverTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const frameRef = useRef(0);
+  // Stays the same object across renders so the playing card can be recognised
+  const handle = useRef({ stop: () => {} });
+
+  const canPlay = !RENDERED_EXTENSIONS.some(extension => filePath.toLowerCase().endsWith(extension));
+
+  const stop = () => {
+    if (hoverTimer.current) clearTimeout(hoverTimer.current);
+    hoverTimer.current = null;
+    cancelAnimationFrame(frameRef.current);
+    const audio = audioRef.current;
+    audioRef.current = null;
+    if (audio) {
+      audio.onended = null;
+      audio.onerror = null;
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+    }
+    if (current === handle.current) current = null;
+    setPlaying(false);
+    setPosition(0);
+  };
+
+  const play = () => {
+    if (!canPlay || audioRef.current) return;
+    current?.stop();
+    current = handle.current;
+
+    const audio = new Audio(getFileUrl(filePath));
+    audioRef.current = audio;
+    audio.onended = stop;
+    audio.onerror = stop;
+    // Browsers refuse sound until the page has been clicked once; the button still works then
+    audio.play().then(() => {
+      if (audioRef.current !== audio) return;
+      setPlaying(true);
+      const update = () => {
+        if (audio.duration > 0) setPosition(audio.currentTime / audio.duration);
+        frameRef.current = requestAnimationFrame(update);
+      };
+      update();
+    }).catch(() => {
+      if (audioRef.current === audio) stop();
+    });
+  };
+
+  const handleMouseEnter = () => {
+    if (!canPlay) return;
+    hoverTimer.current = setTimeout(play, HOVER_DELAY);
+  };
+
+  const handleButtonClick = (e: React.MouseEvent) => {
+    // The card itself opens the preview
+    e.preventDefault();
+    e.stopPropagation();
+    if (audioRef.current) stop();
+    else play();
+  };
+
+  handle.current.stop = stop;
+
+  useEffect(() => {
+    const playback = handle.current;
+    return () => playback.stop();
+  }, [filePath]);
+
+  return (
+    <div
+      className="w-full h-full flex items-center justify-center bg-gradient-to-br from-green-600 to-green-800 rounded-md relative"
+      onMouseEnter={handleMouseEnter}
+      onMouseLeave={stop}
+    >
+      {waveformFailed ? (
+        <Music className="w-12 h-12 text-white/80" />
+      ) : (
+        <img
+          src={waveformUrl}
+          alt={name}
+          className="w-full h-1/2 object-fill"
+          loading="lazy"
+          onError={() => setWaveformFailed(true)}
+        />
+      )}
+      {playing && (
+        <div className="absolute top-0 bottom-0 w-0.5 bg-white/90 pointer-events-none" style={{ left: `${position * 100}%` }} />
+      )}
+      {canPlay && (
+        <button
+          onClick={handleButtonClick}
+          className={`absolute bottom-2 left-2 p-1.5 rounded-full bg-black/50 hover:bg-black/70 text-white transition-opacity ${
+            playing ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+          }`}
+          title={playing ? 'Stop' : 'Play'}
+        >
+          {playing ? <Square className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+        </button>
+      )}
+      <div className="absolute bottom-2 right-2 bg-green-500 text-white text-xs px-2 py-1 rounded-full font-medium shadow-lg">
+        Audio
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,21 @@
 import React from 'react';
-import { ChevronRight, Home } from 'lucide-react';
+import { ChevronRight, Home, Package } from 'lucide-react';
 
 interface BreadcrumbProps {
   currentPath: string;
+  archivePath?: string | null;
   onNavigate: (path: string) => void;
 }
 
-export const Breadcrumb: React.FC<BreadcrumbProps> = ({ currentPath, onNavigate }) => {
+export const Breadcrumb: React.FC<BreadcrumbProps> = ({ currentPath, archivePath, onNavigate }) => {
   const pathParts = currentPath.split(/[/\\]/).filter(Boolean);
+  const rootPrefix = currentPath.startsWith('/') ? '/' : '';
+  // Segments after this one are folders inside the archive
+  const archiveIndex = archivePath ? archivePath.split(/[/\\]/).filter(Boolean).length - 1 : -1;
 
   const buildPath = (index: number) => {
     if (index === -1) return '';
-    return pathParts.slice(0, index + 1).join('/');
+    return rootPrefix + pathParts.slice(0, index + 1).join('/');
   };
 
   return (
@@ -29,13 +33,16 @@ export const Breadcrumb: React.FC<BreadcrumbProps> = ({ currentPath, onNavigate
           <ChevronRight className="w-4 h-4 text-gray-500" />
           <button
             onClick={() => onNavigate(buildPath(index))}
-            className="hover:text-white transition-colors truncate max-w-32"
+            className={`flex items-center space-x-1 hover:text-white transition-colors truncate max-w-32 ${
+              archiveIndex !== -1 && index > archiveIndex ? 'text-amber-200' : ''
+            }`}
             title={part}
           >
-            {part}
+            {index === archiveIndex && <Package className="w-4 h-4 flex-shrink-0 text-amber-400" />}
+            <span className="truncate">{part}</span>
           </button>
         </React.Fragment>
       ))}
     </nav>
   );
-};
\ No newline at end of file
+};
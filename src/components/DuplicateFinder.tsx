@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { X, Loader2, AlertCircle, Copy, FolderOpen, Trash2, Search, Square } from 'lucide-react';
+import { DuplicateGroup } from '../types';
+import { useDuplicates } from '../hooks/useDuplicates';
+import { FileTypeIcon } from './FileTypeIcon';
+import { formatFileSize } from '../utils/formatters';
+import { API_HEADERS } from '../utils/apiHeaders';
+
+interface DuplicateFinderProps {
+  currentPath: string;
+  onClose: () => void;
+  onNavigate: (path: string) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:outline-none';
+
+const showInFolder = async (filePath: string) => {
+  try {
+    const response = await fetch('http://localhost:3001/api/show-in-folder', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...API_HEADERS,
+      },
+      body: JSON.stringify({ filePath }),
+    });
+
+    if (!response.ok) {
+      console.log('Show in folder response not ok, but folder likely opened anyway');
+    }
+  } catch (error) {
+    console.error('Error opening file in explorer:', error);
+  }
+};
+
+const getFavoritePaths = (): string[] => {
+  try {
+    const favorites = JSON.parse(localStorage.getItem('gameAssetBrowser_favorites') || '[]');
+    return favorites.map((favorite: { path: string }) => favorite.path);
+  } catch {
+    return [];
+  }
+};
+
+export const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ currentPath, onClose, onNavigate }) => {
+  const { status, error, startScan, cancelScan, deleteFiles } = useDuplicates();
+  const [root, setRoot] = useState(currentPath);
+  // The copy to keep per group (by hash), the first path unless another one is picked
+  const [keep, setKeep] = useState<Record<string, string>>({});
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const [deleteErrors, setDeleteErrors] = useState<Record<string, string>>({});
+
+  const favoritePaths = getFavoritePaths();
+  const running = status?.running ?? false;
+
+  const getKeptPath = (group: DuplicateGroup) =>
+    group.files.some(file => file.path === keep[group.hash]) ? keep[group.hash] : group.files[0].path;
+
+  const deleteExtras = async (group: DuplicateGroup) => {
+    const keptPath = getKeptPath(group);
+    const extras = group.files.filter(file => file.path !== keptPath).map(file => file.path);
+    if (!window.confirm(`Move ${extras.length} ${extras.length === 1 ? 'copy' : 'copies'} of ${group.files[0].name} to the trash and keep ${keptPath}?`)) {
+      return;
+    }
+
+    setDeleting(group.hash);
+    const errors = await deleteFiles(extras);
+    setDeleteErrors(prev => ({ ...prev, ...Object.fromEntries(errors.map(({ path, error }) => [path, error])) }));
+    setDeleting(null);
+  };
+
+  const renderProgress = () => {
+    if (!status || !running) return null;
+
+    const percent = status.bytesToHash ? Math.round(((status.bytesHashed ?? 0) / status.bytesToHash) * 100) : 0;
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2 text-sm text-indigo-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>
+            {status.phase === 'scanning'
+              ? `Scanning... ${status.filesScanned} files found`
+              : `Hashing ${status.filesHashed} of ${status.filesToHash} files (${formatFileSize(status.bytesHashed ?? 0)} of ${formatFileSize(status.bytesToHash ?? 0)})`}
+          </span>
+        </div>
+        {status.phase === 'hashing' && (
+          <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderGroup = (group: DuplicateGroup) => {
+    const keptPath = getKeptPath(group);
+    return (
+      <div key={group.hash} className="bg-gray-900 border border-gray-600 rounded-lg p-3 space-y-2">
+        <div className="flex items-center justify-between space-x-3">
+          <div className="flex items-center space-x-2 min-w-0">
+            <FileTypeIcon fileType={group.files[0].fileType} isDirectory={false} className="w-5 h-5 flex-shrink-0" />
+            <span className="font-medium text-white truncate" title={group.files[0].name}>{group.files[0].name}</span>
+            <span className="text-xs text-gray-400 flex-shrink-0">
+              {group.files.length} copies • {formatFileSize(group.size)} each • {formatFileSize(group.wastedBytes)} wasted
+            </span>
+          </div>
+          <button
+            onClick={() => deleteExtras(group)}
+            disabled={deleting !== null}
+            className="flex items-center space-x-1 px-3 py-1 bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded-lg transition-colors text-sm flex-shrink-0"
+            title="Move every copy except the one marked Keep to the trash (can be undone)"
+          >
+            {deleting === group.hash ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+            <span>Delete Extras</span>
+          </button>
+        </div>
+
+        <ul className="space-y-1">
+          {group.files.map(file => (
+            <li key={file.path} className="flex items-center space-x-2 text-sm">
+              <label className="flex items-center space-x-1 text-xs text-gray-400 flex-shrink-0 cursor-pointer">
+                <input
+                  type="radio"
+                  name={`keep-${group.hash}`}
+                  checked={file.path === keptPath}
+                  onChange={() => setKeep(prev => ({ ...prev, [group.hash]: file.path }))}
+                />
+                <span>Keep</span>
+              </label>
+              <button
+                onClick={() => {
+                  onNavigate(file.parentPath);
+                  onClose();
+                }}
+                className={`truncate text-left font-mono text-xs hover:text-white transition-colors ${file.path === keptPath ? 'text-emerald-300' : 'text-gray-300'}`}
+                title={`Open ${file.parentPath}`}
+              >
+                {file.path}
+              </button>
+              <button
+                onClick={() => showInFolder(file.path)}
+                className="p-1 text-gray-400 hover:text-white transition-colors flex-shrink-0"
+                title="Show in explorer"
+              >
+                <FolderOpen className="w-4 h-4" />
+              </button>
+              {deleteErrors[file.path] && (
+                <span className="text-xs text-red-400 flex-shrink-0">{deleteErrors[file.path]}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-gray-800 border border-gray-700 rounded-lg w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700 flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Duplicates</h2>
+            <p className="text-xs text-gray-400">Files with identical contents below a folder, compared by content hash.</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-700 flex-shrink-0 space-y-3">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              list="duplicate-roots"
+              value={root}
+              onChange={(e) => setRoot(e.target.value)}
+              placeholder="Folder to scan, e.g. /home/me/assets"
+              className={`${inputClass} font-mono`}
+            />
+            <datalist id="duplicate-roots">
+              {favoritePaths.map(path => <option key={path} value={path} />)}
+            </datalist>
+            {running ? (
+              <button
+                onClick={cancelScan}
+                className="flex items-center space-x-1 px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors text-sm flex-shrink-0"
+              >
+                <Square className="w-4 h-4" />
+                <span>Cancel</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => startScan(root)}
+                disabled={!root.trim()}
+                className="flex items-center space-x-1 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg transition-colors text-sm flex-shrink-0"
+              >
+                <Search className="w-4 h-4" />
+                <span>Scan</span>
+              </button>
+            )}
+          </div>
+
+          {renderProgress()}
+
+          {(error || status?.error) && (
+            <div className="flex items-center space-x-2 text-red-400 bg-red-500/10 px-3 py-2 rounded-lg border border-red-500/20 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error || status?.error}</span>
+            </div>
+          )}
+
+          {status && !running && status.phase !== 'idle' && (
+            <div className="text-sm text-gray-400">
+              {status.phase === 'cancelled'
+                ? 'Scan cancelled'
+                : `${status.groupCount} duplicate groups in ${status.root} • ${formatFileSize(status.wastedBytes)} wasted`}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-3">
+          {!status ? (
+            <div className="flex items-center justify-center h-32 space-x-3 text-indigo-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+              <span>Loading...</span>
+            </div>
+          ) : status.groups.length > 0 ? (
+            status.groups.map(renderGroup)
+          ) : status.phase === 'done' && (
+            <div className="text-center text-gray-400 py-12">
+              <Copy className="w-12 h-12 mx-auto mb-3 opacity-50" />
+              <p>No duplicates found</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, X, Folder } from 'lucide-react';
+import { API_HEADERS } from '../utils/apiHeaders';
 
 interface FavoritePathsProps {
   onNavigate: (path: string) => void;
@@ -11,6 +12,22 @@ interface FavoritePath {
   path: string;
 }
 
+// Tell the server which folders to keep in the background search index
+const syncIndexRoots = async (paths: FavoritePath[]) => {
+  try {
+    await fetch('http://localhost:3001/api/index/roots', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...API_HEADERS,
+      },
+      body: JSON.stringify({ roots: paths.map(f => f.path) }),
+    });
+  } catch (error) {
+    console.error('Error syncing favorite folders with the asset index:', error);
+  }
+};
+
 export const FavoritePaths: React.FC<FavoritePathsProps> = ({ onNavigate }) => {
   const [favorites, setFavorites] = useState<FavoritePath[]>([]);
   const [isAdding, setIsAdding] = useState(false);
@@ -19,7 +36,9 @@ export const FavoritePaths: React.FC<FavoritePathsProps> = ({ onNavigate }) => {
   useEffect(() => {
     const saved = localStorage.getItem('gameAssetBrowser_favorites');
     if (saved) {
-      setFavorites(JSON.parse(saved));
+      const savedFavorites = JSON.parse(saved);
+      setFavorites(savedFavorites);
+      syncIndexRoots(savedFavorites);
     }
     // Removed default favorites - starts empty now
   }, []);
@@ -27,6 +46,7 @@ export const FavoritePaths: React.FC<FavoritePathsProps> = ({ onNavigate }) => {
   const saveFavorites = (newFavorites: FavoritePath[]) => {
     setFavorites(newFavorites);
     localStorage.setItem('gameAssetBrowser_favorites', JSON.stringify(newFavorites));
+    syncIndexRoots(newFavorites);
   };
 
   const addFavorite = () => {
@@ -1,33 +1,104 @@
 import React, { useState, useEffect } from 'react';
-import { FileItem } from '../types';
+import { DirectoryChangeEvent, FileItem, FileOperationResponse, SearchResponse } from '../types';
 import { FileTypeIcon } from './FileTypeIcon';
 import { formatFileSize, formatDate } from '../utils/formatters';
+import { summarizeMetadata } from '../utils/assetMetadata';
+import { groupSoundVariations, SoundVariationGroup } from '../utils/soundVariations';
 import { FilePreview } from './FilePreview';
 import { Model3DThumbnail } from './Model3DThumbnail';
+import { AudioThumbnail } from './AudioThumbnail';
+import { VideoThumbnail } from './VideoThumbnail';
+import { VideoPoster } from './VideoPoster';
 import { useModelLoader } from '../hooks/useModelLoader';
+import { useFileTypes } from '../hooks/useFileTypes';
+import { getColorClasses } from '../utils/fileTypeStyles';
 import { FontPreview } from './FontPreview';
-import { FolderOpen } from 'lucide-react';
+import { TagEditor } from './TagEditor';
+import { TagChange, useTags } from '../hooks/useTags';
+import { useFileOperations } from '../hooks/useFileOperations';
+import { FileOperationDialog, FileOperationMode } from './FileOperationDialog';
+import { UploadDropZone } from './UploadDropZone';
+import { Check, Copy, FolderInput, FolderOpen, Layers, Library, Loader2, Pencil, Tag, Trash2, X } from 'lucide-react';
+import { API_HEADERS } from '../utils/apiHeaders';
 
 interface FileGridProps {
   items: FileItem[];
   onNavigate: (path: string) => void;
-  getThumbnailUrl: (path: string, size?: number) => string;
-  getFolderPreviewUrl: (path: string, size?: number) => string;
+  searchAssets: (query: string, signal?: AbortSignal, tags?: string[]) => Promise<SearchResponse>;
+  getThumbnailUrl: (path: string, size?: number, version?: string) => string;
+  getFolderPreviewUrl: (path: string, size?: number, version?: string) => string;
+  getWaveformUrl: (path: string, width: number, height: number, version?: string) => string;
   getFileUrl: (path: string) => string;
   currentPath: string;
+  onFileChanges: (changes: DirectoryChangeEvent[]) => void;
+  // Files inside archives can only be browsed
+  canEditFiles: boolean;
 }
 
 export const FileGrid: React.FC<FileGridProps> = ({
   items,
   onNavigate,
+  searchAssets,
   getThumbnailUrl,
   getFolderPreviewUrl,
+  getWaveformUrl,
   getFileUrl,
-  currentPath
+  currentPath,
+  onFileChanges,
+  canEditFiles
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedFile, setSelectedFile] = useState<FileItem | null>(null);
+  const [searchAllFolders, setSearchAllFolders] = useState(false);
+  const [libraryResults, setLibraryResults] = useState<SearchResponse | null>(null);
+  const [librarySearching, setLibrarySearching] = useState(false);
   const { clearAllLoads } = useModelLoader();
+  const { getCategory, getPreviewKind } = useFileTypes();
+  const { allTags, getTags, updateTags } = useTags();
+  // Only items carrying every one of these tags are shown
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [tagError, setTagError] = useState<string | null>(null);
+  const { renameItem, moveItems, copyItems, trashItems } = useFileOperations();
+  // Rename, move or copy dialog and the items it works on
+  const [fileDialog, setFileDialog] = useState<{ mode: FileOperationMode; items: FileItem[] } | null>(null);
+  const [operationError, setOperationError] = useState<string | null>(null);
+
+  const isLibrarySearch = searchAllFolders && (searchQuery.trim() !== '' || tagFilter.length > 0);
+
+  // Search the server-side index of all favorite folders (debounced)
+  useEffect(() => {
+    if (!isLibrarySearch) {
+      setLibraryResults(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      setLibrarySearching(true);
+      try {
+        const response = await searchAssets(searchQuery.trim(), controller.signal, tagFilter);
+        setLibraryResults(response);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error searching asset index:', error);
+          setLibraryResults(null);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLibrarySearching(false);
+        }
+      }
+    }, 250);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [isLibrarySearch, searchQuery, tagFilter, searchAssets]);
+
+  // Items the grid and the preview navigation work on
+  const sourceItems = isLibrarySearch ? (libraryResults?.results ?? []) : items;
 
   // Open preview if preview param is present in URL on mount or when items change
   useEffect(() => {
@@ -39,6 +110,15 @@ export const FileGrid: React.FC<FileGridProps> = ({
     }
   }, [items]);
 
+  // Keep the open preview in sync when its file changes on disk
+  useEffect(() => {
+    setSelectedFile(prev => {
+      if (!prev) return prev;
+      const updated = items.find(item => item.path === prev.path);
+      return updated && updated.modified !== prev.modified ? updated : prev;
+    });
+  }, [items]);
+
   // Update URL when preview is opened/closed
   useEffect(() => {
     const url = new URL(window.location.href);
@@ -53,10 +133,11 @@ export const FileGrid: React.FC<FileGridProps> = ({
 
   // Clear all model loads when navigating to a new directory
   useEffect(() => {
+    setSelectedPaths(new Set());
     return () => {
       clearAllLoads();
     };
-  }, [items, clearAllLoads]);
+  }, [currentPath, clearAllLoads]);
 
   const handleItemClick = (item: FileItem) => {
     if (item.isDirectory) {
@@ -73,19 +154,81 @@ export const FileGrid: React.FC<FileGridProps> = ({
       return hasAssets ? 'border-gray-500/30 bg-emerald-500/5' : 'border-gray-500/30 bg-gray-500/5';
     }
 
-    switch (fileType) {
-      case 'images': return 'border-blue-500/30 bg-blue-500/5';
-      case 'models': return 'border-purple-500/30 bg-purple-500/5';
-      case 'audio': return 'border-green-500/30 bg-green-500/5';
-      case 'video': return 'border-red-500/30 bg-red-500/5';
-      case 'documents': return 'border-yellow-500/30 bg-yellow-500/5';
-      case 'fonts': return 'border-orange-500/30 bg-orange-500/5';
-      default: return 'border-gray-500/30 bg-gray-500/5';
+    return getColorClasses(getCategory(fileType)?.color).card;
+  };
+
+  const hasTags = (item: FileItem, tags: string[]) => {
+    const itemTags = getTags(item).map(tag => tag.toLowerCase());
+    return tags.every(tag => itemTags.includes(tag.toLowerCase()));
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter(prev => prev.includes(tag) ? prev.filter(existing => existing !== tag) : [...prev, tag]);
+  };
+
+  // A group card selects (or deselects) all of its variants
+  const toggleSelected = (item: FileItem, members = [item]) => {
+    setSelectedPaths(prev => {
+      const next = new Set(prev);
+      const selected = next.has(item.path);
+      for (const member of members) {
+        if (selected) next.delete(member.path); else next.add(member.path);
+      }
+      return next;
+    });
+  };
+
+  const isSound = (item: FileItem) => getPreviewKind(item.fileType) === 'audio';
+
+  const selectedItems = sourceItems.filter(item => selectedPaths.has(item.path));
+
+  // Add or remove tags on every selected item
+  const changeSelectedTags = async (change: TagChange) => {
+    setTagError(null);
+    try {
+      await updateTags(selectedItems.map(item => item.path), change);
+    } catch (error) {
+      setTagError(error instanceof Error ? error.message : 'Failed to update tags');
+    }
+  };
+
+  // Update the listing, the search results and the selection after a file operation
+  const applyOperation = ({ changes }: FileOperationResponse) => {
+    onFileChanges(changes);
+
+    const deleted = new Set(changes.filter(change => change.type === 'delete').map(change => change.path));
+    setLibraryResults(prev => prev && { ...prev, results: prev.results.filter(item => !deleted.has(item.path)) });
+    setSelectedPaths(prev => new Set([...prev].filter(path => !deleted.has(path))));
+    return changes;
+  };
+
+  const submitFileDialog = async (value: string) => {
+    if (!fileDialog) return;
+    const paths = fileDialog.items.map(item => item.path);
+
+    if (fileDialog.mode === 'rename') {
+      const changes = applyOperation(await renameItem(paths[0], value));
+      // Keep showing a renamed file in the preview
+      const renamed = changes.find(change => change.type === 'add')?.item;
+      if (renamed && selectedFile?.path === paths[0]) setSelectedFile(renamed);
+    } else {
+      applyOperation(await (fileDialog.mode === 'move' ? moveItems : copyItems)(paths, value));
+    }
+  };
+
+  // Deleted items go to the trash, so there's no confirmation (they can be undone)
+  const deleteItems = async (targets: FileItem[]) => {
+    setOperationError(null);
+    try {
+      applyOperation(await trashItems(targets.map(item => item.path)));
+      if (selectedFile && targets.some(item => item.path === selectedFile.path)) setSelectedFile(null);
+    } catch (error) {
+      setOperationError(error instanceof Error ? error.message : 'Failed to delete files');
     }
   };
 
   // Get only files (not directories) for navigation, sorted by extension
-  const files = items
+  const files = sourceItems
     .filter(item => !item.isDirectory)
     .sort((a, b) => {
       const extA = a.name.split('.').pop()?.toLowerCase() || '';
@@ -94,19 +237,25 @@ export const FileGrid: React.FC<FileGridProps> = ({
       if (extA > extB) return 1;
       return a.name.localeCompare(b.name);
     });
-  const currentFileIndex = selectedFile ? files.findIndex(file => file.path === selectedFile.path) : -1;
+  // Numbered sound variants are one step, like they are one card in the grid
+  const fileVariations = groupSoundVariations(files, isSound);
+  const navigationFiles = files.filter(file => (fileVariations.get(file.path)?.files[0] ?? file) === file);
+  const selectedVariations = selectedFile ? fileVariations.get(selectedFile.path) : undefined;
+  const currentFileIndex = selectedFile
+    ? navigationFiles.findIndex(file => file.path === (selectedVariations?.files[0] ?? selectedFile).path)
+    : -1;
 
   const navigateToFile = (direction: 'prev' | 'next') => {
     if (currentFileIndex === -1) return;
 
     let newIndex;
     if (direction === 'prev') {
-      newIndex = currentFileIndex > 0 ? currentFileIndex - 1 : files.length - 1;
+      newIndex = currentFileIndex > 0 ? currentFileIndex - 1 : navigationFiles.length - 1;
     } else {
-      newIndex = currentFileIndex < files.length - 1 ? currentFileIndex + 1 : 0;
+      newIndex = currentFileIndex < navigationFiles.length - 1 ? currentFileIndex + 1 : 0;
     }
 
-    setSelectedFile(files[newIndex]);
+    setSelectedFile(navigationFiles[newIndex]);
   };
 
   // Enhanced thumbnail rendering with 3D model support and priority loading
@@ -116,20 +265,57 @@ export const FileGrid: React.FC<FileGridProps> = ({
     // Calculate priority based on position (earlier items get higher priority)
     const priority = Math.max(100 - index, 0);
 
+    // Which preview a file gets depends on its category in the file type settings
+    const previewKind = getPreviewKind(item.fileType);
+
     // Folder with assets preview - FIXED FOR 3D MODELS!
     if (item.isDirectory && item.hasAssets && item.firstAsset) {
       // If the first asset is a 3D model, render it as 3D!
-      if (item.firstAsset.type === 'models') {
+      if (getPreviewKind(item.firstAsset.type) === 'model') {
         return (
           <div className="w-full h-full relative">
             <Model3DThumbnail
+              key={`${item.firstAsset.path}-${item.modified}`}
               modelPath={item.firstAsset.path}
+              modified={item.firstAsset.modified}
               getFileUrl={getFileUrl}
               className="w-full h-full rounded-md"
               priority={priority + 50} // Folder previews get higher priority
             />
             <div className="absolute bottom-2 right-2 bg-gray-500 text-white text-xs px-2 py-1 rounded-full font-medium shadow-lg">
-              Folder
+              {item.isArchive ? 'Archive' : 'Folder'}
+            </div>
+          </div>
+        );
+      }
+
+      const folderIcon = (
+        <FileTypeIcon
+          fileType={item.fileType}
+          isDirectory={item.isDirectory}
+          isArchive={item.isArchive}
+          hasAssets={item.hasAssets}
+          className="w-12 h-12"
+        />
+      );
+
+      // The server only has a video's poster once the browser took it, which VideoPoster does
+      if (getPreviewKind(item.firstAsset.type) === 'video') {
+        const firstAsset = item.firstAsset;
+        return (
+          <div className="w-full h-full flex items-center justify-center relative">
+            <VideoPoster
+              key={`${firstAsset.path}-${item.modified}`}
+              posterUrl={version => getFolderPreviewUrl(item.path, thumbnailSize, `${item.modified}-${version}`)}
+              videoPath={firstAsset.path}
+              modified={firstAsset.modified}
+              getFileUrl={getFileUrl}
+              alt={`Preview of ${item.name}`}
+              className="w-full h-full object-cover rounded-md"
+              fallback={folderIcon}
+            />
+            <div className="absolute bottom-2 right-2 bg-gray-500 text-white text-xs px-2 py-1 rounded-full font-medium shadow-lg">
+              {item.isArchive ? 'Archive' : 'Folder'}
             </div>
           </div>
         );
@@ -139,7 +325,7 @@ export const FileGrid: React.FC<FileGridProps> = ({
       return (
         <>
           <img
-            src={getFolderPreviewUrl(item.path, thumbnailSize)}
+            src={getFolderPreviewUrl(item.path, thumbnailSize, item.modified)}
             alt={`Preview of ${item.name}`}
             className="w-full h-full object-cover rounded-md"
             loading="lazy"
@@ -151,26 +337,21 @@ export const FileGrid: React.FC<FileGridProps> = ({
             }}
           />
           <div className="hidden flex items-center justify-center">
-            <FileTypeIcon
-              fileType={item.fileType}
-              isDirectory={item.isDirectory}
-              hasAssets={item.hasAssets}
-              className="w-12 h-12"
-            />
+            {folderIcon}
           </div>
           <div className="absolute bottom-2 right-2 bg-gray-500 text-white text-xs px-2 py-1 rounded-full font-medium shadow-lg">
-            Folder
+            {item.isArchive ? 'Archive' : 'Folder'}
           </div>
         </>
       );
     }
 
     // Images - show actual image preview
-    if (!item.isDirectory && item.fileType === 'images') {
+    if (!item.isDirectory && previewKind === 'image') {
       return (
         <>
           <img
-            src={getThumbnailUrl(item.path, thumbnailSize)}
+            src={getThumbnailUrl(item.path, thumbnailSize, item.modified)}
             alt={item.name}
             className="w-full h-full object-cover rounded-md"
             loading="lazy"
@@ -195,12 +376,45 @@ export const FileGrid: React.FC<FileGridProps> = ({
       );
     }
 
+    // Maps - server-rendered from their tile layers
+    if (!item.isDirectory && previewKind === 'map') {
+      return (
+        <>
+          <img
+            src={getThumbnailUrl(item.path, thumbnailSize, item.modified)}
+            alt={item.name}
+            className="w-full h-full object-contain rounded-md"
+            style={{ imageRendering: 'pixelated' }}
+            loading="lazy"
+            onError={(e) => {
+              const target = e.target as HTMLImageElement;
+              target.style.display = 'none';
+              const fallback = target.nextElementSibling as HTMLElement;
+              if (fallback) fallback.classList.remove('hidden');
+            }}
+          />
+          <div className="hidden flex items-center justify-center">
+            <FileTypeIcon
+              fileType={item.fileType}
+              isDirectory={item.isDirectory}
+              className="w-12 h-12"
+            />
+          </div>
+          <div className="absolute bottom-2 right-2 bg-cyan-500 text-white text-xs px-2 py-1 rounded-full font-medium shadow-lg">
+            Map
+          </div>
+        </>
+      );
+    }
+
     // 3D Models - RENDER ACTUAL 3D MODEL with priority loading
-    if (!item.isDirectory && item.fileType === 'models') {
+    if (!item.isDirectory && previewKind === 'model') {
       return (
         <div className="w-full h-full relative">
           <Model3DThumbnail
+            key={`${item.path}-${item.modified}`}
             modelPath={item.path}
+            modified={item.modified}
             getFileUrl={getFileUrl}
             className="w-full h-full rounded-md"
             priority={priority}
@@ -214,7 +428,7 @@ export const FileGrid: React.FC<FileGridProps> = ({
     }
 
     // Font files - show font preview
-    if (!item.isDirectory && item.fileType === 'fonts') {
+    if (!item.isDirectory && previewKind === 'font') {
       return (
         <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-orange-600 to-orange-800 rounded-md relative">
           <div className="text-center">
@@ -228,57 +442,35 @@ export const FileGrid: React.FC<FileGridProps> = ({
       );
     }
 
-    // Audio files - show waveform-style preview
-    if (!item.isDirectory && item.fileType === 'audio') {
+    // Audio files - the real waveform, decoded on the server (a note when it can't be); plays on hover
+    if (!item.isDirectory && previewKind === 'audio') {
       return (
-        <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-green-600 to-green-800 rounded-md">
-          <div className="flex items-end space-x-1 h-16">
-            {[...Array(12)].map((_, i) => (
-              <div
-                key={i}
-                className="bg-white/80 rounded-sm animate-pulse"
-                style={{
-                  width: '3px',
-                  height: `${Math.random() * 60 + 10}%`,
-                  animationDelay: `${i * 0.1}s`
-                }}
-              />
-            ))}
-          </div>
-          <div className="absolute bottom-2 right-2 bg-green-500 text-white text-xs px-2 py-1 rounded-full font-medium shadow-lg">
-            Audio
-          </div>
-        </div>
+        <AudioThumbnail
+          key={`${item.path}-${item.modified}`}
+          filePath={item.path}
+          name={item.name}
+          waveformUrl={getWaveformUrl(item.path, thumbnailSize, Math.round(thumbnailSize / 2), item.modified)}
+          getFileUrl={getFileUrl}
+        />
       );
     }
 
-    // Video files - show film strip preview
-    if (!item.isDirectory && item.fileType === 'video') {
+    // Video files - poster frame and frames taken in the browser, scrubbed by moving across the card
+    if (!item.isDirectory && previewKind === 'video') {
       return (
-        <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-red-600 to-red-800 rounded-md relative">
-          <div className="w-16 h-12 bg-black/50 rounded border-2 border-white/50 flex items-center justify-center">
-            <div className="w-0 h-0 border-l-4 border-l-white border-y-2 border-y-transparent ml-1"></div>
-          </div>
-          {/* Film strip holes */}
-          <div className="absolute left-1 top-0 bottom-0 flex flex-col justify-evenly">
-            {[...Array(6)].map((_, i) => (
-              <div key={i} className="w-2 h-2 bg-black/30 rounded-full" />
-            ))}
-          </div>
-          <div className="absolute right-1 top-0 bottom-0 flex flex-col justify-evenly">
-            {[...Array(6)].map((_, i) => (
-              <div key={i} className="w-2 h-2 bg-black/30 rounded-full" />
-            ))}
-          </div>
-          <div className="absolute bottom-2 right-2 bg-red-500 text-white text-xs px-2 py-1 rounded-full font-medium shadow-lg">
-            Video
-          </div>
-        </div>
+        <VideoThumbnail
+          key={`${item.path}-${item.modified}`}
+          filePath={item.path}
+          modified={item.modified}
+          getFileUrl={getFileUrl}
+          getThumbnailUrl={getThumbnailUrl}
+          size={thumbnailSize}
+        />
       );
     }
 
     // Documents - show document preview
-    if (!item.isDirectory && item.fileType === 'documents') {
+    if (!item.isDirectory && previewKind === 'text') {
       return (
         <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-yellow-600 to-yellow-800 rounded-md relative">
           <div className="w-12 h-16 bg-white rounded shadow-lg flex flex-col">
@@ -302,6 +494,7 @@ export const FileGrid: React.FC<FileGridProps> = ({
         <FileTypeIcon
           fileType={item.fileType}
           isDirectory={item.isDirectory}
+          isArchive={item.isArchive}
           hasAssets={item.hasAssets}
           className="w-12 h-12"
         />
@@ -309,12 +502,89 @@ export const FileGrid: React.FC<FileGridProps> = ({
     );
   };
 
+  // Checkbox in the corner of a card, always visible once something is selected
+  const renderSelectToggle = (item: FileItem, members?: FileItem[]) => {
+    const selected = selectedPaths.has(item.path);
+    return (
+      <button
+        onClick={e => {
+          e.preventDefault();
+          e.stopPropagation();
+          toggleSelected(item, members);
+        }}
+        className={`absolute top-2 left-2 z-10 w-5 h-5 rounded border flex items-center justify-center transition-opacity ${
+          selected
+            ? 'bg-indigo-600 border-indigo-400 opacity-100'
+            : `bg-gray-900/80 border-gray-500 ${selectedPaths.size > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`
+        }`}
+        title={selected ? 'Deselect' : 'Select'}
+      >
+        {selected && <Check className="w-3 h-3 text-white" />}
+      </button>
+    );
+  };
+
+  const renderItemTags = (item: FileItem) => {
+    const tags = getTags(item);
+    if (tags.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        {tags.map(tag => (
+          <span key={tag} className="px-1.5 py-0.5 bg-indigo-600/20 text-indigo-200 rounded text-[10px] leading-none">
+            {tag}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
+  // Dimensions, duration, triangle count... once /api/metadata has read them
+  const renderItemMetadata = (item: FileItem) => {
+    const summary = item.metadata ? summarizeMetadata(item.metadata) : '';
+    if (!summary) return null;
+
+    return <p className="font-mono text-gray-300 truncate" title={summary}>{summary}</p>;
+  };
+
+  // A group card shows how many variants there are and their total size
+  const renderItemSize = (item: FileItem, variations?: SoundVariationGroup) => (
+    <p className="font-mono">
+      {variations
+        ? `${variations.files.length} variants • ${formatFileSize(variations.files.reduce((total, file) => total + file.size, 0))}`
+        : formatFileSize(item.size)}
+    </p>
+  );
+
+  // Parent folder link shown on search results from other folders
+  const renderParentFolder = (item: FileItem) => {
+    if (!item.parentPath) return null;
+
+    const parentName = item.parentPath.split(/[/\\]/).filter(Boolean).pop() || item.parentPath;
+    return (
+      <button
+        onClick={e => {
+          e.preventDefault();
+          e.stopPropagation();
+          clearAllLoads();
+          onNavigate(item.parentPath!);
+        }}
+        className="flex items-center gap-1 text-xs text-indigo-300/80 hover:text-indigo-200 truncate max-w-full"
+        title={item.parentPath}
+      >
+        <FolderOpen className="w-3 h-3 flex-shrink-0" />
+        <span className="truncate">{parentName}</span>
+      </button>
+    );
+  };
+
   const showInFolder = async () => {
     try {
       const response = await fetch('http://localhost:3001/api/show-in-folder', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...API_HEADERS,
         },
         body: JSON.stringify({ filePath: currentPath }),
       });
@@ -331,30 +601,33 @@ export const FileGrid: React.FC<FileGridProps> = ({
 
   if (items.length === 0) {
     return (
-      <div className="flex items-center justify-center h-64 text-gray-400">
-        <div className="text-center">
-          <FileTypeIcon fileType="folder" isDirectory={true} className="w-16 h-16 mx-auto mb-4 opacity-50" />
-          <p>No files found in this directory</p>
-          <button
-            onClick={showInFolder}
-            className="mt-4 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg flex items-center gap-2 mx-auto transition-colors"
-            title="Open in Explorer"
-          >
-            <FolderOpen size={16} />
-            Open in Explorer
-          </button>
+      <UploadDropZone currentPath={currentPath} enabled={canEditFiles} onFileChanges={onFileChanges}>
+        <div className="flex items-center justify-center h-64 text-gray-400">
+          <div className="text-center">
+            <FileTypeIcon fileType="folder" isDirectory={true} className="w-16 h-16 mx-auto mb-4 opacity-50" />
+            <p>No files found in this directory</p>
+            {canEditFiles && <p className="text-sm text-gray-500 mt-1">Drop files here to upload them</p>}
+            <button
+              onClick={showInFolder}
+              className="mt-4 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg flex items-center gap-2 mx-auto transition-colors"
+              title="Open in Explorer"
+            >
+              <FolderOpen size={16} />
+              Open in Explorer
+            </button>
+          </div>
         </div>
-      </div>
+      </UploadDropZone>
     );
   }
 
-  // Filter items based on search query
-  const filteredItems = items.filter(item => 
-    item.name.toLowerCase().includes(searchQuery.toLowerCase())
+  // Filter items based on search query and tags (index results are already matched by the server)
+  const filteredItems = isLibrarySearch ? sourceItems : items.filter(item => 
+    item.name.toLowerCase().includes(searchQuery.toLowerCase()) && hasTags(item, tagFilter)
   );
 
   // Sort directories first, then files, and apply search filter
-  const sortedAndFilteredItems = [
+  const sortedAndFilteredItems = isLibrarySearch ? filteredItems : [
     ...filteredItems.filter(item => item.isDirectory),
     ...filteredItems.filter(item => !item.isDirectory).sort((a, b) => {
       const extA = a.name.split('.').pop()?.toLowerCase() || '';
@@ -365,8 +638,12 @@ export const FileGrid: React.FC<FileGridProps> = ({
     })
   ];
 
+  // Variants of a sound share the card of the first one
+  const variationGroups = groupSoundVariations(sortedAndFilteredItems, isSound);
+  const gridItems = sortedAndFilteredItems.filter(item => (variationGroups.get(item.path)?.files[0] ?? item) === item);
+
   return (
-    <>
+    <UploadDropZone currentPath={currentPath} enabled={canEditFiles && !isLibrarySearch} onFileChanges={onFileChanges}>
       <div className="flex flex-col sm:flex-row justify-between gap-4 mb-4">
         <div className="relative flex-1 max-w-md">
           <input
@@ -386,6 +663,19 @@ export const FileGrid: React.FC<FileGridProps> = ({
             </button>
           )}
         </div>
+        <button
+          onClick={() => setSearchAllFolders(prev => !prev)}
+          className={`px-4 py-2 rounded-lg flex items-center gap-2 transition-colors whitespace-nowrap border ${
+            searchAllFolders
+              ? 'bg-indigo-600/20 border-indigo-500 text-indigo-200'
+              : 'bg-gray-800/50 border-gray-700 text-gray-300 hover:text-white'
+          }`}
+          title="Search every favorite folder instead of only the current one"
+        >
+          {librarySearching ? <Loader2 size={16} className="animate-spin" /> : <Library size={16} />}
+          {searchAllFolders ? 'All favorites' : 'This folder'}
+        </button>
+        <div className="flex-1" />
         <button
           onClick={showInFolder}
           className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg flex items-center gap-2 transition-colors whitespace-nowrap"
@@ -395,13 +685,116 @@ export const FileGrid: React.FC<FileGridProps> = ({
           Open in Explorer
         </button>
       </div>
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <Tag className="w-4 h-4 text-gray-500" />
+          {allTags.map(tag => (
+            <button
+              key={tag.name}
+              onClick={() => toggleTagFilter(tag.name)}
+              className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                tagFilter.includes(tag.name)
+                  ? 'bg-indigo-600/30 border-indigo-500 text-indigo-100'
+                  : 'bg-gray-800/50 border-gray-700 text-gray-300 hover:text-white'
+              }`}
+              title={`${tag.count} tagged`}
+            >
+              {tag.name}
+            </button>
+          ))}
+          {tagFilter.length > 0 && (
+            <button
+              onClick={() => setTagFilter([])}
+              className="text-xs text-gray-400 hover:text-white"
+            >
+              Clear tags
+            </button>
+          )}
+        </div>
+      )}
+      {selectedItems.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-4 px-4 py-2 bg-gray-800 border border-indigo-500/40 rounded-lg text-sm">
+          <span className="text-white">{selectedItems.length} selected</span>
+          <TagEditor
+            tags={[...new Set(selectedItems.flatMap(item => getTags(item)))]}
+            suggestions={allTags.map(tag => tag.name)}
+            onAdd={tag => changeSelectedTags({ add: [tag] })}
+            onRemove={tag => changeSelectedTags({ remove: [tag] })}
+            placeholder="Tag all..."
+          />
+          {tagError && <span className="text-xs text-red-400">{tagError}</span>}
+          <div className="flex-1" />
+          {canEditFiles && selectedItems.length === 1 && (
+            <button
+              onClick={() => setFileDialog({ mode: 'rename', items: selectedItems })}
+              className="flex items-center gap-1 text-gray-300 hover:text-white"
+            >
+              <Pencil className="w-4 h-4" />
+              Rename
+            </button>
+          )}
+          {canEditFiles && (
+            <>
+              <button
+                onClick={() => setFileDialog({ mode: 'move', items: selectedItems })}
+                className="flex items-center gap-1 text-gray-300 hover:text-white"
+              >
+                <FolderInput className="w-4 h-4" />
+                Move to...
+              </button>
+              <button
+                onClick={() => setFileDialog({ mode: 'copy', items: selectedItems })}
+                className="flex items-center gap-1 text-gray-300 hover:text-white"
+              >
+                <Copy className="w-4 h-4" />
+                Copy to...
+              </button>
+              <button
+                onClick={() => deleteItems(selectedItems)}
+                className="flex items-center gap-1 text-red-300 hover:text-red-200"
+                title="Move to the trash"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setSelectedPaths(new Set())}
+            className="flex items-center gap-1 text-gray-400 hover:text-white"
+          >
+            <X className="w-4 h-4" />
+            Clear selection
+          </button>
+        </div>
+      )}
+      {operationError && (
+        <div className="flex items-center justify-between gap-3 mb-4 px-4 py-2 text-sm text-red-400 bg-red-500/10 rounded-lg border border-red-500/20">
+          <span>{operationError}</span>
+          <button onClick={() => setOperationError(null)} className="text-red-300 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {isLibrarySearch && libraryResults && (
+        <div className="mb-4 text-sm text-gray-400">
+          {libraryResults.total > libraryResults.results.length
+            ? `Showing ${libraryResults.results.length} of ${libraryResults.total} matches across all favorites`
+            : `${libraryResults.total} matches across all favorites`}
+          {libraryResults.index.indexing && ' • indexing in progress, results may be incomplete'}
+        </div>
+      )}
       {filteredItems.length === 0 ? (
         <div className="col-span-full text-center py-12 text-gray-400">
-          No items found matching "{searchQuery}"
+          {isLibrarySearch && (librarySearching || !libraryResults)
+            ? 'Searching all favorite folders...'
+            : tagFilter.length > 0
+              ? `No items found tagged ${tagFilter.join(', ')}${searchQuery ? ` matching "${searchQuery}"` : ''}`
+              : `No items found matching "${searchQuery}"`}
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-4">
-          {sortedAndFilteredItems.map((item, index) => (
+          {gridItems.map((item, index) => (
           item.isDirectory ? (
             <a
               key={item.path}
@@ -416,10 +809,12 @@ export const FileGrid: React.FC<FileGridProps> = ({
                 `group cursor-pointer rounded-xl border-2 transition-all duration-300
                 hover:scale-105 hover:shadow-xl hover:shadow-indigo-500/20
                 ${getFileTypeColor(item.fileType, item.isDirectory, item.hasAssets)}
+                ${selectedPaths.has(item.path) ? 'ring-2 ring-indigo-500' : ''}
                 backdrop-blur-sm`
               }
             >
-              <div className="p-4">
+              <div className="p-4 relative">
+                {renderSelectToggle(item)}
                 {/* Enhanced Thumbnail with Priority Loading */}
                 <div className="aspect-square mb-3 rounded-lg overflow-hidden bg-gray-800/50 flex items-center justify-center relative shadow-lg">
                   {renderThumbnail(item, index)}
@@ -429,13 +824,15 @@ export const FileGrid: React.FC<FileGridProps> = ({
                   <h3 className="font-medium text-white truncate group-hover:text-indigo-300 transition-colors text-sm" title={item.name}>
                     {item.name}
                   </h3>
+                  {renderParentFolder(item)}
+                  {renderItemTags(item)}
                 </div>
               </div>
             </a>
           ) : (
             <a
               key={item.path}
-              href={`?path=${encodeURIComponent(currentPath)}&preview=${encodeURIComponent(item.name)}`}
+              href={`?path=${encodeURIComponent(item.parentPath ?? currentPath)}&preview=${encodeURIComponent(item.name)}`}
               onClick={e => {
                 if (!(e.ctrlKey || e.metaKey || e.button === 1)) {
                   e.preventDefault();
@@ -446,21 +843,32 @@ export const FileGrid: React.FC<FileGridProps> = ({
                 `group cursor-pointer rounded-xl border-2 transition-all duration-300
                 hover:scale-105 hover:shadow-xl hover:shadow-indigo-500/20
                 ${getFileTypeColor(item.fileType, item.isDirectory, item.hasAssets)}
+                ${selectedPaths.has(item.path) ? 'ring-2 ring-indigo-500' : ''}
                 backdrop-blur-sm`
               }
             >
-              <div className="p-4">
+              <div className="p-4 relative">
+                {renderSelectToggle(item, variationGroups.get(item.path)?.files)}
                 {/* Enhanced Thumbnail with Priority Loading */}
                 <div className="aspect-square mb-3 rounded-lg overflow-hidden bg-gray-800/50 flex items-center justify-center relative shadow-lg">
                   {renderThumbnail(item, index)}
+                  {variationGroups.has(item.path) && (
+                    <div className="absolute top-2 right-2 flex items-center gap-1 bg-green-500 text-white text-xs px-2 py-1 rounded-full font-medium shadow-lg" title="Numbered variants of this sound">
+                      <Layers className="w-3 h-3" />
+                      {variationGroups.get(item.path)!.files.length}
+                    </div>
+                  )}
                 </div>
                 {/* File Info */}
                 <div className="space-y-2">
-                  <h3 className="font-medium text-white truncate group-hover:text-indigo-300 transition-colors text-sm" title={item.name}>
-                    {item.name}
+                  <h3 className="font-medium text-white truncate group-hover:text-indigo-300 transition-colors text-sm" title={variationGroups.get(item.path)?.name ?? item.name}>
+                    {variationGroups.get(item.path)?.name ?? item.name}
                   </h3>
+                  {renderParentFolder(item)}
+                  {renderItemTags(item)}
                   <div className="text-xs text-gray-400 space-y-1">
-                    <p className="font-mono">{formatFileSize(item.size)}</p>
+                    {renderItemSize(item, variationGroups.get(item.path))}
+                    {renderItemMetadata(item)}
                     <p className="opacity-75">{formatDate(item.modified)}</p>
                   </div>
                 </div>
@@ -472,15 +880,15 @@ export const FileGrid: React.FC<FileGridProps> = ({
       )}
 
       {selectedFile && (
-        selectedFile.fileType === 'fonts' ? (
+        getPreviewKind(selectedFile.fileType) === 'font' ? (
           <FontPreview
             file={selectedFile}
             onClose={() => setSelectedFile(null)}
             getFileUrl={getFileUrl}
             onNavigate={navigateToFile}
-            canNavigate={files.length > 1}
+            canNavigate={navigationFiles.length > 1}
             currentIndex={currentFileIndex + 1}
-            totalFiles={files.length}
+            totalFiles={navigationFiles.length}
           />
         ) : (
           <FilePreview
@@ -489,12 +897,27 @@ export const FileGrid: React.FC<FileGridProps> = ({
             getFileUrl={getFileUrl}
             getThumbnailUrl={getThumbnailUrl}
             onNavigate={navigateToFile}
-            canNavigate={files.length > 1}
+            canNavigate={navigationFiles.length > 1}
             currentIndex={currentFileIndex + 1}
-            totalFiles={files.length}
+            totalFiles={navigationFiles.length}
+            onRename={canEditFiles ? () => setFileDialog({ mode: 'rename', items: [selectedFile] }) : undefined}
+            onDelete={canEditFiles ? () => deleteItems([selectedFile]) : undefined}
+            onFileChanges={canEditFiles ? onFileChanges : undefined}
+            variations={selectedVariations?.files}
+            onSelectVariation={setSelectedFile}
           />
         )
       )}
-    </>
+
+      {fileDialog && (
+        <FileOperationDialog
+          mode={fileDialog.mode}
+          items={fileDialog.items}
+          currentPath={currentPath}
+          onSubmit={submitFileDialog}
+          onClose={() => setFileDialog(null)}
+        />
+      )}
+    </UploadDropZone>
   );
 };
\ No newline at end of file
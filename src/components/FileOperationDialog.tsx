@@ -0,0 +1,133 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { X, Loader2, AlertCircle } from 'lucide-react';
+import { FileItem } from '../types';
+
+export type FileOperationMode = 'rename' | 'move' | 'copy';
+
+interface FileOperationDialogProps {
+  mode: FileOperationMode;
+  items: FileItem[];
+  currentPath: string;
+  // Gets the new name (rename) or the destination folder (move, copy); throws to show an error
+  onSubmit: (value: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const TITLES: Record<FileOperationMode, string> = {
+  rename: 'Rename',
+  move: 'Move to Folder',
+  copy: 'Copy to Folder'
+};
+
+const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:outline-none';
+
+const getFavoritePaths = (): string[] => {
+  try {
+    const favorites = JSON.parse(localStorage.getItem('gameAssetBrowser_favorites') || '[]');
+    return favorites.map((favorite: { path: string }) => favorite.path);
+  } catch {
+    return [];
+  }
+};
+
+export const FileOperationDialog: React.FC<FileOperationDialogProps> = ({ mode, items, currentPath, onSubmit, onClose }) => {
+  const [value, setValue] = useState(mode === 'rename' ? items[0].name : currentPath);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listId = useId();
+
+  // Select the name without its extension, like file managers do
+  const [selectionEnd] = useState(() => {
+    const dot = mode === 'rename' && !items[0].isDirectory ? value.lastIndexOf('.') : -1;
+    return dot > 0 ? dot : value.length;
+  });
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.setSelectionRange(0, selectionEnd);
+  }, [selectionEnd]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setWorking(true);
+    setError(null);
+    try {
+      await onSubmit(value.trim());
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${mode}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const subject = items.length === 1 ? items[0].name : `${items.length} items`;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[60] flex items-center justify-center p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      // Keep the preview's keyboard shortcuts (A/D, Esc...) out of the form
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <form onSubmit={submit} className="bg-gray-800 border border-gray-700 rounded-lg w-full max-w-lg">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-white">{TITLES[mode]}</h2>
+            <p className="text-xs text-gray-400 truncate">{subject}</p>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            {mode === 'rename' ? 'New name' : 'Destination folder'}
+          </label>
+          <input
+            ref={inputRef}
+            type="text"
+            list={mode === 'rename' ? undefined : listId}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className={`${inputClass} ${mode === 'rename' ? '' : 'font-mono'}`}
+          />
+          {mode !== 'rename' && (
+            <datalist id={listId}>
+              {getFavoritePaths().map(favoritePath => <option key={favoritePath} value={favoritePath} />)}
+            </datalist>
+          )}
+
+          {error && (
+            <div className="flex items-center space-x-2 text-red-400 bg-red-500/10 px-3 py-2 rounded-lg border border-red-500/20 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={working || !value.trim()}
+            className="flex items-center space-x-1 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg transition-colors text-sm"
+          >
+            {working && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>{TITLES[mode].split(' ')[0]}</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
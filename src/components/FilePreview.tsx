@@ -1,8 +1,24 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { X, ExternalLink, FolderOpen, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, RotateCcw, Move3D } from 'lucide-react';
-import { FileItem } from '../types';
+import { X, ExternalLink, FolderOpen, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, RotateCcw, Move3D, Send, Pencil, Trash2, Grid3x3, Image as ImageIcon } from 'lucide-react';
+import { DirectoryChangeEvent, FileItem } from '../types';
 import { FileTypeIcon } from './FileTypeIcon';
 import { formatFileSize, formatDate } from '../utils/formatters';
+import { explainAccessDenied, isAccessDenied } from '../utils/accessErrors';
+import { useFileTypes } from '../hooks/useFileTypes';
+import { TagChange, useTags } from '../hooks/useTags';
+import { TagEditor } from './TagEditor';
+import { SendToProject } from './SendToProject';
+import { MetadataInspector } from './MetadataInspector';
+import { SpriteSheetView } from './SpriteSheetView';
+import { MapPreview } from './MapPreview';
+import { AudioPreview } from './AudioPreview';
+import { SoundVariations } from './SoundVariations';
+import { MusicPreview } from './MusicPreview';
+import { loadSpriteSheetSettings } from '../utils/spriteSheet';
+import { MIDI_EXTENSIONS } from '../utils/midiFile';
+import { MODULE_EXTENSIONS } from '../utils/trackerModule';
+import { saveVideoPoster } from '../utils/videoFrames';
+import { API_HEADERS } from '../utils/apiHeaders';
 
 interface FilePreviewProps {
   file: FileItem;
@@ -13,6 +29,12 @@ interface FilePreviewProps {
   canNavigate?: boolean;
   currentIndex?: number;
   totalFiles?: number;
+  onRename?: () => void;
+  onDelete?: () => void;
+  onFileChanges?: (changes: DirectoryChangeEvent[]) => void;
+  // Numbered variants of the same sound (footstep_01 … footstep_08), including this file
+  variations?: FileItem[];
+  onSelectVariation?: (file: FileItem) => void;
 }
 
 export const FilePreview: React.FC<FilePreviewProps> = ({
@@ -22,13 +44,22 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
   onNavigate,
   canNavigate = false,
   currentIndex = 1,
-  totalFiles = 1
+  totalFiles = 1,
+  onRename,
+  onDelete,
+  onFileChanges,
+  variations,
+  onSelectVariation
 }) => {
-  const audioRef = useRef<HTMLAudioElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const imageContainerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const modelContainerRef = useRef<HTMLDivElement>(null);
+  const { getCategory, getPreviewKind } = useFileTypes();
+  const previewKind = getPreviewKind(file.fileType);
+  const { allTags, getTags, updateTags } = useTags();
+  const [tagError, setTagError] = useState<string | null>(null);
+  const [showSendToProject, setShowSendToProject] = useState(false);
   const [imageZoom, setImageZoom] = useState(1);
   const [imagePosition, setImagePosition] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
@@ -41,6 +72,34 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
   const [modelLoading, setModelLoading] = useState(false);
   const [modelError, setModelError] = useState<string | null>(null);
   const [threeScene, setThreeScene] = useState<any>(null);
+  // Picking the video frame used as its thumbnail
+  const [posterState, setPosterState] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const [posterError, setPosterError] = useState<string | null>(null);
+  // Images that were sliced before open as sprite sheets again
+  const [spriteMode, setSpriteMode] = useState(() => loadSpriteSheetSettings(file.path) !== null);
+
+  const changeTags = async (change: TagChange) => {
+    setTagError(null);
+    try {
+      await updateTags([file.path], change);
+    } catch (error) {
+      setTagError(error instanceof Error ? error.message : 'Failed to update tags');
+    }
+  };
+
+  // The frame is taken again from a hidden video (the player's frames can't be read back)
+  const pickPosterFrame = async () => {
+    if (!videoRef.current) return;
+    setPosterState('saving');
+    setPosterError(null);
+    try {
+      await saveVideoPoster(file.path, getFileUrl(file.path), videoRef.current.currentTime);
+      setPosterState('saved');
+    } catch (error) {
+      setPosterState('idle');
+      setPosterError(error instanceof Error ? error.message : 'Failed to save the poster frame');
+    }
+  };
 
   const showInFolder = async () => {
     try {
@@ -48,6 +107,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...API_HEADERS,
         },
         body: JSON.stringify({ filePath: file.path }),
       });
@@ -80,6 +140,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
     setImageNaturalSize({ width: 0, height: 0 });
     setTextContent('');
     setModelError(null);
+    setSpriteMode(loadSpriteSheetSettings(file.path) !== null);
 
     // Cleanup Three.js scene
     if (threeScene) {
@@ -92,10 +153,10 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
 
   // Load 3D model - UPDATED with improved geometric centering
   useEffect(() => {
-    if (file.fileType === 'models' && modelContainerRef.current) {
+    if (previewKind === 'model' && modelContainerRef.current) {
       loadThreeJSModel();
     }
-  }, [file.path, file.fileType]);
+  }, [file.path, previewKind]);
 
   const loadThreeJSModel = async () => {
     if (!modelContainerRef.current) return;
@@ -378,50 +439,26 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
     };
   }, [threeScene]);
 
-  // Auto-play audio when file changes or component mounts
-  useEffect(() => {
-    if (file.fileType === 'audio' && audioRef.current) {
-      // Force reload the audio element
-      audioRef.current.load();
-
-      // Attempt to auto-play after a short delay to ensure the audio is loaded
-      const playAudio = async () => {
-        try {
-          await audioRef.current?.play();
-          console.log('Audio auto-play started successfully');
-        } catch (error) {
-          console.log('Audio auto-play failed (likely due to browser policy):', error);
-          // This is expected behavior in many browsers due to autoplay policies
-          // The user will need to click play manually
-        }
-      };
-
-      // Small delay to ensure audio element is ready
-      const timeoutId = setTimeout(playAudio, 100);
-
-      return () => clearTimeout(timeoutId);
-    }
-  }, [file.path, file.fileType]);
-
-  // Force audio/video reload when file changes (keeping existing logic)
+  // Force video reload when file changes (keeping existing logic)
   useEffect(() => {
-    if (audioRef.current) {
-      audioRef.current.load();
-    }
     if (videoRef.current) {
       videoRef.current.load();
     }
+    setPosterState('idle');
+    setPosterError(null);
   }, [file.path]);
 
   // Load text content for text files
   useEffect(() => {
-    if (file.fileType === 'documents' && (file.extension === '.txt' || file.extension === '.url' || file.extension === '.json' || file.extension === '.xml' || file.extension === '.md')) {
+    if (previewKind === 'text') {
       setTextLoading(true);
       fetch(`http://localhost:3001/api/text-content?path=${encodeURIComponent(file.path)}`)
         .then(response => response.json())
         .then(data => {
           if (data.content !== undefined) {
             setTextContent(data.content);
+          } else if (isAccessDenied(data)) {
+            setTextContent(explainAccessDenied(data));
           } else {
             setTextContent('Error loading file content');
           }
@@ -434,7 +471,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
           setTextLoading(false);
         });
     }
-  }, [file.path, file.fileType, file.extension]);
+  }, [file.path, previewKind]);
 
   // Update container size on resize
   useEffect(() => {
@@ -531,19 +568,19 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
           break;
         case '+':
         case '=':
-          if (file.fileType === 'images') {
+          if (previewKind === 'image') {
             e.preventDefault();
             handleZoomIn();
           }
           break;
         case '-':
-          if (file.fileType === 'images') {
+          if (previewKind === 'image') {
             e.preventDefault();
             handleZoomOut();
           }
           break;
         case '0':
-          if (file.fileType === 'images') {
+          if (previewKind === 'image') {
             e.preventDefault();
             resetZoom();
           }
@@ -553,7 +590,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [canNavigate, onNavigate, onClose, file.fileType]);
+  }, [canNavigate, onNavigate, onClose, previewKind]);
 
   const handleZoomIn = () => {
     setImageZoom(prev => Math.min(prev * 1.5, 5));
@@ -600,13 +637,13 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
   }, [imageZoom, imagePosition]);
 
   const handleWheel = useCallback((e: React.WheelEvent) => {
-    if (file.fileType === 'images') {
+    if (previewKind === 'image') {
       e.preventDefault();
       e.stopPropagation();
       const delta = e.deltaY > 0 ? 0.9 : 1.1;
       setImageZoom(prev => Math.max(0.1, Math.min(5, prev * delta)));
     }
-  }, [file.fileType]);
+  }, [previewKind]);
 
   // Prevent context menu on image
   const handleContextMenu = useCallback((e: React.MouseEvent) => {
@@ -643,12 +680,32 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
   };
 
   const renderPreview = () => {
-    switch (file.fileType) {
-      case 'images':
+    switch (previewKind) {
+      case 'image':
+        if (spriteMode) {
+          return (
+            <div className="bg-gray-900 rounded-lg overflow-hidden p-4" style={{ height: '60vh' }}>
+              <SpriteSheetView
+                key={file.path}
+                filePath={file.path}
+                imageUrl={getFileUrl(file.path)}
+                onExit={() => setSpriteMode(false)}
+              />
+            </div>
+          );
+        }
+
         return (
           <div className="relative bg-gray-900 rounded-lg overflow-hidden" style={{ height: '60vh' }}>
             {/* Zoom Controls */}
             <div className="absolute top-4 right-4 z-10 flex items-center space-x-2 bg-black/50 rounded-lg p-2">
+              <button
+                onClick={() => setSpriteMode(true)}
+                className="p-1 text-white hover:text-gray-300 transition-colors"
+                title="Sprite sheet mode"
+              >
+                <Grid3x3 className="w-4 h-4" />
+              </button>
               <button
                 onClick={handleZoomOut}
                 className="p-1 text-white hover:text-gray-300 transition-colors"
@@ -722,7 +779,14 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
           </div>
         );
 
-      case 'models':
+      case 'map':
+        return (
+          <div style={{ height: '60vh' }}>
+            <MapPreview filePath={file.path} getFileUrl={getFileUrl} />
+          </div>
+        );
+
+      case 'model':
         return (
           <div className="relative bg-gray-900 rounded-lg overflow-hidden" style={{ height: '60vh' }}>
             {/* 3D Model Controls */}
@@ -753,7 +817,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
             {modelError && (
               <div className="absolute inset-0 flex items-center justify-center bg-gray-900">
                 <div className="text-center p-8">
-                  <FileTypeIcon fileType="models" isDirectory={false} className="w-16 h-16 mx-auto mb-4 text-red-400" />
+                  <FileTypeIcon fileType={file.fileType} isDirectory={false} className="w-16 h-16 mx-auto mb-4 text-red-400" />
                   <p className="text-red-400 mb-2">Failed to load 3D model</p>
                   <p className="text-gray-400 text-sm">{modelError}</p>
                   <button
@@ -776,23 +840,25 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
         );
 
       case 'audio':
+        // The browser can't play MIDI or tracker music, so it's rendered in the page
+        if ([...MIDI_EXTENSIONS, ...MODULE_EXTENSIONS].includes(file.extension?.toLowerCase() ?? '')) {
+          return <MusicPreview filePath={file.path} getFileUrl={getFileUrl} />;
+        }
         return (
-          <div className="bg-gray-900 rounded-lg p-8">
-            <audio
-              ref={audioRef}
-              controls
-              className="w-full"
-              key={file.path} // Force re-render when file changes
-              preload="auto" // Preload audio for faster playback
-            >
-              <source src={getFileUrl(file.path)} />
-              Your browser does not support the audio element.
-            </audio>
-            <div className="mt-4 text-center">
-              <p className="text-gray-400 text-sm">
-                🎵 Audio will auto-play when opened (if browser allows)
-              </p>
-            </div>
+          <div className="space-y-3">
+            {variations && onSelectVariation && (
+              <SoundVariations
+                files={variations}
+                selectedPath={file.path}
+                getFileUrl={getFileUrl}
+                onSelect={onSelectVariation}
+              />
+            )}
+            <AudioPreview
+              filePath={file.path}
+              getFileUrl={getFileUrl}
+              onFileChanges={onFileChanges}
+            />
           </div>
         );
 
@@ -808,69 +874,75 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
               <source src={getFileUrl(file.path)} />
               Your browser does not support the video element.
             </video>
+            <div className="flex items-center gap-3 px-3 py-2 text-sm">
+              <button
+                onClick={pickPosterFrame}
+                disabled={posterState === 'saving'}
+                className="flex items-center space-x-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+                title="Show the paused frame on the grid card and folder previews"
+              >
+                <ImageIcon className="w-4 h-4" />
+                <span>Use this frame as the thumbnail</span>
+              </button>
+              {posterState === 'saving' && <span className="text-gray-400">Saving...</span>}
+              {posterState === 'saved' && <span className="text-green-400">Thumbnail updated</span>}
+              {posterError && <span className="text-red-400">{posterError}</span>}
+            </div>
           </div>
         );
 
-      case 'documents':
-        if (file.extension === '.txt' || file.extension === '.url' || file.extension === '.json' || file.extension === '.xml' || file.extension === '.md') {
-          if (textLoading) {
-            return (
-              <div className="bg-gray-900 rounded-lg p-8 text-center">
-                <div className="animate-spin w-8 h-8 border-2 border-indigo-500 border-t-transparent rounded-full mx-auto mb-4"></div>
-                <p className="text-gray-400">Loading file content...</p>
-              </div>
-            );
-          }
+      case 'text':
+        if (textLoading) {
+          return (
+            <div className="bg-gray-900 rounded-lg p-8 text-center">
+              <div className="animate-spin w-8 h-8 border-2 border-indigo-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+              <p className="text-gray-400">Loading file content...</p>
+            </div>
+          );
+        }
 
-          // Special handling for URL files
-          if (file.extension === '.url') {
-            const url = parseUrlFile(textContent);
-            return (
-              <div className="bg-gray-900 rounded-lg p-6">
-                <div className="mb-4">
-                  <h4 className="text-lg font-semibold text-white mb-2">URL Shortcut</h4>
-                  <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
-                    <div className="flex items-center justify-between">
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm text-gray-400 mb-1">Target URL:</p>
-                        <p className="text-white font-mono text-sm break-all">{url}</p>
-                      </div>
+        // Special handling for URL files
+        if (file.extension === '.url') {
+          const url = parseUrlFile(textContent);
+          return (
+            <div className="bg-gray-900 rounded-lg p-6">
+              <div className="mb-4">
+                <h4 className="text-lg font-semibold text-white mb-2">URL Shortcut</h4>
+                <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-400 mb-1">Target URL:</p>
+                      <p className="text-white font-mono text-sm break-all">{url}</p>
                     </div>
                   </div>
                 </div>
-                <div className="bg-gray-800 rounded-lg p-4 max-h-64 overflow-auto">
-                  <h5 className="text-sm font-medium text-gray-300 mb-2">Raw Content:</h5>
-                  <pre className="text-sm text-gray-300 whitespace-pre-wrap">
-                    <code>{textContent}</code>
-                  </pre>
-                </div>
               </div>
-            );
-          }
-
-          // Regular text file display
-          return (
-            <div className="bg-gray-900 rounded-lg p-4 max-h-96 overflow-auto">
-              <div className="mb-2 flex items-center justify-between">
-                <h4 className="text-sm font-medium text-gray-300">
-                  {file.extension === '.json' ? 'JSON Content' :
-                    file.extension === '.xml' ? 'XML Content' :
-                      file.extension === '.md' ? 'Markdown Content' : 'Text Content'}
-                </h4>
-                <span className="text-xs text-gray-500">
-                  {textContent.split('\n').length} lines • {textContent.length} characters
-                </span>
+              <div className="bg-gray-800 rounded-lg p-4 max-h-64 overflow-auto">
+                <h5 className="text-sm font-medium text-gray-300 mb-2">Raw Content:</h5>
+                <pre className="text-sm text-gray-300 whitespace-pre-wrap">
+                  <code>{textContent}</code>
+                </pre>
               </div>
-              <pre className={`text-sm text-gray-300 whitespace-pre-wrap ${getSyntaxClass(file.extension || '')}`}>
-                <code>{textContent}</code>
-              </pre>
             </div>
           );
         }
+
+        // Regular text file display
         return (
-          <div className="bg-gray-900 rounded-lg p-8 text-center">
-            <FileTypeIcon fileType={file.fileType} isDirectory={false} className="w-16 h-16 mx-auto mb-4" />
-            <p className="text-gray-400">Preview not available for this file type</p>
+          <div className="bg-gray-900 rounded-lg p-4 max-h-96 overflow-auto">
+            <div className="mb-2 flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-300">
+                {file.extension === '.json' ? 'JSON Content' :
+                  file.extension === '.xml' ? 'XML Content' :
+                    file.extension === '.md' ? 'Markdown Content' : 'Text Content'}
+              </h4>
+              <span className="text-xs text-gray-500">
+                {textContent.split('\n').length} lines • {textContent.length} characters
+              </span>
+            </div>
+            <pre className={`text-sm text-gray-300 whitespace-pre-wrap ${getSyntaxClass(file.extension || '')}`}>
+              <code>{textContent}</code>
+            </pre>
           </div>
         );
 
@@ -922,13 +994,38 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
                 {canNavigate && (
                   <span>{currentIndex} of {totalFiles}</span>
                 )}
-                {file.fileType === 'images' && imageNaturalSize.width > 0 && (
+                {previewKind === 'image' && imageNaturalSize.width > 0 && (
                   <span>{imageNaturalSize.width}×{imageNaturalSize.height}px</span>
                 )}
               </div>
             </div>
           </div>
           <div className="flex items-center space-x-2">
+            {onRename && (
+              <button
+                onClick={onRename}
+                className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                title="Rename"
+              >
+                <Pencil className="w-5 h-5" />
+              </button>
+            )}
+            {onDelete && (
+              <button
+                onClick={onDelete}
+                className="p-2 text-gray-400 hover:text-red-300 hover:bg-gray-700 rounded-lg transition-colors"
+                title="Move to the trash"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={() => setShowSendToProject(true)}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+              title="Send to project"
+            >
+              <Send className="w-5 h-5" />
+            </button>
             <button
               onClick={showInFolder}
               className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
@@ -973,7 +1070,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
               </div>
               <div>
                 <span className="text-gray-400">Type:</span>
-                <p className="text-white">{file.fileType}</p>
+                <p className="text-white">{getCategory(file.fileType)?.label ?? file.fileType}</p>
               </div>
               <div>
                 <span className="text-gray-400">Extension:</span>
@@ -983,7 +1080,20 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
                 <span className="text-gray-400">Size:</span>
                 <p className="text-white">{formatFileSize(file.size)}</p>
               </div>
+              <div className="col-span-2">
+                <span className="text-gray-400">Tags:</span>
+                <div className="mt-1">
+                  <TagEditor
+                    tags={getTags(file)}
+                    suggestions={allTags.map(tag => tag.name)}
+                    onAdd={tag => changeTags({ add: [tag] })}
+                    onRemove={tag => changeTags({ remove: [tag] })}
+                  />
+                  {tagError && <p className="text-xs text-red-400 mt-1">{tagError}</p>}
+                </div>
+              </div>
             </div>
+            <MetadataInspector file={file} className="mt-4 pt-4 border-t border-gray-800" />
           </div>
         </div>
 
@@ -992,15 +1102,20 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
           <div className="px-8 pb-4 flex-shrink-0">
             <div className="text-center text-sm text-gray-500">
               Use A/D or arrow keys to navigate • {
-                file.fileType === 'images' ? 'Scroll to zoom • +/- keys to zoom • 0 to reset' :
-                  file.fileType === 'models' ? 'Left click + drag to rotate • Right click + drag to pan • Scroll to zoom' :
-                    file.fileType === 'audio' ? 'Audio auto-plays when opened' :
-                      'Esc to close'
+                previewKind === 'image' ? 'Scroll to zoom • +/- keys to zoom • 0 to reset' :
+                  previewKind === 'model' ? 'Left click + drag to rotate • Right click + drag to pan • Scroll to zoom' :
+                    previewKind === 'map' ? 'Scroll to zoom • Drag to pan' :
+                      previewKind === 'audio' ? (variations ? 'R to play a random variant • ' : '') + 'Space to play • Drag to mark a region • L to loop it • Scroll to zoom' :
+                        'Esc to close'
               }
             </div>
           </div>
         )}
       </div>
+
+      {showSendToProject && (
+        <SendToProject file={file} onClose={() => setShowSendToProject(false)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
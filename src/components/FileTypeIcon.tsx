@@ -1,19 +1,16 @@
 import React from 'react';
 import {
-  Image,
-  Box,
-  Music,
-  Video,
-  FileText,
   Folder,
   FolderOpen,
-  File,
-  Type
+  Package
 } from 'lucide-react';
+import { useFileTypes } from '../hooks/useFileTypes';
+import { getCategoryIcon, getColorClasses } from '../utils/fileTypeStyles';
 
 interface FileTypeIconProps {
   fileType: string;
   isDirectory: boolean;
+  isArchive?: boolean;
   hasAssets?: boolean;
   className?: string;
 }
@@ -21,29 +18,24 @@ interface FileTypeIconProps {
 export const FileTypeIcon: React.FC<FileTypeIconProps> = ({
   fileType,
   isDirectory,
+  isArchive,
   hasAssets,
   className = "w-6 h-6"
 }) => {
+  const { getCategory } = useFileTypes();
+
+  if (isArchive) {
+    return <Package className={`${className} text-amber-400`} />;
+  }
+
   if (isDirectory) {
     return hasAssets ?
       <FolderOpen className={`${className} text-emerald-400`} /> :
       <Folder className={`${className} text-gray-400`} />;
   }
 
-  switch (fileType) {
-    case 'images':
-      return <Image className={`${className} text-blue-400`} />;
-    case 'models':
-      return <Box className={`${className} text-purple-400`} />;
-    case 'audio':
-      return <Music className={`${className} text-green-400`} />;
-    case 'video':
-      return <Video className={`${className} text-red-400`} />;
-    case 'documents':
-      return <FileText className={`${className} text-yellow-400`} />;
-    case 'fonts':
-      return <Type className={`${className} text-orange-400`} />;
-    default:
-      return <File className={`${className} text-gray-400`} />;
-  }
-};
\ No newline at end of file
+  // Icon and color come from the file type settings
+  const category = getCategory(fileType);
+  const Icon = getCategoryIcon(category?.icon);
+  return <Icon className={`${className} ${getColorClasses(category?.color).text}`} />;
+};
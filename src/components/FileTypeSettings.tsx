@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, RotateCcw, Loader2, AlertCircle } from 'lucide-react';
+import { FileCategory, FileTypesConfig, PreviewKind } from '../types';
+import { useFileTypes } from '../hooks/useFileTypes';
+import { getCategoryIcon, getColorClasses } from '../utils/fileTypeStyles';
+
+interface FileTypeSettingsProps {
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Lists are edited as plain text ("png, jpg") and split again when saving
+type DraftCategory = Omit<FileCategory, 'extensions'> & { extensions: string; isNew?: boolean };
+
+interface Draft {
+  categories: DraftCategory[];
+  hiddenNames: string;
+  hiddenExtensions: string;
+}
+
+const PREVIEW_LABELS: Record<PreviewKind, string> = {
+  image: 'Image',
+  model: '3D model',
+  audio: 'Audio player',
+  video: 'Video player',
+  text: 'Text',
+  font: 'Font',
+  map: 'Tile map',
+  none: 'Icon only'
+};
+
+const toDraft = (fileTypes: FileTypesConfig): Draft => ({
+  categories: fileTypes.categories.map(category => ({ ...category, extensions: category.extensions.join(', ') })),
+  hiddenNames: fileTypes.hiddenNames.join(', '),
+  hiddenExtensions: fileTypes.hiddenExtensions.join(', ')
+});
+
+const splitList = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+
+const fromDraft = (draft: Draft): FileTypesConfig => ({
+  categories: draft.categories.map(category => ({
+    // New categories get an id from their name unless one was typed
+    id: category.id || category.label.trim().toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, ''),
+    label: category.label,
+    extensions: splitList(category.extensions),
+    preview: category.preview,
+    color: category.color,
+    icon: category.icon
+  })),
+  hiddenNames: draft.hiddenNames.split(',').map(name => name.trim()).filter(Boolean),
+  hiddenExtensions: splitList(draft.hiddenExtensions)
+});
+
+const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:outline-none';
+
+export const FileTypeSettings: React.FC<FileTypeSettingsProps> = ({ onClose, onSaved }) => {
+  const { config, saveFileTypes } = useFileTypes();
+  const [draft, setDraft] = useState<Draft | null>(config ? toDraft(config.fileTypes) : null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The settings may still be loading when the panel opens
+  if (!draft && config) {
+    setDraft(toDraft(config.fileTypes));
+  }
+
+  const updateCategory = (index: number, changes: Partial<DraftCategory>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      categories: prev.categories.map((category, i) => i === index ? { ...category, ...changes } : category)
+    });
+  };
+
+  const removeCategory = (index: number) => {
+    setDraft(prev => prev && { ...prev, categories: prev.categories.filter((_, i) => i !== index) });
+  };
+
+  const addCategory = () => {
+    setDraft(prev => prev && {
+      ...prev,
+      categories: [...prev.categories, { id: '', label: '', extensions: '', preview: 'none', color: 'gray', icon: 'file', isNew: true }]
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await saveFileTypes(fromDraft(draft));
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save file type settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-gray-800 border border-gray-700 rounded-lg w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700 flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-semibold text-white">File Types</h2>
+            <p className="text-xs text-gray-400">
+              Which extensions belong to which category, and which files are hidden.
+              {config && <> Saved to <span className="font-mono">{config.configFile}</span></>}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!draft || !config ? (
+          <div className="flex items-center justify-center h-64 space-x-3 text-indigo-400">
+            <Loader2 className="w-6 h-6 animate-spin" />
+            <span>Loading settings...</span>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-auto p-4 space-y-4">
+            {draft.categories.map((category, index) => {
+              const Icon = getCategoryIcon(category.icon);
+              return (
+                <div key={index} className="bg-gray-900 border border-gray-600 rounded-lg p-3 space-y-3">
+                  <div className="flex items-center space-x-3">
+                    <Icon className={`w-5 h-5 flex-shrink-0 ${getColorClasses(category.color).text}`} />
+                    <input
+                      type="text"
+                      value={category.label}
+                      onChange={(e) => updateCategory(index, { label: e.target.value })}
+                      placeholder="Category name, e.g. Textures"
+                      className={inputClass}
+                    />
+                    {category.isNew ? (
+                      <input
+                        type="text"
+                        value={category.id}
+                        onChange={(e) => updateCategory(index, { id: e.target.value })}
+                        placeholder="id (optional)"
+                        className="w-40 flex-shrink-0 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm font-mono placeholder-gray-400 focus:border-indigo-500 focus:outline-none"
+                      />
+                    ) : (
+                      <span className="text-xs text-gray-500 font-mono flex-shrink-0">{category.id}</span>
+                    )}
+                    <button
+                      onClick={() => removeCategory(index)}
+                      className="p-1 text-gray-400 hover:text-red-400 transition-colors flex-shrink-0"
+                      title="Remove category"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  <div>
+                    <label className="block text-xs font-medium text-gray-400 mb-1">Extensions</label>
+                    <input
+                      type="text"
+                      value={category.extensions}
+                      onChange={(e) => updateCategory(index, { extensions: e.target.value })}
+                      placeholder=".png, .jpg"
+                      className={`${inputClass} font-mono`}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Preview</label>
+                      <select
+                        value={category.preview}
+                        onChange={(e) => updateCategory(index, { preview: e.target.value as PreviewKind })}
+                        className={inputClass}
+                      >
+                        {config.options.previewKinds.map(kind => (
+                          <option key={kind} value={kind}>{PREVIEW_LABELS[kind] ?? kind}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Icon</label>
+                      <select
+                        value={category.icon}
+                        onChange={(e) => updateCategory(index, { icon: e.target.value })}
+                        className={inputClass}
+                      >
+                        {config.options.icons.map(icon => (
+                          <option key={icon} value={icon}>{icon}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Color</label>
+                      <div className="flex flex-wrap gap-1 py-1">
+                        {config.options.colors.map(color => (
+                          <button
+                            key={color}
+                            onClick={() => updateCategory(index, { color })}
+                            className={`w-6 h-6 rounded-full ${getColorClasses(color).swatch} ${category.color === color ? 'ring-2 ring-white' : 'opacity-60 hover:opacity-100'}`}
+                            title={color}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            <button
+              onClick={addCategory}
+              className="flex items-center space-x-1 px-3 py-1 bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Category</span>
+            </button>
+
+            <div className="bg-gray-900 border border-gray-600 rounded-lg p-3 space-y-3">
+              <h3 className="text-sm font-semibold text-white">Hidden Files</h3>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Names</label>
+                <input
+                  type="text"
+                  value={draft.hiddenNames}
+                  onChange={(e) => setDraft({ ...draft, hiddenNames: e.target.value })}
+                  placeholder=".DS_Store, Thumbs.db"
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Extensions</label>
+                <input
+                  type="text"
+                  value={draft.hiddenExtensions}
+                  onChange={(e) => setDraft({ ...draft, hiddenExtensions: e.target.value })}
+                  placeholder=".tmp, .bin"
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="p-4 border-t border-gray-700 flex-shrink-0 space-y-3">
+          {error && (
+            <div className="flex items-center space-x-2 text-red-400 bg-red-500/10 px-3 py-2 rounded-lg border border-red-500/20 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => config && setDraft(toDraft(config.defaults))}
+              disabled={!config}
+              className="flex items-center space-x-1 px-3 py-2 text-gray-400 hover:text-white transition-colors text-sm"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>Reset to Defaults</span>
+            </button>
+            <div className="flex space-x-2">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!draft || saving}
+                className="flex items-center space-x-1 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg transition-colors text-sm"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Save</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { FileItem } from '../types';
 import { ChevronLeft, ChevronRight, X, FolderOpen, ExternalLink } from 'lucide-react';
+import { MetadataInspector } from './MetadataInspector';
+import { API_HEADERS } from '../utils/apiHeaders';
 
 interface FontPreviewProps {
   file: FileItem;
@@ -87,6 +89,7 @@ export const FontPreview: React.FC<FontPreviewProps> = ({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...API_HEADERS,
         },
         body: JSON.stringify({ filePath: file.path }),
       });
@@ -191,6 +194,10 @@ export const FontPreview: React.FC<FontPreviewProps> = ({
             )}
           </div>
         </div>
+        {/* Font Details */}
+        <div className="px-6 pb-6 flex-shrink-0">
+          <MetadataInspector file={file} className="bg-gray-900 rounded-lg p-4" />
+        </div>
         {/* Navigation hint */}
         {canNavigate && (
           <div className="px-8 pb-4 flex-shrink-0">
@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize, Eye, EyeOff, AlertCircle, Loader2 } from 'lucide-react';
+import { MapData } from '../types';
+import { explainAccessDenied, isAccessDenied } from '../utils/accessErrors';
+
+const API_BASE = 'http://localhost:3001/api';
+
+interface MapPreviewProps {
+  filePath: string;
+  getFileUrl: (path: string) => string;
+}
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 16;
+
+const loadImage = (url: string) => new Promise<HTMLImageElement | null>(resolve => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => resolve(null);
+  image.src = url;
+});
+
+// Tiled and LDtk maps drawn on a canvas with their tile layers, which can be toggled.
+// Scroll to zoom around the cursor, drag to pan
+export const MapPreview: React.FC<MapPreviewProps> = ({ filePath, getFileUrl }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [map, setMap] = useState<MapData | null>(null);
+  const [images, setImages] = useState<(HTMLImageElement | null)[]>([]);
+  const [hiddenLayers, setHiddenLayers] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState({ zoom: 1, x: 0, y: 0 });
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  const dragRef = useRef<{ x: number; y: number; viewX: number; viewY: number } | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const url = new URL(`${API_BASE}/map`);
+    url.searchParams.set('path', filePath);
+    setMap(null);
+    setImages([]);
+    setError(null);
+
+    (async () => {
+      try {
+        const response = await fetch(url, { signal: controller.signal });
+        const data = await response.json().catch(() => ({ error: 'Failed to read map' }));
+        if (!response.ok) throw new Error(isAccessDenied(data) ? explainAccessDenied(data) : data.error || 'Failed to read map');
+
+        const loaded = await Promise.all((data as MapData).images.map(image =>
+          image.missing ? Promise.resolve(null) : loadImage(getFileUrl(image.path))));
+        if (controller.signal.aborted) return;
+        setMap(data);
+        setImages(loaded);
+        setHiddenLayers(new Set((data as MapData).layers.flatMap((layer, index) => layer.visible ? [] : [index])));
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Failed to read map');
+      }
+    })();
+
+    return () => controller.abort();
+  }, [filePath, getFileUrl]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setCanvasSize({ width: Math.floor(entry.contentRect.width), height: Math.floor(entry.contentRect.height) });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const fitToView = useCallback(() => {
+    if (!map || !canvasSize.width || !canvasSize.height) return;
+    const zoom = Math.min(canvasSize.width / map.width, canvasSize.height / map.height, MAX_ZOOM) * 0.95;
+    setView({ zoom, x: (canvasSize.width - map.width * zoom) / 2, y: (canvasSize.height - map.height * zoom) / 2 });
+  }, [map, canvasSize]);
+
+  // Start with the whole map in view
+  useEffect(() => {
+    fitToView();
+  }, [fitToView]);
+
+  // Only tiles inside the view are drawn, so panning around big maps stays smooth
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !map) return;
+
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.setTransform(view.zoom, 0, 0, view.zoom, view.x, view.y);
+    context.imageSmoothingEnabled = view.zoom < 1;
+
+    if (map.backgroundColor) {
+      context.fillStyle = map.backgroundColor;
+      context.fillRect(0, 0, map.width, map.height);
+    }
+    for (const region of map.regions) {
+      context.fillStyle = region.color;
+      context.fillRect(region.x, region.y, region.width, region.height);
+    }
+
+    const left = -view.x / view.zoom;
+    const top = -view.y / view.zoom;
+    const right = left + canvas.width / view.zoom;
+    const bottom = top + canvas.height / view.zoom;
+
+    map.layers.forEach((layer, layerIndex) => {
+      if (hiddenLayers.has(layerIndex)) return;
+      context.globalAlpha = layer.opacity;
+      const { tiles } = layer;
+      for (let t = 0; t < tiles.length; t += 8) {
+        const dx = tiles[t];
+        const dy = tiles[t + 1];
+        const w = tiles[t + 5];
+        const h = tiles[t + 6];
+        const image = images[tiles[t + 2]];
+        if (!image || dx > right || dy > bottom || dx + w < left || dy + h < top) continue;
+
+        const sx = tiles[t + 3];
+        const sy = tiles[t + 4];
+        const flags = tiles[t + 7];
+        if (!flags) {
+          context.drawImage(image, sx, sy, w, h, dx, dy, w, h);
+          continue;
+        }
+        // Flipped tiles: diagonal first, then horizontal and vertical (like Tiled)
+        context.save();
+        context.translate(dx + w / 2, dy + h / 2);
+        context.scale(flags & 1 ? -1 : 1, flags & 2 ? -1 : 1);
+        if (flags & 4) context.transform(0, 1, 1, 0, 0, 0);
+        context.drawImage(image, sx, sy, w, h, -w / 2, -h / 2, w, h);
+        context.restore();
+      }
+    });
+    context.globalAlpha = 1;
+  }, [map, images, hiddenLayers, view, canvasSize]);
+
+  const zoomAt = (factor: number, pointX: number, pointY: number) => {
+    setView(prev => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom * factor));
+      const scale = zoom / prev.zoom;
+      return { zoom, x: pointX - (pointX - prev.x) * scale, y: pointY - (pointY - prev.y) * scale };
+    });
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    e.stopPropagation();
+    const bounds = e.currentTarget.getBoundingClientRect();
+    zoomAt(e.deltaY > 0 ? 0.9 : 1.1, e.clientX - bounds.left, e.clientY - bounds.top);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    dragRef.current = { x: e.clientX, y: e.clientY, viewX: view.x, viewY: view.y };
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      setView(prev => ({ ...prev, x: drag.viewX + moveEvent.clientX - drag.x, y: drag.viewY + moveEvent.clientY - drag.y }));
+    };
+    const handleMouseUp = () => {
+      dragRef.current = null;
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const toggleLayer = (index: number) => {
+    setHiddenLayers(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const missingImages = map?.images.filter((image, index) => image.missing || !images[index]) ?? [];
+
+  return (
+    <div className="flex h-full space-x-4">
+      <div ref={containerRef} className="relative flex-1 min-w-0 bg-gray-900 rounded-lg overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          width={canvasSize.width}
+          height={canvasSize.height}
+          className="absolute inset-0 cursor-grab active:cursor-grabbing"
+          onWheel={handleWheel}
+          onMouseDown={handleMouseDown}
+          onContextMenu={e => e.preventDefault()}
+        />
+
+        {map && (
+          <div className="absolute top-4 right-4 z-10 flex items-center space-x-2 bg-black/50 rounded-lg p-2">
+            <button onClick={() => zoomAt(1 / 1.5, canvasSize.width / 2, canvasSize.height / 2)} className="p-1 text-white hover:text-gray-300 transition-colors" title="Zoom out">
+              <ZoomOut className="w-4 h-4" />
+            </button>
+            <span className="text-white text-sm font-mono min-w-12 text-center">{Math.round(view.zoom * 100)}%</span>
+            <button onClick={() => zoomAt(1.5, canvasSize.width / 2, canvasSize.height / 2)} className="p-1 text-white hover:text-gray-300 transition-colors" title="Zoom in">
+              <ZoomIn className="w-4 h-4" />
+            </button>
+            <button onClick={fitToView} className="p-1 text-white hover:text-gray-300 transition-colors" title="Fit the map">
+              <Maximize className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {!map && !error && (
+          <div className="absolute inset-0 flex items-center justify-center space-x-3 text-indigo-400">
+            <Loader2 className="w-6 h-6 animate-spin" />
+            <span>Loading map...</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center p-6">
+            <div className="flex items-center space-x-2 text-red-400 bg-red-500/10 px-4 py-3 rounded-lg border border-red-500/20 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {map && (
+        <div className="w-56 flex-shrink-0 overflow-auto space-y-4 text-sm">
+          <div>
+            <h3 className="font-medium text-gray-300 mb-2">Layers</h3>
+            {map.layers.length === 0 && <p className="text-xs text-gray-500">No tile layers</p>}
+            <ul className="space-y-1">
+              {map.layers.map((layer, index) => (
+                <li key={index}>
+                  <button
+                    onClick={() => toggleLayer(index)}
+                    className={`w-full flex items-center space-x-2 px-2 py-1 rounded hover:bg-gray-700 transition-colors text-left ${
+                      hiddenLayers.has(index) ? 'text-gray-500' : 'text-gray-200'
+                    }`}
+                    title={hiddenLayers.has(index) ? 'Show layer' : 'Hide layer'}
+                  >
+                    {hiddenLayers.has(index) ? <EyeOff className="w-4 h-4 flex-shrink-0" /> : <Eye className="w-4 h-4 flex-shrink-0" />}
+                    <span className="truncate">{layer.name || `Layer ${index + 1}`}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <p className="text-xs text-gray-400 font-mono">
+            {map.width}×{map.height}px • {map.format === 'ldtk' ? 'LDtk' : `Tiled, ${map.orientation}`}
+          </p>
+
+          {(missingImages.length > 0 || map.warnings.length > 0) && (
+            <div className="space-y-1 text-xs text-amber-300">
+              {missingImages.map(image => (
+                <p key={image.path} className="break-all" title={image.path}>Tileset image not found: {image.path}</p>
+              ))}
+              {map.warnings.map(warning => <p key={warning}>{warning}</p>)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
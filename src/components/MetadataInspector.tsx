@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { AssetMetadata, FileItem } from '../types';
+import { getMetadataRows } from '../utils/assetMetadata';
+
+const API_BASE = 'http://localhost:3001/api';
+
+interface MetadataInspectorProps {
+  file: FileItem;
+  // Classes of the wrapper, which isn't rendered at all when the file has no details
+  className?: string;
+}
+
+// Per-type details of the previewed file; uses what the listing already has or asks the server
+export const MetadataInspector: React.FC<MetadataInspectorProps> = ({ file, className = '' }) => {
+  // Remembers which file it belongs to, so nothing stale shows while the next file loads
+  const [fetched, setFetched] = useState<{ path: string; metadata?: AssetMetadata | null; error?: string } | null>(null);
+
+  useEffect(() => {
+    if (file.metadata !== undefined) return;
+
+    const controller = new AbortController();
+    const url = new URL(`${API_BASE}/metadata`);
+    url.searchParams.set('path', file.path);
+
+    fetch(url, { signal: controller.signal })
+      .then(async response => {
+        const data = await response.json().catch(() => ({ error: 'Failed to read metadata' }));
+        if (!response.ok) throw new Error(data.error || 'Failed to read metadata');
+        setFetched({ path: file.path, metadata: data.metadata });
+      })
+      .catch(err => {
+        if (err.name === 'AbortError') return;
+        setFetched({ path: file.path, error: err instanceof Error ? err.message : 'Failed to read metadata' });
+      });
+
+    return () => controller.abort();
+  }, [file.path, file.metadata]);
+
+  const current = file.metadata === undefined && fetched?.path === file.path ? fetched : null;
+  const metadata = file.metadata !== undefined ? file.metadata : current?.metadata;
+  const error = current?.error;
+
+  if (error) {
+    return (
+      <div className={className}>
+        <p className="text-xs text-red-400">{error}</p>
+      </div>
+    );
+  }
+
+  if (metadata === undefined) {
+    return (
+      <div className={`${className} flex items-center space-x-2 text-xs text-gray-400`}>
+        <Loader2 className="w-3 h-3 animate-spin" />
+        <span>Reading file details...</span>
+      </div>
+    );
+  }
+
+  const rows = metadata ? getMetadataRows(metadata) : [];
+  if (rows.length === 0) return null;
+
+  return (
+    <div className={`${className} grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-2 text-sm`}>
+      {rows.map(row => (
+        <div key={row.label}>
+          <span className="text-gray-400">{row.label}:</span>
+          <p className="text-white">{row.value}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { useModelLoader } from '../hooks/useModelLoader';
 
 interface Model3DThumbnailProps {
   modelPath: string;
+  modified?: string; // Model mtime, lets a thumbnail rendered on an earlier visit be reused
   getFileUrl: (path: string) => string;
   className?: string;
   priority?: number; // Higher number = higher priority
@@ -11,15 +12,16 @@ interface Model3DThumbnailProps {
 
 export const Model3DThumbnail: React.FC<Model3DThumbnailProps> = ({
   modelPath,
+  modified = '',
   className = '',
   priority = 0
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [threeScene] = useState<any>(null);
-  const { loadModel, cancelLoad, getLoadingState } = useModelLoader();
+  const { loadModel, cancelLoad, startTurntable, stopTurntable, getLoadingState } = useModelLoader();
   
-  // Generate unique ID for this thumbnail
-  const thumbnailId = React.useMemo(() => `thumbnail-${modelPath}-${Date.now()}`, [modelPath]);
+  // Stable ID so an already loaded model is reused when the thumbnail remounts
+  const thumbnailId = `thumbnail-${modelPath}-${modified}`;
   
   const loadingState = getLoadingState(thumbnailId);
 
@@ -27,7 +29,7 @@ export const Model3DThumbnail: React.FC<Model3DThumbnailProps> = ({
     if (!containerRef.current) return;
 
     // Start loading the model
-    const cleanup = loadModel(thumbnailId, modelPath, containerRef, priority);
+    const cleanup = loadModel(thumbnailId, modelPath, containerRef, priority, modified);
 
     return () => {
       // Cleanup when component unmounts or modelPath changes
@@ -36,7 +38,7 @@ export const Model3DThumbnail: React.FC<Model3DThumbnailProps> = ({
         threeScene.cleanup();
       }
     };
-  }, [modelPath, priority, loadModel, thumbnailId]);
+  }, [modelPath, modified, priority, loadModel, thumbnailId]);
 
   // Cancel loading when component is no longer visible (intersection observer)
   useEffect(() => {
@@ -75,7 +77,11 @@ export const Model3DThumbnail: React.FC<Model3DThumbnailProps> = ({
   }
 
   return (
-    <div className={`relative ${className}`}>
+    <div
+      className={`relative ${className}`}
+      onMouseEnter={() => startTurntable(thumbnailId)}
+      onMouseLeave={() => stopTurntable(thumbnailId)}
+    >
       <div
         ref={containerRef}
         className="w-full h-full"
@@ -0,0 +1,224 @@
+import React, { useCallback, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { AudioPreview } from './AudioPreview';
+import { DRUM_CHANNEL, getMidiPosition, GM_PROGRAMS, MIDI_EXTENSIONS, MidiSong, parseMidi } from '../utils/midiFile';
+import { renderMidi } from '../utils/midiSynth';
+import { ModuleCell, NO_NOTE, NOTE_CUT, NOTE_FADE, NOTE_OFF, parseModule, TrackerModule } from '../utils/trackerModule';
+import { ModuleRow, renderModule } from '../utils/modulePlayer';
+
+interface MusicPreviewProps {
+  filePath: string;
+  getFileUrl: (path: string) => string;
+}
+
+type Song =
+  | { kind: 'midi'; song: MidiSong }
+  | { kind: 'module'; module: TrackerModule; rows: ModuleRow[] };
+
+const NOTE_NAMES = ['C-', 'C#', 'D-', 'D#', 'E-', 'F-', 'F#', 'G-', 'G#', 'A-', 'A#', 'B-'];
+
+// Octaves are shown the way each tracker numbers them (ProTracker's C-2 is Impulse Tracker's C-5)
+const OCTAVE_SHIFT = { mod: 3, s3m: 1, xm: 1, it: 0 };
+
+// Rows shown above and below the playing one
+const PATTERN_CONTEXT = 4;
+
+const hex = (value: number) => value.toString(16).toUpperCase().padStart(2, '0');
+
+const formatNote = (note: number, shift: number) => {
+  if (note === NO_NOTE) return '...';
+  if (note === NOTE_OFF) return '===';
+  if (note === NOTE_CUT) return '^^^';
+  if (note === NOTE_FADE) return '~~~';
+  return `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - shift}`;
+};
+
+// Volume column as FastTracker and Impulse Tracker show it: the volume, or a command and value
+const formatVolume = (module: TrackerModule, volume: number) => {
+  if (volume < 0) return '...';
+  if (module.format === 'xm') {
+    if (volume <= 0x50) return ` ${hex(volume - 0x10)}`;
+    return ` ${'-+DUSVPLRM'[(volume >> 4) - 6]}${(volume & 15).toString(16).toUpperCase()}`;
+  }
+  if (module.format === 'it') {
+    if (volume <= 64) return `v${String(volume).padStart(2, '0')}`;
+    if (volume >= 128 && volume <= 192) return `p${String(volume - 128).padStart(2, '0')}`;
+    const ranges = [[65, 'a'], [75, 'b'], [85, 'c'], [95, 'd'], [105, 'e'], [115, 'f'], [193, 'g'], [203, 'h']] as const;
+    const range = [...ranges].reverse().find(([start]) => volume >= start);
+    return range ? `${range[1]}${String(volume - range[0]).padStart(2, '0')}` : '...';
+  }
+  return `v${String(volume).padStart(2, '0')}`;
+};
+
+const formatCell = (module: TrackerModule, cell: ModuleCell) => [
+  formatNote(cell.note, OCTAVE_SHIFT[module.format]),
+  cell.instrument ? hex(cell.instrument) : '..',
+  module.format === 'mod' ? null : formatVolume(module, cell.volume),
+  cell.effect ? `${cell.effect}${hex(cell.param)}` : '...'
+].filter(part => part !== null).join(' ');
+
+// The last row that started at or before the time
+const findRow = (rows: ModuleRow[], time: number) => {
+  let low = 0;
+  let high = rows.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (rows[middle].time <= time) low = middle;
+    else high = middle - 1;
+  }
+  return rows[low];
+};
+
+// MIDI files played through the built-in General MIDI synth and tracker modules through
+// the module player, both rendered ahead into the waveform view. Track or pattern info
+// follows the playhead
+export const MusicPreview: React.FC<MusicPreviewProps> = ({ filePath, getFileUrl }) => {
+  const [song, setSong] = useState<Song | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [time, setTime] = useState(0);
+
+  const decode = useCallback(async (data: ArrayBuffer, context: AudioContext, signal: AbortSignal) => {
+    setSong(null);
+    setTime(0);
+    setProgress(0);
+    // Rendering stops at its next progress report once the file changes
+    const onProgress = (share: number) => {
+      if (signal.aborted) throw new Error('Rendering was cancelled');
+      setProgress(share);
+    };
+
+    try {
+      let channels: Float32Array[];
+      let rendered: Song;
+      if (MIDI_EXTENSIONS.some(extension => filePath.toLowerCase().endsWith(extension))) {
+        const midi = parseMidi(data);
+        channels = await renderMidi(midi, context.sampleRate, onProgress);
+        rendered = { kind: 'midi', song: midi };
+      } else {
+        const module = parseModule(data);
+        const { left, right, rows } = await renderModule(module, context.sampleRate, onProgress);
+        channels = [left, right];
+        rendered = { kind: 'module', module, rows };
+      }
+      if (channels[0].length === 0) throw new Error('The song has nothing to play');
+      if (signal.aborted) throw new Error('Rendering was cancelled');
+
+      // Loud songs are turned down as a whole rather than clipped
+      const peak = channels.reduce((highest, samples) => samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), highest), 0);
+      const buffer = context.createBuffer(2, channels[0].length, context.sampleRate);
+      channels.forEach((samples, channel) => {
+        if (peak > 1) for (let i = 0; i < samples.length; i++) samples[i] /= peak;
+        buffer.copyToChannel(samples, channel);
+      });
+      setSong(rendered);
+      return buffer;
+    } finally {
+      if (!signal.aborted) setProgress(null);
+    }
+  }, [filePath]);
+
+  const renderMidiInfo = (midi: MidiSong) => {
+    const position = getMidiPosition(midi, time);
+    return (
+      <>
+        <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
+          <span className="text-white font-medium">{midi.title || 'Untitled'}</span>
+          <span className="text-gray-400">MIDI format {midi.format} • {midi.tracks.length} tracks</span>
+          <span className="font-mono text-green-400 ml-auto">
+            Bar {position.bar} Beat {position.beat} • {Math.round(position.bpm)} BPM
+          </span>
+        </div>
+        <div className="max-h-48 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 text-left">
+              <tr>
+                <th className="font-normal py-1 pr-3">Track</th>
+                <th className="font-normal py-1 pr-3">Channel</th>
+                <th className="font-normal py-1 pr-3">Instrument</th>
+                <th className="font-normal py-1 text-right">Notes</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-300">
+              {midi.tracks.map((track, index) => (
+                <tr key={index} className="border-t border-gray-800">
+                  <td className="py-1 pr-3">{track.name || `Track ${index + 1}`}</td>
+                  <td className="py-1 pr-3 font-mono">{track.channels.map(channel => channel + 1).join(', ') || '–'}</td>
+                  <td className="py-1 pr-3">
+                    {track.channels.map((channel, i) => (channel === DRUM_CHANNEL ? 'Drums' : GM_PROGRAMS[track.programs[i]])).join(', ') || '–'}
+                  </td>
+                  <td className="py-1 text-right font-mono">{track.notes}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </>
+    );
+  };
+
+  const renderModuleInfo = (module: TrackerModule, rows: ModuleRow[]) => {
+    const current = findRow(rows, time);
+    const pattern = module.patterns[current.pattern] ?? [];
+    const shown = Array.from({ length: PATTERN_CONTEXT * 2 + 1 }, (_, i) => current.row - PATTERN_CONTEXT + i);
+    // Sample and instrument names often carry the author's notes, so all of them are listed
+    const names = (module.instruments ?? module.samples).map(item => item.name);
+    return (
+      <>
+        <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
+          <span className="text-white font-medium">{module.title || 'Untitled'}</span>
+          <span className="text-gray-400">
+            {module.formatName} • {module.channels} channels • {module.patterns.length} patterns •{' '}
+            {module.instruments ? `${module.instruments.length} instruments` : `${module.samples.length} samples`}
+          </span>
+          <span className="font-mono text-green-400 ml-auto">
+            Order {current.order}/{module.orders.length - 1} • Pattern {current.pattern} • Row {current.row}/{pattern.length - 1}
+          </span>
+        </div>
+        <div className="overflow-x-auto bg-gray-950 rounded">
+          <table className="font-mono text-xs whitespace-pre">
+            <tbody>
+              {shown.map(row => (
+                <tr key={row} className={row === current.row ? 'bg-green-900/60 text-white' : 'text-gray-400'}>
+                  <td className="px-2 text-gray-600 text-right">{row >= 0 && row < pattern.length ? row : ''}</td>
+                  {pattern[row]
+                    ? pattern[row].map((cell, channel) => (
+                      <td key={channel} className="px-2 border-l border-gray-800">{formatCell(module, cell)}</td>
+                    ))
+                    : <td className="px-2">&nbsp;</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {(names.some(Boolean) || module.message) && (
+          <div className="max-h-32 overflow-y-auto font-mono text-xs text-gray-400 whitespace-pre-wrap">
+            {module.message && <p className="mb-2 text-gray-300">{module.message}</p>}
+            {names.map((name, index) => (
+              <div key={index}>
+                <span className="text-gray-600">{hex(index + 1)}</span> {name}
+              </div>
+            ))}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {(song || progress !== null) && (
+        <div className="bg-gray-900 rounded-lg p-4 space-y-3 text-sm">
+          {song?.kind === 'midi' && renderMidiInfo(song.song)}
+          {song?.kind === 'module' && renderModuleInfo(song.module, song.rows)}
+          {!song && progress !== null && (
+            <div className="flex items-center space-x-2 text-gray-300">
+              <Loader2 className="w-4 h-4 animate-spin text-green-400" />
+              <span>Rendering the song... {Math.round(progress * 100)}%</span>
+            </div>
+          )}
+        </div>
+      )}
+      <AudioPreview filePath={filePath} getFileUrl={getFileUrl} decode={decode} onTimeUpdate={setTime} />
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, AlertCircle, Send, CheckCircle2, FileIcon } from 'lucide-react';
+import { FileItem, SendToProjectPlan, SendToProjectResult } from '../types';
+import { explainAccessDenied, isAccessDenied } from '../utils/accessErrors';
+import { API_HEADERS } from '../utils/apiHeaders';
+
+const API_BASE = 'http://localhost:3001/api';
+
+// Last used project and the folder used per project
+const STORAGE_KEY = 'gameAssetBrowser_sendToProject';
+
+interface SendToProjectProps {
+  file: FileItem;
+  onClose: () => void;
+}
+
+interface SavedChoice {
+  project: string;
+  subfolders: Record<string, string>;
+}
+
+const loadSavedChoice = (): SavedChoice => {
+  try {
+    return { project: '', subfolders: {}, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return { project: '', subfolders: {} };
+  }
+};
+
+const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:border-indigo-500 focus:outline-none';
+
+export const SendToProject: React.FC<SendToProjectProps> = ({ file, onClose }) => {
+  const [plan, setPlan] = useState<SendToProjectPlan | null>(null);
+  const [saved] = useState(loadSavedChoice);
+  const [project, setProject] = useState(saved.project);
+  const [subfolder, setSubfolder] = useState(saved.subfolders[saved.project] ?? '');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<string[]>([]);
+  const [result, setResult] = useState<SendToProjectResult | null>(null);
+
+  useEffect(() => {
+    const loadPlan = async () => {
+      try {
+        const url = new URL(`${API_BASE}/send-to-project`);
+        url.searchParams.set('path', file.path);
+        const response = await fetch(url);
+        const data = await response.json().catch(() => ({ error: 'Failed to list the files to send' }));
+        if (!response.ok) {
+          throw new Error(isAccessDenied(data) ? explainAccessDenied(data) : data.error || 'Failed to list the files to send');
+        }
+
+        setPlan(data);
+        // Fall back to the first project when the saved one is gone
+        if (!data.projects.some((candidate: { name: string }) => candidate.name === saved.project) && data.projects.length > 0) {
+          setProject(data.projects[0].name);
+          setSubfolder(saved.subfolders[data.projects[0].name] ?? '');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to list the files to send');
+      }
+    };
+    loadPlan();
+  }, [file.path, saved]);
+
+  const selectProject = (name: string) => {
+    setProject(name);
+    setSubfolder(saved.subfolders[name] ?? '');
+    setConflicts([]);
+  };
+
+  const send = async (overwrite: boolean) => {
+    setSending(true);
+    setError(null);
+    try {
+      const response = await fetch(`${API_BASE}/send-to-project`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...API_HEADERS },
+        body: JSON.stringify({ path: file.path, project, subfolder, overwrite })
+      });
+      const data = await response.json().catch(() => ({ error: 'Failed to send to project' }));
+
+      if (response.status === 409) {
+        setConflicts(data.conflicts);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(isAccessDenied(data) ? explainAccessDenied(data) : data.error || 'Failed to send to project');
+      }
+
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({
+        project,
+        subfolders: { ...saved.subfolders, [project]: subfolder }
+      }));
+      setConflicts([]);
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send to project');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const selectedProject = plan?.projects.find(candidate => candidate.name === project);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[60] flex items-center justify-center p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      // Keep the preview's keyboard shortcuts (A/D, Esc...) out of the form
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="bg-gray-800 border border-gray-700 rounded-lg w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700 flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Send to Project</h2>
+            <p className="text-xs text-gray-400">Copies {file.name} and the files it needs, keeping their folder layout.</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {!plan && !error && (
+            <div className="flex items-center justify-center h-32 space-x-3 text-indigo-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+              <span>Finding dependencies...</span>
+            </div>
+          )}
+
+          {plan && plan.projects.length === 0 && (
+            <div className="text-sm text-gray-300 space-y-2">
+              <p>No projects are configured yet. Add them to <span className="font-mono">{plan.configFile}</span> and restart the server:</p>
+              <pre className="bg-gray-900 rounded-lg p-3 text-xs font-mono text-gray-300 overflow-auto">
+{`"projects": [
+  { "name": "My Godot game", "path": "/path/to/project" }
+]`}
+              </pre>
+            </div>
+          )}
+
+          {plan && plan.projects.length > 0 && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Project</label>
+                  <select value={project} onChange={(e) => selectProject(e.target.value)} className={inputClass}>
+                    {plan.projects.map(candidate => (
+                      <option key={candidate.name} value={candidate.name}>{candidate.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Folder inside the project</label>
+                  <input
+                    type="text"
+                    value={subfolder}
+                    onChange={(e) => {
+                      setSubfolder(e.target.value);
+                      setConflicts([]);
+                    }}
+                    placeholder="e.g. assets/models"
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+              </div>
+              {selectedProject && (
+                <p className="text-xs text-gray-500 font-mono break-all">
+                  {[selectedProject.path, subfolder].filter(Boolean).join('/')}
+                </p>
+              )}
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-300 mb-2">
+                  {plan.files.length === 1 ? 'No dependencies found, only the file is copied' : `${plan.files.length} files`}
+                </h3>
+                <ul className="bg-gray-900 rounded-lg p-3 space-y-1">
+                  {plan.files.map(planned => (
+                    <li key={planned.source} className="flex items-center space-x-2 text-xs font-mono text-gray-300" title={planned.source}>
+                      <FileIcon className="w-3 h-3 flex-shrink-0 text-gray-500" />
+                      <span className="truncate">{planned.relativePath}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+
+          {conflicts.length > 0 && (
+            <div className="text-sm text-yellow-300 bg-yellow-500/10 px-3 py-2 rounded-lg border border-yellow-500/20 space-y-1">
+              <p>These files already exist in the project:</p>
+              <ul className="text-xs font-mono space-y-0.5">
+                {conflicts.map(conflict => <li key={conflict} className="break-all">{conflict}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {result && (
+            <div className="flex items-start space-x-2 text-sm text-green-300 bg-green-500/10 px-3 py-2 rounded-lg border border-green-500/20">
+              <CheckCircle2 className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>
+                Copied {result.copied.length} {result.copied.length === 1 ? 'file' : 'files'} to <span className="font-mono break-all">{result.targetDir}</span>
+                {result.overwritten.length > 0 && ` (${result.overwritten.length} replaced)`}
+              </span>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center space-x-2 text-red-400 bg-red-500/10 px-3 py-2 rounded-lg border border-red-500/20 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex-shrink-0 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors text-sm"
+          >
+            {result ? 'Close' : 'Cancel'}
+          </button>
+          {conflicts.length > 0 ? (
+            <button
+              onClick={() => send(true)}
+              disabled={sending}
+              className="flex items-center space-x-1 px-4 py-2 bg-yellow-600 hover:bg-yellow-700 disabled:opacity-50 rounded-lg transition-colors text-sm"
+            >
+              {sending && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>Overwrite {conflicts.length} {conflicts.length === 1 ? 'file' : 'files'}</span>
+            </button>
+          ) : (
+            <button
+              onClick={() => send(false)}
+              disabled={!plan || !selectedProject || sending}
+              className="flex items-center space-x-1 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg transition-colors text-sm"
+            >
+              {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              <span>Send</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dices, Loader2 } from 'lucide-react';
+import { FileItem } from '../types';
+import { loadVariationRandomization, saveVariationRandomization, VariationRandomization } from '../utils/soundVariations';
+
+interface SoundVariationsProps {
+  files: FileItem[];
+  // The variant shown in the waveform below
+  selectedPath: string;
+  getFileUrl: (path: string) => string;
+  onSelect: (file: FileItem) => void;
+}
+
+interface Trigger {
+  path: string;
+  semitones: number;
+  decibels: number;
+}
+
+// Plays a random variant of the group on every trigger, the way a game engine picks one
+// for each footstep: never the same one twice in a row, at a random pitch and volume
+// within the chosen ranges. Triggers overlap like they would in a game
+export const SoundVariations: React.FC<SoundVariationsProps> = ({ files, selectedPath, getFileUrl, onSelect }) => {
+  const contextRef = useRef<AudioContext | null>(null);
+  const buffersRef = useRef(new Map<string, AudioBuffer>());
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [randomization, setRandomization] = useState<VariationRandomization>(loadVariationRandomization);
+  const [lastTrigger, setLastTrigger] = useState<Trigger | null>(null);
+  const lastPathRef = useRef<string | null>(null);
+
+  const paths = files.map(file => file.path).join('\n');
+
+  // Sound effects are small, so all variants are decoded up front for instant triggers
+  useEffect(() => {
+    const controller = new AbortController();
+    const context = contextRef.current ?? (contextRef.current = new AudioContext());
+    const buffers = new Map<string, AudioBuffer>();
+    buffersRef.current = buffers;
+    setLoading(true);
+    setFailed([]);
+
+    (async () => {
+      const unreadable: string[] = [];
+      await Promise.all(paths.split('\n').map(async path => {
+        try {
+          const response = await fetch(getFileUrl(path), { signal: controller.signal });
+          if (!response.ok) throw new Error('Failed to load the file');
+          buffers.set(path, await context.decodeAudioData(await response.arrayBuffer()));
+        } catch {
+          unreadable.push(path);
+        }
+      }));
+      if (controller.signal.aborted) return;
+      setFailed(unreadable);
+      setLoading(false);
+    })();
+
+    return () => controller.abort();
+  }, [paths, getFileUrl]);
+
+  useEffect(() => () => {
+    contextRef.current?.close();
+    contextRef.current = null;
+  }, []);
+
+  const updateRandomization = (change: Partial<VariationRandomization>) => {
+    const updated = { ...randomization, ...change };
+    setRandomization(updated);
+    saveVariationRandomization(updated);
+  };
+
+  const trigger = () => {
+    const context = contextRef.current;
+    const playable = files.filter(file => buffersRef.current.has(file.path));
+    if (!context || playable.length === 0) return;
+
+    const choices = playable.length > 1 ? playable.filter(file => file.path !== lastPathRef.current) : playable;
+    const file = choices[Math.floor(Math.random() * choices.length)];
+    const semitones = (Math.random() * 2 - 1) * randomization.pitch;
+    const decibels = -Math.random() * randomization.volume;
+
+    const source = context.createBufferSource();
+    source.buffer = buffersRef.current.get(file.path)!;
+    source.playbackRate.value = Math.pow(2, semitones / 12);
+    const gain = context.createGain();
+    gain.gain.value = Math.pow(10, decibels / 20);
+    source.connect(gain).connect(context.destination);
+    source.start();
+    context.resume().catch(() => {});
+
+    lastPathRef.current = file.path;
+    setLastTrigger({ path: file.path, semitones, decibels });
+  };
+
+  // R triggers, so Space still plays the variant in the waveform view
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'r' || e.key === 'R') {
+        e.preventDefault();
+        trigger();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const lastName = lastTrigger && files.find(file => file.path === lastTrigger.path)?.name;
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={trigger}
+          disabled={loading}
+          className="flex items-center space-x-2 px-3 py-2 bg-green-600 hover:bg-green-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+          title="Play a random variant (R)"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Dices className="w-4 h-4" />}
+          <span>Play random</span>
+        </button>
+        <label className="flex items-center space-x-2 text-gray-300" title="Random pitch, up or down">
+          <span>Pitch ±</span>
+          <input
+            type="range"
+            min={0}
+            max={12}
+            step={0.5}
+            value={randomization.pitch}
+            onChange={e => updateRandomization({ pitch: Number(e.target.value) })}
+            className="w-24 accent-green-500"
+          />
+          <span className="font-mono w-16">{randomization.pitch.toFixed(1)} st</span>
+        </label>
+        <label className="flex items-center space-x-2 text-gray-300" title="Random volume drop">
+          <span>Volume −</span>
+          <input
+            type="range"
+            min={0}
+            max={12}
+            step={0.5}
+            value={randomization.volume}
+            onChange={e => updateRandomization({ volume: Number(e.target.value) })}
+            className="w-24 accent-green-500"
+          />
+          <span className="font-mono w-16">{randomization.volume.toFixed(1)} dB</span>
+        </label>
+        {lastTrigger && (
+          <span className="font-mono text-xs text-gray-400">
+            {lastName} {lastTrigger.semitones >= 0 ? '+' : ''}{lastTrigger.semitones.toFixed(2)} st {lastTrigger.decibels.toFixed(1)} dB
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {files.map(file => (
+          <button
+            key={file.path}
+            onClick={() => onSelect(file)}
+            className={`px-2 py-1 rounded text-xs transition-colors ${
+              file.path === lastTrigger?.path ? 'bg-green-600 text-white' : 'bg-gray-800 text-gray-300 hover:text-white'
+            } ${file.path === selectedPath ? 'ring-1 ring-white' : ''} ${failed.includes(file.path) ? 'line-through opacity-50' : ''}`}
+            title={failed.includes(file.path) ? `${file.name} can't be decoded` : `Show ${file.name} below`}
+          >
+            {file.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
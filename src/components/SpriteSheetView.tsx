@@ -0,0 +1,277 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, Wand2, Repeat, ArrowLeftRight, X } from 'lucide-react';
+import {
+  SpriteSheetSettings,
+  SpriteSlicing,
+  getFrame,
+  getFrameSequence,
+  getGridSize,
+  guessSlicing,
+  loadSpriteSheetSettings,
+  saveSpriteSheetSettings
+} from '../utils/spriteSheet';
+
+interface SpriteSheetViewProps {
+  filePath: string;
+  imageUrl: string;
+  onExit: () => void;
+}
+
+const inputClass = 'w-full px-2 py-1 bg-gray-800 border border-gray-600 rounded text-white text-sm font-mono focus:border-indigo-500 focus:outline-none';
+
+const PREVIEW_SIZE = 160;
+
+// Checkerboard behind transparent sprites
+const checkerboard = {
+  backgroundImage: 'repeating-conic-gradient(#374151 0% 25%, #1f2937 0% 50%)',
+  backgroundSize: '16px 16px'
+};
+
+const NumberField: React.FC<{ label: string; value: number; min?: number; onChange: (value: number) => void }> = ({ label, value, min = 0, onChange }) => (
+  <label className="block">
+    <span className="text-xs text-gray-400">{label}</span>
+    <input
+      type="number"
+      min={min}
+      value={value}
+      onChange={e => {
+        const next = parseInt(e.target.value, 10);
+        if (!Number.isNaN(next)) onChange(Math.max(min, next));
+      }}
+      className={inputClass}
+    />
+  </label>
+);
+
+// Sprite sheet mode of the image preview: slice the sheet into cells, pick a frame range
+// and play it. Click a cell to start the range there, shift+click to end it
+export const SpriteSheetView: React.FC<SpriteSheetViewProps> = ({ filePath, imageUrl, onExit }) => {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const sheetContainerRef = useRef<HTMLDivElement>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const [settings, setSettings] = useState<SpriteSheetSettings | null>(() => loadSpriteSheetSettings(filePath));
+  const [playing, setPlaying] = useState(true);
+  const [step, setStep] = useState(0);
+
+  const { columns, rows } = settings ? getGridSize(settings, imageSize.width, imageSize.height) : { columns: 0, rows: 0 };
+  const frameCount = columns * rows;
+  const startFrame = settings ? Math.min(settings.startFrame, Math.max(frameCount - 1, 0)) : 0;
+  const endFrame = settings ? Math.min(Math.max(settings.endFrame, startFrame), Math.max(frameCount - 1, 0)) : 0;
+  const sequence = settings && frameCount > 0 ? getFrameSequence(startFrame, endFrame, settings.playback) : [];
+  const currentFrame = sequence.length > 0 ? sequence[step % sequence.length] : -1;
+
+  useEffect(() => {
+    const container = sheetContainerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Remember the slicing of this file for the next time it's opened
+  useEffect(() => {
+    if (settings) saveSpriteSheetSettings(filePath, settings);
+  }, [filePath, settings]);
+
+  useEffect(() => {
+    if (!playing || !settings || sequence.length < 2) return;
+    const timer = setInterval(() => setStep(prev => (prev + 1) % sequence.length), 1000 / settings.fps);
+    return () => clearInterval(timer);
+  }, [playing, settings, sequence.length]);
+
+  // Draw the current frame scaled to fit the preview, without smoothing pixel art
+  useEffect(() => {
+    const canvas = previewCanvasRef.current;
+    const image = imageRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !image || !context || !settings || currentFrame < 0) return;
+
+    const frame = getFrame(settings, columns, currentFrame);
+    const scale = Math.min(PREVIEW_SIZE / frame.width, PREVIEW_SIZE / frame.height);
+    const width = frame.width * scale;
+    const height = frame.height * scale;
+    context.clearRect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+    context.imageSmoothingEnabled = scale < 1;
+    context.drawImage(image, frame.x, frame.y, frame.width, frame.height,
+      (PREVIEW_SIZE - width) / 2, (PREVIEW_SIZE - height) / 2, width, height);
+  }, [settings, columns, currentFrame, imageSize]);
+
+  const handleImageLoad = () => {
+    const image = imageRef.current;
+    if (!image) return;
+    setImageSize({ width: image.naturalWidth, height: image.naturalHeight });
+    // First time this sheet is opened: start from a guess, playing every frame
+    setSettings(prev => prev ?? { ...guessSlicing(image), startFrame: 0, endFrame: Number.MAX_SAFE_INTEGER, fps: 12, playback: 'loop' });
+  };
+
+  const updateSettings = (change: Partial<SpriteSheetSettings>) => {
+    setSettings(prev => prev && { ...prev, ...change });
+    setStep(0);
+  };
+
+  const guess = () => {
+    if (!imageRef.current) return;
+    const slicing: SpriteSlicing = guessSlicing(imageRef.current);
+    updateSettings({ ...slicing, startFrame: 0, endFrame: Number.MAX_SAFE_INTEGER });
+  };
+
+  // Pixel art is enlarged by whole steps, big sheets are shrunk to fit
+  const fitScale = imageSize.width && containerSize.width
+    ? Math.min(containerSize.width / imageSize.width, containerSize.height / imageSize.height)
+    : 1;
+  const scale = fitScale >= 1 ? Math.min(Math.floor(fitScale), 8) : fitScale;
+
+  const selectCell = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!settings || frameCount === 0) return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - bounds.left) / scale - settings.offsetX;
+    const y = (e.clientY - bounds.top) / scale - settings.offsetY;
+    const column = Math.floor(x / (settings.cellWidth + settings.spacingX));
+    const row = Math.floor(y / (settings.cellHeight + settings.spacingY));
+    if (x < 0 || y < 0 || column >= columns || row >= rows) return;
+
+    const frame = row * columns + column;
+    if (e.shiftKey) {
+      updateSettings(frame < startFrame ? { startFrame: frame, endFrame: startFrame } : { endFrame: frame });
+    } else {
+      updateSettings({ startFrame: frame, endFrame: frame });
+    }
+  };
+
+  // One path for the whole grid and one for the selected range keeps big sheets fast
+  const cellPath = (from: number, to: number) => {
+    if (!settings) return '';
+    let d = '';
+    for (let index = from; index <= to; index++) {
+      const frame = getFrame(settings, columns, index);
+      d += `M${frame.x} ${frame.y}h${frame.width}v${frame.height}h${-frame.width}Z`;
+    }
+    return d;
+  };
+
+  const currentRect = settings && currentFrame >= 0 ? getFrame(settings, columns, currentFrame) : null;
+
+  return (
+    <div className="flex h-full">
+      <div ref={sheetContainerRef} className="flex-1 min-w-0 overflow-hidden flex items-center justify-center">
+        <div className="relative" style={{ ...checkerboard, width: imageSize.width * scale, height: imageSize.height * scale }}>
+          <img
+            ref={imageRef}
+            src={imageUrl}
+            crossOrigin="anonymous"
+            alt=""
+            className="block w-full h-full"
+            style={{ imageRendering: scale >= 1 ? 'pixelated' : 'auto' }}
+            draggable={false}
+            onLoad={handleImageLoad}
+          />
+          {settings && frameCount > 0 && (
+            <svg
+              className="absolute inset-0 w-full h-full cursor-crosshair"
+              viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+              preserveAspectRatio="none"
+              onClick={selectCell}
+            >
+              <path d={cellPath(startFrame, endFrame)} fill="rgba(99, 102, 241, 0.25)" />
+              <path d={cellPath(0, frameCount - 1)} fill="none" stroke="rgba(255, 255, 255, 0.35)" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+              {currentRect && (
+                <rect {...currentRect} fill="none" stroke="#818cf8" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+              )}
+            </svg>
+          )}
+        </div>
+      </div>
+
+      {settings && (
+        <div className="w-64 flex-shrink-0 ml-4 overflow-auto space-y-4 text-sm">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-gray-300">Sprite Sheet</h3>
+            <button onClick={onExit} className="p-1 text-gray-400 hover:text-white transition-colors" title="Back to the image view">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex flex-col items-center space-y-2">
+            <canvas ref={previewCanvasRef} width={PREVIEW_SIZE} height={PREVIEW_SIZE} className="rounded" style={checkerboard} />
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setPlaying(prev => !prev)}
+                disabled={sequence.length < 2}
+                className="p-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg transition-colors"
+                title={playing ? 'Pause' : 'Play'}
+              >
+                {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </button>
+              <span className="text-gray-400 font-mono text-xs">
+                {frameCount > 0 ? `Frame ${currentFrame + 1} of ${frameCount}` : 'No cells'}
+              </span>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between text-xs text-gray-400">
+              <span>Speed</span>
+              <span className="font-mono">{settings.fps} FPS</span>
+            </div>
+            <input
+              type="range"
+              min={1}
+              max={60}
+              value={settings.fps}
+              onChange={e => updateSettings({ fps: parseInt(e.target.value, 10) })}
+              className="w-full accent-indigo-500"
+            />
+            <div className="flex mt-1 space-x-2">
+              {([['loop', 'Loop', Repeat], ['pingpong', 'Ping-pong', ArrowLeftRight]] as const).map(([playback, label, Icon]) => (
+                <button
+                  key={playback}
+                  onClick={() => updateSettings({ playback })}
+                  className={`flex-1 flex items-center justify-center space-x-1 px-2 py-1 rounded-lg transition-colors ${
+                    settings.playback === playback ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  <Icon className="w-3 h-3" />
+                  <span>{label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs text-gray-400 mb-1">Frames (click a cell, shift+click to extend)</p>
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="First" min={1} value={startFrame + 1} onChange={value => updateSettings({ startFrame: value - 1, endFrame: Math.max(endFrame, value - 1) })} />
+              <NumberField label="Last" min={1} value={endFrame + 1} onChange={value => updateSettings({ endFrame: value - 1 })} />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <p className="text-xs text-gray-400">Cells ({columns} × {rows})</p>
+              <button
+                onClick={guess}
+                className="flex items-center space-x-1 px-2 py-0.5 text-xs text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+                title="Guess the cell size from the padding between sprites"
+              >
+                <Wand2 className="w-3 h-3" />
+                <span>Guess</span>
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Width" min={1} value={settings.cellWidth} onChange={cellWidth => updateSettings({ cellWidth })} />
+              <NumberField label="Height" min={1} value={settings.cellHeight} onChange={cellHeight => updateSettings({ cellHeight })} />
+              <NumberField label="Offset X" value={settings.offsetX} onChange={offsetX => updateSettings({ offsetX })} />
+              <NumberField label="Offset Y" value={settings.offsetY} onChange={offsetY => updateSettings({ offsetY })} />
+              <NumberField label="Spacing X" value={settings.spacingX} onChange={spacingX => updateSettings({ spacingX })} />
+              <NumberField label="Spacing Y" value={settings.spacingY} onChange={spacingY => updateSettings({ spacingY })} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useId, useState } from 'react';
+import { Tag, X } from 'lucide-react';
+
+interface TagEditorProps {
+  tags: string[];
+  suggestions: string[];
+  onAdd: (tag: string) => void;
+  onRemove: (tag: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+// Tags as removable chips plus an input; Enter or a comma adds the typed tag
+export const TagEditor: React.FC<TagEditorProps> = ({
+  tags,
+  suggestions,
+  onAdd,
+  onRemove,
+  disabled = false,
+  placeholder = 'Add tag...'
+}) => {
+  const [input, setInput] = useState('');
+  const listId = useId();
+
+  const addInput = () => {
+    const tag = input.trim();
+    if (tag && !tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      onAdd(tag);
+    }
+    setInput('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map(tag => (
+        <span
+          key={tag}
+          className="flex items-center space-x-1 px-2 py-0.5 bg-indigo-600/20 border border-indigo-500/40 text-indigo-200 rounded-full text-xs"
+        >
+          <Tag className="w-3 h-3" />
+          <span>{tag}</span>
+          <button
+            onClick={() => onRemove(tag)}
+            disabled={disabled}
+            className="text-indigo-300 hover:text-white disabled:opacity-50"
+            title={`Remove "${tag}"`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        list={listId}
+        value={input}
+        disabled={disabled}
+        onChange={(e) => setInput(e.target.value.replace(/,/g, ''))}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addInput();
+          }
+        }}
+        onBlur={() => input.trim() && addInput()}
+        placeholder={placeholder}
+        className="w-32 px-2 py-0.5 bg-gray-800 border border-gray-600 rounded-full text-white text-xs placeholder-gray-400 focus:border-indigo-500 focus:outline-none disabled:opacity-50"
+      />
+      <datalist id={listId}>
+        {suggestions.filter(suggestion => !tags.includes(suggestion)).map(suggestion => (
+          <option key={suggestion} value={suggestion} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, AlertCircle, Trash2, RotateCcw } from 'lucide-react';
+import { DirectoryChangeEvent, TrashResponse } from '../types';
+import { useFileOperations } from '../hooks/useFileOperations';
+import { FileTypeIcon } from './FileTypeIcon';
+import { formatFileSize, formatDate } from '../utils/formatters';
+
+interface TrashPanelProps {
+  onClose: () => void;
+  onFileChanges: (changes: DirectoryChangeEvent[]) => void;
+}
+
+export const TrashPanel: React.FC<TrashPanelProps> = ({ onClose, onFileChanges }) => {
+  const { loadTrash, restoreItems, emptyTrash } = useFileOperations();
+  const [trash, setTrash] = useState<TrashResponse | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTrash()
+      .then(setTrash)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the trash'));
+  }, [loadTrash]);
+
+  const restore = async (ids: string[]) => {
+    setWorking(true);
+    setError(null);
+    try {
+      const { changes } = await restoreItems(ids);
+      onFileChanges(changes);
+      setTrash(prev => prev && { ...prev, items: prev.items.filter(item => !ids.includes(item.id)) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore files');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const empty = async () => {
+    if (!trash || !window.confirm(`Permanently delete ${trash.items.length} ${trash.items.length === 1 ? 'item' : 'items'}? This can't be undone.`)) {
+      return;
+    }
+
+    setWorking(true);
+    setError(null);
+    try {
+      await emptyTrash();
+      setTrash(prev => prev && { ...prev, items: [] });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to empty the trash');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Most recently deleted first
+  const items = [...(trash?.items ?? [])].reverse();
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-gray-800 border border-gray-700 rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700 flex-shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-white">Trash</h2>
+            {trash && <p className="text-xs text-gray-400 font-mono truncate">{trash.trashDir}</p>}
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-2">
+          {!trash && !error && (
+            <div className="flex items-center justify-center h-32 space-x-3 text-indigo-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+              <span>Loading trash...</span>
+            </div>
+          )}
+
+          {trash && items.length === 0 && (
+            <p className="text-center py-8 text-gray-400">The trash is empty</p>
+          )}
+
+          {items.map(item => (
+            <div key={item.id} className="flex items-center space-x-3 px-3 py-2 bg-gray-900 rounded-lg">
+              <FileTypeIcon fileType={item.isDirectory ? 'folder' : 'file'} isDirectory={item.isDirectory} className="w-5 h-5 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">{item.name}</p>
+                <p className="text-xs text-gray-400 font-mono truncate" title={item.originalPath}>{item.originalPath}</p>
+              </div>
+              <div className="text-xs text-gray-400 text-right flex-shrink-0">
+                {!item.isDirectory && <p className="font-mono">{formatFileSize(item.size)}</p>}
+                <p>{formatDate(item.trashedAt)}</p>
+              </div>
+              <button
+                onClick={() => restore([item.id])}
+                disabled={working}
+                className="flex items-center space-x-1 px-3 py-1 text-sm text-gray-300 hover:text-white hover:bg-gray-700 disabled:opacity-50 rounded-lg transition-colors"
+                title={`Restore to ${item.originalPath}`}
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>Restore</span>
+              </button>
+            </div>
+          ))}
+
+          {error && (
+            <div className="flex items-center space-x-2 text-red-400 bg-red-500/10 px-3 py-2 rounded-lg border border-red-500/20 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex-shrink-0 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors text-sm"
+          >
+            Close
+          </button>
+          <button
+            onClick={empty}
+            disabled={working || items.length === 0}
+            className="flex items-center space-x-1 px-4 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded-lg transition-colors text-sm"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Empty Trash</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useRef, useState } from 'react';
+import { X, Upload, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+import { DirectoryChangeEvent } from '../types';
+import { useFileOperations } from '../hooks/useFileOperations';
+
+interface UploadDropZoneProps {
+  currentPath: string;
+  // Dropping is ignored when false (inside archives and in search results)
+  enabled: boolean;
+  onFileChanges: (changes: DirectoryChangeEvent[]) => void;
+  children: React.ReactNode;
+}
+
+interface UploadEntry {
+  id: number;
+  name: string;
+  progress: number;
+  status: 'waiting' | 'uploading' | 'done' | 'error';
+  // Set when the name was taken and the file was saved under another one
+  savedAs?: string;
+  error?: string;
+}
+
+const getFolderName = (folderPath: string) => folderPath.split(/[/\\]/).filter(Boolean).pop() || folderPath;
+
+// Files dropped from the desktop are uploaded into the open folder, one after another
+export const UploadDropZone: React.FC<UploadDropZoneProps> = ({ currentPath, enabled, onFileChanges, children }) => {
+  const { uploadFile } = useFileOperations();
+  const [dragging, setDragging] = useState(false);
+  const [uploads, setUploads] = useState<UploadEntry[]>([]);
+  // dragenter/dragleave also fire for every child element, so count them
+  const dragDepthRef = useRef(0);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const nextIdRef = useRef(0);
+
+  const updateUpload = (id: number, change: Partial<UploadEntry>) => {
+    setUploads(prev => prev.map(upload => upload.id === id ? { ...upload, ...change } : upload));
+  };
+
+  const isFileDrag = (e: React.DragEvent) => enabled && e.dataTransfer.types.includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    dragDepthRef.current = Math.max(dragDepthRef.current - 1, 0);
+    if (dragDepthRef.current === 0) setDragging(false);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setDragging(false);
+
+    const folderPath = currentPath;
+    const entries: UploadEntry[] = [];
+    Array.from(e.dataTransfer.items).forEach(item => {
+      const file = item.kind === 'file' ? item.getAsFile() : null;
+      if (!file) return;
+
+      const entry: UploadEntry = { id: nextIdRef.current++, name: file.name, progress: 0, status: 'waiting' };
+      entries.push(entry);
+      if (item.webkitGetAsEntry()?.isDirectory) {
+        entry.status = 'error';
+        entry.error = 'Folders can\'t be uploaded, only files';
+        return;
+      }
+
+      queueRef.current = queueRef.current.then(async () => {
+        updateUpload(entry.id, { status: 'uploading' });
+        try {
+          const { changes } = await uploadFile(file, folderPath, progress => updateUpload(entry.id, { progress }));
+          onFileChanges(changes);
+          const savedName = changes.find(change => change.type === 'add')?.item?.name;
+          updateUpload(entry.id, {
+            status: 'done',
+            progress: 1,
+            savedAs: savedName && savedName !== file.name ? savedName : undefined
+          });
+        } catch (err) {
+          updateUpload(entry.id, { status: 'error', error: err instanceof Error ? err.message : 'Upload failed' });
+        }
+      });
+    });
+
+    setUploads(prev => [...prev, ...entries]);
+  };
+
+  const pending = uploads.some(upload => upload.status === 'waiting' || upload.status === 'uploading');
+
+  return (
+    <div
+      className="relative"
+      onDragEnter={handleDragEnter}
+      onDragLeave={handleDragLeave}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
+      {children}
+
+      {dragging && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center rounded-xl border-2 border-dashed border-indigo-400 bg-indigo-500/10 backdrop-blur-sm pointer-events-none">
+          <div className="flex items-center space-x-3 text-indigo-200">
+            <Upload className="w-6 h-6" />
+            <span>Drop files to upload them to {getFolderName(currentPath)}</span>
+          </div>
+        </div>
+      )}
+
+      {uploads.length > 0 && (
+        <div className="fixed bottom-4 right-4 z-40 w-80 max-h-96 flex flex-col bg-gray-800 border border-gray-700 rounded-lg shadow-xl text-sm">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+            <span className="text-white font-medium">
+              {pending ? 'Uploading...' : `Uploaded ${uploads.filter(upload => upload.status === 'done').length} of ${uploads.length}`}
+            </span>
+            {!pending && (
+              <button onClick={() => setUploads([])} className="text-gray-400 hover:text-white" title="Close">
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          <ul className="overflow-auto p-2 space-y-2">
+            {uploads.map(upload => (
+              <li key={upload.id} className="px-2">
+                <div className="flex items-center space-x-2">
+                  {upload.status === 'done' && <CheckCircle2 className="w-4 h-4 flex-shrink-0 text-green-400" />}
+                  {upload.status === 'error' && <AlertCircle className="w-4 h-4 flex-shrink-0 text-red-400" />}
+                  {(upload.status === 'waiting' || upload.status === 'uploading') && (
+                    <Loader2 className={`w-4 h-4 flex-shrink-0 text-indigo-400 ${upload.status === 'uploading' ? 'animate-spin' : ''}`} />
+                  )}
+                  <span className="flex-1 truncate text-gray-200" title={upload.name}>{upload.name}</span>
+                  {upload.status === 'uploading' && (
+                    <span className="text-xs text-gray-400 font-mono">{Math.round(upload.progress * 100)}%</span>
+                  )}
+                </div>
+                {upload.status === 'uploading' && (
+                  <div className="mt-1 h-1 bg-gray-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 transition-all" style={{ width: `${upload.progress * 100}%` }} />
+                  </div>
+                )}
+                {upload.savedAs && <p className="text-xs text-gray-400 truncate">Name taken, saved as {upload.savedAs}</p>}
+                {upload.error && <p className="text-xs text-red-400">{upload.error}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { ensureVideoPoster, onVideoPosterSaved } from '../utils/videoFrames';
+
+interface VideoPosterProps {
+  // Thumbnail or folder preview drawn from the video's poster, `version` busts the browser cache
+  posterUrl: (version: string) => string;
+  videoPath: string;
+  modified?: string; // Video mtime, a changed video needs a new poster
+  getFileUrl: (path: string) => string;
+  alt: string;
+  className?: string;
+  // Shown when the browser can't take a frame from the video either
+  fallback?: React.ReactNode;
+}
+
+// Server thumbnail of a video. The server has no poster until one was captured here, so a
+// missing one is taken from the video in the browser, uploaded and loaded again
+export const VideoPoster: React.FC<VideoPosterProps> = ({
+  posterUrl,
+  videoPath,
+  modified = '',
+  getFileUrl,
+  alt,
+  className = '',
+  fallback = null
+}) => {
+  const [saved, setSaved] = useState(0);
+  const [requested, setRequested] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+
+  // A frame picked in the preview replaces the poster
+  useEffect(() => onVideoPosterSaved(filePath => {
+    if (filePath !== videoPath) return;
+    setFailed(false);
+    setSaved(count => count + 1);
+  }), [videoPath]);
+
+  const src = posterUrl(saved ? `${modified}-${saved}` : modified);
+
+  const handleError = () => {
+    if (requested) {
+      setFailed(true);
+      return;
+    }
+    setRequested(true);
+    // Saving reloads every card showing the video; this covers a poster another card already took
+    ensureVideoPoster(videoPath, getFileUrl(videoPath), `${videoPath}-${modified}`).then(() => {
+      setSaved(count => count || 1);
+    }).catch(error => {
+      console.warn(`⚠️ No poster frame for ${videoPath}:`, error.message);
+      setFailed(true);
+    });
+  };
+
+  if (failed) return <>{fallback}</>;
+
+  return (
+    <img
+      key={src}
+      src={src}
+      alt={alt}
+      className={`${className} ${loadedSrc === src ? '' : 'invisible'}`}
+      loading="lazy"
+      onLoad={() => setLoadedSrc(src)}
+      onError={handleError}
+    />
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { getVideoFrames, peekVideoFrames, VideoFrames } from '../utils/videoFrames';
+import { VideoPoster } from './VideoPoster';
+
+interface VideoThumbnailProps {
+  filePath: string;
+  modified?: string; // Video mtime, so frames taken earlier in the session are reused
+  getFileUrl: (path: string) => string;
+  getThumbnailUrl: (path: string, size?: number, version?: string) => string;
+  size: number;
+}
+
+// Video card: the poster frame, and frames taken from the video the first time the
+// pointer reaches it, then moving across the card scrubs through them
+export const VideoThumbnail: React.FC<VideoThumbnailProps> = ({ filePath, modified = '', getFileUrl, getThumbnailUrl, size }) => {
+  const cacheKey = `${filePath}-${modified}`;
+  const [frames, setFrames] = useState<VideoFrames | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [scrub, setScrub] = useState<number | null>(null);
+  // Frames taken on an earlier visit to the folder show straight away
+  const [wanted, setWanted] = useState(() => Boolean(peekVideoFrames(cacheKey)));
+
+  useEffect(() => {
+    if (!wanted) return;
+    let cancelled = false;
+    getVideoFrames(getFileUrl(filePath), cacheKey)
+      .then(result => {
+        if (!cancelled) setFrames(result);
+      })
+      .catch(error => {
+        console.warn(`⚠️ No frames for ${filePath}:`, error.message);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [wanted, filePath, cacheKey, getFileUrl]);
+
+  const loading = wanted && !frames && !failed;
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setScrub(Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1));
+  };
+
+  const frame = frames ? Math.min(Math.floor((scrub ?? 0) * frames.count), frames.count - 1) : 0;
+
+  return (
+    <div
+      className="w-full h-full flex items-center justify-center bg-gradient-to-br from-red-600 to-red-800 rounded-md relative overflow-hidden"
+      onMouseEnter={() => setWanted(true)}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setScrub(null)}
+    >
+      <div className="w-16 h-12 bg-black/50 rounded border-2 border-white/50 flex items-center justify-center">
+        <div className="w-0 h-0 border-l-4 border-l-white border-y-2 border-y-transparent ml-1"></div>
+      </div>
+      {/* Film strip holes */}
+      <div className="absolute left-1 top-0 bottom-0 flex flex-col justify-evenly">
+        {[...Array(6)].map((_, i) => (
+          <div key={i} className="w-2 h-2 bg-black/30 rounded-full" />
+        ))}
+      </div>
+      <div className="absolute right-1 top-0 bottom-0 flex flex-col justify-evenly">
+        {[...Array(6)].map((_, i) => (
+          <div key={i} className="w-2 h-2 bg-black/30 rounded-full" />
+        ))}
+      </div>
+      <VideoPoster
+        posterUrl={version => getThumbnailUrl(filePath, size, version)}
+        videoPath={filePath}
+        modified={modified}
+        getFileUrl={getFileUrl}
+        alt={filePath}
+        className="absolute inset-0 w-full h-full object-cover"
+      />
+      {frames && scrub !== null && (
+        <>
+          <div
+            className="absolute inset-0 bg-no-repeat"
+            style={{
+              backgroundImage: `url(${frames.url})`,
+              backgroundSize: `${frames.count * 100}% 100%`,
+              backgroundPosition: `${frames.count > 1 ? (frame / (frames.count - 1)) * 100 : 0}% 0`
+            }}
+          />
+          <div className="absolute bottom-0 left-0 right-0 h-1 bg-black/40">
+            <div className="h-full bg-red-500" style={{ width: `${((frame + 1) / frames.count) * 100}%` }} />
+          </div>
+        </>
+      )}
+      {loading && (
+        <Loader2 className="absolute bottom-2 left-2 w-4 h-4 text-white animate-spin drop-shadow" />
+      )}
+      <div className="absolute bottom-2 right-2 bg-red-500 text-white text-xs px-2 py-1 rounded-full font-medium shadow-lg">
+        Video
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DeleteDuplicatesResponse, DuplicatesResponse } from '../types';
+import { explainAccessDenied, isAccessDenied } from '../utils/accessErrors';
+import { API_HEADERS } from '../utils/apiHeaders';
+import { setUndoStack } from './useFileOperations';
+
+const API_BASE = 'http://localhost:3001/api';
+
+// How often the scan progress is fetched while the server is hashing
+const POLL_INTERVAL = 1000;
+
+const postJson = async <T>(endpoint: string, body: unknown, fallbackError: string): Promise<T> => {
+  const response = await fetch(`${API_BASE}/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...API_HEADERS },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json().catch(() => ({ error: fallbackError }));
+  if (!response.ok) {
+    if (isAccessDenied(data)) throw new Error(explainAccessDenied(data));
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+};
+
+export const useDuplicates = () => {
+  const [status, setStatus] = useState<DuplicatesResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE}/duplicates`);
+      if (!response.ok) throw new Error('Failed to load duplicates');
+      setStatus(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load duplicates');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Keep polling until the scan finishes
+  useEffect(() => {
+    if (!status?.running) return;
+    const timer = setTimeout(refresh, POLL_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [status, refresh]);
+
+  const startScan = useCallback(async (root: string) => {
+    setError(null);
+    try {
+      setStatus(await postJson<DuplicatesResponse>('duplicates/scan', { root }, 'Failed to start duplicate scan'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start duplicate scan');
+    }
+  }, []);
+
+  const cancelScan = useCallback(async () => {
+    try {
+      await postJson('duplicates/cancel', {}, 'Failed to cancel duplicate scan');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel duplicate scan');
+    }
+    refresh();
+  }, [refresh]);
+
+  // Returns the files that couldn't be deleted, with the reason
+  const deleteFiles = useCallback(async (paths: string[]) => {
+    setError(null);
+    try {
+      const result = await postJson<DeleteDuplicatesResponse>('duplicates/delete', { paths }, 'Failed to delete duplicates');
+      setStatus(result);
+      setUndoStack(result.undo);
+      return result.errors;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete duplicates');
+      return [];
+    }
+  }, []);
+
+  return {
+    status,
+    error,
+    startScan,
+    cancelScan,
+    deleteFiles
+  };
+};
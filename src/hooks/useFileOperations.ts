@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { FileOperationResponse, TrashResponse, UndoEntry } from '../types';
+import { explainAccessDenied, isAccessDenied } from '../utils/accessErrors';
+import { API_HEADERS } from '../utils/apiHeaders';
+
+const API_BASE = 'http://localhost:3001/api';
+
+// The server's undo stack, shared by the grid, the preview and the header's Undo button
+let undoStack: UndoEntry[] = [];
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+// Also fed by operations outside this hook, like deleting duplicates
+export const setUndoStack = (next: UndoEntry[]) => {
+  undoStack = next;
+  listeners.forEach(listener => listener());
+};
+
+const loadUndoStack = () => {
+  if (!loadPromise) {
+    loadPromise = fetch(`${API_BASE}/files/undo`)
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load the undo history');
+        return response.json();
+      })
+      .then(({ undo }) => setUndoStack(undo))
+      .catch(error => {
+        console.error('Undo history error:', error);
+        loadPromise = null;
+      });
+  }
+  return loadPromise;
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getSnapshot = () => undoStack;
+
+const postJson = async <T>(endpoint: string, body: unknown, fallbackError: string): Promise<T> => {
+  const response = await fetch(`${API_BASE}/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...API_HEADERS },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json().catch(() => ({ error: fallbackError }));
+  if (!response.ok) {
+    if (isAccessDenied(data)) throw new Error(explainAccessDenied(data));
+    throw new Error(data.error || fallbackError);
+  }
+  if (data.undo) setUndoStack(data.undo);
+  return data;
+};
+
+// Every call throws with the server's explanation when the operation is refused;
+// the returned `changes` are meant for useFileSystem's applyChanges
+export const useFileOperations = () => {
+  const undo = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    loadUndoStack();
+  }, []);
+
+  const renameItem = useCallback((path: string, name: string) =>
+    postJson<FileOperationResponse>('files/rename', { path, name }, 'Failed to rename'), []);
+
+  const moveItems = useCallback((paths: string[], destination: string) =>
+    postJson<FileOperationResponse>('files/move', { paths, destination }, 'Failed to move files'), []);
+
+  const copyItems = useCallback((paths: string[], destination: string) =>
+    postJson<FileOperationResponse>('files/copy', { paths, destination }, 'Failed to copy files'), []);
+
+  const trashItems = useCallback((paths: string[]) =>
+    postJson<FileOperationResponse>('files/trash', { paths }, 'Failed to delete files'), []);
+
+  // Upload one file into a folder; XMLHttpRequest because fetch can't report upload progress
+  const uploadFile = useCallback((file: File, folderPath: string, onProgress: (fraction: number) => void) =>
+    new Promise<FileOperationResponse>((resolve, reject) => {
+      const url = new URL(`${API_BASE}/upload`);
+      url.searchParams.set('path', folderPath);
+      const form = new FormData();
+      form.append('file', file);
+
+      const request = new XMLHttpRequest();
+      request.open('POST', url);
+      // A plain multipart post needs no CORS preflight, the header is what keeps other sites from uploading
+      Object.entries(API_HEADERS).forEach(([name, value]) => request.setRequestHeader(name, value));
+      request.upload.onprogress = (e) => e.lengthComputable && onProgress(e.loaded / e.total);
+      request.onerror = () => reject(new Error('Failed to upload ' + file.name));
+      request.onload = () => {
+        let data;
+        try {
+          data = JSON.parse(request.responseText);
+        } catch {
+          data = { error: 'Failed to upload ' + file.name };
+        }
+        if (request.status < 200 || request.status >= 300) {
+          reject(new Error(isAccessDenied(data) ? explainAccessDenied(data) : data.error || 'Failed to upload ' + file.name));
+          return;
+        }
+        setUndoStack(data.undo);
+        resolve(data);
+      };
+      request.send(form);
+    }), []);
+
+  // Save part of an audio file (in seconds) as a WAV next to it
+  const exportAudioRegion = useCallback((path: string, start: number, end: number) =>
+    postJson<FileOperationResponse>('audio/export', { path, start, end }, 'Failed to save the region'), []);
+
+  const undoLast = useCallback(() =>
+    postJson<FileOperationResponse>('files/undo', {}, 'Failed to undo'), []);
+
+  const loadTrash = useCallback(async (): Promise<TrashResponse> => {
+    const response = await fetch(`${API_BASE}/trash`);
+    if (!response.ok) throw new Error('Failed to load the trash');
+    return response.json();
+  }, []);
+
+  const restoreItems = useCallback((ids: string[]) =>
+    postJson<FileOperationResponse>('trash/restore', { ids }, 'Failed to restore files'), []);
+
+  const emptyTrash = useCallback(() =>
+    postJson<{ deleted: number }>('trash/empty', {}, 'Failed to empty the trash'), []);
+
+  return {
+    undo,
+    renameItem,
+    moveItems,
+    copyItems,
+    trashItems,
+    uploadFile,
+    exportAudioRegion,
+    undoLast,
+    loadTrash,
+    restoreItems,
+    emptyTrash
+  };
+};
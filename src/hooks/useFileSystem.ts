@@ -1,50 +1,231 @@
-import { useState, useCallback } from 'react';
-import { DirectoryResponse, FileItem } from '../types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { AssetMetadata, DirectoryChangeEvent, DirectoryResponse, FileItem, FolderPreview, SearchResponse } from '../types';
+import { explainAccessDenied, isAccessDenied } from '../utils/accessErrors';
+import { API_HEADERS } from '../utils/apiHeaders';
 
 const API_BASE = 'http://localhost:3001/api';
 
+const fetchBrowsePage = async (path?: string, cursor?: string): Promise<DirectoryResponse> => {
+  const url = new URL(`${API_BASE}/browse`);
+  if (path) url.searchParams.set('path', path);
+  if (cursor) url.searchParams.set('cursor', cursor);
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Failed to browse directory' }));
+    if (isAccessDenied(errorData)) throw new Error(explainAccessDenied(errorData));
+    throw new Error(errorData.error || 'Failed to browse directory');
+  }
+
+  return response.json();
+};
+
 export const useFileSystem = () => {
   const [currentPath, setCurrentPath] = useState<string>('');
+  const [archivePath, setArchivePath] = useState<string | null>(null);
   const [items, setItems] = useState<FileItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Incremented on every navigation so pages of a previous folder are dropped
+  const browseIdRef = useRef(0);
+  // For changes that arrive after a navigation, like a finished upload
+  const currentPathRef = useRef('');
+
+  // Fill in folder thumbnails (and hide empty folders) once the listing is shown
+  const loadFolderPreviews = async (pageItems: FileItem[], browseId: number) => {
+    const paths = pageItems.filter(item => item.isDirectory).map(item => item.path);
+    if (paths.length === 0) return;
+
+    try {
+      const response = await fetch(`${API_BASE}/folder-previews`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...API_HEADERS },
+        body: JSON.stringify({ paths })
+      });
+      if (!response.ok) throw new Error('Failed to load folder previews');
+
+      const { folders }: { folders: Record<string, FolderPreview> } = await response.json();
+      if (browseId !== browseIdRef.current) return;
+
+      setItems(prev => prev
+        .filter(item => !folders[item.path]?.isEmpty)
+        .map(item => {
+          const folder = folders[item.path];
+          return folder ? { ...item, hasAssets: folder.hasAssets, firstAsset: folder.firstAsset } : item;
+        }));
+    } catch (err) {
+      console.warn('Folder previews error:', err);
+    }
+  };
+
+  // Dimensions, durations... of files the server hasn't cached yet, for the grid cards
+  const loadMetadata = async (pageItems: FileItem[], browseId: number) => {
+    const paths = pageItems.filter(item => !item.isDirectory && item.metadata === undefined).map(item => item.path);
+    if (paths.length === 0) return;
+
+    try {
+      const response = await fetch(`${API_BASE}/metadata`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...API_HEADERS },
+        body: JSON.stringify({ paths })
+      });
+      if (!response.ok) throw new Error('Failed to load metadata');
+
+      const { items: metadata }: { items: Record<string, AssetMetadata | null> } = await response.json();
+      if (browseId !== browseIdRef.current) return;
+
+      setItems(prev => prev.map(item => item.path in metadata ? { ...item, metadata: metadata[item.path] } : item));
+    } catch (err) {
+      console.warn('Metadata error:', err);
+    }
+  };
 
   const browseDirectory = useCallback(async (path?: string) => {
+    const browseId = ++browseIdRef.current;
     setLoading(true);
+    setLoadingMore(false);
     setError(null);
-    
+
+    let data: DirectoryResponse;
     try {
-      const url = new URL(`${API_BASE}/browse`);
-      if (path) url.searchParams.set('path', path);
-      
-      const response = await fetch(url);
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Failed to browse directory' }));
-        throw new Error(errorData.error || 'Failed to browse directory');
-      }
-      
-      const data: DirectoryResponse = await response.json();
+      data = await fetchBrowsePage(path);
+      if (browseId !== browseIdRef.current) return;
+
+      // Show the first page right away, the rest is appended as it arrives
       setCurrentPath(data.currentPath);
+      currentPathRef.current = data.currentPath;
+      setArchivePath(data.archivePath);
       setItems(data.items);
     } catch (err) {
+      if (browseId !== browseIdRef.current) return;
       console.error('Browse directory error:', err);
       setError(err instanceof Error ? err.message : 'Unknown error occurred');
+      return;
+    } finally {
+      if (browseId === browseIdRef.current) setLoading(false);
+    }
+
+    loadFolderPreviews(data.items, browseId);
+    loadMetadata(data.items, browseId);
+
+    let cursor = data.nextCursor;
+    if (!cursor) return;
+
+    setLoadingMore(true);
+    try {
+      while (cursor && browseId === browseIdRef.current) {
+        const page = await fetchBrowsePage(data.currentPath, cursor);
+        if (browseId !== browseIdRef.current) return;
+
+        // Skip entries the directory watcher already added
+        setItems(prev => {
+          const known = new Set(prev.map(item => item.path));
+          return [...prev, ...page.items.filter(item => !known.has(item.path))];
+        });
+        loadFolderPreviews(page.items, browseId);
+        loadMetadata(page.items, browseId);
+        cursor = page.nextCursor;
+      }
+    } catch (err) {
+      console.error('Error loading the rest of the directory:', err);
     } finally {
-      setLoading(false);
+      if (browseId === browseIdRef.current) setLoadingMore(false);
     }
   }, []);
 
-  const getThumbnailUrl = useCallback((filePath: string, size = 200) => {
+  // Add, replace or remove one item of the listing
+  const applyChange = useCallback((event: DirectoryChangeEvent) => {
+    switch (event.type) {
+      case 'add':
+      case 'change':
+        if (!event.item) return;
+        setItems(prev => {
+          const index = prev.findIndex(item => item.path === event.path);
+          if (index === -1) return [...prev, event.item!];
+          const next = [...prev];
+          next[index] = event.item!;
+          return next;
+        });
+        loadMetadata([event.item], browseIdRef.current);
+        break;
+      case 'delete':
+        setItems(prev => prev.filter(item => item.path !== event.path));
+        break;
+    }
+  }, []);
+
+  // Patch the listing in place when files are added, changed or deleted on disk
+  useEffect(() => {
+    // Archive contents can't be watched, the archive itself is updated in its parent folder
+    if (!currentPath || archivePath) return;
+
+    const url = new URL(`${API_BASE}/watch`);
+    url.searchParams.set('path', currentPath);
+    const source = new EventSource(url);
+
+    source.onmessage = (message) => {
+      const event: DirectoryChangeEvent = JSON.parse(message.data);
+
+      if (event.type === 'error') {
+        console.warn('Directory watcher error:', event.error);
+        source.close();
+        return;
+      }
+      applyChange(event);
+    };
+
+    return () => source.close();
+  }, [currentPath, archivePath, applyChange]);
+
+  // Apply the changes of a rename, move, copy or delete right away instead of waiting
+  // for the watcher; new items only show up when they landed in the open folder
+  const applyChanges = useCallback((changes: DirectoryChangeEvent[]) => {
+    changes
+      .filter(change => change.type === 'delete' || change.parentPath === currentPathRef.current)
+      .forEach(applyChange);
+  }, [applyChange]);
+
+  // With `tags`, only items carrying all of them are found (the query may then be empty)
+  const searchAssets = useCallback(async (query: string, signal?: AbortSignal, tags: string[] = []): Promise<SearchResponse> => {
+    const url = new URL(`${API_BASE}/search`);
+    url.searchParams.set('q', query);
+    if (tags.length > 0) url.searchParams.set('tags', tags.join(','));
+
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to search assets' }));
+      throw new Error(errorData.error || 'Failed to search assets');
+    }
+
+    return response.json();
+  }, []);
+
+  // `version` (usually the modified date) changes the URL so the browser refetches updated thumbnails
+  const getThumbnailUrl = useCallback((filePath: string, size = 200, version?: string) => {
     const url = new URL(`${API_BASE}/thumbnail`);
     url.searchParams.set('path', filePath);
     url.searchParams.set('size', size.toString());
+    if (version) url.searchParams.set('v', version);
     return url.toString();
   }, []);
 
-  const getFolderPreviewUrl = useCallback((folderPath: string, size = 200) => {
+  const getFolderPreviewUrl = useCallback((folderPath: string, size = 200, version?: string) => {
     const url = new URL(`${API_BASE}/folder-preview`);
     url.searchParams.set('path', folderPath);
     url.searchParams.set('size', size.toString());
+    if (version) url.searchParams.set('v', version);
+    return url.toString();
+  }, []);
+
+  // Waveform of an audio file as a transparent PNG with white bars
+  const getWaveformUrl = useCallback((filePath: string, width: number, height: number, version?: string) => {
+    const url = new URL(`${API_BASE}/waveform`);
+    url.searchParams.set('path', filePath);
+    url.searchParams.set('format', 'png');
+    url.searchParams.set('width', width.toString());
+    url.searchParams.set('height', height.toString());
+    if (version) url.searchParams.set('v', version);
     return url.toString();
   }, []);
 
@@ -62,12 +243,17 @@ export const useFileSystem = () => {
 
   return {
     currentPath,
+    archivePath,
     items,
     loading,
+    loadingMore,
     error,
     browseDirectory,
+    applyChanges,
+    searchAssets,
     getThumbnailUrl,
     getFolderPreviewUrl,
+    getWaveformUrl,
     getFileUrl,
     getModelTextureUrl
   };
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { ConfigResponse, FileCategory, FileTypesConfig, PreviewKind } from '../types';
+import { API_HEADERS } from '../utils/apiHeaders';
+
+const API_BASE = 'http://localhost:3001/api';
+
+// The file type settings are shared by every component, so they live outside React
+// and are fetched once; components re-render when they're loaded or saved.
+let config: ConfigResponse | null = null;
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const setConfig = (next: ConfigResponse) => {
+  config = next;
+  listeners.forEach(listener => listener());
+};
+
+const loadConfig = () => {
+  if (!loadPromise) {
+    loadPromise = fetch(`${API_BASE}/config`)
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load file type settings');
+        return response.json();
+      })
+      .then(setConfig)
+      .catch(error => {
+        console.error('File type settings error:', error);
+        // Try again the next time a component mounts
+        loadPromise = null;
+      });
+  }
+  return loadPromise;
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getSnapshot = () => config;
+
+export const useFileTypes = () => {
+  const current = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  const getCategory = useCallback((fileType: string): FileCategory | undefined =>
+    current?.fileTypes.categories.find(category => category.id === fileType), [current]);
+
+  // Files of unknown categories (or before the settings are loaded) get no preview
+  const getPreviewKind = useCallback((fileType: string): PreviewKind =>
+    getCategory(fileType)?.preview ?? 'none', [getCategory]);
+
+  // Throws with the server's explanation when the settings are invalid
+  const saveFileTypes = useCallback(async (fileTypes: FileTypesConfig) => {
+    const response = await fetch(`${API_BASE}/config`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...API_HEADERS },
+      body: JSON.stringify({ fileTypes })
+    });
+
+    const data = await response.json().catch(() => ({ error: 'Failed to save file type settings' }));
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to save file type settings');
+    }
+
+    setConfig(data);
+  }, []);
+
+  return {
+    config: current,
+    getCategory,
+    getPreviewKind,
+    saveFileTypes
+  };
+};
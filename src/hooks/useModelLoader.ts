@@ -1,10 +1,67 @@
 import React from 'react';
+import { getModelThumbnailKey, getStoredThumbnail, storeThumbnail } from '../utils/thumbnailStore';
+
+// three is imported at runtime without type declarations; these describe the parts of it
+// the shared renderer and the cleanup code use
+interface ThumbnailObject {
+  geometry?: { dispose: () => void };
+  material?: ThumbnailMaterial | ThumbnailMaterial[];
+}
+
+type ThumbnailMaterial = Record<string, unknown> & { dispose?: () => void };
+
+interface ThumbnailScene {
+  traverse: (callback: (object: ThumbnailObject) => void) => void;
+  clear: () => void;
+}
+
+interface ThumbnailCamera {
+  aspect: number;
+  updateProjectionMatrix: () => void;
+}
+
+interface ThumbnailRenderer {
+  domElement: HTMLCanvasElement;
+  outputColorSpace: string;
+  shadowMap: { enabled: boolean; type: number };
+  renderLists: { dispose: () => void };
+  setPixelRatio: (ratio: number) => void;
+  setSize: (width: number, height: number, updateStyle: boolean) => void;
+  render: (scene: ThumbnailScene, camera: ThumbnailCamera) => void;
+  dispose: () => void;
+  forceContextLoss: () => void;
+}
+
+interface ThreeRendering {
+  WebGLRenderer: new (options: {
+    antialias: boolean;
+    alpha: boolean;
+    preserveDrawingBuffer: boolean;
+    powerPreference: string;
+  }) => ThumbnailRenderer;
+  SRGBColorSpace: string;
+  PCFSoftShadowMap: number;
+}
+
+interface ModelFileLoader {
+  load: (
+    url: string,
+    onLoad: (result: unknown) => void,
+    onProgress: undefined,
+    onError: (error: unknown) => void
+  ) => void;
+}
+
+const isTexture = (value: unknown): value is { dispose: () => void } =>
+  typeof value === 'object' && value !== null && (value as { isTexture?: boolean }).isTexture === true;
 
 interface ModelLoadRequest {
   id: string;
   modelPath: string;
+  modified: string; // Model file mtime, part of the stored thumbnail key
+  live?: boolean; // Skip the stored thumbnail and load the real model (for the turntable)
   containerRef: React.RefObject<HTMLDivElement>;
-  onLoad: (scene: any) => void;
+  onLoad: (model: Omit<LoadedModel, 'lastUsed'>) => void;
   onError: (error: string) => void;
   priority: number; // Higher number = higher priority
 }
@@ -16,13 +73,22 @@ interface LoadingState {
 }
 
 interface LoadedModel {
-  scene: any;
-  renderer: any;
+  scene: ThumbnailScene | null; // null when only the stored thumbnail was shown
+  camera: ThumbnailCamera | null;
+  modelGroup: { rotation: { y: number } } | null;
+  canvas: HTMLCanvasElement; // Plain 2D canvas the frames are copied into
+  request: ModelLoadRequest;
   animationId?: number;
   cleanup: () => void;
   lastUsed: number;
 }
 
+// Turntable rotation per frame while a thumbnail is hovered
+const TURNTABLE_SPEED = 0.008;
+
+// Bump when the framing, lights or materials change so stored thumbnails get re-rendered
+const RENDER_SETTINGS_VERSION = 'v1';
+
 class ModelLoadQueue {
   private queue: ModelLoadRequest[] = [];
   private loading: Set<string> = new Set();
@@ -31,6 +97,11 @@ class ModelLoadQueue {
   private maxLoaded = 15; // Maximum models to keep loaded in memory
   private abortControllers: Map<string, AbortController> = new Map();
   private cleanupInterval: NodeJS.Timeout;
+  // Browsers only allow a handful of live WebGL contexts, so every thumbnail
+  // is rendered by this one offscreen renderer and copied into its own 2D canvas
+  private THREE: ThreeRendering | null = null;
+  private renderer: ThumbnailRenderer | null = null;
+  private hovered: Set<string> = new Set();
 
   constructor() {
     // Run cleanup every 30 seconds to free unused models
@@ -47,6 +118,12 @@ class ModelLoadQueue {
     if (this.loadedModels.has(request.id)) {
       const model = this.loadedModels.get(request.id)!;
       model.lastUsed = Date.now();
+      // The thumbnail may have been remounted, move the rendered canvas over
+      const container = request.containerRef.current;
+      if (container && model.canvas.parentNode !== container) {
+        container.innerHTML = '';
+        container.appendChild(model.canvas);
+      }
       request.onLoad(model);
       return;
     }
@@ -61,6 +138,7 @@ class ModelLoadQueue {
   removeRequest(id: string) {
     // Remove from queue
     this.queue = this.queue.filter(r => r.id !== id);
+    this.hovered.delete(id);
 
     // Cancel if currently loading
     if (this.loading.has(id)) {
@@ -144,62 +222,20 @@ class ModelLoadQueue {
 
   private deepCleanupModel(model: LoadedModel) {
     try {
-      // Stop animation loop
-      if (model.animationId) {
+      // Stop turntable loop, the canvas keeps showing the last frame
+      if (model.animationId !== undefined) {
         cancelAnimationFrame(model.animationId);
+        model.animationId = undefined;
       }
 
       // Deep cleanup of Three.js objects
       if (model.scene) {
-        // Traverse and dispose of all geometries, materials, and textures
-        model.scene.traverse((object: any) => {
-          if (object.geometry) {
-            object.geometry.dispose();
-          }
-
-          if (object.material) {
-            const materials = Array.isArray(object.material) ? object.material : [object.material];
-            materials.forEach((material: any) => {
-              // Dispose of all textures
-              Object.keys(material).forEach(key => {
-                const value = material[key];
-                if (value && value.isTexture) {
-                  value.dispose();
-                }
-              });
-
-              // Dispose of material
-              if (material.dispose) {
-                material.dispose();
-              }
-            });
-          }
-        });
+        this.releaseGpuResources(model.scene);
 
         // Clear the scene
         model.scene.clear();
       }
 
-      // Dispose of renderer and its context
-      if (model.renderer) {
-        const gl = model.renderer.getContext();
-        if (gl) {
-          // Force WebGL context cleanup
-          const loseContext = gl.getExtension('WEBGL_lose_context');
-          if (loseContext) {
-            loseContext.loseContext();
-          }
-        }
-
-        model.renderer.dispose();
-        model.renderer.forceContextLoss();
-
-        // Remove canvas from DOM
-        if (model.renderer.domElement && model.renderer.domElement.parentNode) {
-          model.renderer.domElement.parentNode.removeChild(model.renderer.domElement);
-        }
-      }
-
       // Call custom cleanup if available
       if (model.cleanup) {
         model.cleanup();
@@ -215,6 +251,133 @@ class ModelLoadQueue {
       clearInterval(this.cleanupInterval);
     }
     this.forceCleanupAllModels();
+
+    if (this.renderer) {
+      this.renderer.dispose();
+      this.renderer.forceContextLoss();
+      this.renderer = null;
+    }
+  }
+
+  private getRenderer() {
+    if (!this.renderer) {
+      const THREE = this.THREE!;
+      const renderer = new THREE.WebGLRenderer({
+        antialias: true,
+        alpha: true,
+        preserveDrawingBuffer: true,
+        powerPreference: "high-performance" // Prefer dedicated GPU
+      });
+      renderer.setPixelRatio(1); // Canvas sizes already include the device pixel ratio
+      renderer.outputColorSpace = THREE.SRGBColorSpace;
+      renderer.shadowMap.enabled = true;
+      renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+
+      // Create a fresh renderer next time if the browser drops the context
+      renderer.domElement.addEventListener('webglcontextlost', () => {
+        console.warn('⚠️ Shared 3D thumbnail renderer lost its WebGL context');
+        this.renderer = null;
+      });
+
+      this.renderer = renderer;
+      console.log('🎨 Created shared 3D thumbnail renderer');
+    }
+    return this.renderer;
+  }
+
+  // Render the model with the shared renderer and copy the result into its canvas
+  private renderFrame(model: LoadedModel) {
+    const { canvas, scene, camera } = model;
+    if (!scene || !camera) return;
+    const renderer = this.getRenderer();
+
+    renderer.setSize(canvas.width, canvas.height, false);
+    camera.aspect = canvas.width / canvas.height;
+    camera.updateProjectionMatrix();
+    renderer.render(scene, camera);
+
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(renderer.domElement, 0, 0);
+    }
+  }
+
+  // Free the GPU copies of geometries, materials and textures.
+  // three.js uploads them again if the model is rendered again (turntable)
+  private releaseGpuResources(scene: ThumbnailScene) {
+    // Traverse and dispose of all geometries, materials, and textures
+    scene.traverse((object) => {
+      if (object.geometry) {
+        object.geometry.dispose();
+      }
+
+      if (object.material) {
+        const materials = Array.isArray(object.material) ? object.material : [object.material];
+        materials.forEach((material) => {
+          // Dispose of all textures
+          Object.keys(material).forEach(key => {
+            const value = material[key];
+            if (isTexture(value)) {
+              value.dispose();
+            }
+          });
+
+          // Dispose of material
+          if (material.dispose) {
+            material.dispose();
+          }
+        });
+      }
+    });
+
+    if (this.renderer) {
+      this.renderer.renderLists.dispose();
+    }
+  }
+
+  startTurntable(id: string) {
+    this.hovered.add(id);
+
+    const model = this.loadedModels.get(id);
+    if (!model || model.animationId !== undefined) return;
+
+    if (!model.scene || !model.modelGroup) {
+      // Only the stored thumbnail is shown, load the real model first (starts spinning once loaded)
+      if (this.loading.has(id) || this.queue.some(r => r.id === id)) return;
+      this.loadedModels.delete(id);
+      this.addRequest({ ...model.request, live: true, priority: model.request.priority + 1000 });
+      return;
+    }
+
+    model.lastUsed = Date.now();
+    const { modelGroup } = model;
+
+    const animate = () => {
+      if (!model.canvas.isConnected) {
+        this.stopTurntable(id);
+        return;
+      }
+
+      model.animationId = requestAnimationFrame(animate);
+
+      // Slow auto-rotation around the Y-axis (vertical)
+      modelGroup.rotation.y += TURNTABLE_SPEED;
+      this.renderFrame(model);
+    };
+    animate();
+  }
+
+  stopTurntable(id: string) {
+    this.hovered.delete(id);
+
+    const model = this.loadedModels.get(id);
+    if (!model || model.animationId === undefined) return;
+
+    cancelAnimationFrame(model.animationId);
+    model.animationId = undefined;
+    model.lastUsed = Date.now();
+    if (model.scene) this.releaseGpuResources(model.scene);
   }
 
   private async processQueue() {
@@ -242,6 +405,11 @@ class ModelLoadQueue {
           if (this.loadedModels.size > this.maxLoaded) {
             this.cleanupOldModels();
           }
+
+          // The pointer may have moved onto the thumbnail while it was loading
+          if (this.hovered.has(request.id)) {
+            this.startTurntable(request.id);
+          }
         }
       } catch (error) {
         if (!controller.signal.aborted) {
@@ -258,10 +426,43 @@ class ModelLoadQueue {
   }
 
   private async loadModel(request: ModelLoadRequest, signal: AbortSignal) {
-    const { modelPath, containerRef, onLoad, onError } = request;
+    const { modelPath, modified, containerRef, onLoad, onError } = request;
 
     if (!containerRef.current || signal.aborted) return;
 
+    const container = containerRef.current;
+    const pixelRatio = Math.min(window.devicePixelRatio, 2);
+    const width = Math.max(1, Math.round(container.clientWidth * pixelRatio));
+    const height = Math.max(1, Math.round(container.clientHeight * pixelRatio));
+
+    // The thumbnail only gets a 2D canvas, the shared renderer draws into it
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.style.width = '100%';
+    canvas.style.height = '100%';
+    canvas.style.display = 'block';
+
+    // Show the thumbnail rendered on a previous visit without loading the model at all
+    const storedKey = modified
+      ? getModelThumbnailKey(modelPath, modified, `${RENDER_SETTINGS_VERSION}-${width}x${height}`)
+      : null;
+    if (storedKey && !request.live) {
+      const storedBlob = await getStoredThumbnail(storedKey);
+      if (storedBlob && !signal.aborted) {
+        const bitmap = await createImageBitmap(storedBlob);
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+        bitmap.close();
+
+        container.innerHTML = '';
+        container.appendChild(canvas);
+
+        const storedData = { scene: null, camera: null, modelGroup: null, canvas, request, cleanup: () => {} };
+        onLoad(storedData);
+        return storedData;
+      }
+    }
+
     // Dynamically import Three.js modules
     const THREE = await import('three');
     const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js');
@@ -269,10 +470,7 @@ class ModelLoadQueue {
     const { OBJLoader } = await import('three/examples/jsm/loaders/OBJLoader.js');
 
     if (signal.aborted) return;
-
-    const container = containerRef.current;
-    const width = container.clientWidth;
-    const height = container.clientHeight;
+    this.THREE = THREE;
 
     // Create scene
     const scene = new THREE.Scene();
@@ -280,28 +478,6 @@ class ModelLoadQueue {
 
     const camera = new THREE.PerspectiveCamera(50, width / height, 0.1, 1000);
 
-    // Create renderer
-    const renderer = new THREE.WebGLRenderer({
-      antialias: true,
-      alpha: true,
-      preserveDrawingBuffer: true,
-      powerPreference: "high-performance" // Prefer dedicated GPU
-    });
-    renderer.setSize(width, height);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    renderer.outputColorSpace = THREE.SRGBColorSpace;
-    renderer.shadowMap.enabled = true;
-    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
-
-    if (signal.aborted) {
-      renderer.dispose();
-      return;
-    }
-
-    // Clear container and add renderer
-    container.innerHTML = '';
-    container.appendChild(renderer.domElement);
-
     // Add lighting - PURE WHITE ONLY, NO COLOR TINTS
     const ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
     scene.add(ambientLight);
@@ -324,7 +500,7 @@ class ModelLoadQueue {
     const fileUrl = `http://localhost:3001/api/file?path=${encodeURIComponent(modelPath)}`;
     const extension = modelPath.split('.').pop()?.toLowerCase();
 
-    let loader: any;
+    let loader: ModelFileLoader;
     switch (extension) {
       case 'glb':
       case 'gltf':
@@ -341,7 +517,6 @@ class ModelLoadQueue {
     }
 
     if (signal.aborted) {
-      renderer.dispose();
       scene.clear();
       return;
     }
@@ -393,7 +568,6 @@ class ModelLoadQueue {
     const modelTexture = await loadTexture();
 
     if (signal.aborted) {
-      renderer.dispose();
       scene.clear();
       return;
     }
@@ -488,39 +662,32 @@ class ModelLoadQueue {
 
           console.log(`📷 Camera positioned at: (${camera.position.x.toFixed(2)}, ${camera.position.y.toFixed(2)}, ${camera.position.z.toFixed(2)}), distance: ${paddedDistance.toFixed(2)}`);
 
-          // Simple auto-rotation for thumbnails
-          let rotationSpeed = 0.008; // Slightly slower for better viewing
-          let animationId: number;
-
-          // Animation loop
-          const animate = () => {
-            if (signal.aborted || !container.parentNode) {
-              if (animationId) cancelAnimationFrame(animationId);
-              return;
-            }
-
-            animationId = requestAnimationFrame(animate);
-
-            // Slow auto-rotation around the Y-axis (vertical)
-            modelGroup.rotation.y += rotationSpeed;
-
-            renderer.render(scene, camera);
-          };
-          animate();
-
           // Store scene data for cleanup
           const sceneData = {
             scene,
             camera,
-            renderer,
-            animationId,
+            modelGroup,
+            canvas,
+            request,
             cleanup: () => {
-              if (animationId) cancelAnimationFrame(animationId);
-              renderer.dispose();
               scene.clear();
             }
           };
 
+          // Render a still once and give the GPU memory back right away,
+          // hovering the thumbnail plays a turntable (see startTurntable)
+          this.renderFrame(sceneData as LoadedModel);
+          this.releaseGpuResources(scene);
+
+          container.innerHTML = '';
+          container.appendChild(canvas);
+
+          if (storedKey) {
+            canvas.toBlob((blob) => {
+              if (blob) storeThumbnail(storedKey, blob);
+            }, 'image/png');
+          }
+
           onLoad(sceneData);
           resolve(sceneData);
         },
@@ -551,7 +718,8 @@ export const useModelLoader = () => {
     id: string,
     modelPath: string,
     containerRef: React.RefObject<HTMLDivElement>,
-    priority: number = 0
+    priority: number = 0,
+    modified: string = ''
   ) => {
     // Set loading state
     setLoadingStates(prev => new Map(prev.set(id, { loading: true, error: null, loaded: false })));
@@ -559,6 +727,7 @@ export const useModelLoader = () => {
     const request: ModelLoadRequest = {
       id,
       modelPath,
+      modified,
       containerRef,
       priority,
       onLoad: (scene) => {
@@ -596,6 +765,14 @@ export const useModelLoader = () => {
     setLoadingStates(new Map());
   }, []);
 
+  const startTurntable = React.useCallback((id: string) => {
+    modelLoadQueue.startTurntable(id);
+  }, []);
+
+  const stopTurntable = React.useCallback((id: string) => {
+    modelLoadQueue.stopTurntable(id);
+  }, []);
+
   const getLoadingState = React.useCallback((id: string): LoadingState => {
     return loadingStates.get(id) || { loading: false, error: null, loaded: false };
   }, [loadingStates]);
@@ -604,6 +781,8 @@ export const useModelLoader = () => {
     loadModel,
     cancelLoad,
     clearAllLoads,
+    startTurntable,
+    stopTurntable,
     getLoadingState
   };
 };
\ No newline at end of file
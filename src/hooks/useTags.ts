@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { FileItem, TagCount, TagsUpdateResponse } from '../types';
+import { explainAccessDenied, isAccessDenied } from '../utils/accessErrors';
+import { API_HEADERS } from '../utils/apiHeaders';
+
+const API_BASE = 'http://localhost:3001/api';
+
+// Every tag in use, plus the tags of items edited since they were listed (listings
+// aren't reloaded after an edit, so the edited tags win over `item.tags`)
+interface TagState {
+  allTags: TagCount[];
+  edited: Record<string, string[]>;
+}
+
+let state: TagState = { allTags: [], edited: {} };
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const setState = (next: Partial<TagState>) => {
+  state = { ...state, ...next };
+  listeners.forEach(listener => listener());
+};
+
+const loadTags = () => {
+  if (!loadPromise) {
+    loadPromise = fetch(`${API_BASE}/tags`)
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load tags');
+        return response.json();
+      })
+      .then(({ tags }) => setState({ allTags: tags }))
+      .catch(error => {
+        console.error('Tags error:', error);
+        loadPromise = null;
+      });
+  }
+  return loadPromise;
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getSnapshot = () => state;
+
+export interface TagChange {
+  tags?: string[];
+  add?: string[];
+  remove?: string[];
+}
+
+export const useTags = () => {
+  const current = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    loadTags();
+  }, []);
+
+  const getTags = useCallback((item: FileItem): string[] =>
+    current.edited[item.path] ?? item.tags ?? [], [current]);
+
+  // Throws with the server's explanation when the tags are invalid
+  const updateTags = useCallback(async (paths: string[], change: TagChange) => {
+    const response = await fetch(`${API_BASE}/tags`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...API_HEADERS },
+      body: JSON.stringify({ paths, ...change })
+    });
+
+    const data = await response.json().catch(() => ({ error: 'Failed to update tags' }));
+    if (!response.ok) {
+      if (isAccessDenied(data)) throw new Error(explainAccessDenied(data));
+      throw new Error(data.error || 'Failed to update tags');
+    }
+
+    const { items, tags }: TagsUpdateResponse = data;
+    setState({ allTags: tags, edited: { ...state.edited, ...items } });
+  }, []);
+
+  return {
+    allTags: current.allTags,
+    getTags,
+    updateTags
+  };
+};
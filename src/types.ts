@@ -2,19 +2,250 @@ export interface FileItem {
   name: string;
   path: string;
   isDirectory: boolean;
+  isArchive?: boolean; // .zip or .unitypackage, opened like a folder
   fileType: string;
   hasAssets?: boolean;
   firstAsset?: {
     path: string;
     type: string;
+    modified?: string;
   } | null;
   size: number;
   modified: string;
   extension: string | null;
+  parentPath?: string;
+  tags?: string[];
+  // Undefined until read through /api/metadata, null when the format has none
+  metadata?: AssetMetadata | null;
 }
 
 export interface DirectoryResponse {
   currentPath: string;
   parentPath: string;
+  archivePath: string | null; // Set while browsing inside an archive
   items: FileItem[];
-}
\ No newline at end of file
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface FolderPreview {
+  isEmpty: boolean;
+  hasAssets: boolean;
+  firstAsset: FileItem['firstAsset'];
+}
+
+export interface DirectoryChangeEvent {
+  type: 'ready' | 'add' | 'change' | 'delete' | 'error';
+  path: string;
+  item?: FileItem;
+  error?: string;
+  // Folder the item is (or was) in, set on changes made by file operations
+  parentPath?: string;
+}
+
+export interface IndexStatus {
+  roots: string[];
+  indexing: boolean;
+  entryCount: number;
+  updatedAt: string | null;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: FileItem[];
+  total: number;
+  index: IndexStatus;
+}
+// How files of a category are previewed, see server/fileTypes.js
+export type PreviewKind = 'image' | 'model' | 'audio' | 'video' | 'text' | 'font' | 'map' | 'none';
+
+export interface FileCategory {
+  id: string;
+  label: string;
+  extensions: string[];
+  preview: PreviewKind;
+  color: string;
+  icon: string;
+}
+
+export interface FileTypesConfig {
+  version?: number; // Set by the server, settings saved by older versions are updated on load
+  categories: FileCategory[];
+  hiddenNames: string[];
+  hiddenExtensions: string[];
+}
+
+export interface ConfigResponse {
+  fileTypes: FileTypesConfig;
+  defaults: FileTypesConfig;
+  options: {
+    previewKinds: PreviewKind[];
+    colors: string[];
+    icons: string[];
+  };
+  configFile: string;
+}
+
+export interface DuplicateFile {
+  name: string;
+  path: string;
+  parentPath: string;
+  fileType: string;
+  size: number;
+  modified: string;
+}
+
+// Files with identical contents; wastedBytes is what deleting all but one copy would free
+export interface DuplicateGroup {
+  hash: string;
+  size: number;
+  wastedBytes: number;
+  files: DuplicateFile[];
+}
+
+export interface DuplicatesResponse {
+  root?: string;
+  phase: 'idle' | 'scanning' | 'hashing' | 'done' | 'cancelled' | 'error';
+  running: boolean;
+  filesScanned?: number;
+  filesToHash?: number;
+  filesHashed?: number;
+  bytesToHash?: number;
+  bytesHashed?: number;
+  startedAt?: string;
+  finishedAt?: string | null;
+  error?: string | null;
+  groupCount: number;
+  wastedBytes: number;
+  groups: DuplicateGroup[];
+}
+
+// The copies go to the trash as one operation, so the response also carries the undo stack
+export interface DeleteDuplicatesResponse extends DuplicatesResponse, FileOperationResponse {
+  deleted: string[];
+  errors: { path: string; error: string }[];
+}
+
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+export interface TagsUpdateResponse {
+  items: Record<string, string[]>;
+  tags: TagCount[];
+}
+
+export interface GameProject {
+  name: string;
+  path: string;
+}
+
+export interface ProjectFile {
+  source: string;
+  relativePath: string;
+  target?: string;
+}
+
+// What "Send to project" would copy for an asset
+export interface SendToProjectPlan {
+  projects: GameProject[];
+  configFile: string;
+  files: ProjectFile[];
+}
+
+export interface SendToProjectResult {
+  project: string;
+  targetDir: string;
+  copied: ProjectFile[];
+  overwritten: string[];
+}
+
+export interface UndoEntry {
+  id: string;
+  type: 'rename' | 'move' | 'copy' | 'trash' | 'upload' | 'export';
+  description: string;
+  at: string;
+}
+
+// Answer of every rename, move, copy, delete, undo and restore
+export interface FileOperationResponse {
+  operation: Omit<UndoEntry, 'at'> | null;
+  changes: DirectoryChangeEvent[];
+  undo: UndoEntry[];
+}
+
+export interface TrashItem {
+  id: string;
+  name: string;
+  originalPath: string;
+  trashPath: string;
+  isDirectory: boolean;
+  size: number;
+  trashedAt: string;
+}
+
+export interface TrashResponse {
+  items: TrashItem[];
+  trashDir: string;
+}
+
+// Per-type details from /api/metadata; every field may be missing when the file doesn't store it
+export interface AssetMetadata {
+  kind: 'image' | 'audio' | 'video' | 'model' | 'font';
+  width?: number;
+  height?: number;
+  hasAlpha?: boolean;
+  channels?: number;
+  bitDepth?: number;
+  bitsPerPixel?: number;
+  colorSpace?: string;
+  palette?: boolean;
+  frames?: number;
+  codec?: string;
+  duration?: number;
+  sampleRate?: number;
+  bitrate?: number;
+  frameRate?: number;
+  audioCodec?: string;
+  meshes?: number;
+  vertices?: number;
+  triangles?: number;
+  materials?: number;
+  animations?: number;
+  bones?: number;
+  family?: string;
+  style?: string;
+  fullName?: string;
+  weight?: string;
+  glyphs?: number;
+}
+
+// A Tiled or LDtk map from /api/map, see server/mapParsers.js
+export interface MapImage {
+  path: string;
+  width: number;
+  height: number;
+  missing: boolean;
+}
+
+export interface MapLayer {
+  name: string;
+  visible: boolean;
+  opacity: number;
+  // 8 numbers per tile: dx, dy, image index, sx, sy, width, height, flags (1 flip x, 2 flip y, 4 diagonal)
+  tiles: number[];
+}
+
+export interface MapData {
+  format: 'tiled' | 'ldtk';
+  orientation: string;
+  width: number;
+  height: number;
+  backgroundColor: string | null;
+  images: MapImage[];
+  // Level areas of LDtk worlds, drawn under the layers
+  regions: { x: number; y: number; width: number; height: number; color: string }[];
+  layers: MapLayer[];
+  warnings: string[];
+}
@@ -0,0 +1,18 @@
+// The server only serves files below its allowed library roots and answers
+// anything else with a 403 describing how to allow more folders.
+
+export interface AccessDeniedResponse {
+  error: string;
+  code: 'PATH_NOT_ALLOWED';
+  allowedRoots: string[];
+  configFile: string;
+}
+
+export const isAccessDenied = (data: unknown): data is AccessDeniedResponse =>
+  typeof data === 'object' && data !== null && (data as { code?: string }).code === 'PATH_NOT_ALLOWED';
+
+export const explainAccessDenied = (data: AccessDeniedResponse): string => {
+  const roots = data.allowedRoots.length > 0 ? data.allowedRoots.join(', ') : 'none configured';
+  return `${data.error}. For safety the server only opens files inside these folders: ${roots}. ` +
+    `To browse this folder, add it to "allowedRoots" in ${data.configFile} (or the TAB_ALLOWED_ROOTS environment variable) and restart the server.`;
+};
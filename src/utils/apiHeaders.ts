@@ -0,0 +1,3 @@
+// The server turns down every request but GETs unless it carries this header. A page on
+// another site can't add it without a CORS preflight, which the server only grants the client
+export const API_HEADERS = { 'X-Asset-Browser': '1' };
@@ -0,0 +1,99 @@
+import { AssetMetadata } from '../types';
+import { formatCount, formatDuration } from './formatters';
+
+const formatChannels = (channels: number) =>
+  channels === 1 ? 'Mono' : channels === 2 ? 'Stereo' : `${channels} channels`;
+
+const formatSampleRate = (sampleRate: number) => `${+(sampleRate / 1000).toFixed(1)} kHz`;
+
+const formatDimensions = (metadata: AssetMetadata) =>
+  metadata.width && metadata.height ? `${metadata.width}×${metadata.height}` : undefined;
+
+// One short line for grid cards, like "1024×1024" or "0:03 · 44.1 kHz"
+export const summarizeMetadata = (metadata: AssetMetadata): string => {
+  const parts: (string | undefined)[] = [];
+  switch (metadata.kind) {
+    case 'image':
+      parts.push(formatDimensions(metadata));
+      break;
+    case 'audio':
+      parts.push(
+        metadata.duration !== undefined ? formatDuration(metadata.duration) : undefined,
+        metadata.sampleRate ? formatSampleRate(metadata.sampleRate) : undefined
+      );
+      break;
+    case 'video':
+      parts.push(
+        metadata.duration !== undefined ? formatDuration(metadata.duration) : undefined,
+        metadata.height ? `${metadata.height}p` : undefined
+      );
+      break;
+    case 'model':
+      parts.push(metadata.triangles !== undefined ? `${formatCount(metadata.triangles)} tris` : undefined);
+      if (metadata.animations) parts.push(`${metadata.animations} anim`);
+      break;
+    case 'font':
+      parts.push(metadata.family, metadata.style);
+      break;
+  }
+  return parts.filter(Boolean).join(' · ');
+};
+
+// Label/value rows for the inspector, in a fixed order per kind
+export const getMetadataRows = (metadata: AssetMetadata): { label: string; value: string }[] => {
+  const rows: [string, string | undefined][] = [];
+  switch (metadata.kind) {
+    case 'image':
+      rows.push(
+        ['Dimensions', formatDimensions(metadata)],
+        ['Alpha', metadata.hasAlpha === undefined ? undefined : metadata.hasAlpha ? 'Yes' : 'No'],
+        ['Color depth', metadata.bitsPerPixel ? `${metadata.bitsPerPixel} bits per pixel${metadata.palette ? ' (palette)' : ''}` : undefined],
+        ['Bits per channel', metadata.bitDepth?.toString()],
+        ['Channels', metadata.channels?.toString()],
+        ['Color space', metadata.colorSpace],
+        ['Frames', metadata.frames && metadata.frames > 1 ? metadata.frames.toString() : undefined]
+      );
+      break;
+    case 'audio':
+      rows.push(
+        ['Duration', metadata.duration !== undefined ? formatDuration(metadata.duration) : undefined],
+        ['Codec', metadata.codec],
+        ['Sample rate', metadata.sampleRate ? formatSampleRate(metadata.sampleRate) : undefined],
+        ['Channels', metadata.channels ? formatChannels(metadata.channels) : undefined],
+        ['Bit depth', metadata.bitDepth ? `${metadata.bitDepth}-bit` : undefined],
+        ['Bitrate', metadata.bitrate ? `${Math.round(metadata.bitrate / 1000)} kbps` : undefined]
+      );
+      break;
+    case 'video':
+      rows.push(
+        ['Duration', metadata.duration !== undefined ? formatDuration(metadata.duration) : undefined],
+        ['Resolution', formatDimensions(metadata)],
+        ['Codec', metadata.codec],
+        ['Frame rate', metadata.frameRate ? `${+metadata.frameRate.toFixed(2)} fps` : undefined],
+        ['Audio', metadata.audioCodec]
+      );
+      break;
+    case 'model':
+      rows.push(
+        ['Meshes', metadata.meshes?.toLocaleString()],
+        ['Vertices', metadata.vertices?.toLocaleString()],
+        ['Triangles', metadata.triangles?.toLocaleString()],
+        ['Materials', metadata.materials?.toLocaleString()],
+        ['Animations', metadata.animations?.toLocaleString()],
+        ['Bones', metadata.bones?.toLocaleString()]
+      );
+      break;
+    case 'font':
+      rows.push(
+        ['Family', metadata.family],
+        ['Style', metadata.style],
+        ['Full name', metadata.fullName],
+        ['Weight', metadata.weight],
+        ['Glyphs', metadata.glyphs?.toLocaleString()]
+      );
+      break;
+  }
+  return rows
+    .filter((row): row is [string, string] => Boolean(row[1]))
+    .map(([label, value]) => ({ label, value }));
+};
@@ -0,0 +1,59 @@
+import {
+  Archive,
+  Box,
+  Code,
+  File,
+  FileText,
+  Grid3x3,
+  Image,
+  LucideIcon,
+  Map as MapIcon,
+  Music,
+  Palette,
+  Type,
+  Video
+} from 'lucide-react';
+
+// Category colors and icons are stored by name (see server/fileTypes.js). Tailwind only
+// keeps classes it finds spelled out in the source, so every palette entry lists its
+// classes in full instead of building them from the color name.
+
+interface CategoryColorClasses {
+  text: string; // Icons
+  card: string; // Grid card border and background
+  swatch: string; // Solid color, e.g. in the settings panel
+}
+
+export const CATEGORY_COLOR_CLASSES: Record<string, CategoryColorClasses> = {
+  blue: { text: 'text-blue-400', card: 'border-blue-500/30 bg-blue-500/5', swatch: 'bg-blue-500' },
+  purple: { text: 'text-purple-400', card: 'border-purple-500/30 bg-purple-500/5', swatch: 'bg-purple-500' },
+  green: { text: 'text-green-400', card: 'border-green-500/30 bg-green-500/5', swatch: 'bg-green-500' },
+  red: { text: 'text-red-400', card: 'border-red-500/30 bg-red-500/5', swatch: 'bg-red-500' },
+  yellow: { text: 'text-yellow-400', card: 'border-yellow-500/30 bg-yellow-500/5', swatch: 'bg-yellow-500' },
+  orange: { text: 'text-orange-400', card: 'border-orange-500/30 bg-orange-500/5', swatch: 'bg-orange-500' },
+  pink: { text: 'text-pink-400', card: 'border-pink-500/30 bg-pink-500/5', swatch: 'bg-pink-500' },
+  cyan: { text: 'text-cyan-400', card: 'border-cyan-500/30 bg-cyan-500/5', swatch: 'bg-cyan-500' },
+  indigo: { text: 'text-indigo-400', card: 'border-indigo-500/30 bg-indigo-500/5', swatch: 'bg-indigo-500' },
+  gray: { text: 'text-gray-400', card: 'border-gray-500/30 bg-gray-500/5', swatch: 'bg-gray-500' }
+};
+
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  image: Image,
+  box: Box,
+  music: Music,
+  video: Video,
+  'file-text': FileText,
+  type: Type,
+  file: File,
+  archive: Archive,
+  map: MapIcon,
+  palette: Palette,
+  code: Code,
+  grid: Grid3x3
+};
+
+export const getColorClasses = (color?: string) =>
+  CATEGORY_COLOR_CLASSES[color ?? 'gray'] ?? CATEGORY_COLOR_CLASSES.gray;
+
+export const getCategoryIcon = (icon?: string) =>
+  CATEGORY_ICONS[icon ?? 'file'] ?? File;
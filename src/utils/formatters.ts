@@ -23,4 +23,19 @@ export const formatDate = (dateString: string): string => {
   } else {
     return date.toLocaleDateString();
   }
-};
\ No newline at end of file
+};
+// 0:03, 2:41 or 1:02:05
+export const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+// 950, 12.4k, 1.2M
+export const formatCount = (count: number): string => {
+  if (count < 1000) return String(count);
+  if (count < 1000000) return `${(count / 1000).toFixed(count < 10000 ? 1 : 0)}k`;
+  return `${(count / 1000000).toFixed(1)}M`;
+};
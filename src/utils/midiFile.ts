@@ -0,0 +1,248 @@
+// Standard MIDI files (.mid, and .rmi which wraps one in RIFF) read into one list of
+// channel events with their times in seconds, for midiSynth.ts and the preview
+
+export interface MidiEvent {
+  time: number;
+  // Channel message: status byte (with the channel in the low bits) and data bytes
+  status: number;
+  data1: number;
+  data2: number;
+}
+
+export interface MidiTrack {
+  name: string;
+  channels: number[];
+  // First program of each channel the track plays on, in channel order
+  programs: number[];
+  notes: number;
+}
+
+export interface MidiSong {
+  format: number;
+  title: string;
+  // Of the last event; notes still ring out after it
+  duration: number;
+  tracks: MidiTrack[];
+  events: MidiEvent[];
+  // Tempo and time signature changes, by tick, for the bar and beat at a time
+  ticksPerBeat: number;
+  tempos: { tick: number; time: number; microsecondsPerBeat: number }[];
+  meters: { tick: number; numerator: number; denominator: number }[];
+}
+
+export const MIDI_EXTENSIONS = ['.mid', '.midi', '.rmi'];
+
+export const DRUM_CHANNEL = 9;
+
+export const GM_PROGRAMS = [
+  'Acoustic Grand Piano', 'Bright Acoustic Piano', 'Electric Grand Piano', 'Honky-tonk Piano', 'Electric Piano 1', 'Electric Piano 2', 'Harpsichord', 'Clavinet',
+  'Celesta', 'Glockenspiel', 'Music Box', 'Vibraphone', 'Marimba', 'Xylophone', 'Tubular Bells', 'Dulcimer',
+  'Drawbar Organ', 'Percussive Organ', 'Rock Organ', 'Church Organ', 'Reed Organ', 'Accordion', 'Harmonica', 'Tango Accordion',
+  'Acoustic Guitar (nylon)', 'Acoustic Guitar (steel)', 'Electric Guitar (jazz)', 'Electric Guitar (clean)', 'Electric Guitar (muted)', 'Overdriven Guitar', 'Distortion Guitar', 'Guitar Harmonics',
+  'Acoustic Bass', 'Electric Bass (finger)', 'Electric Bass (pick)', 'Fretless Bass', 'Slap Bass 1', 'Slap Bass 2', 'Synth Bass 1', 'Synth Bass 2',
+  'Violin', 'Viola', 'Cello', 'Contrabass', 'Tremolo Strings', 'Pizzicato Strings', 'Orchestral Harp', 'Timpani',
+  'String Ensemble 1', 'String Ensemble 2', 'Synth Strings 1', 'Synth Strings 2', 'Choir Aahs', 'Voice Oohs', 'Synth Voice', 'Orchestra Hit',
+  'Trumpet', 'Trombone', 'Tuba', 'Muted Trumpet', 'French Horn', 'Brass Section', 'Synth Brass 1', 'Synth Brass 2',
+  'Soprano Sax', 'Alto Sax', 'Tenor Sax', 'Baritone Sax', 'Oboe', 'English Horn', 'Bassoon', 'Clarinet',
+  'Piccolo', 'Flute', 'Recorder', 'Pan Flute', 'Blown Bottle', 'Shakuhachi', 'Whistle', 'Ocarina',
+  'Lead 1 (square)', 'Lead 2 (sawtooth)', 'Lead 3 (calliope)', 'Lead 4 (chiff)', 'Lead 5 (charang)', 'Lead 6 (voice)', 'Lead 7 (fifths)', 'Lead 8 (bass + lead)',
+  'Pad 1 (new age)', 'Pad 2 (warm)', 'Pad 3 (polysynth)', 'Pad 4 (choir)', 'Pad 5 (bowed)', 'Pad 6 (metallic)', 'Pad 7 (halo)', 'Pad 8 (sweep)',
+  'FX 1 (rain)', 'FX 2 (soundtrack)', 'FX 3 (crystal)', 'FX 4 (atmosphere)', 'FX 5 (brightness)', 'FX 6 (goblins)', 'FX 7 (echoes)', 'FX 8 (sci-fi)',
+  'Sitar', 'Banjo', 'Shamisen', 'Koto', 'Kalimba', 'Bagpipe', 'Fiddle', 'Shanai',
+  'Tinkle Bell', 'Agogo', 'Steel Drums', 'Woodblock', 'Taiko Drum', 'Melodic Tom', 'Synth Drum', 'Reverse Cymbal',
+  'Guitar Fret Noise', 'Breath Noise', 'Seashore', 'Bird Tweet', 'Telephone Ring', 'Helicopter', 'Applause', 'Gunshot'
+];
+
+// Bytes of the data of each channel message kind (by the high nibble of the status)
+const DATA_LENGTHS: Record<number, number> = { 0x80: 2, 0x90: 2, 0xa0: 2, 0xb0: 2, 0xc0: 1, 0xd0: 1, 0xe0: 2 };
+
+const latin1 = new TextDecoder('latin1');
+
+const readString = (bytes: Uint8Array, start: number, length: number) =>
+  latin1.decode(bytes.subarray(start, start + length));
+
+interface RawEvent {
+  tick: number;
+  track: number;
+  // Position in the file, so events at the same tick keep their order
+  order: number;
+  status: number;
+  data1: number;
+  data2: number;
+  // Meta events (status 0xff) keep their type and data
+  metaType?: number;
+  meta?: Uint8Array;
+}
+
+// Throws an Error with a message for the user when the file isn't a MIDI file
+export const parseMidi = (data: ArrayBuffer): MidiSong => {
+  const bytes = new Uint8Array(data);
+  const view = new DataView(data);
+  let offset = 0;
+
+  // RIFF MIDI (.rmi) keeps the standard file in its data chunk
+  if (readString(bytes, 0, 4) === 'RIFF' && readString(bytes, 8, 4) === 'RMID') {
+    offset = 12;
+    while (offset + 4 <= bytes.length && readString(bytes, offset, 4) !== 'MThd') offset++;
+  }
+  if (readString(bytes, offset, 4) !== 'MThd' || bytes.length < offset + 14) throw new Error('Not a MIDI file');
+
+  const headerLength = view.getUint32(offset + 4);
+  const format = view.getUint16(offset + 8);
+  const trackCount = view.getUint16(offset + 10);
+  const division = view.getUint16(offset + 12);
+  // SMPTE timing counts ticks per second instead of per beat; a fixed 120 BPM makes them match
+  const ticksPerBeat = division & 0x8000
+    ? (256 - (division >> 8)) * (division & 0xff) / 2
+    : division;
+  if (ticksPerBeat === 0) throw new Error('The MIDI file has no timing');
+  offset += 8 + headerLength;
+
+  const rawEvents: RawEvent[] = [];
+  const trackNames: string[] = [];
+  let order = 0;
+  for (let track = 0; track < trackCount && offset + 8 <= bytes.length; track++) {
+    const id = readString(bytes, offset, 4);
+    const length = view.getUint32(offset + 4);
+    const end = Math.min(bytes.length, offset + 8 + length);
+    if (id !== 'MTrk') {
+      // Unknown chunks are skipped and don't count as tracks
+      offset = end;
+      track--;
+      continue;
+    }
+
+    let position = offset + 8;
+    let tick = 0;
+    let runningStatus = 0;
+    const readVariableLength = () => {
+      let value = 0;
+      for (let i = 0; i < 4 && position < end; i++) {
+        const byte = bytes[position++];
+        value = value * 128 + (byte & 0x7f);
+        if (!(byte & 0x80)) break;
+      }
+      return value;
+    };
+
+    trackNames[track] = '';
+    while (position < end) {
+      tick += readVariableLength();
+      let status = bytes[position];
+      if (status & 0x80) position++;
+      else status = runningStatus;
+
+      if (status === 0xff) {
+        const metaType = bytes[position++];
+        const metaLength = readVariableLength();
+        const meta = bytes.subarray(position, Math.min(end, position + metaLength));
+        position += metaLength;
+        if (metaType === 0x2f) break;
+        if (metaType === 0x03 && !trackNames[track]) trackNames[track] = readString(meta, 0, meta.length).trim();
+        rawEvents.push({ tick, track, order: order++, status, data1: 0, data2: 0, metaType, meta });
+      } else if (status === 0xf0 || status === 0xf7) {
+        // System exclusive messages (GM/GS resets) don't change how the synth plays
+        position += readVariableLength();
+      } else if (DATA_LENGTHS[status & 0xf0]) {
+        runningStatus = status;
+        const data1 = bytes[position++] & 0x7f;
+        const data2 = DATA_LENGTHS[status & 0xf0] === 2 ? bytes[position++] & 0x7f : 0;
+        rawEvents.push({ tick, track, order: order++, status, data1, data2 });
+      } else {
+        throw new Error('The MIDI file is damaged');
+      }
+    }
+    offset = end;
+  }
+  if (trackNames.length === 0) throw new Error('The MIDI file has no tracks');
+
+  // Format 2 files hold independent sequences; they are played at the same time like format 1
+  rawEvents.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+  const tracks: MidiTrack[] = trackNames.map(name => ({ name, channels: [], programs: [], notes: 0 }));
+  const tempos: MidiSong['tempos'] = [{ tick: 0, time: 0, microsecondsPerBeat: 500000 }];
+  const meters: MidiSong['meters'] = [{ tick: 0, numerator: 4, denominator: 4 }];
+  const events: MidiEvent[] = [];
+  const programs = new Map<string, number>();
+  let title = '';
+  let lastTick = 0;
+  let time = 0;
+
+  for (const event of rawEvents) {
+    const tempo = tempos[tempos.length - 1];
+    time += ((event.tick - lastTick) * tempo.microsecondsPerBeat) / (ticksPerBeat * 1e6);
+    lastTick = event.tick;
+
+    if (event.status === 0xff) {
+      const meta = event.meta!;
+      if (event.metaType === 0x51 && meta.length >= 3 && !(division & 0x8000)) {
+        const microsecondsPerBeat = (meta[0] << 16) | (meta[1] << 8) | meta[2];
+        if (microsecondsPerBeat > 0) {
+          if (tempo.tick === event.tick) tempos.pop();
+          tempos.push({ tick: event.tick, time, microsecondsPerBeat });
+        }
+      } else if (event.metaType === 0x58 && meta.length >= 2) {
+        if (meters[meters.length - 1].tick === event.tick) meters.pop();
+        meters.push({ tick: event.tick, numerator: meta[0] || 4, denominator: 2 ** meta[1] });
+      } else if (event.metaType === 0x03 && event.track === 0 && !title) {
+        title = readString(meta, 0, meta.length).trim();
+      }
+      continue;
+    }
+
+    const channel = event.status & 0x0f;
+    const track = tracks[event.track];
+    if (!track.channels.includes(channel)) track.channels.push(channel);
+    if ((event.status & 0xf0) === 0x90 && event.data2 > 0) track.notes++;
+    if ((event.status & 0xf0) === 0xc0 && !programs.has(`${event.track}-${channel}`)) {
+      programs.set(`${event.track}-${channel}`, event.data1);
+    }
+    events.push({ time, status: event.status, data1: event.data1, data2: event.data2 });
+  }
+
+  for (const [index, track] of tracks.entries()) {
+    track.channels.sort((a, b) => a - b);
+    track.programs = track.channels.map(channel => programs.get(`${index}-${channel}`) ?? 0);
+  }
+
+  return {
+    format,
+    // Type 0 files and most type 1 files name the song in their first track
+    title,
+    duration: time,
+    tracks: tracks.filter(track => track.name || track.channels.length > 0),
+    events,
+    ticksPerBeat,
+    tempos,
+    meters
+  };
+};
+
+// Bar and beat (both from 1) and the tempo at a time in seconds
+export const getMidiPosition = (song: MidiSong, time: number) => {
+  let tempo = song.tempos[0];
+  for (const change of song.tempos) {
+    if (change.time > time) break;
+    tempo = change;
+  }
+  const tick = tempo.tick + ((time - tempo.time) * 1e6 * song.ticksPerBeat) / tempo.microsecondsPerBeat;
+
+  let bar = 0;
+  let meter = song.meters[0];
+  for (let i = 0; i < song.meters.length; i++) {
+    meter = song.meters[i];
+    const next = song.meters[i + 1];
+    const ticksPerBar = (song.ticksPerBeat * 4 * meter.numerator) / meter.denominator;
+    if (!next || next.tick > tick) {
+      const inMeter = tick - meter.tick;
+      const ticksPerMeterBeat = (song.ticksPerBeat * 4) / meter.denominator;
+      return {
+        bar: bar + Math.floor(inMeter / ticksPerBar) + 1,
+        beat: Math.floor((inMeter % ticksPerBar) / ticksPerMeterBeat) + 1,
+        bpm: 60e6 / tempo.microsecondsPerBeat
+      };
+    }
+    bar += Math.ceil((next.tick - meter.tick) / ticksPerBar);
+  }
+  return { bar: 1, beat: 1, bpm: 60e6 / tempo.microsecondsPerBeat };
+};
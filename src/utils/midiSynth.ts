@@ -0,0 +1,337 @@
+import { DRUM_CHANNEL, MidiSong } from './midiFile';
+
+// A small General MIDI synth that renders a whole song offline. There are no sampled
+// instruments: every family of eight GM programs gets a wavetable and an envelope,
+// and the drum channel is synthesized from noise and pitch-swept sines
+
+interface Patch {
+  // Amplitudes of the harmonics, from the fundamental up
+  harmonics: number[];
+  attack: number;
+  // Time constant of the fall to `sustain` (or to silence for plucked and struck sounds)
+  decay: number;
+  sustain: number;
+  release: number;
+  // A second oscillator this many cents higher, for ensembles and pads
+  detune?: number;
+}
+
+interface DrumSound {
+  // Sine that sweeps from `pitch` * `sweep` down to `pitch`
+  pitch: number;
+  sweep: number;
+  tone: number;
+  // White noise, optionally high-passed for cymbals and hats
+  noise: number;
+  bright: boolean;
+  decay: number;
+}
+
+interface Voice {
+  channel: number;
+  note: number;
+  gain: number;
+  age: number;
+  released: boolean;
+  // Note off arrived while the sustain pedal was down
+  held: boolean;
+  level: number;
+  time: number;
+  phase: number;
+  detunePhase: number;
+  patch: Patch | null;
+  tables: Float32Array[] | null;
+  drum: DrumSound | null;
+  noiseState: number;
+}
+
+interface ChannelState {
+  program: number;
+  volume: number;
+  expression: number;
+  pan: number;
+  sustain: boolean;
+  modulation: number;
+  bend: number;
+  bendRange: number;
+  // Registered parameter selected for data entry (0 is the bend range)
+  rpn: number;
+}
+
+const TABLE_SIZE = 2048;
+const MAX_VOICES = 64;
+// Pitch bend, vibrato and envelopes are updated this often
+const BLOCK_SIZE = 64;
+// Songs that never end (or have a stray event hours in) are cut here
+const MAX_DURATION = 20 * 60;
+const TAIL = 2;
+const MASTER_GAIN = 0.3;
+
+const saw = (count: number) => Array.from({ length: count }, (_, i) => 1 / (i + 1));
+const square = (count: number) => Array.from({ length: count }, (_, i) => (i % 2 === 0 ? 1 / (i + 1) : 0));
+const rolled = (count: number, power: number) => Array.from({ length: count }, (_, i) => 1 / Math.pow(i + 1, power));
+
+// One patch per family: piano, chromatic percussion, organ, guitar, bass, strings,
+// ensemble, brass, reed, pipe, synth lead, synth pad, synth effects, ethnic, percussive, sound effects
+const PATCHES: Patch[] = [
+  { harmonics: rolled(14, 1.6), attack: 0.003, decay: 1.2, sustain: 0, release: 0.25 },
+  { harmonics: [1, 0, 0.35, 0, 0.12, 0, 0.05], attack: 0.002, decay: 0.7, sustain: 0, release: 0.4 },
+  { harmonics: [1, 0.8, 0.6, 0.4, 0.5, 0, 0, 0.3], attack: 0.01, decay: 0.1, sustain: 1, release: 0.06 },
+  { harmonics: rolled(16, 1.3), attack: 0.002, decay: 0.9, sustain: 0, release: 0.12 },
+  { harmonics: rolled(8, 1.4), attack: 0.004, decay: 1.4, sustain: 0.25, release: 0.1 },
+  { harmonics: saw(16), attack: 0.12, decay: 0.3, sustain: 0.85, release: 0.3 },
+  { harmonics: saw(12), attack: 0.15, decay: 0.3, sustain: 0.85, release: 0.45, detune: 9 },
+  { harmonics: saw(14), attack: 0.04, decay: 0.2, sustain: 0.8, release: 0.15 },
+  { harmonics: [1, 0.2, 0.55, 0.15, 0.3, 0.1, 0.2, 0.05, 0.1], attack: 0.03, decay: 0.2, sustain: 0.85, release: 0.1 },
+  { harmonics: [1, 0.12, 0.06, 0.03], attack: 0.05, decay: 0.2, sustain: 0.9, release: 0.12 },
+  { harmonics: square(15), attack: 0.005, decay: 0.2, sustain: 0.9, release: 0.08 },
+  { harmonics: saw(10), attack: 0.35, decay: 0.5, sustain: 0.8, release: 0.9, detune: 12 },
+  { harmonics: [1, 0.5, 0.3, 0.25, 0.1, 0.1], attack: 0.1, decay: 0.8, sustain: 0.6, release: 0.9, detune: 15 },
+  { harmonics: rolled(14, 1.1), attack: 0.002, decay: 0.8, sustain: 0, release: 0.12 },
+  { harmonics: [1, 0, 0.2, 0.1, 0, 0.08], attack: 0.001, decay: 0.35, sustain: 0, release: 0.1 },
+  { harmonics: rolled(20, 0.7), attack: 0.02, decay: 0.4, sustain: 0.3, release: 0.2, detune: 40 }
+];
+
+const kick: DrumSound = { pitch: 50, sweep: 3, tone: 1, noise: 0.05, bright: false, decay: 0.28 };
+const snare: DrumSound = { pitch: 185, sweep: 1.3, tone: 0.45, noise: 0.7, bright: false, decay: 0.16 };
+const closedHat: DrumSound = { pitch: 0, sweep: 1, tone: 0, noise: 0.4, bright: true, decay: 0.045 };
+const openHat: DrumSound = { ...closedHat, decay: 0.35 };
+const crash: DrumSound = { ...closedHat, noise: 0.45, decay: 1.1 };
+const ride: DrumSound = { pitch: 2600, sweep: 1, tone: 0.08, noise: 0.3, bright: true, decay: 0.8 };
+const shaker: DrumSound = { ...closedHat, noise: 0.25, decay: 0.07 };
+const tom = (pitch: number): DrumSound => ({ pitch, sweep: 1.6, tone: 0.9, noise: 0.08, bright: false, decay: 0.3 });
+const hand = (pitch: number): DrumSound => ({ pitch, sweep: 1.15, tone: 0.7, noise: 0.05, bright: false, decay: 0.14 });
+const click = (pitch: number): DrumSound => ({ pitch, sweep: 1, tone: 0.6, noise: 0.1, bright: true, decay: 0.05 });
+
+// GM percussion key map (35 to 81); other keys get a short click
+const DRUMS: Record<number, DrumSound> = {
+  35: kick, 36: kick, 37: click(1800), 38: snare, 39: { ...snare, tone: 0.1, decay: 0.12 }, 40: { ...snare, pitch: 210 },
+  41: tom(80), 42: closedHat, 43: tom(95), 44: { ...closedHat, decay: 0.06 }, 45: tom(110), 46: openHat,
+  47: tom(130), 48: tom(150), 49: crash, 50: tom(175), 51: ride, 52: { ...crash, decay: 0.9 },
+  53: { ...ride, tone: 0.4, decay: 0.6 }, 54: shaker, 55: { ...crash, decay: 0.5 }, 56: click(560), 57: crash,
+  58: { ...shaker, decay: 0.4 }, 59: ride, 60: hand(400), 61: hand(300), 62: hand(330), 63: hand(250),
+  64: hand(190), 65: tom(330), 66: tom(260), 67: click(900), 68: click(650), 69: shaker, 70: shaker,
+  71: { ...click(2400), decay: 0.2 }, 72: { ...click(2000), decay: 0.35 }, 73: { ...shaker, noise: 0.3 },
+  74: { ...shaker, decay: 0.25 }, 75: click(2500), 76: click(1100), 77: click(850), 78: hand(600), 79: hand(450),
+  80: click(3000), 81: { ...click(3000), decay: 0.4 }
+};
+
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Single-cycle tables of a patch for each octave, dropping the harmonics that would alias
+const buildTables = (patch: Patch, sampleRate: number) => Array.from({ length: 11 }, (_, octave) => {
+  const topFrequency = 16.35 * Math.pow(2, octave + 1);
+  const table = new Float32Array(TABLE_SIZE + 1);
+  let peak = 0;
+  patch.harmonics.forEach((amplitude, i) => {
+    if (amplitude === 0 || topFrequency * (i + 1) >= sampleRate / 2) return;
+    for (let j = 0; j < TABLE_SIZE; j++) table[j] += amplitude * Math.sin((2 * Math.PI * (i + 1) * j) / TABLE_SIZE);
+  });
+  for (let j = 0; j < TABLE_SIZE; j++) peak = Math.max(peak, Math.abs(table[j]));
+  for (let j = 0; j < TABLE_SIZE; j++) table[j] /= peak || 1;
+  table[TABLE_SIZE] = table[0];
+  return table;
+});
+
+const noteFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+const createChannel = (): ChannelState => ({
+  program: 0, volume: 100, expression: 127, pan: 64, sustain: false, modulation: 0, bend: 0, bendRange: 2, rpn: 0x3fff
+});
+
+// Left and right samples of the song; `onProgress` gets the rendered share (0 to 1)
+export const renderMidi = async (song: MidiSong, sampleRate: number, onProgress?: (progress: number) => void) => {
+  const duration = Math.min(song.duration + TAIL, MAX_DURATION);
+  const length = Math.ceil(duration * sampleRate);
+  const left = new Float32Array(length);
+  const right = new Float32Array(length);
+  const tables = PATCHES.map(patch => buildTables(patch, sampleRate));
+  const channels = Array.from({ length: 16 }, createChannel);
+  let voices: Voice[] = [];
+  let age = 0;
+  let noiseSeed = 22222;
+
+  const noise = () => {
+    noiseSeed = (Math.imul(noiseSeed, 1103515245) + 12345) & 0x7fffffff;
+    return noiseSeed / 0x3fffffff - 1;
+  };
+
+  const releaseVoice = (voice: Voice) => {
+    if (channels[voice.channel].sustain) voice.held = true;
+    else voice.released = true;
+  };
+
+  const noteOn = (channel: number, note: number, velocity: number) => {
+    for (const voice of voices) {
+      if (voice.channel === channel && voice.note === note && !voice.released) voice.released = true;
+    }
+    if (voices.length >= MAX_VOICES) {
+      // The quietest released voice goes first, otherwise the oldest
+      const victim = voices.reduce((best, voice) =>
+        (voice.released ? voice.level - 1 : voice.age) < (best.released ? best.level - 1 : best.age) ? voice : best);
+      voices = voices.filter(voice => voice !== victim);
+    }
+
+    const isDrum = channel === DRUM_CHANNEL;
+    const family = Math.floor(channels[channel].program / 8);
+    voices.push({
+      channel,
+      note,
+      gain: Math.pow(velocity / 127, 1.6),
+      age: age++,
+      released: false,
+      held: false,
+      level: isDrum ? 1 : 0,
+      time: 0,
+      phase: 0,
+      detunePhase: 0,
+      patch: isDrum ? null : PATCHES[family],
+      tables: isDrum ? null : tables[family],
+      drum: isDrum ? DRUMS[note] ?? click(1000) : null,
+      noiseState: 0
+    });
+  };
+
+  const handleEvent = (status: number, data1: number, data2: number) => {
+    const channel = status & 0x0f;
+    const state = channels[channel];
+    switch (status & 0xf0) {
+      case 0x80:
+        voices.forEach(voice => voice.channel === channel && voice.note === data1 && releaseVoice(voice));
+        break;
+      case 0x90:
+        if (data2 > 0) noteOn(channel, data1, data2);
+        else voices.forEach(voice => voice.channel === channel && voice.note === data1 && releaseVoice(voice));
+        break;
+      case 0xb0:
+        if (data1 === 1) state.modulation = data2;
+        else if (data1 === 7) state.volume = data2;
+        else if (data1 === 10) state.pan = data2;
+        else if (data1 === 11) state.expression = data2;
+        else if (data1 === 101) state.rpn = (data2 << 7) | (state.rpn & 0x7f);
+        else if (data1 === 100) state.rpn = (state.rpn & 0x3f80) | data2;
+        else if (data1 === 6 && state.rpn === 0) state.bendRange = data2;
+        else if (data1 === 64) {
+          state.sustain = data2 >= 64;
+          if (!state.sustain) voices.forEach(voice => voice.channel === channel && voice.held && (voice.released = true));
+        } else if (data1 === 120) {
+          voices = voices.filter(voice => voice.channel !== channel);
+        } else if (data1 === 121) {
+          Object.assign(state, { ...createChannel(), program: state.program, volume: state.volume, pan: state.pan });
+        } else if (data1 >= 123) {
+          voices.forEach(voice => voice.channel === channel && releaseVoice(voice));
+        }
+        break;
+      case 0xc0:
+        state.program = data1;
+        break;
+      case 0xe0:
+        state.bend = (((data2 << 7) | data1) - 8192) / 8192;
+        break;
+    }
+  };
+
+  // Adds `count` samples of a voice from `start`; returns false once it has faded out
+  const renderVoice = (voice: Voice, start: number, count: number) => {
+    const state = channels[voice.channel];
+    const amplitude = voice.gain * Math.pow(state.volume / 127, 2) * Math.pow(state.expression / 127, 2) * MASTER_GAIN;
+    const panLeft = Math.cos((state.pan / 127) * Math.PI / 2);
+    const panRight = Math.sin((state.pan / 127) * Math.PI / 2);
+    const dt = 1 / sampleRate;
+
+    if (voice.drum) {
+      // Drums ring out whatever the note off says, like on GM synths
+      const drum = voice.drum;
+      const decay = Math.exp(-dt / drum.decay);
+      let level = voice.level;
+      for (let i = start; i < start + count; i++) {
+        const frequency = drum.pitch * (1 + (drum.sweep - 1) * Math.exp(-voice.time / 0.04));
+        voice.phase += frequency * dt;
+        let sample = drum.tone * Math.sin(2 * Math.PI * voice.phase);
+        const white = noise();
+        if (drum.bright) {
+          // A one-pole high-pass leaves the hiss of cymbals
+          voice.noiseState += 0.6 * (white - voice.noiseState);
+          sample += drum.noise * (white - voice.noiseState);
+        } else {
+          voice.noiseState += 0.35 * (white - voice.noiseState);
+          sample += drum.noise * voice.noiseState;
+        }
+        sample *= level * amplitude;
+        left[i] += sample * panLeft;
+        right[i] += sample * panRight;
+        level *= decay;
+        voice.time += dt;
+      }
+      voice.level = level;
+      return level > 0.0005;
+    }
+
+    const patch = voice.patch!;
+    const vibrato = (state.modulation / 127) * 0.4 * Math.sin(2 * Math.PI * 5.5 * voice.time);
+    const frequency = noteFrequency(voice.note + state.bend * state.bendRange + vibrato);
+    const octave = Math.max(0, Math.min(10, Math.floor(Math.log2(frequency / 16.35))));
+    const table = voice.tables![octave];
+    const step = (frequency * TABLE_SIZE) / sampleRate;
+    const detuneStep = patch.detune ? step * Math.pow(2, patch.detune / 1200) : 0;
+    const decay = Math.exp(-dt / patch.decay);
+    // Low notes of struck strings ring longer
+    const ringDecay = patch.sustain === 0 ? Math.exp(-dt / (patch.decay * Math.min(3, Math.max(0.4, 60 / (voice.note + 1) * 1.2)))) : decay;
+    const release = Math.exp(-dt / (patch.release / 4));
+    const attackStep = dt / patch.attack;
+    let level = voice.level;
+
+    for (let i = start; i < start + count; i++) {
+      if (voice.released) {
+        level *= release;
+      } else if (voice.time < patch.attack) {
+        level = Math.min(1, level + attackStep);
+      } else {
+        level = patch.sustain + (level - patch.sustain) * ringDecay;
+      }
+
+      let index = voice.phase;
+      let whole = index | 0;
+      let sample = table[whole] + (table[whole + 1] - table[whole]) * (index - whole);
+      voice.phase += step;
+      if (voice.phase >= TABLE_SIZE) voice.phase -= TABLE_SIZE;
+      if (detuneStep) {
+        index = voice.detunePhase;
+        whole = index | 0;
+        sample = (sample + table[whole] + (table[whole + 1] - table[whole]) * (index - whole)) * 0.6;
+        voice.detunePhase += detuneStep;
+        if (voice.detunePhase >= TABLE_SIZE) voice.detunePhase -= TABLE_SIZE;
+      }
+
+      sample *= level * amplitude;
+      left[i] += sample * panLeft;
+      right[i] += sample * panRight;
+      voice.time += dt;
+    }
+    voice.level = level;
+    return !(voice.released || patch.sustain === 0) || level > 0.0005;
+  };
+
+  let eventIndex = 0;
+  let blocks = 0;
+  for (let position = 0; position < length; position += BLOCK_SIZE) {
+    const count = Math.min(BLOCK_SIZE, length - position);
+    const blockEnd = (position + count) / sampleRate;
+
+    // Events land at the start of the block they fall in (at most 1.5 ms late)
+    while (eventIndex < song.events.length && song.events[eventIndex].time < blockEnd) {
+      const { status, data1, data2 } = song.events[eventIndex++];
+      handleEvent(status, data1, data2);
+    }
+    voices = voices.filter(voice => renderVoice(voice, position, count));
+
+    if (eventIndex >= song.events.length && voices.length === 0 && position / sampleRate > song.duration) {
+      return [left.subarray(0, position + count), right.subarray(0, position + count)];
+    }
+    if (++blocks % 2048 === 0) {
+      onProgress?.(position / length);
+      await yieldToBrowser();
+    }
+  }
+  return [left, right];
+};
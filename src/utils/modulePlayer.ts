@@ -0,0 +1,680 @@
+import { Envelope, ModuleCell, ModuleInstrument, ModuleSample, NOTE_CUT, NOTE_FADE, NOTE_OFF, TrackerModule } from './trackerModule';
+
+// Renders a tracker module offline into stereo samples, the way its tracker plays it
+// closely enough for a preview: the common effects of all four formats, instrument
+// envelopes and fadeout, without IT's new note actions, filters or auto-vibrato
+
+export interface ModuleRow {
+  // Start of the row in seconds
+  time: number;
+  order: number;
+  pattern: number;
+  row: number;
+}
+
+export interface RenderedModule {
+  left: Float32Array;
+  right: Float32Array;
+  // Every row in the order it plays, for showing the playing row
+  rows: ModuleRow[];
+}
+
+interface Effect {
+  fx: string;
+  param: number;
+}
+
+interface Channel {
+  index: number;
+  sample: ModuleSample | null;
+  instrument: ModuleInstrument | null;
+  instrumentNumber: number;
+  playing: boolean;
+  position: number;
+  forward: boolean;
+  // 1/64 semitones below C-10 with linear slides, Amiga periods otherwise
+  period: number;
+  targetPeriod: number;
+  tonePortaSpeed: number;
+  volume: number;
+  panning: number;
+  channelVolume: number;
+  keyOn: boolean;
+  fading: boolean;
+  fade: number;
+  volumeEnvelopeTick: number;
+  panningEnvelopeTick: number;
+  vibratoSpeed: number;
+  vibratoDepth: number;
+  vibratoPosition: number;
+  vibratoWaveform: number;
+  tremoloSpeed: number;
+  tremoloDepth: number;
+  tremoloPosition: number;
+  tremoloWaveform: number;
+  // Modulation of the current tick only
+  periodOffset: number;
+  volumeOffset: number;
+  arpeggio: number;
+  memory: Map<string, number>;
+  loopRow: number;
+  loopCount: number;
+  cell: ModuleCell;
+  effects: Effect[];
+  delay: number;
+  gainLeft: number;
+  gainRight: number;
+}
+
+interface Flow {
+  jumpOrder: number | null;
+  breakRow: number | null;
+  loopRow: number | null;
+  patternDelay: number;
+}
+
+// Frequency of period 428 (C-5) for a sample of 8363 Hz
+const AMIGA_CLOCK = 428 * 8363;
+const MIX_GAIN = 0.5;
+// Gain changes are spread over this many samples to keep volume steps from clicking
+const RAMP_SAMPLES = 64;
+const MAX_DURATION = 20 * 60;
+const YIELD_ROWS = 64;
+
+const SINE = Array.from({ length: 64 }, (_, i) => Math.round(255 * Math.sin((i * Math.PI) / 32)));
+const IT_TONE_PORTA_SPEEDS = [0, 1, 4, 8, 16, 32, 64, 96, 128, 255];
+
+// Effects that repeat their last value when given 0, and the memory they share
+const MEMORY_KEYS: Record<string, string> = {
+  portaUp: 'portaUp', portaDown: 'portaDown', finePortaUp: 'finePortaUp', finePortaDown: 'finePortaDown',
+  extraFinePortaUp: 'extraFinePortaUp', extraFinePortaDown: 'extraFinePortaDown', volSlide: 'volSlide',
+  portaUpS3M: 'portaS3M', portaDownS3M: 'portaS3M', volSlideS3M: 'volSlideS3M', channelVolSlideS3M: 'channelVolSlideS3M',
+  panSlide: 'panSlide', panSlideS3M: 'panSlideS3M', globalVolSlide: 'globalVolSlide', globalVolSlideS3M: 'globalVolSlideS3M',
+  offset: 'offset', multiRetrig: 'multiRetrig', tempoSlide: 'tempoSlide', fineVolUp: 'fineVolUp', fineVolDown: 'fineVolDown'
+};
+// ProTracker has no effect memory for these
+const MOD_WITHOUT_MEMORY = ['portaUp', 'portaDown', 'volSlide'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const waveform = (shape: number, position: number) => {
+  switch (shape & 3) {
+    case 1: return 255 - position * 8;
+    case 2: return position < 32 ? 255 : -255;
+    default: return SINE[position];
+  }
+};
+
+// Slides of Scream Tracker and Impulse Tracker in one parameter: x0 up and 0y down on
+// every tick but the first, xF up and Fy down once on the first
+const s3mSlide = (param: number, tick: number) => {
+  const x = param >> 4;
+  const y = param & 15;
+  if (y === 15 && x) return tick === 0 ? x : 0;
+  if (x === 15 && y) return tick === 0 ? -y : 0;
+  if (y === 0) return tick > 0 ? x : 0;
+  if (x === 0) return tick > 0 ? -y : 0;
+  return 0;
+};
+
+const volumeColumnEffects = (module: TrackerModule, volume: number): Effect[] => {
+  if (volume < 0) return [];
+  if (module.format === 'mod' || module.format === 's3m') return [{ fx: 'volume', param: volume }];
+
+  if (module.format === 'xm') {
+    if (volume <= 0x50) return [{ fx: 'volume', param: volume - 0x10 }];
+    const value = volume & 15;
+    switch (volume >> 4) {
+      case 0x6: return [{ fx: 'volSlide', param: value }];
+      case 0x7: return [{ fx: 'volSlide', param: value << 4 }];
+      case 0x8: return [{ fx: 'fineVolDown', param: value }];
+      case 0x9: return [{ fx: 'fineVolUp', param: value }];
+      case 0xa: return [{ fx: 'vibratoSpeed', param: value }];
+      case 0xb: return [{ fx: 'vibrato', param: value }];
+      case 0xc: return [{ fx: 'pan', param: value * 17 }];
+      case 0xd: return [{ fx: 'panSlide', param: value }];
+      case 0xe: return [{ fx: 'panSlide', param: value << 4 }];
+      default: return [{ fx: 'tonePorta', param: value << 4 }];
+    }
+  }
+
+  if (volume <= 64) return [{ fx: 'volume', param: volume }];
+  if (volume <= 74) return [{ fx: 'fineVolUp', param: volume - 65 }];
+  if (volume <= 84) return [{ fx: 'fineVolDown', param: volume - 75 }];
+  if (volume <= 94) return [{ fx: 'volSlideS3M', param: (volume - 85) << 4 }];
+  if (volume <= 104) return [{ fx: 'volSlideS3M', param: volume - 95 }];
+  if (volume <= 114) return [{ fx: 'portaDownS3M', param: (volume - 105) * 4 }];
+  if (volume <= 124) return [{ fx: 'portaUpS3M', param: (volume - 115) * 4 }];
+  if (volume >= 128 && volume <= 192) return [{ fx: 'pan', param: Math.min(255, (volume - 128) * 4) }];
+  if (volume >= 193 && volume <= 202) return [{ fx: 'tonePorta', param: IT_TONE_PORTA_SPEEDS[volume - 193] }];
+  if (volume >= 203 && volume <= 212) return [{ fx: 'vibrato', param: volume - 203 }];
+  return [];
+};
+
+// Exx of ProTracker and FastTracker, Sxx of Scream Tracker and Impulse Tracker
+const MOD_EXTENDED: Record<number, string> = {
+  1: 'finePortaUp', 2: 'finePortaDown', 4: 'vibratoWaveform', 6: 'patternLoop', 7: 'tremoloWaveform', 8: 'pan',
+  9: 'retrigger', 0xa: 'fineVolUp', 0xb: 'fineVolDown', 0xc: 'noteCut', 0xd: 'noteDelay', 0xe: 'patternDelay'
+};
+const S3M_EXTENDED: Record<number, string> = {
+  3: 'vibratoWaveform', 4: 'tremoloWaveform', 8: 'pan', 0xb: 'patternLoop', 0xc: 'noteCut', 0xd: 'noteDelay', 0xe: 'patternDelay'
+};
+
+const extendedEffect = (names: Record<number, string>, param: number): Effect[] => {
+  const fx = names[param >> 4];
+  return fx ? [{ fx, param: fx === 'pan' ? (param & 15) * 17 : param & 15 }] : [];
+};
+
+// The effect column of each format in the names the player handles
+const cellEffects = (module: TrackerModule, cell: ModuleCell): Effect[] => {
+  const effects = volumeColumnEffects(module, cell.volume);
+  const { effect, param } = cell;
+  const x = param >> 4;
+  const y = param & 15;
+
+  if (module.format === 'mod' || module.format === 'xm') {
+    switch (effect) {
+      case '0': if (param) effects.push({ fx: 'arpeggio', param }); break;
+      case '1': effects.push({ fx: 'portaUp', param }); break;
+      case '2': effects.push({ fx: 'portaDown', param }); break;
+      case '3': effects.push({ fx: 'tonePorta', param }); break;
+      case '4': effects.push({ fx: 'vibrato', param }); break;
+      case '5': effects.push({ fx: 'tonePorta', param: 0 }, { fx: 'volSlide', param }); break;
+      case '6': effects.push({ fx: 'vibrato', param: 0 }, { fx: 'volSlide', param }); break;
+      case '7': effects.push({ fx: 'tremolo', param }); break;
+      case '8': effects.push({ fx: 'pan', param }); break;
+      case '9': effects.push({ fx: 'offset', param }); break;
+      case 'A': effects.push({ fx: 'volSlide', param }); break;
+      case 'B': effects.push({ fx: 'jump', param }); break;
+      case 'C': effects.push({ fx: 'volume', param }); break;
+      // The row is written in decimal
+      case 'D': effects.push({ fx: 'break', param: x * 10 + y }); break;
+      case 'E': effects.push(...extendedEffect(MOD_EXTENDED, param)); break;
+      case 'F': if (param) effects.push({ fx: param < 32 ? 'speed' : 'tempo', param }); break;
+      case 'G': effects.push({ fx: 'globalVolume', param: param * 2 }); break;
+      case 'H': effects.push({ fx: 'globalVolSlide', param }); break;
+      case 'K': effects.push({ fx: 'keyOff', param }); break;
+      case 'P': effects.push({ fx: 'panSlide', param }); break;
+      case 'R': effects.push({ fx: 'multiRetrig', param }); break;
+      case 'X': if (x === 1 || x === 2) effects.push({ fx: x === 1 ? 'extraFinePortaUp' : 'extraFinePortaDown', param: y }); break;
+    }
+    return effects;
+  }
+
+  switch (effect) {
+    case 'A': if (param) effects.push({ fx: 'speed', param }); break;
+    case 'B': effects.push({ fx: 'jump', param }); break;
+    case 'C': effects.push({ fx: 'break', param }); break;
+    case 'D': effects.push({ fx: 'volSlideS3M', param }); break;
+    case 'E': effects.push({ fx: 'portaDownS3M', param }); break;
+    case 'F': effects.push({ fx: 'portaUpS3M', param }); break;
+    case 'G': effects.push({ fx: 'tonePorta', param }); break;
+    case 'H': effects.push({ fx: 'vibrato', param }); break;
+    case 'J': effects.push({ fx: 'arpeggio', param }); break;
+    case 'K': effects.push({ fx: 'vibrato', param: 0 }, { fx: 'volSlideS3M', param }); break;
+    case 'L': effects.push({ fx: 'tonePorta', param: 0 }, { fx: 'volSlideS3M', param }); break;
+    case 'M': effects.push({ fx: 'channelVolume', param }); break;
+    case 'N': effects.push({ fx: 'channelVolSlideS3M', param }); break;
+    case 'O': effects.push({ fx: 'offset', param }); break;
+    case 'P': effects.push({ fx: 'panSlideS3M', param }); break;
+    case 'Q': effects.push({ fx: 'multiRetrig', param }); break;
+    case 'R': effects.push({ fx: 'tremolo', param }); break;
+    case 'S': effects.push(...extendedEffect(S3M_EXTENDED, param)); break;
+    case 'T': effects.push({ fx: param >= 0x20 ? 'tempo' : 'tempoSlide', param }); break;
+    case 'U': effects.push({ fx: 'fineVibrato', param }); break;
+    case 'V': effects.push({ fx: 'globalVolume', param: module.format === 'it' ? param : param * 2 }); break;
+    case 'W': effects.push({ fx: 'globalVolSlideS3M', param }); break;
+    case 'X': effects.push({ fx: 'pan', param: module.format === 'it' ? param : Math.min(255, param * 2) }); break;
+  }
+  return effects;
+};
+
+const envelopeValue = (envelope: Envelope, tick: number) => {
+  const { points } = envelope;
+  if (tick <= points[0].tick) return points[0].value;
+  for (let i = 1; i < points.length; i++) {
+    if (tick < points[i].tick) {
+      const previous = points[i - 1];
+      return previous.value + ((points[i].value - previous.value) * (tick - previous.tick)) / (points[i].tick - previous.tick);
+    }
+  }
+  return points[points.length - 1].value;
+};
+
+// Held notes stay within the sustain points; the loop applies otherwise
+const nextEnvelopeTick = (envelope: Envelope, tick: number, keyOn: boolean) => {
+  const { points } = envelope;
+  const next = tick + 1;
+  if (keyOn && envelope.sustainStart >= 0 && points[envelope.sustainEnd]) {
+    if (next > points[envelope.sustainEnd].tick) return points[envelope.sustainStart].tick;
+  } else if (envelope.loopStart >= 0 && points[envelope.loopEnd] && next > points[envelope.loopEnd].tick) {
+    return points[envelope.loopStart]?.tick ?? next;
+  }
+  return next;
+};
+
+const createChannel = (module: TrackerModule, index: number): Channel => ({
+  index,
+  sample: null,
+  instrument: null,
+  instrumentNumber: 0,
+  playing: false,
+  position: 0,
+  forward: true,
+  period: 0,
+  targetPeriod: 0,
+  tonePortaSpeed: 0,
+  volume: 0,
+  panning: module.channelPanning[index] ?? 128,
+  channelVolume: module.channelVolume[index] ?? 64,
+  keyOn: false,
+  fading: false,
+  fade: 1,
+  volumeEnvelopeTick: 0,
+  panningEnvelopeTick: 0,
+  vibratoSpeed: 0,
+  vibratoDepth: 0,
+  vibratoPosition: 0,
+  vibratoWaveform: 0,
+  tremoloSpeed: 0,
+  tremoloDepth: 0,
+  tremoloPosition: 0,
+  tremoloWaveform: 0,
+  periodOffset: 0,
+  volumeOffset: 0,
+  arpeggio: 0,
+  memory: new Map(),
+  loopRow: 0,
+  loopCount: 0,
+  cell: { note: -1, instrument: 0, volume: -1, effect: '', param: 0 },
+  effects: [],
+  delay: 0,
+  gainLeft: 0,
+  gainRight: 0
+});
+
+// `onProgress` gets the share of the song positions played so far (0 to 1)
+export const renderModule = async (
+  module: TrackerModule,
+  sampleRate: number,
+  onProgress?: (progress: number) => void
+): Promise<RenderedModule> => {
+  const linear = module.linearSlides;
+  const channels = Array.from({ length: module.channels }, (_, index) => createChannel(module, index));
+  const maxLength = Math.ceil(MAX_DURATION * sampleRate);
+  let capacity = sampleRate * 60;
+  let left = new Float32Array(capacity);
+  let right = new Float32Array(capacity);
+  let written = 0;
+  let tickRemainder = 0;
+
+  let speed = module.initialSpeed;
+  let tempo = module.initialTempo;
+  let globalVolume = module.globalVolume;
+  let order = 0;
+  let row = 0;
+  let flow: Flow = { jumpOrder: null, breakRow: null, loopRow: null, patternDelay: 0 };
+  const rows: ModuleRow[] = [];
+  const visited = new Set<number>();
+
+  const notePeriod = (note: number, c5speed: number) =>
+    linear ? (120 - note) * 64 : ((AMIGA_CLOCK / c5speed) * Math.pow(2, -(note - 60) / 12));
+
+  // Positive units raise the pitch; 4 units are one step of a porta effect
+  const slide = (channel: Channel, units: number) => {
+    channel.period = linear
+      ? clamp(channel.period - units, 0, 120 * 64)
+      : clamp(channel.period - units / 4, 1, 65535);
+  };
+
+  const noteOff = (channel: Channel) => {
+    channel.keyOn = false;
+    const envelope = channel.instrument?.volumeEnvelope;
+    if (!channel.instrument || (module.format === 'xm' && !envelope)) channel.volume = 0;
+    else if (module.format === 'xm' || !envelope || envelope.loopStart >= 0) channel.fading = true;
+  };
+
+  const startEnvelopes = (channel: Channel) => {
+    channel.keyOn = true;
+    channel.fading = false;
+    channel.fade = 1;
+    channel.volumeEnvelopeTick = 0;
+    channel.panningEnvelopeTick = 0;
+  };
+
+  const trigger = (channel: Channel) => {
+    const { cell, effects } = channel;
+    const tonePorta = effects.some(effect => effect.fx === 'tonePorta');
+    if (cell.instrument > 0) {
+      channel.instrumentNumber = cell.instrument;
+      channel.instrument = module.instruments?.[cell.instrument - 1] ?? null;
+    }
+
+    let sample: ModuleSample | null = null;
+    if (cell.note >= 0) {
+      let note = cell.note;
+      if (module.instruments) {
+        const entry = channel.instrument?.keymap[note];
+        sample = entry && entry.sample >= 0 ? module.samples[entry.sample] : null;
+        note = entry?.note ?? note;
+      } else {
+        sample = module.samples[channel.instrumentNumber - 1] ?? null;
+      }
+
+      if (tonePorta && channel.playing && channel.sample) {
+        channel.targetPeriod = notePeriod(note, channel.sample.c5speed);
+        sample = null;
+      } else if (sample && sample.data.length > 0) {
+        channel.sample = sample;
+        channel.period = channel.targetPeriod = notePeriod(note, sample.c5speed);
+        channel.position = 0;
+        channel.forward = true;
+        channel.playing = true;
+        if (channel.vibratoWaveform < 4) channel.vibratoPosition = 0;
+        if (channel.tremoloWaveform < 4) channel.tremoloPosition = 0;
+        startEnvelopes(channel);
+        const offset = effects.find(effect => effect.fx === 'offset');
+        if (offset) {
+          const position = offset.param * 256;
+          if (position < sample.data.length) channel.position = position;
+          else if (module.format !== 'it') channel.playing = false;
+        }
+      } else if (!tonePorta) {
+        channel.playing = false;
+      }
+    }
+
+    if (cell.instrument > 0) {
+      const defaults = sample ?? (module.instruments ? channel.sample : module.samples[cell.instrument - 1]);
+      if (channel.instrument?.panning != null) channel.panning = channel.instrument.panning;
+      if (defaults) {
+        channel.volume = defaults.volume;
+        if (defaults.panning !== null) channel.panning = defaults.panning;
+      }
+      // Instruments without a note restart the envelopes of the playing one
+      if (module.instruments && channel.playing) startEnvelopes(channel);
+    }
+
+    if (cell.note === NOTE_OFF) noteOff(channel);
+    else if (cell.note === NOTE_CUT) channel.volume = 0;
+    else if (cell.note === NOTE_FADE) channel.fading = true;
+  };
+
+  const retrigger = (channel: Channel) => {
+    channel.position = 0;
+    channel.forward = true;
+    channel.playing = channel.sample !== null;
+  };
+
+  const applyEffect = (channel: Channel, { fx, param }: Effect, tick: number) => {
+    const x = param >> 4;
+    const y = param & 15;
+    switch (fx) {
+      case 'speed': if (tick === 0) speed = param; break;
+      case 'tempo': if (tick === 0) tempo = param; break;
+      case 'tempoSlide': if (tick > 0) tempo = clamp(tempo + (x ? y : -y), 32, 255); break;
+      case 'jump': if (tick === 0) flow.jumpOrder = param; break;
+      case 'break': if (tick === 0) flow.breakRow = param; break;
+      case 'patternDelay': if (tick === 0 && !flow.patternDelay) flow.patternDelay = param; break;
+      case 'patternLoop':
+        if (tick !== 0) break;
+        if (param === 0) channel.loopRow = row;
+        else {
+          channel.loopCount = channel.loopCount === 0 ? param : channel.loopCount - 1;
+          if (channel.loopCount > 0) flow.loopRow = channel.loopRow;
+        }
+        break;
+      case 'volume': if (tick === 0) channel.volume = Math.min(64, param); break;
+      case 'volSlide': if (tick > 0) channel.volume = clamp(channel.volume + (x ? x : -y), 0, 64); break;
+      case 'volSlideS3M': channel.volume = clamp(channel.volume + s3mSlide(param, tick), 0, 64); break;
+      case 'fineVolUp': if (tick === 0) channel.volume = Math.min(64, channel.volume + param); break;
+      case 'fineVolDown': if (tick === 0) channel.volume = Math.max(0, channel.volume - param); break;
+      case 'channelVolume': if (tick === 0) channel.channelVolume = Math.min(64, param); break;
+      case 'channelVolSlideS3M': channel.channelVolume = clamp(channel.channelVolume + s3mSlide(param, tick), 0, 64); break;
+      case 'globalVolume': if (tick === 0) globalVolume = Math.min(128, param) / 128; break;
+      case 'globalVolSlide': if (tick > 0) globalVolume = clamp(globalVolume + (x ? x : -y) / 64, 0, 1); break;
+      case 'globalVolSlideS3M': globalVolume = clamp(globalVolume + s3mSlide(param, tick) / 128, 0, 1); break;
+      case 'portaUp': if (tick > 0) slide(channel, param * 4); break;
+      case 'portaDown': if (tick > 0) slide(channel, -param * 4); break;
+      case 'finePortaUp': if (tick === 0) slide(channel, param * 4); break;
+      case 'finePortaDown': if (tick === 0) slide(channel, -param * 4); break;
+      case 'extraFinePortaUp': if (tick === 0) slide(channel, param); break;
+      case 'extraFinePortaDown': if (tick === 0) slide(channel, -param); break;
+      case 'portaUpS3M':
+      case 'portaDownS3M': {
+        const direction = fx === 'portaUpS3M' ? 1 : -1;
+        if (param >= 0xf0) { if (tick === 0) slide(channel, direction * y * 4); }
+        else if (param >= 0xe0) { if (tick === 0) slide(channel, direction * y); }
+        else if (tick > 0) slide(channel, direction * param * 4);
+        break;
+      }
+      case 'tonePorta': {
+        if (tick === 0) {
+          if (param) channel.tonePortaSpeed = param;
+          break;
+        }
+        const step = (channel.tonePortaSpeed * 4) / (linear ? 1 : 4);
+        channel.period = channel.period > channel.targetPeriod
+          ? Math.max(channel.targetPeriod, channel.period - step)
+          : Math.min(channel.targetPeriod, channel.period + step);
+        break;
+      }
+      case 'vibratoSpeed': if (tick === 0 && param) channel.vibratoSpeed = param; break;
+      case 'vibrato':
+      case 'fineVibrato':
+        if (tick === 0) {
+          if (x) channel.vibratoSpeed = x;
+          if (y) channel.vibratoDepth = y;
+        } else {
+          channel.vibratoPosition = (channel.vibratoPosition + channel.vibratoSpeed) & 63;
+        }
+        channel.periodOffset = (waveform(channel.vibratoWaveform, channel.vibratoPosition) * channel.vibratoDepth) / (fx === 'vibrato' ? 32 : 128);
+        break;
+      case 'tremolo':
+        if (tick === 0) {
+          if (x) channel.tremoloSpeed = x;
+          if (y) channel.tremoloDepth = y;
+        } else {
+          channel.tremoloPosition = (channel.tremoloPosition + channel.tremoloSpeed) & 63;
+        }
+        channel.volumeOffset = (waveform(channel.tremoloWaveform, channel.tremoloPosition) * channel.tremoloDepth) / 64;
+        break;
+      case 'vibratoWaveform': if (tick === 0) channel.vibratoWaveform = param & 7; break;
+      case 'tremoloWaveform': if (tick === 0) channel.tremoloWaveform = param & 7; break;
+      case 'arpeggio': {
+        if (tick === 0 && param) channel.memory.set('arpeggio', param);
+        const notes = channel.memory.get('arpeggio') ?? 0;
+        channel.arpeggio = [0, notes >> 4, notes & 15][tick % 3];
+        break;
+      }
+      case 'pan': if (tick === 0) channel.panning = param; break;
+      case 'panSlide': if (tick > 0) channel.panning = clamp(channel.panning + x - y, 0, 255); break;
+      case 'panSlideS3M': channel.panning = clamp(channel.panning + s3mSlide(param, tick) * 4, 0, 255); break;
+      case 'retrigger': if (tick > 0 && param && tick % param === 0) retrigger(channel); break;
+      case 'multiRetrig':
+        if (tick > 0 && y && tick % y === 0) {
+          const volume = channel.volume;
+          channel.volume = clamp(Math.round([
+            volume, volume - 1, volume - 2, volume - 4, volume - 8, volume - 16, (volume * 2) / 3, volume / 2,
+            volume, volume + 1, volume + 2, volume + 4, volume + 8, volume + 16, (volume * 3) / 2, volume * 2
+          ][x]), 0, 64);
+          retrigger(channel);
+        }
+        break;
+      case 'noteCut': if (tick === param) channel.volume = 0; break;
+      case 'keyOff': if (tick === param) noteOff(channel); break;
+    }
+  };
+
+  const startRow = (channel: Channel) => {
+    trigger(channel);
+    for (const effect of channel.effects) applyEffect(channel, effect, 0);
+  };
+
+  // Volume and pitch of the tick, then its samples
+  const mixTick = (length: number) => {
+    for (const channel of channels) {
+      const sample = channel.sample;
+      if (!channel.playing || !sample) continue;
+
+      let volume = clamp(channel.volume + channel.volumeOffset, 0, 64) / 64;
+      let panning = channel.panning;
+      const instrument = channel.instrument;
+      if (instrument) {
+        const volumeEnvelope = instrument.volumeEnvelope;
+        if (volumeEnvelope) {
+          volume *= envelopeValue(volumeEnvelope, channel.volumeEnvelopeTick) / 64;
+          const last = volumeEnvelope.points[volumeEnvelope.points.length - 1];
+          // Envelopes that end silent end the note
+          if (channel.volumeEnvelopeTick > last.tick && last.value === 0) channel.playing = false;
+          channel.volumeEnvelopeTick = nextEnvelopeTick(volumeEnvelope, channel.volumeEnvelopeTick, channel.keyOn);
+        }
+        const panningEnvelope = instrument.panningEnvelope;
+        if (panningEnvelope) {
+          const swing = envelopeValue(panningEnvelope, channel.panningEnvelopeTick) - 32;
+          panning += (swing * (128 - Math.abs(panning - 128))) / 32;
+          channel.panningEnvelopeTick = nextEnvelopeTick(panningEnvelope, channel.panningEnvelopeTick, channel.keyOn);
+        }
+        if (channel.fading) {
+          volume *= channel.fade;
+          channel.fade = Math.max(0, channel.fade - instrument.fadeout);
+          if (channel.fade === 0) channel.playing = false;
+        }
+        volume *= instrument.globalVolume;
+      }
+      volume *= (sample.globalVolume / 64) * (channel.channelVolume / 64) * globalVolume * MIX_GAIN;
+
+      const angle = (clamp(panning, 0, 255) / 255) * (Math.PI / 2);
+      const targetLeft = volume * Math.cos(angle);
+      const targetRight = volume * Math.sin(angle);
+
+      const period = channel.period + (linear ? channel.periodOffset : channel.periodOffset / 4);
+      let frequency = linear ? sample.c5speed * Math.pow(2, (3840 - period) / 768) : AMIGA_CLOCK / Math.max(1, period);
+      if (channel.arpeggio) frequency *= Math.pow(2, channel.arpeggio / 12);
+      const step = frequency / sampleRate;
+
+      // The sustain loop plays while the note is held
+      const sustained = channel.keyOn && sample.sustainLoop !== 'none';
+      const loop = sustained ? sample.sustainLoop : sample.loop;
+      const loopStart = sustained ? sample.sustainStart : sample.loopStart;
+      const loopEnd = sustained ? sample.sustainEnd : sample.loopEnd;
+      const end = loop === 'none' ? sample.data.length : loopEnd;
+      const data = sample.data;
+      let { position, forward, gainLeft, gainRight } = channel;
+      const rampLeft = (targetLeft - gainLeft) / RAMP_SAMPLES;
+      const rampRight = (targetRight - gainRight) / RAMP_SAMPLES;
+
+      for (let i = 0; i < length; i++) {
+        if (i < RAMP_SAMPLES) {
+          gainLeft += rampLeft;
+          gainRight += rampRight;
+        }
+        const index = Math.floor(position);
+        const current = data[index];
+        const next = index + 1 < end ? data[index + 1] : loop === 'forward' ? data[loopStart] : current;
+        const value = current + (next - current) * (position - index);
+        left[written + i] += value * gainLeft;
+        right[written + i] += value * gainRight;
+
+        if (forward) {
+          position += step;
+          if (position >= end) {
+            if (loop === 'none') {
+              channel.playing = false;
+              break;
+            }
+            if (loop === 'forward') position = loopStart + ((position - loopStart) % (loopEnd - loopStart));
+            else {
+              position = Math.max(loopStart, 2 * loopEnd - position - 1);
+              forward = false;
+            }
+          }
+        } else {
+          position -= step;
+          if (position < loopStart) {
+            position = Math.min(loopEnd - 1, 2 * loopStart - position);
+            forward = true;
+          }
+        }
+      }
+      Object.assign(channel, { position, forward, gainLeft: targetLeft, gainRight: targetRight });
+    }
+    written += length;
+  };
+
+  const ensureCapacity = (length: number) => {
+    if (length <= capacity) return;
+    capacity = Math.min(maxLength, Math.max(length, capacity * 2));
+    const grownLeft = new Float32Array(capacity);
+    const grownRight = new Float32Array(capacity);
+    grownLeft.set(left.subarray(0, written));
+    grownRight.set(right.subarray(0, written));
+    left = grownLeft;
+    right = grownRight;
+  };
+
+  // Plays until the song reaches a row it already played (its loop point) or runs out of orders
+  while (order < module.orders.length && written < maxLength) {
+    const patternIndex = module.orders[order];
+    const pattern = module.patterns[patternIndex] ?? [];
+    if (row >= pattern.length) row = 0;
+    const key = order * 1024 + row;
+    if (visited.has(key)) break;
+    visited.add(key);
+    rows.push({ time: written / sampleRate, order, pattern: patternIndex, row });
+
+    flow = { jumpOrder: null, breakRow: null, loopRow: null, patternDelay: 0 };
+    for (const channel of channels) {
+      const cell = pattern[row]?.[channel.index];
+      channel.cell = cell ?? channel.cell;
+      channel.effects = cell ? cellEffects(module, cell) : [];
+      for (const effect of channel.effects) {
+        const memoryKey = MEMORY_KEYS[effect.fx];
+        if (!memoryKey || (module.format === 'mod' && MOD_WITHOUT_MEMORY.includes(effect.fx))) continue;
+        if (effect.param) channel.memory.set(memoryKey, effect.param);
+        else effect.param = channel.memory.get(memoryKey) ?? 0;
+      }
+      channel.delay = channel.effects.find(effect => effect.fx === 'noteDelay')?.param ?? 0;
+      if (!cell) channel.delay = -1;
+    }
+
+    for (let repeat = 0; repeat <= flow.patternDelay; repeat++) {
+      for (let tick = 0; tick < speed; tick++) {
+        for (const channel of channels) {
+          channel.periodOffset = 0;
+          channel.volumeOffset = 0;
+          channel.arpeggio = 0;
+          if (repeat === 0 && tick === channel.delay) startRow(channel);
+          else if (tick > 0 && (repeat > 0 || tick > channel.delay)) {
+            for (const effect of channel.effects) applyEffect(channel, effect, tick);
+          }
+        }
+
+        const exact = (sampleRate * 2.5) / tempo + tickRemainder;
+        const length = Math.floor(exact);
+        tickRemainder = exact - length;
+        ensureCapacity(written + length);
+        mixTick(Math.min(length, maxLength - written));
+      }
+    }
+
+    if (flow.jumpOrder !== null || flow.breakRow !== null) {
+      order = flow.jumpOrder ?? order + 1;
+      row = flow.breakRow ?? 0;
+    } else if (flow.loopRow !== null) {
+      // Rows of a pattern loop play again without counting as the song looping
+      for (let loopRow = flow.loopRow; loopRow <= row; loopRow++) visited.delete(order * 1024 + loopRow);
+      row = flow.loopRow;
+    } else if (++row >= pattern.length) {
+      order++;
+      row = 0;
+    }
+
+    if (rows.length % YIELD_ROWS === 0) {
+      onProgress?.(Math.min(1, order / module.orders.length));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  return { left: left.slice(0, written), right: right.slice(0, written), rows };
+};
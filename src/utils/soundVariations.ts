@@ -0,0 +1,58 @@
+import { FileItem } from '../types';
+
+export interface SoundVariationGroup {
+  // Shown on the group card, like footstep_##.ogg
+  name: string;
+  // Ordered by their number; the first one stands for the group
+  files: FileItem[];
+}
+
+export interface VariationRandomization {
+  // Each trigger is pitched up or down by up to this many semitones
+  pitch: number;
+  // and made quieter by up to this many decibels
+  volume: number;
+}
+
+// footstep_01.ogg, footstep-2.wav, Footstep 03.mp3, footstep4.flac; the name before the
+// number must end in something other than a digit or separator
+const VARIANT_PATTERN = /^(.*[^\d\s_-])([\s_-]*)(\d{1,3})(\.[^.]+)$/;
+
+const STORAGE_KEY = 'gameAssetBrowser_soundVariations';
+
+// Numbered files of the same name, folder and extension, by the path of each of them.
+// A number on its own (no other file shares the name) doesn't make a group
+export const groupSoundVariations = (files: FileItem[], isSound: (file: FileItem) => boolean) => {
+  const candidates = new Map<string, { file: FileItem; number: number; match: RegExpMatchArray }[]>();
+  for (const file of files) {
+    const match = !file.isDirectory && isSound(file) ? file.name.match(VARIANT_PATTERN) : null;
+    if (!match) continue;
+    const folder = file.path.slice(0, file.path.length - file.name.length);
+    const key = `${folder}${match[1].toLowerCase()}${match[4].toLowerCase()}`;
+    const variants = candidates.get(key) ?? [];
+    variants.push({ file, number: Number(match[3]), match });
+    candidates.set(key, variants);
+  }
+
+  const groups = new Map<string, SoundVariationGroup>();
+  for (const variants of candidates.values()) {
+    if (variants.length < 2) continue;
+    variants.sort((a, b) => a.number - b.number);
+    const [, name, separator, number, extension] = variants[0].match;
+    const group = { name: `${name}${separator}${'#'.repeat(number.length)}${extension}`, files: variants.map(variant => variant.file) };
+    for (const { file } of variants) groups.set(file.path, group);
+  }
+  return groups;
+};
+
+export const loadVariationRandomization = (): VariationRandomization => {
+  try {
+    return { pitch: 0, volume: 0, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return { pitch: 0, volume: 0 };
+  }
+};
+
+export const saveVariationRandomization = (randomization: VariationRandomization) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(randomization));
+};
@@ -0,0 +1,161 @@
+export type SpritePlayback = 'loop' | 'pingpong';
+
+export interface SpriteSlicing {
+  cellWidth: number;
+  cellHeight: number;
+  // Margin before the first cell and gap between cells, in pixels
+  offsetX: number;
+  offsetY: number;
+  spacingX: number;
+  spacingY: number;
+}
+
+export interface SpriteSheetSettings extends SpriteSlicing {
+  // Frame indexes count left to right, top to bottom, from 0
+  startFrame: number;
+  endFrame: number;
+  fps: number;
+  playback: SpritePlayback;
+}
+
+export interface SpriteFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const STORAGE_KEY = 'gameAssetBrowser_spriteSheets';
+
+const loadAllSettings = (): Record<string, SpriteSheetSettings> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadSpriteSheetSettings = (filePath: string): SpriteSheetSettings | null =>
+  loadAllSettings()[filePath] ?? null;
+
+export const saveSpriteSheetSettings = (filePath: string, settings: SpriteSheetSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadAllSettings(), [filePath]: settings }));
+};
+
+export const getGridSize = (slicing: SpriteSlicing, imageWidth: number, imageHeight: number) => {
+  const count = (size: number, cell: number, offset: number, spacing: number) =>
+    cell > 0 ? Math.max(0, Math.floor((size - offset + spacing) / (cell + spacing))) : 0;
+  return {
+    columns: count(imageWidth, slicing.cellWidth, slicing.offsetX, slicing.spacingX),
+    rows: count(imageHeight, slicing.cellHeight, slicing.offsetY, slicing.spacingY)
+  };
+};
+
+export const getFrame = (slicing: SpriteSlicing, columns: number, index: number): SpriteFrame => ({
+  x: slicing.offsetX + (index % columns) * (slicing.cellWidth + slicing.spacingX),
+  y: slicing.offsetY + Math.floor(index / columns) * (slicing.cellHeight + slicing.spacingY),
+  width: slicing.cellWidth,
+  height: slicing.cellHeight
+});
+
+// Order in which the frames of the range are shown; ping-pong doesn't repeat the ends
+export const getFrameSequence = (startFrame: number, endFrame: number, playback: SpritePlayback) => {
+  const frames: number[] = [];
+  for (let frame = startFrame; frame <= endFrame; frame++) frames.push(frame);
+  if (playback === 'pingpong') {
+    for (let frame = endFrame - 1; frame > startFrame; frame--) frames.push(frame);
+  }
+  return frames;
+};
+
+// Cell size, margin and gap along one axis, from which columns (or rows) have any content
+const guessAxis = (hasContent: boolean[]): { cell: number; offset: number; spacing: number } | null => {
+  const spans: { start: number; end: number }[] = [];
+  hasContent.forEach((filled, i) => {
+    if (!filled) return;
+    const last = spans[spans.length - 1];
+    if (last && last.end === i) last.end = i + 1;
+    else spans.push({ start: i, end: i + 1 });
+  });
+  if (spans.length < 2) return null;
+
+  // Sprites of the same size separated by the same padding: slice them tightly
+  const width = spans[0].end - spans[0].start;
+  const gap = spans[1].start - spans[0].end;
+  const uniform = spans.every((span, i) =>
+    span.end - span.start === width && (i === 0 || span.start - spans[i - 1].end === gap));
+  if (uniform) return { cell: width, offset: spans[0].start, spacing: gap };
+
+  // Sprites of different sizes: the smallest cell that divides the sheet, whose edges
+  // all fall on empty pixels and where every cell has something in it
+  const size = hasContent.length;
+  for (let cell = Math.max(...spans.map(span => span.end - span.start)); cell < size; cell++) {
+    if (size % cell !== 0) continue;
+    let fits = true;
+    for (let start = 0; start < size && fits; start += cell) {
+      if (start > 0 && hasContent[start] && hasContent[start - 1]) fits = false;
+      if (!hasContent.slice(start, start + cell).some(Boolean)) fits = false;
+    }
+    if (fits) return { cell, offset: 0, spacing: 0 };
+  }
+  return null;
+};
+
+// Guess the slicing from the transparent (or background colored) padding between sprites.
+// The image must allow reading its pixels (crossOrigin="anonymous")
+export const guessSlicing = (image: HTMLImageElement): SpriteSlicing => {
+  const { naturalWidth: width, naturalHeight: height } = image;
+  // Without any padding to go by: square cells along the longer side, or one cell
+  const side = Math.min(width, height);
+  const fallback: SpriteSlicing = (width % side === 0 && height % side === 0)
+    ? { cellWidth: side, cellHeight: side, offsetX: 0, offsetY: 0, spacingX: 0, spacingY: 0 }
+    : { cellWidth: width, cellHeight: height, offsetX: 0, offsetY: 0, spacingX: 0, spacingY: 0 };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return fallback;
+  context.drawImage(image, 0, 0);
+
+  let pixels: Uint8ClampedArray;
+  try {
+    pixels = context.getImageData(0, 0, width, height).data;
+  } catch (error) {
+    console.warn('Sprite sheet pixels not readable:', error);
+    return fallback;
+  }
+
+  // Opaque sheets use the top left pixel's color as background
+  const [backgroundR, backgroundG, backgroundB, backgroundA] = pixels;
+  const opaqueBackground = backgroundA === 255;
+  const columns = new Array<boolean>(width).fill(false);
+  const rows = new Array<boolean>(height).fill(false);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const empty = pixels[i + 3] < 8 || (opaqueBackground &&
+        pixels[i] === backgroundR && pixels[i + 1] === backgroundG && pixels[i + 2] === backgroundB);
+      if (!empty) {
+        columns[x] = true;
+        rows[y] = true;
+      }
+    }
+  }
+
+  const horizontal = guessAxis(columns);
+  const vertical = guessAxis(rows);
+  if (!horizontal && !vertical) return fallback;
+
+  // A single strip only has padding along one axis, the other spans the content
+  const contentStart = (filled: boolean[]) => Math.max(0, filled.indexOf(true));
+  const contentSize = (filled: boolean[]) => filled.lastIndexOf(true) + 1 - contentStart(filled);
+  return {
+    cellWidth: horizontal?.cell ?? contentSize(columns),
+    cellHeight: vertical?.cell ?? contentSize(rows),
+    offsetX: horizontal?.offset ?? contentStart(columns),
+    offsetY: vertical?.offset ?? contentStart(rows),
+    spacingX: horizontal?.spacing ?? 0,
+    spacingY: vertical?.spacing ?? 0
+  };
+};
@@ -0,0 +1,99 @@
+// Rendered 3D thumbnails persisted in IndexedDB so revisiting a folder doesn't
+// load and render every model again.
+
+const DB_NAME = 'total-asset-browser';
+const STORE_NAME = 'model-thumbnails';
+const DB_VERSION = 1;
+
+// Oldest thumbnails are dropped once the store grows past this
+const MAX_ENTRIES = 2000;
+
+interface StoredThumbnail {
+  key: string;
+  blob: Blob;
+  storedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('storedAt', 'storedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow retrying later (e.g. private browsing can refuse IndexedDB)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Anything that changes how a thumbnail looks has to be part of the key
+export const getModelThumbnailKey = (
+  modelPath: string,
+  modified: string,
+  renderSettings: string
+) => `${modelPath}|${modified}|${renderSettings}`;
+
+export const getStoredThumbnail = async (key: string): Promise<Blob | null> => {
+  try {
+    const db = await openDatabase();
+    const entry = await requestToPromise<StoredThumbnail | undefined>(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+    );
+    return entry ? entry.blob : null;
+  } catch (error) {
+    console.warn('Failed to read stored thumbnail:', error);
+    return null;
+  }
+};
+
+const pruneThumbnails = (db: IDBDatabase, excess: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const cursorRequest = transaction.objectStore(STORE_NAME).index('storedAt').openCursor();
+    let removed = 0;
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || removed >= excess) return;
+      cursor.delete();
+      removed++;
+      cursor.continue();
+    };
+    transaction.oncomplete = () => {
+      console.log(`🧹 Removed ${removed} old 3D thumbnails from the browser cache`);
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+export const storeThumbnail = async (key: string, blob: Blob) => {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put({ key, blob, storedAt: Date.now() } as StoredThumbnail));
+
+    const count = await requestToPromise(store.count());
+    if (count > MAX_ENTRIES) {
+      await pruneThumbnails(db, count - MAX_ENTRIES);
+    }
+  } catch (error) {
+    console.warn('Failed to store thumbnail:', error);
+  }
+};
@@ -0,0 +1,761 @@
+// Tracker modules (ProTracker .mod, Scream Tracker 3 .s3m, FastTracker 2 .xm and
+// Impulse Tracker .it) read into one shape for modulePlayer.ts and the pattern view.
+// Notes count from C-0 = 0 with C-5 = 60 (Impulse Tracker numbering), and every sample
+// plays at `c5speed` Hz on C-5
+
+export type ModuleFormat = 'mod' | 's3m' | 'xm' | 'it';
+
+export const NO_NOTE = -1;
+export const NOTE_OFF = -2;
+export const NOTE_CUT = -3;
+// Impulse Tracker only: the note fades out with the instrument's fadeout
+export const NOTE_FADE = -4;
+
+export interface ModuleCell {
+  note: number;
+  // From 1, 0 when empty
+  instrument: number;
+  // The raw volume column of the format (-1 when empty); MOD and S3M only set the volume
+  volume: number;
+  // Effect letter or digit as the tracker shows it, '' when empty
+  effect: string;
+  param: number;
+}
+
+export interface ModuleSample {
+  name: string;
+  data: Float32Array;
+  loop: 'none' | 'forward' | 'pingpong';
+  loopStart: number;
+  loopEnd: number;
+  // Impulse Tracker loop that only plays while the note is held
+  sustainLoop: 'none' | 'forward' | 'pingpong';
+  sustainStart: number;
+  sustainEnd: number;
+  // 0 to 64
+  volume: number;
+  globalVolume: number;
+  // 0 to 255, null to keep the channel's
+  panning: number | null;
+  c5speed: number;
+}
+
+export interface Envelope {
+  // Values are 0 to 64 (panning too, with 32 in the middle)
+  points: { tick: number; value: number }[];
+  // Point indexes, -1 when there's no sustain or loop
+  sustainStart: number;
+  sustainEnd: number;
+  loopStart: number;
+  loopEnd: number;
+}
+
+export interface ModuleInstrument {
+  name: string;
+  // Sample (index into `samples`, -1 for none) and note to play for each of the 120 notes
+  keymap: { sample: number; note: number }[];
+  volumeEnvelope: Envelope | null;
+  panningEnvelope: Envelope | null;
+  // Share of the volume lost per tick once the note is released
+  fadeout: number;
+  // 0 to 1
+  globalVolume: number;
+  panning: number | null;
+}
+
+export interface TrackerModule {
+  format: ModuleFormat;
+  formatName: string;
+  title: string;
+  channels: number;
+  // Pattern of each song position, without the skip markers of S3M and IT
+  orders: number[];
+  // patterns[pattern][row][channel]
+  patterns: ModuleCell[][][];
+  samples: ModuleSample[];
+  // Null when notes play samples directly (MOD, S3M and IT files in sample mode)
+  instruments: ModuleInstrument[] | null;
+  initialSpeed: number;
+  initialTempo: number;
+  // 0 to 1
+  globalVolume: number;
+  channelPanning: number[];
+  // 0 to 64; muted channels are 0
+  channelVolume: number[];
+  linearSlides: boolean;
+  // Song message of IT files
+  message: string;
+}
+
+export const MODULE_EXTENSIONS = ['.mod', '.s3m', '.xm', '.it'];
+
+const EMPTY_CELL: ModuleCell = { note: NO_NOTE, instrument: 0, volume: -1, effect: '', param: 0 };
+
+// MOD periods of the octave from C-1 (ProTracker numbering), without finetune
+const MOD_PERIODS = [856, 808, 762, 720, 678, 640, 604, 570, 538, 508, 480, 453];
+
+const latin1 = new TextDecoder('latin1');
+
+class Reader {
+  bytes: Uint8Array;
+  view: DataView;
+
+  constructor(data: ArrayBuffer) {
+    this.bytes = new Uint8Array(data);
+    this.view = new DataView(data);
+  }
+
+  u8(offset: number) { return this.view.getUint8(offset); }
+  s8(offset: number) { return this.view.getInt8(offset); }
+  u16(offset: number) { return this.view.getUint16(offset, true); }
+  u32(offset: number) { return this.view.getUint32(offset, true); }
+  u16be(offset: number) { return this.view.getUint16(offset, false); }
+
+  // Up to the first NUL, without trailing spaces
+  text(offset: number, length: number) {
+    const bytes = this.bytes.subarray(offset, offset + length);
+    const end = bytes.indexOf(0);
+    return latin1.decode(end >= 0 ? bytes.subarray(0, end) : bytes).trimEnd();
+  }
+}
+
+const createSample = (name: string): ModuleSample => ({
+  name,
+  data: new Float32Array(0),
+  loop: 'none',
+  loopStart: 0,
+  loopEnd: 0,
+  sustainLoop: 'none',
+  sustainStart: 0,
+  sustainEnd: 0,
+  volume: 64,
+  globalVolume: 64,
+  panning: null,
+  c5speed: 8363
+});
+
+// Plain PCM sample data, cut short when the file is (like many MODs are)
+const readPcm = (reader: Reader, offset: number, length: number, { sixteenBit = false, signed = true, delta = false } = {}) => {
+  const size = sixteenBit ? 2 : 1;
+  const count = Math.max(0, Math.min(length, Math.floor((reader.bytes.length - offset) / size)));
+  const data = new Float32Array(count);
+  let previous = 0;
+  for (let i = 0; i < count; i++) {
+    let value = sixteenBit ? reader.u16(offset + i * 2) : reader.u8(offset + i);
+    if (delta) value = previous = (previous + value) & (sixteenBit ? 0xffff : 0xff);
+    if (!signed) value ^= sixteenBit ? 0x8000 : 0x80;
+    if (sixteenBit) data[i] = (value >= 0x8000 ? value - 0x10000 : value) / 32768;
+    else data[i] = (value >= 0x80 ? value - 0x100 : value) / 128;
+  }
+  return { data, bytes: count * size };
+};
+
+// ---------------------------------------------------------------------------
+// ProTracker MOD
+
+// Channel count by signature at offset 1080, null when there's none (a 15-sample MOD)
+const modChannels = (signature: string) => {
+  if (['M.K.', 'M!K!', 'M&K!', 'FLT4', 'N.T.'].includes(signature)) return 4;
+  if (['FLT8', 'CD81', 'OKTA', 'OCTA'].includes(signature)) return 8;
+  let match = signature.match(/^(\d)CHN$/);
+  if (match) return Number(match[1]);
+  match = signature.match(/^(\d\d)C[HN]$/);
+  if (match) return Number(match[1]);
+  match = signature.match(/^TDZ(\d)$/);
+  if (match) return Number(match[1]);
+  return null;
+};
+
+const parseMod = (reader: Reader): TrackerModule => {
+  const signature = reader.bytes.length >= 1084 ? latin1.decode(reader.bytes.subarray(1080, 1084)) : '';
+  const signatureChannels = modChannels(signature);
+  const sampleCount = signatureChannels ? 31 : 15;
+  const channels = signatureChannels ?? 4;
+  const ordersOffset = 20 + sampleCount * 30;
+  if (reader.bytes.length < ordersOffset + 130) throw new Error('Not a module file');
+
+  const samples: ModuleSample[] = [];
+  const lengths: number[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    const offset = 20 + i * 30;
+    const sample = createSample(reader.text(offset, 22));
+    const length = reader.u16be(offset + 22) * 2;
+    const finetune = reader.u8(offset + 24) & 0x0f;
+    sample.volume = Math.min(64, reader.u8(offset + 25));
+    sample.c5speed = 8363 * Math.pow(2, (finetune >= 8 ? finetune - 16 : finetune) / 96);
+    const loopStart = reader.u16be(offset + 26) * 2;
+    const loopLength = reader.u16be(offset + 28) * 2;
+    if (loopLength > 2 && loopStart < length) {
+      sample.loop = 'forward';
+      sample.loopStart = loopStart;
+      sample.loopEnd = Math.min(length, loopStart + loopLength);
+    }
+    // Without a signature there's nothing to go by but plausible headers
+    if (!signatureChannels && (reader.u8(offset + 25) > 64 || finetune !== 0)) throw new Error('Not a module file');
+    samples.push(sample);
+    lengths.push(length);
+  }
+
+  const songLength = reader.u8(ordersOffset);
+  const orderTable = Array.from(reader.bytes.subarray(ordersOffset + 2, ordersOffset + 130));
+  if (songLength === 0 || songLength > 128 || orderTable.some(pattern => pattern > 127)) throw new Error('Not a module file');
+  const patternCount = Math.max(...orderTable) + 1;
+
+  const patterns: ModuleCell[][][] = [];
+  let offset = ordersOffset + 130 + (signatureChannels ? 4 : 0);
+  for (let pattern = 0; pattern < patternCount; pattern++) {
+    const rows: ModuleCell[][] = [];
+    for (let row = 0; row < 64; row++) {
+      const cells: ModuleCell[] = [];
+      for (let channel = 0; channel < channels; channel++, offset += 4) {
+        if (offset + 4 > reader.bytes.length) throw new Error('The module file is cut short');
+        const [b0, b1, b2, b3] = reader.bytes.subarray(offset, offset + 4);
+        const period = ((b0 & 0x0f) << 8) | b1;
+        const instrument = (b0 & 0xf0) | (b2 >> 4);
+        const effect = b2 & 0x0f;
+        if (!period && !instrument && !effect && !b3) {
+          cells.push(EMPTY_CELL);
+          continue;
+        }
+        cells.push({
+          note: period ? Math.round(12 * Math.log2(MOD_PERIODS[0] / period)) + 48 : NO_NOTE,
+          instrument,
+          volume: -1,
+          effect: effect || b3 ? effect.toString(16).toUpperCase() : '',
+          param: b3
+        });
+      }
+      rows.push(cells);
+    }
+    patterns.push(rows);
+  }
+
+  samples.forEach((sample, i) => {
+    sample.data = readPcm(reader, offset, lengths[i]).data;
+    offset += lengths[i];
+    sample.loopEnd = Math.min(sample.loopEnd, sample.data.length);
+    if (sample.loopEnd <= sample.loopStart) sample.loop = 'none';
+  });
+
+  return {
+    format: 'mod',
+    formatName: signatureChannels ? `ProTracker MOD (${signature.trim()})` : 'Soundtracker MOD',
+    title: reader.text(0, 20),
+    channels,
+    orders: orderTable.slice(0, songLength),
+    patterns,
+    samples,
+    instruments: null,
+    initialSpeed: 6,
+    initialTempo: 125,
+    globalVolume: 1,
+    // Amiga channels are hard left and right (LRRL), softened a little
+    channelPanning: Array.from({ length: channels }, (_, channel) => (channel % 4 === 0 || channel % 4 === 3 ? 64 : 192)),
+    channelVolume: Array(channels).fill(64),
+    linearSlides: false,
+    message: ''
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Scream Tracker 3 S3M
+
+const parseS3m = (reader: Reader): TrackerModule => {
+  const orderCount = reader.u16(0x20);
+  const instrumentCount = reader.u16(0x22);
+  const patternCount = reader.u16(0x24);
+  const unsignedSamples = reader.u16(0x2a) !== 1;
+  const stereo = (reader.u8(0x33) & 0x80) !== 0;
+  const defaultPanning = reader.u8(0x35) === 0xfc;
+
+  const channelSettings = Array.from(reader.bytes.subarray(0x40, 0x60));
+  // Channels past the last enabled one are dropped
+  const channels = channelSettings.reduce((last, setting, channel) => (setting < 16 ? channel + 1 : last), 0);
+  if (channels === 0) throw new Error('The module has no channels');
+
+  const orders = Array.from(reader.bytes.subarray(0x60, 0x60 + orderCount));
+  const pointers = 0x60 + orderCount;
+  const panningTable = pointers + instrumentCount * 2 + patternCount * 2;
+  const channelPanning = channelSettings.slice(0, channels).map((setting, channel) => {
+    if (defaultPanning && reader.u8(panningTable + channel) & 0x20) return (reader.u8(panningTable + channel) & 0x0f) * 0x11;
+    if (!stereo) return 128;
+    return setting < 8 ? 0x33 : 0xcc;
+  });
+
+  const samples: ModuleSample[] = [];
+  for (let i = 0; i < instrumentCount; i++) {
+    const offset = reader.u16(pointers + i * 2) * 16;
+    const sample = createSample(reader.text(offset + 0x30, 28));
+    samples.push(sample);
+    // Type 1 is a sample; AdLib instruments can't be played
+    if (reader.u8(offset) !== 1) continue;
+
+    const dataOffset = ((reader.u8(offset + 0x0d) << 16) | reader.u16(offset + 0x0e)) * 16;
+    const length = reader.u32(offset + 0x10);
+    const flags = reader.u8(offset + 0x1f);
+    sample.volume = Math.min(64, reader.u8(offset + 0x1c));
+    sample.c5speed = reader.u32(offset + 0x20) || 8363;
+    // Stereo samples keep their left channel
+    sample.data = readPcm(reader, dataOffset, length, { sixteenBit: (flags & 4) !== 0, signed: !unsignedSamples }).data;
+    const loopEnd = Math.min(reader.u32(offset + 0x18), sample.data.length);
+    if (flags & 1 && loopEnd > reader.u32(offset + 0x14)) {
+      sample.loop = 'forward';
+      sample.loopStart = reader.u32(offset + 0x14);
+      sample.loopEnd = loopEnd;
+    }
+  }
+
+  const patterns: ModuleCell[][][] = [];
+  for (let i = 0; i < patternCount; i++) {
+    const rows: ModuleCell[][] = Array.from({ length: 64 }, () => Array(channels).fill(EMPTY_CELL));
+    patterns.push(rows);
+    const start = reader.u16(pointers + instrumentCount * 2 + i * 2) * 16;
+    if (start === 0) continue;
+
+    const end = start + reader.u16(start);
+    let offset = start + 2;
+    for (let row = 0; row < 64 && offset < end;) {
+      const what = reader.u8(offset++);
+      if (what === 0) {
+        row++;
+        continue;
+      }
+      const cell = { ...EMPTY_CELL };
+      if (what & 0x20) {
+        const note = reader.u8(offset++);
+        cell.instrument = reader.u8(offset++);
+        if (note === 254) cell.note = NOTE_CUT;
+        else if (note < 0xf0) cell.note = (note >> 4) * 12 + (note & 0x0f) + 12;
+      }
+      if (what & 0x40) cell.volume = Math.min(64, reader.u8(offset++));
+      if (what & 0x80) {
+        const command = reader.u8(offset++);
+        cell.param = reader.u8(offset++);
+        if (command > 0 && command <= 26) cell.effect = String.fromCharCode(64 + command);
+      }
+      if ((what & 0x1f) < channels) rows[row][what & 0x1f] = cell;
+    }
+  }
+
+  return {
+    format: 's3m',
+    formatName: 'Scream Tracker 3 S3M',
+    title: reader.text(0, 28),
+    channels,
+    orders: orders.filter(pattern => pattern < 254 && pattern < patternCount),
+    patterns,
+    samples,
+    instruments: null,
+    initialSpeed: reader.u8(0x31) || 6,
+    initialTempo: reader.u8(0x32) >= 32 ? reader.u8(0x32) : 125,
+    globalVolume: Math.min(64, reader.u8(0x30)) / 64,
+    channelPanning,
+    channelVolume: Array(channels).fill(64),
+    linearSlides: false,
+    message: ''
+  };
+};
+
+// ---------------------------------------------------------------------------
+// FastTracker 2 XM
+
+const readXmEnvelope = (reader: Reader, offset: number, count: number, sustain: number, loopStart: number, loopEnd: number, type: number): Envelope | null => {
+  if (!(type & 1) || count === 0) return null;
+  const points = Array.from({ length: Math.min(count, 12) }, (_, i) => ({
+    tick: reader.u16(offset + i * 4),
+    value: Math.min(64, reader.u16(offset + i * 4 + 2))
+  }));
+  return {
+    points,
+    // FastTracker sustains on a single point
+    sustainStart: type & 2 ? sustain : -1,
+    sustainEnd: type & 2 ? sustain : -1,
+    loopStart: type & 4 ? loopStart : -1,
+    loopEnd: type & 4 ? loopEnd : -1
+  };
+};
+
+const parseXm = (reader: Reader): TrackerModule => {
+  const headerSize = reader.u32(60);
+  const songLength = reader.u16(64);
+  const channels = reader.u16(68);
+  const patternCount = reader.u16(70);
+  const instrumentCount = reader.u16(72);
+  if (channels === 0 || channels > 64) throw new Error('The module has an invalid number of channels');
+
+  let offset = 60 + headerSize;
+  const patterns: ModuleCell[][][] = [];
+  for (let i = 0; i < patternCount; i++) {
+    const rowCount = reader.u16(offset + 5);
+    const packedSize = reader.u16(offset + 7);
+    let position = offset + reader.u32(offset);
+    const end = position + packedSize;
+    const rows: ModuleCell[][] = [];
+    for (let row = 0; row < (rowCount || 64); row++) {
+      const cells: ModuleCell[] = [];
+      for (let channel = 0; channel < channels; channel++) {
+        if (position >= end) {
+          cells.push(EMPTY_CELL);
+          continue;
+        }
+        let flags = reader.u8(position);
+        if (flags & 0x80) position++;
+        else flags = 0x1f;
+        const note = flags & 1 ? reader.u8(position++) : 0;
+        const instrument = flags & 2 ? reader.u8(position++) : 0;
+        const volume = flags & 4 ? reader.u8(position++) : 0;
+        const effect = flags & 8 ? reader.u8(position++) : 0;
+        const param = flags & 16 ? reader.u8(position++) : 0;
+        if (!note && !instrument && volume < 0x10 && !effect && !param) {
+          cells.push(EMPTY_CELL);
+          continue;
+        }
+        cells.push({
+          note: note === 97 ? NOTE_OFF : note > 0 && note < 97 ? note + 11 : NO_NOTE,
+          instrument,
+          volume: volume >= 0x10 ? volume : -1,
+          effect: effect || param ? effect.toString(36).toUpperCase() : '',
+          param
+        });
+      }
+      rows.push(cells);
+    }
+    patterns.push(rows);
+    offset = end;
+  }
+
+  const samples: ModuleSample[] = [];
+  const instruments: ModuleInstrument[] = [];
+  for (let i = 0; i < instrumentCount; i++) {
+    const size = reader.u32(offset);
+    const sampleCount = reader.u16(offset + 27);
+    const instrument: ModuleInstrument = {
+      name: reader.text(offset + 4, 22),
+      keymap: Array.from({ length: 120 }, (_, note) => ({ sample: -1, note })),
+      volumeEnvelope: null,
+      panningEnvelope: null,
+      fadeout: 0,
+      globalVolume: 1,
+      panning: null
+    };
+    instruments.push(instrument);
+    if (sampleCount === 0) {
+      offset += size;
+      continue;
+    }
+
+    const sampleHeaderSize = reader.u32(offset + 29);
+    const firstSample = samples.length;
+    for (let note = 0; note < 96; note++) {
+      instrument.keymap[note + 12] = { sample: firstSample + reader.u8(offset + 33 + note), note: note + 12 };
+    }
+    instrument.volumeEnvelope = readXmEnvelope(reader, offset + 129, reader.u8(offset + 225), reader.u8(offset + 227), reader.u8(offset + 228), reader.u8(offset + 229), reader.u8(offset + 233));
+    instrument.panningEnvelope = readXmEnvelope(reader, offset + 177, reader.u8(offset + 226), reader.u8(offset + 230), reader.u8(offset + 231), reader.u8(offset + 232), reader.u8(offset + 234));
+    instrument.fadeout = reader.u16(offset + 239) / 32768;
+    offset += size;
+
+    const headers = [];
+    for (let j = 0; j < sampleCount; j++, offset += sampleHeaderSize) {
+      const type = reader.u8(offset + 14);
+      const sixteenBit = (type & 0x10) !== 0;
+      const sample = createSample(reader.text(offset + 18, 22));
+      sample.volume = Math.min(64, reader.u8(offset + 12));
+      sample.panning = reader.u8(offset + 15);
+      sample.c5speed = 8363 * Math.pow(2, (reader.s8(offset + 16) + reader.s8(offset + 13) / 128) / 12);
+      const divisor = sixteenBit ? 2 : 1;
+      sample.loopStart = Math.floor(reader.u32(offset + 4) / divisor);
+      sample.loopEnd = sample.loopStart + Math.floor(reader.u32(offset + 8) / divisor);
+      sample.loop = (type & 3) === 1 ? 'forward' : (type & 3) >= 2 ? 'pingpong' : 'none';
+      headers.push({ sample, length: Math.floor(reader.u32(offset) / divisor), sixteenBit });
+    }
+    for (const { sample, length, sixteenBit } of headers) {
+      const pcm = readPcm(reader, offset, length, { sixteenBit, delta: true });
+      sample.data = pcm.data;
+      offset += pcm.bytes;
+      sample.loopEnd = Math.min(sample.loopEnd, sample.data.length);
+      if (sample.loopEnd <= sample.loopStart) sample.loop = 'none';
+      samples.push(sample);
+    }
+    // Samples the keymap points at but the instrument doesn't have
+    for (const entry of instrument.keymap) if (entry.sample >= samples.length) entry.sample = -1;
+  }
+
+  return {
+    format: 'xm',
+    formatName: `FastTracker 2 XM (${reader.text(38, 20) || 'unknown tracker'})`,
+    title: reader.text(17, 20),
+    channels,
+    orders: Array.from(reader.bytes.subarray(80, 80 + Math.min(songLength, 256))).filter(pattern => pattern < patternCount),
+    patterns,
+    samples,
+    instruments,
+    initialSpeed: reader.u16(76) || 6,
+    initialTempo: reader.u16(78) || 125,
+    globalVolume: 1,
+    channelPanning: Array(channels).fill(128),
+    channelVolume: Array(channels).fill(64),
+    linearSlides: (reader.u16(74) & 1) !== 0,
+    message: ''
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Impulse Tracker IT
+
+// IT 2.14 and 2.15 compressed samples: blocks of variable bit width deltas
+const decompressIt = (reader: Reader, offset: number, length: number, sixteenBit: boolean, it215: boolean) => {
+  const data = new Float32Array(length);
+  const blockSamples = sixteenBit ? 0x4000 : 0x8000;
+  const topWidth = sixteenBit ? 17 : 9;
+  const sampleBits = sixteenBit ? 16 : 8;
+  let written = 0;
+
+  while (written < length && offset + 2 <= reader.bytes.length) {
+    const blockBytes = reader.u16(offset);
+    let bitPosition = (offset + 2) * 8;
+    const blockEnd = Math.min(reader.bytes.length, offset + 2 + blockBytes) * 8;
+    offset += 2 + blockBytes;
+
+    const readBits = (count: number) => {
+      let value = 0;
+      for (let i = 0; i < count; i++, bitPosition++) {
+        if (bitPosition >= blockEnd) return value;
+        value |= ((reader.bytes[bitPosition >> 3] >> (bitPosition & 7)) & 1) << i;
+      }
+      return value;
+    };
+
+    let width = topWidth;
+    let delta1 = 0;
+    let delta2 = 0;
+    const count = Math.min(blockSamples, length - written);
+    for (let i = 0; i < count && bitPosition < blockEnd && width <= topWidth;) {
+      const value = readBits(width);
+      if (width < 7) {
+        if (value === 1 << (width - 1)) {
+          const next = readBits(sixteenBit ? 4 : 3) + 1;
+          width = next < width ? next : next + 1;
+          continue;
+        }
+      } else if (width < topWidth) {
+        const border = ((sixteenBit ? 0xffff : 0xff) >> (topWidth - width)) - (sixteenBit ? 8 : 4);
+        if (value > border && value <= border + (sixteenBit ? 16 : 8)) {
+          const next = value - border;
+          width = next < width ? next : next + 1;
+          continue;
+        }
+      } else if (value & (1 << (topWidth - 1))) {
+        width = (value + 1) & 0xff;
+        continue;
+      }
+
+      // Values narrower than a sample are signed in their own width
+      const shift = 32 - Math.min(width, sampleBits);
+      const signed = (value << shift) >> shift;
+      delta1 = (delta1 + signed) << (32 - sampleBits) >> (32 - sampleBits);
+      delta2 = (delta2 + delta1) << (32 - sampleBits) >> (32 - sampleBits);
+      data[written + i] = (it215 ? delta2 : delta1) / (sixteenBit ? 32768 : 128);
+      i++;
+    }
+    written += count;
+  }
+  return data;
+};
+
+const readItEnvelope = (reader: Reader, offset: number, center: number): Envelope | null => {
+  const flags = reader.u8(offset);
+  const count = Math.min(25, reader.u8(offset + 1));
+  if (!(flags & 1) || count === 0) return null;
+  return {
+    // Panning nodes are -32 to 32
+    points: Array.from({ length: count }, (_, i) => ({
+      tick: reader.u16(offset + 7 + i * 3),
+      value: Math.max(0, Math.min(64, reader.s8(offset + 6 + i * 3) + center))
+    })),
+    loopStart: flags & 2 ? reader.u8(offset + 2) : -1,
+    loopEnd: flags & 2 ? reader.u8(offset + 3) : -1,
+    sustainStart: flags & 4 ? reader.u8(offset + 4) : -1,
+    sustainEnd: flags & 4 ? reader.u8(offset + 5) : -1
+  };
+};
+
+const parseIt = (reader: Reader): TrackerModule => {
+  const orderCount = reader.u16(0x20);
+  const instrumentCount = reader.u16(0x22);
+  const sampleCount = reader.u16(0x24);
+  const patternCount = reader.u16(0x26);
+  const compatibleVersion = reader.u16(0x2a);
+  const flags = reader.u16(0x2c);
+  const useInstruments = (flags & 4) !== 0;
+
+  const orders = Array.from(reader.bytes.subarray(0xc0, 0xc0 + orderCount));
+  const instrumentPointers = 0xc0 + orderCount;
+  const samplePointers = instrumentPointers + instrumentCount * 4;
+  const patternPointers = samplePointers + sampleCount * 4;
+
+  const samples: ModuleSample[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    const offset = reader.u32(samplePointers + i * 4);
+    const sample = createSample(reader.text(offset + 0x14, 26));
+    samples.push(sample);
+    const sampleFlags = reader.u8(offset + 0x12);
+    const convert = reader.u8(offset + 0x2e);
+    const panning = reader.u8(offset + 0x2f);
+    sample.globalVolume = Math.min(64, reader.u8(offset + 0x11));
+    sample.volume = Math.min(64, reader.u8(offset + 0x13));
+    sample.panning = panning & 0x80 ? Math.min(64, panning & 0x7f) * 4 : null;
+    sample.c5speed = reader.u32(offset + 0x3c) || 8363;
+    if (!(sampleFlags & 1)) continue;
+
+    const length = reader.u32(offset + 0x30);
+    const sixteenBit = (sampleFlags & 2) !== 0;
+    const dataOffset = reader.u32(offset + 0x48);
+    sample.data = sampleFlags & 8
+      ? decompressIt(reader, dataOffset, length, sixteenBit, (convert & 4) !== 0)
+      : readPcm(reader, dataOffset, length, { sixteenBit, signed: (convert & 1) !== 0 }).data;
+
+    const loopStart = reader.u32(offset + 0x34);
+    const loopEnd = Math.min(reader.u32(offset + 0x38), sample.data.length);
+    if (sampleFlags & 0x10 && loopEnd > loopStart) {
+      sample.loop = sampleFlags & 0x40 ? 'pingpong' : 'forward';
+      sample.loopStart = loopStart;
+      sample.loopEnd = loopEnd;
+    }
+    const sustainStart = reader.u32(offset + 0x40);
+    const sustainEnd = Math.min(reader.u32(offset + 0x44), sample.data.length);
+    if (sampleFlags & 0x20 && sustainEnd > sustainStart) {
+      sample.sustainLoop = sampleFlags & 0x80 ? 'pingpong' : 'forward';
+      sample.sustainStart = sustainStart;
+      sample.sustainEnd = sustainEnd;
+    }
+  }
+
+  let instruments: ModuleInstrument[] | null = null;
+  if (useInstruments) {
+    instruments = [];
+    for (let i = 0; i < instrumentCount; i++) {
+      const offset = reader.u32(instrumentPointers + i * 4);
+      const keymap = Array.from({ length: 120 }, (_, note) => {
+        const mapped = reader.u8(offset + 0x40 + note * 2);
+        const sample = reader.u8(offset + 0x41 + note * 2);
+        return { note: mapped < 120 ? mapped : note, sample: sample > 0 && sample <= samples.length ? sample - 1 : -1 };
+      });
+      // Instruments of trackers before IT 2.0 have a different layout; only their keymap is used
+      const isOld = compatibleVersion < 0x200;
+      const panning = reader.u8(offset + 0x19);
+      instruments.push({
+        name: reader.text(offset + 0x20, 26),
+        keymap,
+        volumeEnvelope: isOld ? null : readItEnvelope(reader, offset + 0x130, 0),
+        panningEnvelope: isOld ? null : readItEnvelope(reader, offset + 0x182, 32),
+        fadeout: (isOld ? reader.u16(offset + 0x18) * 2 : reader.u16(offset + 0x14)) / 1024,
+        globalVolume: isOld ? 1 : Math.min(128, reader.u8(offset + 0x18)) / 128,
+        panning: !isOld && !(panning & 0x80) ? Math.min(64, panning) * 4 : null
+      });
+    }
+  }
+
+  const channelPanning: number[] = [];
+  const channelVolume: number[] = [];
+  for (let channel = 0; channel < 64; channel++) {
+    const panning = reader.u8(0x40 + channel);
+    // Surround (100) plays in the middle
+    channelPanning.push((panning & 0x7f) <= 64 ? Math.min(255, (panning & 0x7f) * 4) : 128);
+    channelVolume.push(panning & 0x80 ? 0 : Math.min(64, reader.u8(0x80 + channel)));
+  }
+
+  let channels = 0;
+  const patterns: ModuleCell[][][] = [];
+  for (let i = 0; i < patternCount; i++) {
+    const offset = reader.u32(patternPointers + i * 4);
+    if (offset === 0) {
+      patterns.push(Array.from({ length: 64 }, () => Array(64).fill(EMPTY_CELL)));
+      continue;
+    }
+    const length = reader.u16(offset);
+    const rowCount = reader.u16(offset + 2);
+    const rows: ModuleCell[][] = Array.from({ length: rowCount }, () => Array(64).fill(EMPTY_CELL));
+    const masks = new Array(64).fill(0);
+    const last = Array.from({ length: 64 }, () => ({ ...EMPTY_CELL }));
+    let position = offset + 8;
+    const end = position + length;
+    for (let row = 0; row < rowCount && position < end;) {
+      const channelByte = reader.u8(position++);
+      if (channelByte === 0) {
+        row++;
+        continue;
+      }
+      const channel = (channelByte - 1) & 63;
+      if (channelByte & 0x80) masks[channel] = reader.u8(position++);
+      const mask = masks[channel];
+      const cell = { ...EMPTY_CELL };
+      const previous = last[channel];
+      if (mask & 1) {
+        const note = reader.u8(position++);
+        previous.note = note < 120 ? note : note === 255 ? NOTE_OFF : note === 254 ? NOTE_CUT : NOTE_FADE;
+      }
+      if (mask & 2) previous.instrument = reader.u8(position++);
+      if (mask & 4) previous.volume = reader.u8(position++);
+      if (mask & 8) {
+        const command = reader.u8(position++);
+        previous.param = reader.u8(position++);
+        previous.effect = command > 0 && command <= 26 ? String.fromCharCode(64 + command) : '';
+      }
+      if (mask & 0x11) cell.note = previous.note;
+      if (mask & 0x22) cell.instrument = previous.instrument;
+      if (mask & 0x44) cell.volume = previous.volume;
+      if (mask & 0x88) {
+        cell.effect = previous.effect;
+        cell.param = previous.param;
+      }
+      rows[row][channel] = cell;
+      channels = Math.max(channels, channel + 1);
+    }
+    patterns.push(rows);
+  }
+  if (channels === 0) channels = 1;
+
+  const messageLength = reader.u16(0x36);
+  const messageOffset = reader.u32(0x38);
+  const message = reader.u16(0x2e) & 1 && messageLength
+    ? latin1.decode(reader.bytes.subarray(messageOffset, messageOffset + messageLength)).split('\0')[0].replace(/\r/g, '\n')
+    : '';
+
+  return {
+    format: 'it',
+    formatName: 'Impulse Tracker IT',
+    title: reader.text(4, 26),
+    channels,
+    orders: orders.filter(pattern => pattern < 254 && pattern < patternCount),
+    patterns: patterns.map(rows => rows.map(cells => cells.slice(0, channels))),
+    samples,
+    instruments,
+    initialSpeed: reader.u8(0x32) || 6,
+    initialTempo: reader.u8(0x33) >= 32 ? reader.u8(0x33) : 125,
+    globalVolume: Math.min(128, reader.u8(0x30)) / 128,
+    channelPanning: flags & 1 ? channelPanning.slice(0, channels) : Array(channels).fill(128),
+    channelVolume: channelVolume.slice(0, channels),
+    linearSlides: (flags & 8) !== 0,
+    message
+  };
+};
+
+// ---------------------------------------------------------------------------
+
+// Throws an Error with a message for the user when the file can't be read
+export const parseModule = (data: ArrayBuffer): TrackerModule => {
+  const reader = new Reader(data);
+  const signature = (offset: number, length: number) => latin1.decode(reader.bytes.subarray(offset, offset + length));
+  try {
+    let module: TrackerModule;
+    if (signature(0, 17) === 'Extended Module: ') module = parseXm(reader);
+    else if (signature(0, 4) === 'IMPM') module = parseIt(reader);
+    else if (signature(0x2c, 4) === 'SCRM') module = parseS3m(reader);
+    else module = parseMod(reader);
+    if (module.orders.length === 0) throw new Error('The module has no patterns to play');
+    return module;
+  } catch (error) {
+    if (error instanceof RangeError) throw new Error('The module file is damaged or cut short');
+    throw error;
+  }
+};
@@ -0,0 +1,184 @@
+import { API_HEADERS } from './apiHeaders';
+
+// Frames of a video taken in the browser from a hidden <video>, for scrubbing grid cards.
+// All frames go into one strip image, shown a frame at a time as a CSS background.
+// Poster frames are taken the same way and uploaded into the server's thumbnail cache
+
+const API_BASE = 'http://localhost:3001/api';
+
+export interface VideoFrames {
+  // Object URL of the strip, frames side by side
+  url: string;
+  count: number;
+  duration: number;
+}
+
+const FRAME_COUNT = 12;
+// Frames are square like the cards, cropped from the middle of the picture
+const FRAME_SIZE = 200;
+// Per load or seek; some files never report their data and would hang the queue
+const EVENT_TIMEOUT = 10000;
+// Where the poster is taken when none was picked, past fade-ins and black leaders
+const POSTER_POSITION = 0.1;
+// Longest side of an uploaded poster, the server scales it down to each thumbnail size
+const POSTER_SIZE = 512;
+
+// By path and modification time, for the whole session (failed videos aren't tried again)
+const cache = new Map<string, Promise<VideoFrames>>();
+// Posters being taken and saved, by path and modification time
+const posters = new Map<string, Promise<void>>();
+const posterListeners = new Set<(filePath: string) => void>();
+// One video is decoded at a time so hovering across a grid doesn't start dozens
+let queue: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(task: () => Promise<T>) => {
+  const result = queue.then(task);
+  queue = result.catch(() => {});
+  return result;
+};
+
+const waitFor = (video: HTMLVideoElement, event: string) => new Promise<void>((resolve, reject) => {
+  const done = (error?: Error) => {
+    clearTimeout(timer);
+    video.removeEventListener(event, handleEvent);
+    video.removeEventListener('error', handleError);
+    if (error) reject(error);
+    else resolve();
+  };
+  const handleEvent = () => done();
+  const handleError = () => done(new Error('The browser can\'t play this video'));
+  const timer = setTimeout(() => done(new Error('The video took too long to load')), EVENT_TIMEOUT);
+  video.addEventListener(event, handleEvent);
+  video.addEventListener('error', handleError);
+});
+
+// A hidden, muted video with its first frame loaded
+const openVideo = async (url: string) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  // The files come from the API server, and a cross-origin frame would taint the canvas
+  video.crossOrigin = 'anonymous';
+  video.src = url;
+
+  try {
+    await waitFor(video, 'loadeddata');
+  } catch (error) {
+    closeVideo(video);
+    throw error;
+  }
+  if (!Number.isFinite(video.duration) || video.duration <= 0 || !video.videoWidth || !video.videoHeight) {
+    closeVideo(video);
+    throw new Error('The video has no length or picture');
+  }
+  return video;
+};
+
+// Lets the browser drop the decoder right away instead of at garbage collection
+const closeVideo = (video: HTMLVideoElement) => {
+  video.removeAttribute('src');
+  video.load();
+};
+
+const seek = (video: HTMLVideoElement, time: number) => {
+  video.currentTime = time;
+  return waitFor(video, 'seeked');
+};
+
+const toJpeg = async (canvas: HTMLCanvasElement) => {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+  if (!blob) throw new Error('Failed to store the video frames');
+  return blob;
+};
+
+const extractFrames = async (url: string): Promise<VideoFrames> => {
+  const video = await openVideo(url);
+  try {
+    const { duration, videoWidth, videoHeight } = video;
+    const canvas = document.createElement('canvas');
+    canvas.width = FRAME_SIZE * FRAME_COUNT;
+    canvas.height = FRAME_SIZE;
+    const context = canvas.getContext('2d')!;
+    const scale = Math.max(FRAME_SIZE / videoWidth, FRAME_SIZE / videoHeight);
+    const width = videoWidth * scale;
+    const height = videoHeight * scale;
+
+    for (let frame = 0; frame < FRAME_COUNT; frame++) {
+      await seek(video, (duration * (frame + 0.5)) / FRAME_COUNT);
+      context.save();
+      context.beginPath();
+      context.rect(frame * FRAME_SIZE, 0, FRAME_SIZE, FRAME_SIZE);
+      context.clip();
+      context.drawImage(video, frame * FRAME_SIZE + (FRAME_SIZE - width) / 2, (FRAME_SIZE - height) / 2, width, height);
+      context.restore();
+    }
+
+    const blob = await toJpeg(canvas);
+    return { url: URL.createObjectURL(blob), count: FRAME_COUNT, duration };
+  } finally {
+    closeVideo(video);
+  }
+};
+
+// One frame at its own aspect ratio, at `time` seconds or a tenth of the way in
+const capturePoster = async (url: string, time?: number) => {
+  const video = await openVideo(url);
+  try {
+    const { duration, videoWidth, videoHeight } = video;
+    await seek(video, Math.min(time ?? duration * POSTER_POSITION, duration));
+    const scale = Math.min(POSTER_SIZE / Math.max(videoWidth, videoHeight), 1);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(videoWidth * scale);
+    canvas.height = Math.round(videoHeight * scale);
+    canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return await toJpeg(canvas);
+  } finally {
+    closeVideo(video);
+  }
+};
+
+export const getVideoFrames = (url: string, cacheKey: string): Promise<VideoFrames> => {
+  const cached = cache.get(cacheKey);
+  if (cached) return cached;
+  const frames = enqueue(() => extractFrames(url));
+  cache.set(cacheKey, frames);
+  return frames;
+};
+
+// Already taken frames, without starting to take them
+export const peekVideoFrames = (cacheKey: string) => cache.get(cacheKey);
+
+// Take a poster frame and store it as the video's thumbnail; cards showing the video reload theirs
+export const saveVideoPoster = async (filePath: string, url: string, time?: number) => {
+  const poster = await enqueue(() => capturePoster(url, time));
+  const endpoint = new URL(`${API_BASE}/thumbnail`);
+  endpoint.searchParams.set('path', filePath);
+  const response = await fetch(endpoint, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'image/jpeg', ...API_HEADERS },
+    body: poster
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({ error: 'Failed to save the poster frame' }));
+    throw new Error(data.error || 'Failed to save the poster frame');
+  }
+  posterListeners.forEach(listener => listener(filePath));
+};
+
+// Poster for a video that has none yet, taken once per session (failures included)
+export const ensureVideoPoster = (filePath: string, url: string, cacheKey: string) => {
+  let poster = posters.get(cacheKey);
+  if (!poster) {
+    poster = saveVideoPoster(filePath, url);
+    posters.set(cacheKey, poster);
+  }
+  return poster;
+};
+
+// Called with the path of every video that gets a new poster, returns the unsubscribe
+export const onVideoPosterSaved = (listener: (filePath: string) => void) => {
+  posterListeners.add(listener);
+  return () => {
+    posterListeners.delete(listener);
+  };
+};